@@ -3,15 +3,27 @@ import cors from "cors";
 import morgan from "morgan";
 import priceListRoutes from "./microprojects/priceList/interfaces/routes/routerPriceList";
 import routerAuth from "./microprojects/auth/interfaces/routes/routerAuth";
+import { jwksHandler } from "./shared/auth/jwks";
 
 
 const app = express();
 
+// Detrás del balanceador req.ip debe ser la IP del cliente (X-Forwarded-For) y no la
+// del proxy, o el bloqueo de login por IP afectaría a todos. TRUST_PROXY acepta los
+// valores de "trust proxy" de Express: número de saltos, true o lista de IPs/subredes.
+const TRUST_PROXY = process.env.TRUST_PROXY;
+if (TRUST_PROXY) {
+  app.set(
+    "trust proxy",
+    /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY === "true" ? true : TRUST_PROXY
+  );
+}
+
 // CORS
 app.use(cors({
   origin: "*",
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "x-token"]
+  allowedHeaders: ["Content-Type", "Authorization", "x-token", "x-api-key"]
 }));
 
 // Middlewares
@@ -22,5 +34,6 @@ app.use(morgan("common"));
 // Rutas
 app.use("/api/price-lists", priceListRoutes);
 app.use("/api/auth", routerAuth);
+app.get("/.well-known/jwks.json", jwksHandler);
 
 export default app;
@@ -2,6 +2,7 @@ import app from "./app";
 import https from "https";
 import http from "http";
 import fs from "fs";
+import { startValidityScheduler } from "./microprojects/priceList/interfaces/jobs/validityScheduler";
 
 const PORT = Number(process.env.PORT) || 3003;
 const NODE_ENV = process.env.NODE_ENV
@@ -27,3 +28,5 @@ if (
     console.log(`⚠️ Servidor HTTP escuchando en http://0.0.0.0:${PORT}`);
   });
 }
+
+startValidityScheduler();
@@ -0,0 +1,10 @@
+export interface ApiKey {
+  id: number;
+  userId: string;    // id_proveedor dueño de la llave
+  name: string;      // nombre descriptivo, p. ej. "ERP SAP B1"
+  prefix: string;    // primeros caracteres visibles para identificar la llave
+  scopes: string[];  // operaciones permitidas (price-lists:read, price-lists:write)
+  createdAt: Date;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+}
@@ -0,0 +1,6 @@
+export interface Credentials {
+  userId: string;              // id_proveedor
+  passwordHash: string;        // hash bcrypt
+  mustChangePassword: boolean; // obliga a cambiar la contraseña en el próximo ingreso
+  updatedAt?: Date;
+}
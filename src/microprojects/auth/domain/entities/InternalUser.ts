@@ -0,0 +1,13 @@
+import { Role } from "../../../../shared/auth/roles";
+
+// Usuario interno de Tierragro (compradores y administradores)
+export interface InternalUser {
+  id: string;
+  username: string;
+  name?: string;
+  email?: string;
+  role: Role;
+  active: boolean;
+  centros?: string[] | null; // centros de distribución (bk_centro) que puede consultar; null = todos
+  passwordHash?: string; // solo en repo, no devolver al cliente
+}
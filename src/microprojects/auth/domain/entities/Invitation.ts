@@ -0,0 +1,9 @@
+export interface Invitation {
+  id: number;
+  supplierId: string; // id_proveedor que invita
+  email: string;
+  tokenHash: string;  // SHA-256 del token enviado por correo
+  invitedBy?: string | null;
+  expiresAt: Date;
+  acceptedAt?: Date | null;
+}
@@ -0,0 +1,6 @@
+export interface LoginAttempt {
+  key: string;               // "supplier:user:<nit>", "internal:ip:<ip>", etc.
+  failures: number;          // intentos fallidos consecutivos dentro de la ventana
+  lastFailureAt: Date;
+  lockedUntil: Date | null;  // bloqueo temporal tras superar el máximo de fallos
+}
@@ -0,0 +1,7 @@
+export interface PasswordResetToken {
+  id: number;
+  userId: string;   // id_proveedor
+  tokenHash: string; // SHA-256 del token enviado por correo
+  expiresAt: Date;
+  usedAt?: Date | null;
+}
@@ -0,0 +1,13 @@
+// Tipo de titular de la sesión: proveedor (NIT), colaborador del proveedor o usuario interno
+export type SessionUserType = "supplier" | "supplier_user" | "internal";
+
+export interface RefreshToken {
+  id: number;
+  familyId: string;  // todos los tokens rotados de una misma sesión comparten familia
+  userId: string;    // id_proveedor, id del colaborador o id del usuario interno, según userType
+  userType: SessionUserType;
+  tokenHash: string; // SHA-256 del token entregado al cliente
+  expiresAt: Date;
+  usedAt?: Date | null;       // fecha en que se rotó por uno nuevo
+  familyRevokedAt?: Date | null;
+}
@@ -0,0 +1,5 @@
+export interface Session {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // segundos de vigencia del access token
+}
@@ -0,0 +1,16 @@
+export interface SupplierProfile {
+  id: string;      // id_proveedor
+  nit: string;     // Nit_proveedor
+  name: string;    // descripcion_comercial
+  email?: string;  // Correo
+  phone?: string;  // Telefono
+}
+
+// Campos de contacto que el propio proveedor puede actualizar
+export type SupplierContactField = "email" | "phone";
+
+export interface ProfileChange {
+  field: SupplierContactField;
+  oldValue: string | null;
+  newValue: string | null;
+}
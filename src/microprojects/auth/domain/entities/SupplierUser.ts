@@ -0,0 +1,11 @@
+// Colaborador de un proveedor con credenciales propias (comercial, cartera, etc.)
+export interface SupplierUser {
+  id: string;
+  supplierId: string; // id_proveedor al que pertenece
+  email: string;
+  name?: string;
+  active: boolean;
+  invitedBy?: string | null;
+  createdAt?: Date;
+  passwordHash?: string; // solo en repo, no devolver al cliente
+}
@@ -1,7 +1,15 @@
+import { Role } from "../../../../shared/auth/roles";
+
 export interface User {
   id: string;
   username?: string; // Nit_proveedor
   name?: string;      // descripcion_comercial
   email?: string;     // Correo
   password?: string;  // hashed password (solo en repo, no devolver al cliente)
+  mustChangePassword?: boolean; // true mientras el proveedor no haya definido su propia contraseña
+  role?: Role;        // "supplier" si no se indica
+  userId?: string;    // id en supplier_users cuando ingresa un colaborador del proveedor
+  userName?: string;  // nombre del colaborador
+  supplierRole?: "owner" | "member"; // owner = cuenta del NIT; member = colaborador invitado
+  centros?: string[] | null; // centros de distribución permitidos a un usuario interno; null = todos
 }
@@ -0,0 +1,17 @@
+import { User } from "./entities/User";
+import { SupplierUser } from "./entities/SupplierUser";
+
+/**
+ * Identidad de sesión de un colaborador: conserva el id del proveedor en `id`
+ * (para que el filtrado por proveedor siga funcionando) y agrega el del colaborador.
+ */
+export const buildMemberUser = (supplier: User, member: SupplierUser): User => ({
+  id: supplier.id,
+  username: supplier.username,
+  name: supplier.name,
+  email: member.email,
+  role: "supplier",
+  userId: member.id,
+  userName: member.name,
+  supplierRole: "member",
+});
@@ -0,0 +1,25 @@
+import { User } from "./entities/User";
+
+const MIN_LENGTH = 8;
+
+/**
+ * Valida una nueva contraseña contra la política del portal.
+ *
+ * Devuelve la lista de incumplimientos (vacía si la contraseña es válida).
+ */
+export const validatePassword = (password: string, user: User): string[] => {
+  const errors: string[] = [];
+
+  if (typeof password !== "string" || password.length < MIN_LENGTH) {
+    errors.push(`La contraseña debe tener al menos ${MIN_LENGTH} caracteres`);
+    return errors;
+  }
+  if (!/[a-zA-Z]/.test(password) || !/\d/.test(password)) {
+    errors.push("La contraseña debe contener letras y números");
+  }
+  if (password === String(user.id) || password === user.username) {
+    errors.push("La contraseña no puede ser el NIT ni el código del proveedor");
+  }
+
+  return errors;
+};
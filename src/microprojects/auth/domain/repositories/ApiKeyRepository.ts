@@ -0,0 +1,8 @@
+import { ApiKey } from "../entities/ApiKey";
+
+export interface ApiKeyRepository {
+  create(userId: string, name: string, prefix: string, keyHash: string, scopes: string[]): Promise<ApiKey>;
+  listByUser(userId: string): Promise<ApiKey[]>;
+  // devuelve false si la llave no existe, no es del proveedor o ya estaba revocada
+  revoke(userId: string, id: number): Promise<boolean>;
+}
@@ -1,6 +1,10 @@
 import { User } from "../entities/User";
+import { Credentials } from "../entities/Credentials";
 
 export interface AuthRepository {
-  // ahora usa username en lugar de email
-  login(username: string, password: string): Promise<User | null>;
+  // el username es el Nit_proveedor
+  findByUsername(username: string): Promise<User | null>;
+  findById(id: string): Promise<User | null>;
+  getCredentials(userId: string): Promise<Credentials | null>;
+  saveCredentials(userId: string, passwordHash: string, mustChangePassword: boolean): Promise<void>;
 }
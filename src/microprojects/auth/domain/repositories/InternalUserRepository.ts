@@ -0,0 +1,7 @@
+import { InternalUser } from "../entities/InternalUser";
+
+export interface InternalUserRepository {
+  findByUsername(username: string): Promise<InternalUser | null>;
+  findById(id: string): Promise<InternalUser | null>;
+  create(user: Omit<InternalUser, "id">): Promise<InternalUser>;
+}
@@ -0,0 +1,9 @@
+import { Invitation } from "../entities/Invitation";
+
+export interface InvitationRepository {
+  create(supplierId: string, email: string, tokenHash: string, invitedBy: string | null, expiresAt: Date): Promise<void>;
+  findValid(tokenHash: string): Promise<Invitation | null>;
+  // marca la invitación como aceptada; devuelve false si ya fue usada o expiró
+  accept(tokenHash: string): Promise<boolean>;
+  cancelPending(supplierId: string, email: string): Promise<void>;
+}
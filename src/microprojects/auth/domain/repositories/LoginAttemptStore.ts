@@ -0,0 +1,18 @@
+import { LoginAttempt } from "../entities/LoginAttempt";
+
+export interface LoginAttemptPolicy {
+  maxFailures: number; // fallos que disparan el bloqueo
+  lockoutMs: number;   // duración del bloqueo
+  windowMs: number;    // tras este tiempo sin fallos el contador se reinicia
+}
+
+/**
+ * Almacén de intentos de login. Hay una implementación en memoria (una sola
+ * instancia) y otra en Postgres (varias instancias detrás de un balanceador).
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttempt | null>;
+  // incrementa el contador de forma atómica y aplica el bloqueo si corresponde
+  recordFailure(key: string, policy: LoginAttemptPolicy): Promise<LoginAttempt>;
+  reset(key: string): Promise<void>;
+}
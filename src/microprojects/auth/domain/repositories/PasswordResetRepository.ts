@@ -0,0 +1,9 @@
+import { PasswordResetToken } from "../entities/PasswordResetToken";
+
+export interface PasswordResetRepository {
+  create(userId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  findValid(tokenHash: string): Promise<PasswordResetToken | null>;
+  // marca el token como usado; devuelve false si ya fue usado o expiró
+  consume(tokenHash: string): Promise<boolean>;
+  invalidateForUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { RefreshToken, SessionUserType } from "../entities/RefreshToken";
+
+export interface RefreshTokenRepository {
+  createFamily(familyId: string, userId: string, userType: SessionUserType): Promise<void>;
+  create(familyId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  findByHash(tokenHash: string): Promise<RefreshToken | null>;
+  // marca el token como rotado; devuelve false si ya lo estaba
+  markUsed(id: number): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<void>;
+  revokeAllForUser(userId: string, userType: SessionUserType): Promise<void>;
+}
@@ -0,0 +1,7 @@
+import { ProfileChange, SupplierProfile } from "../entities/SupplierProfile";
+
+export interface SupplierProfileRepository {
+  findById(id: string): Promise<SupplierProfile | null>;
+  // Aplica los cambios de contacto y los deja auditados; si uno falla, no queda ninguno
+  applyChanges(supplierId: string, changes: ProfileChange[], changedBy: string): Promise<void>;
+}
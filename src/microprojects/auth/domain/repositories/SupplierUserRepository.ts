@@ -0,0 +1,11 @@
+import { SupplierUser } from "../entities/SupplierUser";
+
+export interface SupplierUserRepository {
+  findByEmail(email: string): Promise<SupplierUser | null>;
+  findById(id: string): Promise<SupplierUser | null>;
+  listBySupplier(supplierId: string): Promise<SupplierUser[]>;
+  create(user: Omit<SupplierUser, "id" | "createdAt">): Promise<SupplierUser>;
+  updatePassword(id: string, passwordHash: string): Promise<void>;
+  // devuelve false si el usuario no existe o no pertenece al proveedor
+  deactivate(supplierId: string, id: string): Promise<boolean>;
+}
@@ -1,46 +1,392 @@
 import { Request, Response } from "express";
-import jwt from "jsonwebtoken";
 import { repositoryAuth } from "../../repositories/repositoryAuth";
+import { repositoryPasswordReset } from "../../repositories/repositoryPasswordReset";
+import { repositoryRefreshToken } from "../../repositories/repositoryRefreshToken";
+import { repositoryInternalUser } from "../../repositories/repositoryInternalUser";
+import { repositoryApiKey } from "../../repositories/repositoryApiKey";
+import { repositorySupplierUser } from "../../repositories/repositorySupplierUser";
+import { repositoryInvitation } from "../../repositories/repositoryInvitation";
+import { repositorySupplierProfile } from "../../repositories/repositorySupplierProfile";
+import { repositoryLoginAttempt } from "../../repositories/repositoryLoginAttempt";
+import { memoryLoginAttemptStore } from "../../repositories/memoryLoginAttemptStore";
 import { LoginUserUseCase } from "../../usecases/loginUserCase";
-
-const JWT_SECRET = process.env.JWT_SECRET as string;
+import { LoginInternalUserUseCase } from "../../usecases/loginInternalUserCase";
+import { CreateInternalUserUseCase } from "../../usecases/createInternalUserUseCase";
+import { ChangePasswordUseCase } from "../../usecases/changePasswordUseCase";
+import { ForgotPasswordUseCase } from "../../usecases/forgotPasswordUseCase";
+import { ResetPasswordUseCase } from "../../usecases/resetPasswordUseCase";
+import { IssueSessionUseCase } from "../../usecases/issueSessionUseCase";
+import { RefreshSessionUseCase } from "../../usecases/refreshSessionUseCase";
+import { LogoutUseCase } from "../../usecases/logoutUseCase";
+import { CreateApiKeyUseCase } from "../../usecases/createApiKeyUseCase";
+import { ListApiKeysUseCase } from "../../usecases/listApiKeysUseCase";
+import { RevokeApiKeyUseCase } from "../../usecases/revokeApiKeyUseCase";
+import { InviteSupplierUserUseCase } from "../../usecases/inviteSupplierUserUseCase";
+import { AcceptInvitationUseCase } from "../../usecases/acceptInvitationUseCase";
+import { ListSupplierUsersUseCase } from "../../usecases/listSupplierUsersUseCase";
+import { DeactivateSupplierUserUseCase } from "../../usecases/deactivateSupplierUserUseCase";
+import { LoginScope, LoginThrottleUseCase, ThrottleDecision } from "../../usecases/loginThrottleUseCase";
+import { GetProfileUseCase } from "../../usecases/getProfileUseCase";
+import { UpdateProfileUseCase } from "../../usecases/updateProfileUseCase";
+import { Session } from "../../domain/entities/Session";
+import { AppError } from "../../../../shared/errors/AppError";
+import { mailer } from "../../../../shared/mail/mailer";
 
 export class AuthController {
   private loginUserUseCase: LoginUserUseCase;
+  private loginInternalUserUseCase: LoginInternalUserUseCase;
+  private createInternalUserUseCase: CreateInternalUserUseCase;
+  private changePasswordUseCase: ChangePasswordUseCase;
+  private forgotPasswordUseCase: ForgotPasswordUseCase;
+  private resetPasswordUseCase: ResetPasswordUseCase;
+  private issueSessionUseCase: IssueSessionUseCase;
+  private refreshSessionUseCase: RefreshSessionUseCase;
+  private logoutUseCase: LogoutUseCase;
+  private createApiKeyUseCase: CreateApiKeyUseCase;
+  private listApiKeysUseCase: ListApiKeysUseCase;
+  private revokeApiKeyUseCase: RevokeApiKeyUseCase;
+  private inviteSupplierUserUseCase: InviteSupplierUserUseCase;
+  private acceptInvitationUseCase: AcceptInvitationUseCase;
+  private listSupplierUsersUseCase: ListSupplierUsersUseCase;
+  private deactivateSupplierUserUseCase: DeactivateSupplierUserUseCase;
+  private loginThrottleUseCase: LoginThrottleUseCase;
+  private getProfileUseCase: GetProfileUseCase;
+  private updateProfileUseCase: UpdateProfileUseCase;
 
   constructor() {
     const authRepository = new repositoryAuth();
-    this.loginUserUseCase = new LoginUserUseCase(authRepository);
+    const resetRepository = new repositoryPasswordReset();
+    const refreshTokenRepository = new repositoryRefreshToken();
+    const internalUserRepository = new repositoryInternalUser();
+    const apiKeyRepository = new repositoryApiKey();
+    const supplierUserRepository = new repositorySupplierUser();
+    const invitationRepository = new repositoryInvitation();
+    const supplierProfileRepository = new repositorySupplierProfile();
+    // Con varias instancias los intentos deben compartirse en Postgres
+    const loginAttemptStore =
+      process.env.LOGIN_ATTEMPT_STORE === "postgres" ? new repositoryLoginAttempt() : new memoryLoginAttemptStore();
+    this.loginUserUseCase = new LoginUserUseCase(authRepository, supplierUserRepository);
+    this.loginInternalUserUseCase = new LoginInternalUserUseCase(internalUserRepository);
+    this.createInternalUserUseCase = new CreateInternalUserUseCase(internalUserRepository);
+    this.changePasswordUseCase = new ChangePasswordUseCase(
+      authRepository,
+      supplierUserRepository,
+      refreshTokenRepository
+    );
+    this.forgotPasswordUseCase = new ForgotPasswordUseCase(authRepository, resetRepository, mailer);
+    this.resetPasswordUseCase = new ResetPasswordUseCase(authRepository, resetRepository, refreshTokenRepository);
+    this.issueSessionUseCase = new IssueSessionUseCase(refreshTokenRepository);
+    this.refreshSessionUseCase = new RefreshSessionUseCase(
+      authRepository,
+      internalUserRepository,
+      supplierUserRepository,
+      refreshTokenRepository,
+      this.issueSessionUseCase
+    );
+    this.logoutUseCase = new LogoutUseCase(refreshTokenRepository);
+    this.createApiKeyUseCase = new CreateApiKeyUseCase(apiKeyRepository);
+    this.listApiKeysUseCase = new ListApiKeysUseCase(apiKeyRepository);
+    this.revokeApiKeyUseCase = new RevokeApiKeyUseCase(apiKeyRepository);
+    this.inviteSupplierUserUseCase = new InviteSupplierUserUseCase(
+      authRepository,
+      supplierUserRepository,
+      invitationRepository,
+      mailer
+    );
+    this.acceptInvitationUseCase = new AcceptInvitationUseCase(supplierUserRepository, invitationRepository);
+    this.listSupplierUsersUseCase = new ListSupplierUsersUseCase(supplierUserRepository);
+    this.deactivateSupplierUserUseCase = new DeactivateSupplierUserUseCase(supplierUserRepository, refreshTokenRepository);
+    this.loginThrottleUseCase = new LoginThrottleUseCase(loginAttemptStore);
+    this.getProfileUseCase = new GetProfileUseCase(supplierProfileRepository);
+    this.updateProfileUseCase = new UpdateProfileUseCase(supplierProfileRepository);
+  }
+
+  private handleError(res: Response, context: string, error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message, errors: error.errors });
+    }
+    console.error(`${context} error:`, error.message);
+    return res.status(500).json({ success: false, message: "Error en el servidor" });
+  }
+
+  private tooManyAttempts(res: Response, decision: ThrottleDecision) {
+    res.set("Retry-After", String(decision.retryAfterSeconds));
+    return res.status(429).json({
+      success: false,
+      message: decision.reason === "locked"
+        ? "Cuenta bloqueada temporalmente por intentos fallidos. Intente más tarde"
+        : "Demasiados intentos. Espere unos segundos antes de reintentar",
+      retryAfter: decision.retryAfterSeconds,
+    });
+  }
+
+  // `token` se mantiene como alias del access token para clientes existentes
+  private sessionBody(session: Session) {
+    return {
+      token: session.accessToken,
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
+    };
   }
 
   login = async (req: Request, res: Response) => {
     try {
       const { username, password } = req.body;
+      const ip = req.ip ?? "unknown";
+
+      const decision = await this.loginThrottleUseCase.check("supplier", username, ip);
+      if (!decision.allowed) {
+        return this.tooManyAttempts(res, decision);
+      }
 
       const user = await this.loginUserUseCase.execute(username, password);
 
   
       if (!user) {
+        await this.loginThrottleUseCase.registerFailure("supplier", username, ip);
         return res.status(401).json({ success: false, message: "Credenciales inválidas" });
       }
 
-      const payload = {
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        email: user.email,
-      };
+      await this.loginThrottleUseCase.registerSuccess("supplier", username);
+
+      const session = await this.issueSessionUseCase.execute(user);
+
+      return res.json({
+        success: true,
+        message: user.mustChangePassword
+          ? "Login exitoso. Debe cambiar su contraseña para continuar"
+          : "Login exitoso",
+        ...this.sessionBody(session),
+        mustChangePassword: Boolean(user.mustChangePassword),
+      });
+    } catch (error: any) {
+      return this.handleError(res, "Login", error);
+    }
+  };
+
+  internalLogin = async (req: Request, res: Response) => {
+    try {
+      const { username, password } = req.body;
+      const ip = req.ip ?? "unknown";
+
+      const decision = await this.loginThrottleUseCase.check("internal", username, ip);
+      if (!decision.allowed) {
+        return this.tooManyAttempts(res, decision);
+      }
+
+      const user = await this.loginInternalUserUseCase.execute(username, password);
+
+      if (!user) {
+        await this.loginThrottleUseCase.registerFailure("internal", username, ip);
+        return res.status(401).json({ success: false, message: "Credenciales inválidas" });
+      }
+
+      await this.loginThrottleUseCase.registerSuccess("internal", username);
+
+      const session = await this.issueSessionUseCase.execute(user);
+
+      return res.json({ success: true, message: "Login exitoso", ...this.sessionBody(session), role: user.role });
+    } catch (error: any) {
+      return this.handleError(res, "Internal login", error);
+    }
+  };
+
+  createInternalUser = async (req: Request, res: Response) => {
+    try {
+      const user = await this.createInternalUserUseCase.execute(req.body);
+
+      return res.status(201).json({ success: true, message: "Usuario creado correctamente", data: user });
+    } catch (error: any) {
+      return this.handleError(res, "Create internal user", error);
+    }
+  };
+
+  refresh = async (req: Request, res: Response) => {
+    try {
+      const session = await this.refreshSessionUseCase.execute(req.body?.refreshToken);
+
+      return res.json({ success: true, message: "Sesión renovada", ...this.sessionBody(session) });
+    } catch (error: any) {
+      return this.handleError(res, "Refresh", error);
+    }
+  };
 
-      const token = jwt.sign(payload, JWT_SECRET, { expiresIn: "1h" });
+  logout = async (req: Request, res: Response) => {
+    try {
+      await this.logoutUseCase.execute(req.body?.refreshToken);
+
+      return res.json({ success: true, message: "Sesión cerrada" });
+    } catch (error: any) {
+      return this.handleError(res, "Logout", error);
+    }
+  };
+
+  changePassword = async (req: Request, res: Response) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      const { id, userId } = (req as any).user ?? {};
+
+      const user = await this.changePasswordUseCase.execute(id, currentPassword, newPassword, userId);
+      const session = await this.issueSessionUseCase.execute(user);
 
       return res.json({
         success: true,
-        message: "Login exitoso",
-        token,
+        message: "Contraseña actualizada correctamente",
+        ...this.sessionBody(session),
       });
     } catch (error: any) {
-      console.error("Login error:", error.message);
-      return res.status(500).json({ success: false, message: "Error en el servidor" });
+      return this.handleError(res, "Change password", error);
+    }
+  };
+
+  forgotPassword = async (req: Request, res: Response) => {
+    try {
+      await this.forgotPasswordUseCase.execute(req.body?.username);
+
+      // Misma respuesta exista o no el proveedor, para no revelar NITs registrados
+      return res.json({
+        success: true,
+        message: "Si el NIT está registrado, enviaremos un enlace de restablecimiento al correo asociado",
+      });
+    } catch (error: any) {
+      return this.handleError(res, "Forgot password", error);
+    }
+  };
+
+  resetPassword = async (req: Request, res: Response) => {
+    try {
+      const { token, newPassword } = req.body;
+
+      await this.resetPasswordUseCase.execute(token, newPassword);
+
+      return res.json({ success: true, message: "Contraseña restablecida correctamente" });
+    } catch (error: any) {
+      return this.handleError(res, "Reset password", error);
+    }
+  };
+
+  createApiKey = async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      const { name, scopes } = req.body ?? {};
+
+      const { apiKey, key } = await this.createApiKeyUseCase.execute(userId, name, scopes);
+
+      return res.status(201).json({
+        success: true,
+        message: "API key creada. Guárdela ahora: no se volverá a mostrar",
+        apiKey,
+        data: key,
+      });
+    } catch (error: any) {
+      return this.handleError(res, "Create API key", error);
+    }
+  };
+
+  listApiKeys = async (req: Request, res: Response) => {
+    try {
+      const keys = await this.listApiKeysUseCase.execute((req as any).user?.id);
+
+      return res.json({ success: true, data: keys });
+    } catch (error: any) {
+      return this.handleError(res, "List API keys", error);
+    }
+  };
+
+  revokeApiKey = async (req: Request, res: Response) => {
+    try {
+      await this.revokeApiKeyUseCase.execute((req as any).user?.id, Number(req.params.id));
+
+      return res.json({ success: true, message: "API key revocada" });
+    } catch (error: any) {
+      return this.handleError(res, "Revoke API key", error);
+    }
+  };
+
+  inviteUser = async (req: Request, res: Response) => {
+    try {
+      await this.inviteSupplierUserUseCase.execute((req as any).user?.id, req.body?.email);
+
+      return res.status(201).json({ success: true, message: "Invitación enviada" });
+    } catch (error: any) {
+      return this.handleError(res, "Invite user", error);
+    }
+  };
+
+  acceptInvitation = async (req: Request, res: Response) => {
+    try {
+      const { token, name, password } = req.body;
+
+      const user = await this.acceptInvitationUseCase.execute(token, name, password);
+
+      return res.status(201).json({ success: true, message: "Cuenta creada. Ya puede iniciar sesión con su correo", data: user });
+    } catch (error: any) {
+      return this.handleError(res, "Accept invitation", error);
+    }
+  };
+
+  listUsers = async (req: Request, res: Response) => {
+    try {
+      const users = await this.listSupplierUsersUseCase.execute((req as any).user?.id);
+
+      return res.json({ success: true, data: users });
+    } catch (error: any) {
+      return this.handleError(res, "List users", error);
+    }
+  };
+
+  deactivateUser = async (req: Request, res: Response) => {
+    try {
+      await this.deactivateSupplierUserUseCase.execute((req as any).user?.id, String(req.params.id));
+
+      return res.json({ success: true, message: "Usuario desactivado" });
+    } catch (error: any) {
+      return this.handleError(res, "Deactivate user", error);
+    }
+  };
+
+  unlockLogin = async (req: Request, res: Response) => {
+    try {
+      const { username, ip, scope = "supplier" } = req.body ?? {};
+
+      await this.loginThrottleUseCase.unlock(scope as LoginScope, username, ip);
+
+      return res.json({ success: true, message: "Acceso desbloqueado" });
+    } catch (error: any) {
+      return this.handleError(res, "Unlock login", error);
+    }
+  };
+
+  me = async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const profile = await this.getProfileUseCase.execute(user?.id);
+
+      return res.json({
+        success: true,
+        data: {
+          ...profile,
+          supplierRole: user?.supplierRole ?? "owner",
+          // Colaborador que inició la sesión, si no es la cuenta principal
+          user: user?.userId ? { id: user.userId, name: user.userName, email: user.email } : null,
+        },
+      });
+    } catch (error: any) {
+      return this.handleError(res, "Get profile", error);
+    }
+  };
+
+  updateMe = async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const { email, phone } = req.body ?? {};
+
+      const profile = await this.updateProfileUseCase.execute(user?.id, { email, phone }, String(user?.id));
+
+      return res.json({ success: true, message: "Perfil actualizado", data: profile });
+    } catch (error: any) {
+      return this.handleError(res, "Update profile", error);
     }
   };
 }
@@ -1,5 +1,7 @@
 import { Router } from "express";
 import { AuthController } from "../controllers/authController";
+import { authMiddleware, passwordChangeMiddleware, sessionMiddleware } from "../../../../shared/auth/authMiddleware";
+import { requirePermission, requireRole, requireSupplierOwner } from "../../../../shared/auth/authorize";
 
 const router = Router();
 const authController = new AuthController();
@@ -7,4 +9,39 @@ const authController = new AuthController();
 // Ruta pública de login
 router.post("/login", authController.login);
 
+// Login de usuarios internos (compradores y administradores)
+router.post("/internal/login", authController.internalLogin);
+
+// Alta de usuarios internos (solo administradores)
+router.post("/internal/users", authMiddleware, requirePermission("users:manage"), authController.createInternalUser);
+
+// Desbloqueo de usuarios o IPs bloqueados por intentos fallidos (solo administradores)
+router.post("/admin/unlock", authMiddleware, requirePermission("users:manage"), authController.unlockLogin);
+
+// Renovación (rotativa) y cierre de sesión con refresh token
+router.post("/refresh", authController.refresh);
+router.post("/logout", authController.logout);
+
+// Restablecimiento de contraseña con token de un solo uso enviado por correo
+router.post("/forgot-password", authController.forgotPassword);
+router.post("/reset-password", authController.resetPassword);
+
+// Cambio de contraseña (permitido aun cuando el token exige cambiarla)
+router.post("/change-password", passwordChangeMiddleware, requireRole("supplier"), authController.changePassword);
+
+// Perfil del proveedor autenticado; solo la cuenta principal edita los datos de contacto
+router.get("/me", sessionMiddleware, requireRole("supplier"), authController.me);
+router.put("/me", sessionMiddleware, requireSupplierOwner, authController.updateMe);
+
+// API keys para integración ERP: solo la cuenta principal, desde una sesión iniciada
+router.post("/api-keys", sessionMiddleware, requireSupplierOwner, authController.createApiKey);
+router.get("/api-keys", sessionMiddleware, requireSupplierOwner, authController.listApiKeys);
+router.delete("/api-keys/:id", sessionMiddleware, requireSupplierOwner, authController.revokeApiKey);
+
+// Colaboradores del proveedor: la cuenta principal invita y administra
+router.post("/invitations", sessionMiddleware, requireSupplierOwner, authController.inviteUser);
+router.post("/invitations/accept", authController.acceptInvitation);
+router.get("/users", sessionMiddleware, requireSupplierOwner, authController.listUsers);
+router.delete("/users/:id", sessionMiddleware, requireSupplierOwner, authController.deactivateUser);
+
 export default router;
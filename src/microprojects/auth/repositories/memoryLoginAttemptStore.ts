@@ -0,0 +1,41 @@
+import { LoginAttempt } from "../domain/entities/LoginAttempt";
+import { LoginAttemptPolicy, LoginAttemptStore } from "../domain/repositories/LoginAttemptStore";
+
+// Almacén en memoria: válido solo cuando la API corre en una única instancia
+export class memoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly attempts = new Map<string, LoginAttempt>();
+
+  async get(key: string): Promise<LoginAttempt | null> {
+    const attempt = this.attempts.get(key);
+    return attempt ? { ...attempt } : null;
+  }
+
+  async recordFailure(key: string, policy: LoginAttemptPolicy): Promise<LoginAttempt> {
+    const now = new Date();
+    const previous = this.attempts.get(key);
+
+    // La ventana vencida o un bloqueo ya cumplido reinician el conteo
+    const restart =
+      !previous ||
+      previous.lastFailureAt.getTime() < now.getTime() - policy.windowMs ||
+      (previous.lockedUntil !== null && previous.lockedUntil <= now);
+
+    const failures = restart ? 1 : previous!.failures + 1;
+    const attempt: LoginAttempt = {
+      key,
+      failures,
+      lastFailureAt: now,
+      lockedUntil:
+        failures >= policy.maxFailures
+          ? new Date(now.getTime() + policy.lockoutMs)
+          : restart ? null : previous!.lockedUntil,
+    };
+
+    this.attempts.set(key, attempt);
+    return { ...attempt };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.attempts.delete(key);
+  }
+}
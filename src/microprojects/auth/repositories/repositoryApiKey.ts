@@ -0,0 +1,68 @@
+import pool from "../../../config/database";
+import { ApiKey } from "../domain/entities/ApiKey";
+import { ApiKeyRepository } from "../domain/repositories/ApiKeyRepository";
+
+/**
+ * Repositorio de API keys de proveedores (Postgres). La llave completa nunca
+ * se guarda: solo su hash SHA-256 y un prefijo visible.
+ *
+ *   CREATE TABLE supplier_api_keys (
+ *     id            SERIAL PRIMARY KEY,
+ *     id_proveedor  VARCHAR(20) NOT NULL,
+ *     name          VARCHAR(80) NOT NULL,
+ *     prefix        VARCHAR(20) NOT NULL,
+ *     key_hash      CHAR(64) NOT NULL UNIQUE,
+ *     scopes        TEXT[] NOT NULL,
+ *     created_at    TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ *     last_used_at  TIMESTAMP NULL,
+ *     revoked_at    TIMESTAMP NULL
+ *   );
+ */
+export class repositoryApiKey implements ApiKeyRepository {
+  private readonly columns = `id, id_proveedor, name, prefix, scopes, created_at, last_used_at, revoked_at`;
+
+  async create(userId: string, name: string, prefix: string, keyHash: string, scopes: string[]): Promise<ApiKey> {
+    const result = await pool.query(
+      `INSERT INTO supplier_api_keys (id_proveedor, name, prefix, key_hash, scopes)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${this.columns}`,
+      [String(userId), name, prefix, keyHash, scopes]
+    );
+
+    return this.toApiKey(result.rows[0]);
+  }
+
+  async listByUser(userId: string): Promise<ApiKey[]> {
+    const result = await pool.query(
+      `SELECT ${this.columns}
+       FROM supplier_api_keys
+       WHERE id_proveedor = $1
+       ORDER BY created_at DESC`,
+      [String(userId)]
+    );
+
+    return result.rows.map((row) => this.toApiKey(row));
+  }
+
+  async revoke(userId: string, id: number): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE supplier_api_keys SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND id_proveedor = $2 AND revoked_at IS NULL`,
+      [id, String(userId)]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private toApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      userId: row.id_proveedor,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: row.scopes ?? [],
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+}
@@ -1,30 +1,81 @@
 import pool from "../../../config/db_agendamiento";
+import pgPool from "../../../config/database";
 import { User } from "../domain/entities/User";
+import { Credentials } from "../domain/entities/Credentials";
+import { AuthRepository } from "../domain/repositories/AuthRepository";
 
-export class repositoryAuth {
-  async login(username: string, password: string): Promise<User | null> {
-    const [rows]: any = await pool.query(
-      `SELECT 
+/**
+ * Repositorio de autenticación de proveedores.
+ *
+ * Los datos del proveedor se leen de `seguimiento_proveedores.proveedores` (MySQL)
+ * y las credenciales se guardan en Postgres, en la tabla:
+ *
+ *   CREATE TABLE supplier_credentials (
+ *     id_proveedor          VARCHAR(20) PRIMARY KEY,
+ *     password_hash         VARCHAR(100) NOT NULL,
+ *     must_change_password  BOOLEAN NOT NULL DEFAULT TRUE,
+ *     updated_at            TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ */
+export class repositoryAuth implements AuthRepository {
+  private readonly selectUser = `SELECT 
          id_proveedor AS id,
          Nit_proveedor AS username,
          descripcion_comercial AS name,
          Correo AS email
-       FROM seguimiento_proveedores.proveedores
-       WHERE Nit_proveedor = ?`,
-      [username]
-    );
+       FROM seguimiento_proveedores.proveedores`;
+
+  async findByUsername(username: string): Promise<User | null> {
+    const [rows]: any = await pool.query(`${this.selectUser} WHERE Nit_proveedor = ?`, [username]);
+
+    if (rows.length === 0) return null;
+    return this.toUser(rows[0]);
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const [rows]: any = await pool.query(`${this.selectUser} WHERE id_proveedor = ?`, [id]);
 
     if (rows.length === 0) return null;
+    return this.toUser(rows[0]);
+  }
 
-    const user = rows[0];
+  async getCredentials(userId: string): Promise<Credentials | null> {
+    const result = await pgPool.query(
+      `SELECT id_proveedor, password_hash, must_change_password, updated_at
+       FROM supplier_credentials
+       WHERE id_proveedor = $1`,
+      [String(userId)]
+    );
 
-    if (String(user.id) !== password) return null;
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      userId: row.id_proveedor,
+      passwordHash: row.password_hash,
+      mustChangePassword: row.must_change_password,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async saveCredentials(userId: string, passwordHash: string, mustChangePassword: boolean): Promise<void> {
+    await pgPool.query(
+      `INSERT INTO supplier_credentials (id_proveedor, password_hash, must_change_password, updated_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+       ON CONFLICT (id_proveedor)
+       DO UPDATE SET password_hash = EXCLUDED.password_hash,
+                     must_change_password = EXCLUDED.must_change_password,
+                     updated_at = CURRENT_TIMESTAMP`,
+      [String(userId), passwordHash, mustChangePassword]
+    );
+  }
 
+  private toUser(row: any): User {
     return {
-      id: user.id,
-      username: user.username,
-      name: user.name,
-      email: user.email,
+      id: row.id,
+      username: row.username,
+      name: row.name,
+      email: row.email,
     };
   }
 }
@@ -0,0 +1,70 @@
+import pool from "../../../config/database";
+import { InternalUser } from "../domain/entities/InternalUser";
+import { InternalUserRepository } from "../domain/repositories/InternalUserRepository";
+
+/**
+ * Repositorio de usuarios internos (Postgres). El primer administrador se
+ * crea directamente en la base de datos; los demás desde /api/auth/internal/users.
+ *
+ *   CREATE TABLE internal_users (
+ *     id             SERIAL PRIMARY KEY,
+ *     username       VARCHAR(60) NOT NULL UNIQUE,
+ *     name           VARCHAR(120),
+ *     email          VARCHAR(120),
+ *     password_hash  VARCHAR(100) NOT NULL,
+ *     role           VARCHAR(20) NOT NULL CHECK (role IN ('buyer', 'admin')),
+ *     active         BOOLEAN NOT NULL DEFAULT TRUE,
+ *     created_at     TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ *   -- Centros de distribución (bk_centro) que puede consultar; NULL = todos
+ *   ALTER TABLE internal_users ADD COLUMN centros TEXT[];
+ */
+export class repositoryInternalUser implements InternalUserRepository {
+  async findByUsername(username: string): Promise<InternalUser | null> {
+    const result = await pool.query(
+      `SELECT id, username, name, email, role, active, centros, password_hash
+       FROM internal_users
+       WHERE username = $1`,
+      [username]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.toInternalUser(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<InternalUser | null> {
+    const result = await pool.query(
+      `SELECT id, username, name, email, role, active, centros, password_hash
+       FROM internal_users
+       WHERE id = $1`,
+      [Number(id)]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.toInternalUser(result.rows[0]);
+  }
+
+  async create(user: Omit<InternalUser, "id">): Promise<InternalUser> {
+    const result = await pool.query(
+      `INSERT INTO internal_users (username, name, email, password_hash, role, active, centros)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id, username, name, email, role, active, centros`,
+      [user.username, user.name ?? null, user.email ?? null, user.passwordHash, user.role, user.active, user.centros ?? null]
+    );
+
+    return this.toInternalUser(result.rows[0]);
+  }
+
+  private toInternalUser(row: any): InternalUser {
+    return {
+      id: String(row.id),
+      username: row.username,
+      name: row.name,
+      email: row.email,
+      role: row.role,
+      active: row.active,
+      centros: row.centros ?? null,
+      passwordHash: row.password_hash,
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import pool from "../../../config/database";
+import { Invitation } from "../domain/entities/Invitation";
+import { InvitationRepository } from "../domain/repositories/InvitationRepository";
+
+/**
+ * Repositorio de invitaciones a colaboradores de proveedores (Postgres).
+ *
+ *   CREATE TABLE supplier_user_invitations (
+ *     id            SERIAL PRIMARY KEY,
+ *     id_proveedor  VARCHAR(20) NOT NULL,
+ *     email         VARCHAR(120) NOT NULL,
+ *     token_hash    CHAR(64) NOT NULL UNIQUE,
+ *     invited_by    VARCHAR(20),
+ *     expires_at    TIMESTAMP NOT NULL,
+ *     accepted_at   TIMESTAMP NULL,
+ *     created_at    TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ */
+export class repositoryInvitation implements InvitationRepository {
+  async create(
+    supplierId: string,
+    email: string,
+    tokenHash: string,
+    invitedBy: string | null,
+    expiresAt: Date
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO supplier_user_invitations (id_proveedor, email, token_hash, invited_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [String(supplierId), email, tokenHash, invitedBy, expiresAt]
+    );
+  }
+
+  async findValid(tokenHash: string): Promise<Invitation | null> {
+    const result = await pool.query(
+      `SELECT id, id_proveedor, email, token_hash, invited_by, expires_at, accepted_at
+       FROM supplier_user_invitations
+       WHERE token_hash = $1
+         AND accepted_at IS NULL
+         AND expires_at > CURRENT_TIMESTAMP`,
+      [tokenHash]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      supplierId: row.id_proveedor,
+      email: row.email,
+      tokenHash: row.token_hash,
+      invitedBy: row.invited_by,
+      expiresAt: row.expires_at,
+      acceptedAt: row.accepted_at,
+    };
+  }
+
+  async accept(tokenHash: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE supplier_user_invitations
+       SET accepted_at = CURRENT_TIMESTAMP
+       WHERE token_hash = $1
+         AND accepted_at IS NULL
+         AND expires_at > CURRENT_TIMESTAMP`,
+      [tokenHash]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Las invitaciones pendientes se anulan al reenviar; se marcan vencidas
+  async cancelPending(supplierId: string, email: string): Promise<void> {
+    await pool.query(
+      `UPDATE supplier_user_invitations
+       SET expires_at = CURRENT_TIMESTAMP
+       WHERE id_proveedor = $1 AND LOWER(email) = LOWER($2) AND accepted_at IS NULL`,
+      [String(supplierId), email]
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import pool from "../../../config/database";
+import { LoginAttempt } from "../domain/entities/LoginAttempt";
+import { LoginAttemptPolicy, LoginAttemptStore } from "../domain/repositories/LoginAttemptStore";
+
+/**
+ * Almacén de intentos de login en Postgres, compartido entre instancias.
+ *
+ *   CREATE TABLE login_attempts (
+ *     key              VARCHAR(200) PRIMARY KEY,
+ *     failures         INTEGER NOT NULL,
+ *     last_failure_at  TIMESTAMP NOT NULL,
+ *     locked_until     TIMESTAMP NULL
+ *   );
+ */
+export class repositoryLoginAttempt implements LoginAttemptStore {
+  async get(key: string): Promise<LoginAttempt | null> {
+    const result = await pool.query(
+      `SELECT key, failures, last_failure_at, locked_until FROM login_attempts WHERE key = $1`,
+      [key]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.toLoginAttempt(result.rows[0]);
+  }
+
+  async recordFailure(key: string, policy: LoginAttemptPolicy): Promise<LoginAttempt> {
+    // ON CONFLICT bloquea la fila, así que instancias concurrentes no pierden intentos.
+    // Una ventana vencida o un bloqueo ya cumplido reinician el conteo.
+    const restart = `(login_attempts.last_failure_at < CURRENT_TIMESTAMP - $3::float8 * INTERVAL '1 millisecond'
+                      OR login_attempts.locked_until <= CURRENT_TIMESTAMP)`;
+    const failures = `CASE WHEN ${restart} THEN 1 ELSE login_attempts.failures + 1 END`;
+
+    const result = await pool.query(
+      `INSERT INTO login_attempts (key, failures, last_failure_at, locked_until)
+       VALUES ($1, 1, CURRENT_TIMESTAMP,
+               CASE WHEN 1 >= $2::int THEN CURRENT_TIMESTAMP + $4::float8 * INTERVAL '1 millisecond' END)
+       ON CONFLICT (key) DO UPDATE
+         SET failures = ${failures},
+             last_failure_at = CURRENT_TIMESTAMP,
+             locked_until = CASE
+                              WHEN ${failures} >= $2::int THEN CURRENT_TIMESTAMP + $4::float8 * INTERVAL '1 millisecond'
+                              WHEN ${restart} THEN NULL
+                              ELSE login_attempts.locked_until
+                            END
+       RETURNING key, failures, last_failure_at, locked_until`,
+      [key, policy.maxFailures, policy.windowMs, policy.lockoutMs]
+    );
+
+    return this.toLoginAttempt(result.rows[0]);
+  }
+
+  async reset(key: string): Promise<void> {
+    await pool.query(`DELETE FROM login_attempts WHERE key = $1`, [key]);
+  }
+
+  private toLoginAttempt(row: any): LoginAttempt {
+    return {
+      key: row.key,
+      failures: Number(row.failures),
+      lastFailureAt: row.last_failure_at,
+      lockedUntil: row.locked_until,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import pool from "../../../config/database";
+import { PasswordResetToken } from "../domain/entities/PasswordResetToken";
+import { PasswordResetRepository } from "../domain/repositories/PasswordResetRepository";
+
+/**
+ * Repositorio de tokens de restablecimiento de contraseña (Postgres).
+ *
+ *   CREATE TABLE password_reset_tokens (
+ *     id            SERIAL PRIMARY KEY,
+ *     id_proveedor  VARCHAR(20) NOT NULL,
+ *     token_hash    CHAR(64) NOT NULL UNIQUE,
+ *     expires_at    TIMESTAMP NOT NULL,
+ *     used_at       TIMESTAMP NULL,
+ *     created_at    TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ */
+export class repositoryPasswordReset implements PasswordResetRepository {
+  async create(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    await pool.query(
+      `INSERT INTO password_reset_tokens (id_proveedor, token_hash, expires_at)
+       VALUES ($1, $2, $3)`,
+      [String(userId), tokenHash, expiresAt]
+    );
+  }
+
+  async findValid(tokenHash: string): Promise<PasswordResetToken | null> {
+    const result = await pool.query(
+      `SELECT id, id_proveedor, token_hash, expires_at, used_at
+       FROM password_reset_tokens
+       WHERE token_hash = $1
+         AND used_at IS NULL
+         AND expires_at > CURRENT_TIMESTAMP`,
+      [tokenHash]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      userId: row.id_proveedor,
+      tokenHash: row.token_hash,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at,
+    };
+  }
+
+  async consume(tokenHash: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE password_reset_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE token_hash = $1
+         AND used_at IS NULL
+         AND expires_at > CURRENT_TIMESTAMP`,
+      [tokenHash]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async invalidateForUser(userId: string): Promise<void> {
+    await pool.query(
+      `UPDATE password_reset_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE id_proveedor = $1 AND used_at IS NULL`,
+      [String(userId)]
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import pool from "../../../config/database";
+import { RefreshToken, SessionUserType } from "../domain/entities/RefreshToken";
+import { RefreshTokenRepository } from "../domain/repositories/RefreshTokenRepository";
+
+/**
+ * Repositorio de refresh tokens rotativos (Postgres).
+ *
+ *   CREATE TABLE refresh_token_families (
+ *     family_id   UUID PRIMARY KEY,
+ *     user_id     VARCHAR(20) NOT NULL,
+ *     user_type   VARCHAR(10) NOT NULL DEFAULT 'supplier', -- supplier | supplier_user | internal
+ *     created_at  TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ *     revoked_at  TIMESTAMP NULL
+ *   );
+ *
+ *   CREATE TABLE refresh_tokens (
+ *     id          SERIAL PRIMARY KEY,
+ *     family_id   UUID NOT NULL REFERENCES refresh_token_families (family_id),
+ *     token_hash  CHAR(64) NOT NULL UNIQUE,
+ *     expires_at  TIMESTAMP NOT NULL,
+ *     used_at     TIMESTAMP NULL,
+ *     created_at  TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ *
+ * Bases que ya tenían las tablas solo para proveedores (id_proveedor en ambas):
+ *
+ *   ALTER TABLE refresh_token_families RENAME COLUMN id_proveedor TO user_id;
+ *   ALTER TABLE refresh_token_families
+ *     ADD COLUMN user_type VARCHAR(10) NOT NULL DEFAULT 'supplier';
+ *   ALTER TABLE refresh_tokens DROP COLUMN id_proveedor;
+ */
+export class repositoryRefreshToken implements RefreshTokenRepository {
+  async createFamily(familyId: string, userId: string, userType: SessionUserType): Promise<void> {
+    await pool.query(
+      `INSERT INTO refresh_token_families (family_id, user_id, user_type) VALUES ($1, $2, $3)`,
+      [familyId, String(userId), userType]
+    );
+  }
+
+  async create(familyId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    await pool.query(
+      `INSERT INTO refresh_tokens (family_id, token_hash, expires_at)
+       VALUES ($1, $2, $3)`,
+      [familyId, tokenHash, expiresAt]
+    );
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const result = await pool.query(
+      `SELECT rt.id, rt.family_id, f.user_id, f.user_type, rt.token_hash, rt.expires_at, rt.used_at,
+              f.revoked_at AS family_revoked_at
+       FROM refresh_tokens rt
+       JOIN refresh_token_families f ON f.family_id = rt.family_id
+       WHERE rt.token_hash = $1`,
+      [tokenHash]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      familyId: row.family_id,
+      userId: row.user_id,
+      userType: row.user_type,
+      tokenHash: row.token_hash,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at,
+      familyRevokedAt: row.family_revoked_at,
+    };
+  }
+
+  async markUsed(id: number): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE refresh_tokens SET used_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND used_at IS NULL`,
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    await pool.query(
+      `UPDATE refresh_token_families SET revoked_at = CURRENT_TIMESTAMP
+       WHERE family_id = $1 AND revoked_at IS NULL`,
+      [familyId]
+    );
+  }
+
+  async revokeAllForUser(userId: string, userType: SessionUserType): Promise<void> {
+    await pool.query(
+      `UPDATE refresh_token_families SET revoked_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND user_type = $2 AND revoked_at IS NULL`,
+      [String(userId), userType]
+    );
+  }
+}
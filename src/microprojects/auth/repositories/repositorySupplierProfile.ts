@@ -0,0 +1,116 @@
+import pool from "../../../config/db_agendamiento";
+import pgPool from "../../../config/database";
+import { PoolClient } from "pg";
+import { ProfileChange, SupplierContactField, SupplierProfile } from "../domain/entities/SupplierProfile";
+import { SupplierProfileRepository } from "../domain/repositories/SupplierProfileRepository";
+
+// Columnas de `seguimiento_proveedores.proveedores` que el proveedor puede editar
+const CONTACT_COLUMNS: Record<SupplierContactField, string> = {
+  email: "Correo",
+  phone: "Telefono",
+};
+
+/**
+ * Repositorio del perfil del proveedor.
+ *
+ * El perfil vive en `seguimiento_proveedores.proveedores` (MySQL), que no traía
+ * columna de teléfono:
+ *
+ *   ALTER TABLE seguimiento_proveedores.proveedores ADD COLUMN Telefono VARCHAR(20) NULL;
+ *
+ * El historial de cambios hechos desde el portal se guarda en Postgres:
+ *
+ *   CREATE TABLE supplier_profile_changes (
+ *     id            SERIAL PRIMARY KEY,
+ *     id_proveedor  VARCHAR(20) NOT NULL,
+ *     field         VARCHAR(30) NOT NULL,
+ *     old_value     VARCHAR(255),
+ *     new_value     VARCHAR(255),
+ *     changed_by    VARCHAR(50) NOT NULL,
+ *     changed_at    TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ *   CREATE INDEX idx_supplier_profile_changes_proveedor ON supplier_profile_changes (id_proveedor);
+ *
+ * Las dos bases no comparten transacción: el historial se inserta primero en
+ * una transacción de Postgres que solo se confirma si MySQL se actualizó, y si
+ * la confirmación falla se restauran en MySQL los valores anteriores. Así no
+ * queda un cambio sin auditar.
+ */
+export class repositorySupplierProfile implements SupplierProfileRepository {
+  async findById(id: string): Promise<SupplierProfile | null> {
+    const [rows]: any = await pool.query(
+      `SELECT 
+         id_proveedor AS id,
+         Nit_proveedor AS nit,
+         descripcion_comercial AS name,
+         Correo AS email,
+         Telefono AS phone
+       FROM seguimiento_proveedores.proveedores
+       WHERE id_proveedor = ?`,
+      [id]
+    );
+
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    return {
+      id: String(row.id),
+      nit: row.nit,
+      name: row.name,
+      email: row.email ?? undefined,
+      phone: row.phone ?? undefined,
+    };
+  }
+
+  async applyChanges(supplierId: string, changes: ProfileChange[], changedBy: string): Promise<void> {
+    if (changes.length === 0) return;
+
+    const client = await pgPool.connect();
+    let updated = false;
+    try {
+      await client.query("BEGIN");
+      await this.recordChanges(client, supplierId, changes, changedBy);
+      await this.updateContact(supplierId, changes, "newValue");
+      updated = true;
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      if (updated) {
+        await this.updateContact(supplierId, changes, "oldValue").catch((revertError: any) =>
+          console.error("Error al restaurar el perfil del proveedor:", revertError.message)
+        );
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async updateContact(id: string, changes: ProfileChange[], value: "oldValue" | "newValue"): Promise<void> {
+    const assignments = changes.map((change) => `${CONTACT_COLUMNS[change.field]} = ?`).join(", ");
+    await pool.query(
+      `UPDATE seguimiento_proveedores.proveedores SET ${assignments} WHERE id_proveedor = ?`,
+      [...changes.map((change) => change[value]), id]
+    );
+  }
+
+  private async recordChanges(
+    client: PoolClient,
+    supplierId: string,
+    changes: ProfileChange[],
+    changedBy: string
+  ): Promise<void> {
+    const values: any[] = [];
+    const placeholders = changes.map((change, i) => {
+      values.push(String(supplierId), change.field, change.oldValue, change.newValue, changedBy);
+      const base = i * 5;
+      return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5})`;
+    });
+
+    await client.query(
+      `INSERT INTO supplier_profile_changes (id_proveedor, field, old_value, new_value, changed_by)
+       VALUES ${placeholders.join(", ")}`,
+      values
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import pool from "../../../config/database";
+import { SupplierUser } from "../domain/entities/SupplierUser";
+import { SupplierUserRepository } from "../domain/repositories/SupplierUserRepository";
+
+/**
+ * Repositorio de colaboradores de proveedores (Postgres).
+ *
+ *   CREATE TABLE supplier_users (
+ *     id             SERIAL PRIMARY KEY,
+ *     id_proveedor   VARCHAR(20) NOT NULL,
+ *     email          VARCHAR(120) NOT NULL UNIQUE,
+ *     name           VARCHAR(120),
+ *     password_hash  VARCHAR(100) NOT NULL,
+ *     active         BOOLEAN NOT NULL DEFAULT TRUE,
+ *     invited_by     VARCHAR(20),
+ *     created_at     TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ */
+export class repositorySupplierUser implements SupplierUserRepository {
+  private readonly columns = `id, id_proveedor, email, name, active, invited_by, created_at, password_hash`;
+
+  async findByEmail(email: string): Promise<SupplierUser | null> {
+    const result = await pool.query(
+      `SELECT ${this.columns} FROM supplier_users WHERE LOWER(email) = LOWER($1)`,
+      [email]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.toSupplierUser(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<SupplierUser | null> {
+    const result = await pool.query(`SELECT ${this.columns} FROM supplier_users WHERE id = $1`, [Number(id)]);
+
+    if (result.rows.length === 0) return null;
+    return this.toSupplierUser(result.rows[0]);
+  }
+
+  async listBySupplier(supplierId: string): Promise<SupplierUser[]> {
+    const result = await pool.query(
+      `SELECT ${this.columns} FROM supplier_users WHERE id_proveedor = $1 ORDER BY created_at`,
+      [String(supplierId)]
+    );
+
+    return result.rows.map((row) => {
+      const { passwordHash, ...user } = this.toSupplierUser(row);
+      return user;
+    });
+  }
+
+  async create(user: Omit<SupplierUser, "id" | "createdAt">): Promise<SupplierUser> {
+    const result = await pool.query(
+      `INSERT INTO supplier_users (id_proveedor, email, name, password_hash, active, invited_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id, id_proveedor, email, name, active, invited_by, created_at`,
+      [String(user.supplierId), user.email, user.name ?? null, user.passwordHash, user.active, user.invitedBy ?? null]
+    );
+
+    return this.toSupplierUser(result.rows[0]);
+  }
+
+  async updatePassword(id: string, passwordHash: string): Promise<void> {
+    await pool.query(`UPDATE supplier_users SET password_hash = $1 WHERE id = $2`, [passwordHash, Number(id)]);
+  }
+
+  async deactivate(supplierId: string, id: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE supplier_users SET active = FALSE WHERE id = $1 AND id_proveedor = $2`,
+      [Number(id), String(supplierId)]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private toSupplierUser(row: any): SupplierUser {
+    return {
+      id: String(row.id),
+      supplierId: row.id_proveedor,
+      email: row.email,
+      name: row.name,
+      active: row.active,
+      invitedBy: row.invited_by,
+      createdAt: row.created_at,
+      passwordHash: row.password_hash,
+    };
+  }
+}
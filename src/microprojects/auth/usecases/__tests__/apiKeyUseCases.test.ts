@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CreateApiKeyUseCase } from "../createApiKeyUseCase";
+import { ListApiKeysUseCase } from "../listApiKeysUseCase";
+import { RevokeApiKeyUseCase } from "../revokeApiKeyUseCase";
+import { ApiKeyRepository } from "../../domain/repositories/ApiKeyRepository";
+import { ApiKey } from "../../domain/entities/ApiKey";
+import { hashOpaqueToken } from "../../../../shared/auth/opaqueToken";
+import { isApiKeyFormat } from "../../../../shared/auth/apiKeyStore";
+import { AppError } from "../../../../shared/errors/AppError";
+
+// API keys en memoria; `hashes` guarda lo que se persistiría en key_hash
+class MemoryApiKeyRepository implements ApiKeyRepository {
+  keys: ApiKey[] = [];
+  hashes = new Map<number, string>();
+
+  async create(userId: string, name: string, prefix: string, keyHash: string, scopes: string[]) {
+    const key = { id: this.keys.length + 1, userId, name, prefix, scopes, createdAt: new Date(), revokedAt: null };
+    this.keys.push(key);
+    this.hashes.set(key.id, keyHash);
+    return key;
+  }
+
+  async listByUser(userId: string) {
+    return this.keys.filter((key) => key.userId === userId);
+  }
+
+  async revoke(userId: string, id: number) {
+    const key = this.keys.find((k) => k.id === id && k.userId === userId && !k.revokedAt);
+    if (!key) return false;
+    key.revokedAt = new Date();
+    return true;
+  }
+}
+
+const rejects = (promise: Promise<unknown>, statusCode: number) =>
+  assert.rejects(promise, (error: AppError) => {
+    assert.equal(error.statusCode, statusCode);
+    return true;
+  });
+
+describe("API keys", () => {
+  it("entrega la llave en claro una sola vez y guarda su hash", async () => {
+    const repository = new MemoryApiKeyRepository();
+    const { apiKey, key } = await new CreateApiKeyUseCase(repository).execute("10", " ERP SAP B1 ");
+
+    assert.ok(isApiKeyFormat(apiKey));
+    assert.ok(apiKey.startsWith(`tgk_${key.prefix}_`));
+    assert.equal(key.name, "ERP SAP B1");
+    assert.equal(repository.hashes.get(key.id), hashOpaqueToken(apiKey));
+    assert.deepEqual(key.scopes, ["price-lists:read", "price-lists:write"]);
+  });
+
+  it("limita la llave a los scopes pedidos y rechaza los no delegables", async () => {
+    const usecase = new CreateApiKeyUseCase(new MemoryApiKeyRepository());
+
+    const { key } = await usecase.execute("10", "Solo lectura", ["price-lists:read", "price-lists:read"]);
+    assert.deepEqual(key.scopes, ["price-lists:read"]);
+
+    await rejects(usecase.execute("10", "Admin", ["users:write"]), 400);
+    await rejects(usecase.execute("10", ""), 400);
+  });
+
+  it("no permite más de 10 llaves activas por proveedor", async () => {
+    const repository = new MemoryApiKeyRepository();
+    const usecase = new CreateApiKeyUseCase(repository);
+    for (let i = 0; i < 10; i++) await usecase.execute("10", `Llave ${i}`);
+
+    await rejects(usecase.execute("10", "Una más"), 409);
+
+    await new RevokeApiKeyUseCase(repository).execute("10", 1);
+    await usecase.execute("10", "Reemplazo");
+    assert.equal((await new ListApiKeysUseCase(repository).execute("10")).length, 11);
+  });
+
+  it("solo el proveedor dueño revoca su llave, una vez", async () => {
+    const repository = new MemoryApiKeyRepository();
+    const { key } = await new CreateApiKeyUseCase(repository).execute("10", "ERP");
+    const revoke = new RevokeApiKeyUseCase(repository);
+
+    await rejects(revoke.execute("11", key.id), 404);
+    await revoke.execute("10", key.id);
+    await rejects(revoke.execute("10", key.id), 404);
+    assert.deepEqual(await new ListApiKeysUseCase(repository).execute("11"), []);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { ChangePasswordUseCase } from "../changePasswordUseCase";
+import { AuthRepository } from "../../domain/repositories/AuthRepository";
+import { SupplierUserRepository } from "../../domain/repositories/SupplierUserRepository";
+import { RefreshTokenRepository } from "../../domain/repositories/RefreshTokenRepository";
+import { hashPassword, verifyPassword } from "../../../../shared/auth/passwordHasher";
+import { AppError } from "../../../../shared/errors/AppError";
+
+const SUPPLIER = { id: "10", username: "900123456", name: "Proveedor S.A.S." };
+
+const setup = (passwordHash: string) => {
+  const state = { passwordHash, mustChangePassword: true, revoked: [] as string[] };
+  const authRepository: AuthRepository = {
+    findByUsername: async () => null,
+    findById: async (id) => (id === SUPPLIER.id ? { ...SUPPLIER } : null),
+    getCredentials: async (userId) => ({ userId, ...state }),
+    saveCredentials: async (_userId, hash, mustChangePassword) => {
+      state.passwordHash = hash;
+      state.mustChangePassword = mustChangePassword;
+    },
+  };
+  const refreshTokenRepository = {
+    revokeAllForUser: async (userId: string, userType: string) => {
+      state.revoked.push(`${userType}:${userId}`);
+    },
+  } as unknown as RefreshTokenRepository;
+  const usecase = new ChangePasswordUseCase(authRepository, {} as SupplierUserRepository, refreshTokenRepository);
+  return { usecase, state };
+};
+
+const rejects = (promise: Promise<unknown>, statusCode: number) =>
+  assert.rejects(promise, (error: AppError) => {
+    assert.equal(error.statusCode, statusCode);
+    return true;
+  });
+
+describe("ChangePasswordUseCase", () => {
+  let hash: string;
+  before(async () => {
+    hash = await hashPassword("Clave-Inicial-2026");
+  });
+
+  it("guarda la nueva contraseña, levanta el cambio obligatorio y cierra las demás sesiones", async () => {
+    const { usecase, state } = setup(hash);
+    const user = await usecase.execute("10", "Clave-Inicial-2026", "Otra-Clave-Nueva-7");
+
+    assert.equal(user.mustChangePassword, false);
+    assert.equal(state.mustChangePassword, false);
+    assert.ok(await verifyPassword("Otra-Clave-Nueva-7", state.passwordHash));
+    assert.deepEqual(state.revoked, ["supplier:10"]);
+  });
+
+  it("exige la contraseña actual y una nueva distinta que cumpla la política", async () => {
+    const { usecase, state } = setup(hash);
+
+    await rejects(usecase.execute("10", "incorrecta", "Otra-Clave-Nueva-7"), 401);
+    await rejects(usecase.execute("10", "Clave-Inicial-2026", "Clave-Inicial-2026"), 400);
+    await rejects(usecase.execute("10", "Clave-Inicial-2026", "900123456"), 400);
+    assert.equal(state.passwordHash, hash);
+    assert.deepEqual(state.revoked, []);
+  });
+
+  it("rechaza un proveedor inexistente", async () => {
+    await rejects(setup(hash).usecase.execute("99", "Clave-Inicial-2026", "Otra-Clave-Nueva-7"), 404);
+  });
+});
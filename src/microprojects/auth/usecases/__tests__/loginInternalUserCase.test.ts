@@ -0,0 +1,68 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { LoginInternalUserUseCase } from "../loginInternalUserCase";
+import { IssueSessionUseCase } from "../issueSessionUseCase";
+import { InternalUserRepository } from "../../domain/repositories/InternalUserRepository";
+import { RefreshTokenRepository } from "../../domain/repositories/RefreshTokenRepository";
+import { InternalUser } from "../../domain/entities/InternalUser";
+import { hashPassword } from "../../../../shared/auth/passwordHasher";
+import { verifyAccessToken } from "../../../../shared/auth/tokenService";
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "secreto-de-pruebas";
+
+const repository = (users: InternalUser[]) =>
+  ({
+    findByUsername: async (username: string) => users.find((user) => user.username === username) ?? null,
+  }) as unknown as InternalUserRepository;
+
+describe("LoginInternalUserUseCase", () => {
+  let hash: string;
+  before(async () => {
+    hash = await hashPassword("Clave-Comprador-1");
+  });
+
+  it("ingresa un comprador activo con su rol y centros", async () => {
+    const usecase = new LoginInternalUserUseCase(
+      repository([{ id: "b1", username: "comprador", role: "buyer", active: true, centros: ["1002"], passwordHash: hash }])
+    );
+    const user = await usecase.execute("comprador", "Clave-Comprador-1");
+
+    assert.equal(user?.role, "buyer");
+    assert.deepEqual(user?.centros, ["1002"]);
+    assert.equal((user as any).passwordHash, undefined);
+  });
+
+  it("rechaza usuarios inactivos, sin contraseña o con una contraseña incorrecta", async () => {
+    const usecase = new LoginInternalUserUseCase(
+      repository([
+        { id: "b1", username: "comprador", role: "buyer", active: true, passwordHash: hash },
+        { id: "b2", username: "retirado", role: "buyer", active: false, passwordHash: hash },
+        { id: "b3", username: "pendiente", role: "buyer", active: true },
+      ])
+    );
+
+    assert.equal(await usecase.execute("comprador", "otra"), null);
+    assert.equal(await usecase.execute("retirado", "Clave-Comprador-1"), null);
+    assert.equal(await usecase.execute("pendiente", "Clave-Comprador-1"), null);
+    assert.equal(await usecase.execute("nadie", "Clave-Comprador-1"), null);
+  });
+
+  it("la sesión de un usuario interno lleva sus permisos y centros", async () => {
+    const created: string[] = [];
+    const tokens = {
+      createFamily: async (_familyId: string, userId: string, userType: string) => {
+        created.push(`${userType}:${userId}`);
+      },
+      create: async () => {},
+    } as unknown as RefreshTokenRepository;
+
+    const session = await new IssueSessionUseCase(tokens).execute({ id: "b1", role: "buyer", centros: ["1002"] });
+    const payload = verifyAccessToken(session.accessToken);
+
+    assert.deepEqual(created, ["internal:b1"]);
+    assert.equal(payload.role, "buyer");
+    assert.deepEqual(payload.centros, ["1002"]);
+    assert.ok(payload.permissions.includes("price-lists:review"));
+    assert.equal(payload.supplierRole, undefined);
+  });
+});
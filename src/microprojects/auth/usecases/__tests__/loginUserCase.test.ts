@@ -0,0 +1,70 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { LoginUserUseCase } from "../loginUserCase";
+import { AuthRepository } from "../../domain/repositories/AuthRepository";
+import { SupplierUserRepository } from "../../domain/repositories/SupplierUserRepository";
+import { Credentials } from "../../domain/entities/Credentials";
+import { SupplierUser } from "../../domain/entities/SupplierUser";
+import { hashPassword } from "../../../../shared/auth/passwordHasher";
+
+const SUPPLIER = { id: "10", username: "900123456", name: "Proveedor S.A.S." };
+
+// Repositorios en memoria con el proveedor 10 y su colaborador
+const setup = (credentials: Credentials | null, members: SupplierUser[] = []) => {
+  const saved: { userId: string; mustChangePassword: boolean }[] = [];
+  const authRepository: AuthRepository = {
+    findByUsername: async (username) => (username === SUPPLIER.username ? { ...SUPPLIER } : null),
+    findById: async (id) => (id === SUPPLIER.id ? { ...SUPPLIER } : null),
+    getCredentials: async () => credentials,
+    saveCredentials: async (userId, _hash, mustChangePassword) => {
+      saved.push({ userId, mustChangePassword });
+    },
+  };
+  const supplierUserRepository = {
+    findByEmail: async (email: string) => members.find((member) => member.email === email) ?? null,
+  } as unknown as SupplierUserRepository;
+  return { usecase: new LoginUserUseCase(authRepository, supplierUserRepository), saved };
+};
+
+describe("LoginUserUseCase", () => {
+  let hash: string;
+  before(async () => {
+    hash = await hashPassword("Clave-Segura-2026");
+  });
+
+  it("ingresa con el NIT y la contraseña del proveedor", async () => {
+    const { usecase } = setup({ userId: "10", passwordHash: hash, mustChangePassword: false });
+    const user = await usecase.execute("900123456", "Clave-Segura-2026");
+
+    assert.equal(user?.id, "10");
+    assert.equal(user?.supplierRole, "owner");
+    assert.equal(user?.mustChangePassword, false);
+  });
+
+  it("rechaza una contraseña incorrecta o un NIT desconocido", async () => {
+    const { usecase } = setup({ userId: "10", passwordHash: hash, mustChangePassword: false });
+
+    assert.equal(await usecase.execute("900123456", "otra"), null);
+    assert.equal(await usecase.execute("800000000", "Clave-Segura-2026"), null);
+    assert.equal(await usecase.execute("900123456", ""), null);
+  });
+
+  it("sin credenciales no acepta el id del proveedor como contraseña", async () => {
+    const { usecase, saved } = setup(null);
+
+    assert.equal(await usecase.execute("900123456", "10"), null);
+    assert.deepEqual(saved, []);
+  });
+
+  it("ingresa un colaborador activo con su correo", async () => {
+    const member = { id: "u1", supplierId: "10", email: "compras@proveedor.co", active: true, passwordHash: hash };
+    const { usecase } = setup(null, [member, { ...member, id: "u2", email: "ex@proveedor.co", active: false }]);
+
+    const user = await usecase.execute("compras@proveedor.co", "Clave-Segura-2026");
+    assert.equal(user?.id, "10");
+    assert.equal(user?.userId, "u1");
+    assert.equal(user?.supplierRole, "member");
+
+    assert.equal(await usecase.execute("ex@proveedor.co", "Clave-Segura-2026"), null);
+  });
+});
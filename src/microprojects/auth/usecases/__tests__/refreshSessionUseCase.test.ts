@@ -0,0 +1,141 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { IssueSessionUseCase } from "../issueSessionUseCase";
+import { RefreshSessionUseCase } from "../refreshSessionUseCase";
+import { LogoutUseCase } from "../logoutUseCase";
+import { AuthRepository } from "../../domain/repositories/AuthRepository";
+import { InternalUserRepository } from "../../domain/repositories/InternalUserRepository";
+import { SupplierUserRepository } from "../../domain/repositories/SupplierUserRepository";
+import { RefreshTokenRepository } from "../../domain/repositories/RefreshTokenRepository";
+import { RefreshToken, SessionUserType } from "../../domain/entities/RefreshToken";
+import { verifyAccessToken } from "../../../../shared/auth/tokenService";
+import { AppError } from "../../../../shared/errors/AppError";
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "secreto-de-pruebas";
+
+const SUPPLIER = { id: "10", username: "900123456", name: "Proveedor S.A.S." };
+
+// Refresh tokens en memoria, con la misma semántica que la tabla (familias y rotación)
+class MemoryRefreshTokenRepository implements RefreshTokenRepository {
+  families = new Map<string, { userId: string; userType: SessionUserType; revokedAt: Date | null }>();
+  tokens: RefreshToken[] = [];
+
+  async createFamily(familyId: string, userId: string, userType: SessionUserType) {
+    this.families.set(familyId, { userId, userType, revokedAt: null });
+  }
+
+  async create(familyId: string, tokenHash: string, expiresAt: Date) {
+    const family = this.families.get(familyId)!;
+    this.tokens.push({ id: this.tokens.length + 1, familyId, userId: family.userId, userType: family.userType, tokenHash, expiresAt });
+  }
+
+  async findByHash(tokenHash: string) {
+    const token = this.tokens.find((t) => t.tokenHash === tokenHash);
+    return token ? { ...token, familyRevokedAt: this.families.get(token.familyId)!.revokedAt } : null;
+  }
+
+  async markUsed(id: number) {
+    const token = this.tokens.find((t) => t.id === id)!;
+    if (token.usedAt) return false;
+    token.usedAt = new Date();
+    return true;
+  }
+
+  async revokeFamily(familyId: string) {
+    this.families.get(familyId)!.revokedAt = new Date();
+  }
+
+  async revokeAllForUser(userId: string, userType: SessionUserType) {
+    for (const family of this.families.values()) {
+      if (family.userId === userId && family.userType === userType) family.revokedAt = new Date();
+    }
+  }
+}
+
+const setup = (hasCredentials = true) => {
+  const tokens = new MemoryRefreshTokenRepository();
+  const authRepository: AuthRepository = {
+    findByUsername: async () => null,
+    findById: async (id) => (id === SUPPLIER.id ? { ...SUPPLIER } : null),
+    getCredentials: async (userId) =>
+      hasCredentials ? { userId, passwordHash: "x", mustChangePassword: false } : null,
+    saveCredentials: async () => {},
+  };
+  const issue = new IssueSessionUseCase(tokens);
+  const refresh = new RefreshSessionUseCase(
+    authRepository,
+    {} as InternalUserRepository,
+    {} as SupplierUserRepository,
+    tokens,
+    issue
+  );
+  return { tokens, issue, refresh, logout: new LogoutUseCase(tokens) };
+};
+
+const rejects = (promise: Promise<unknown>, statusCode: number) =>
+  assert.rejects(promise, (error: AppError) => {
+    assert.equal(error.statusCode, statusCode);
+    return true;
+  });
+
+describe("Sesiones con refresh token", () => {
+  it("emite un access token con la familia de la sesión y guarda solo el hash del refresh token", async () => {
+    const { issue, tokens } = setup();
+    const session = await issue.execute({ ...SUPPLIER, supplierRole: "owner" });
+
+    const payload = verifyAccessToken(session.accessToken);
+    assert.equal(payload.id, "10");
+    assert.equal(payload.role, "supplier");
+    assert.ok(tokens.families.has(payload.fid));
+    assert.equal(tokens.tokens.length, 1);
+    assert.notEqual(tokens.tokens[0].tokenHash, session.refreshToken);
+  });
+
+  it("rota el refresh token dentro de la misma familia", async () => {
+    const { issue, refresh, tokens } = setup();
+    const first = await issue.execute({ ...SUPPLIER });
+    const second = await refresh.execute(first.refreshToken);
+
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.equal(verifyAccessToken(second.accessToken).fid, verifyAccessToken(first.accessToken).fid);
+    assert.equal(tokens.families.size, 1);
+    assert.ok(tokens.tokens[0].usedAt);
+  });
+
+  it("revoca toda la familia si se reutiliza un refresh token ya rotado", async () => {
+    const { issue, refresh, tokens } = setup();
+    const first = await issue.execute({ ...SUPPLIER });
+    const second = await refresh.execute(first.refreshToken);
+
+    await rejects(refresh.execute(first.refreshToken), 401);
+    assert.ok([...tokens.families.values()][0].revokedAt);
+    await rejects(refresh.execute(second.refreshToken), 401);
+  });
+
+  it("rechaza tokens desconocidos o expirados y usuarios sin credenciales", async () => {
+    const { issue, refresh, tokens } = setup();
+    await rejects(refresh.execute(""), 400);
+    await rejects(refresh.execute("desconocido"), 401);
+
+    const expired = await issue.execute({ ...SUPPLIER });
+    tokens.tokens[0].expiresAt = new Date(Date.now() - 1000);
+    await rejects(refresh.execute(expired.refreshToken), 401);
+
+    const orphan = setup(false);
+    const session = await orphan.issue.execute({ ...SUPPLIER });
+    await rejects(orphan.refresh.execute(session.refreshToken), 401);
+    assert.ok([...orphan.tokens.families.values()][0].revokedAt);
+  });
+
+  it("logout revoca la familia y el refresh token deja de servir", async () => {
+    const { issue, refresh, logout, tokens } = setup();
+    const session = await issue.execute({ ...SUPPLIER });
+
+    await logout.execute(session.refreshToken);
+    assert.ok([...tokens.families.values()][0].revokedAt);
+    await rejects(refresh.execute(session.refreshToken), 401);
+
+    // Un token desconocido no falla: la sesión ya no existe
+    await logout.execute("desconocido");
+  });
+});
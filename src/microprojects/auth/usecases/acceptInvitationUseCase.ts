@@ -0,0 +1,51 @@
+import { SupplierUserRepository } from "../domain/repositories/SupplierUserRepository";
+import { InvitationRepository } from "../domain/repositories/InvitationRepository";
+import { SupplierUser } from "../domain/entities/SupplierUser";
+import { validatePassword } from "../domain/passwordPolicy";
+import { hashPassword } from "../../../shared/auth/passwordHasher";
+import { hashOpaqueToken } from "../../../shared/auth/opaqueToken";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class AcceptInvitationUseCase {
+  constructor(
+    private supplierUserRepository: SupplierUserRepository,
+    private invitationRepository: InvitationRepository
+  ) {}
+
+  async execute(token: string, name: string, password: string): Promise<SupplierUser> {
+    if (!token) {
+      throw new AppError("Token requerido", 400);
+    }
+
+    const tokenHash = hashOpaqueToken(String(token));
+    const invitation = await this.invitationRepository.findValid(tokenHash);
+    if (!invitation) {
+      throw new AppError("La invitación es inválida o expiró", 400);
+    }
+
+    const errors = validatePassword(password, { id: invitation.supplierId, username: invitation.email });
+    if (errors.length > 0) {
+      throw new AppError("La contraseña no cumple la política", 400, errors);
+    }
+
+    if (await this.supplierUserRepository.findByEmail(invitation.email)) {
+      throw new AppError("Ya existe un usuario con ese correo", 409);
+    }
+
+    // El consumo es atómico: una invitación solo crea un usuario
+    const accepted = await this.invitationRepository.accept(tokenHash);
+    if (!accepted) {
+      throw new AppError("La invitación es inválida o expiró", 400);
+    }
+
+    const { passwordHash, ...user } = await this.supplierUserRepository.create({
+      supplierId: invitation.supplierId,
+      email: invitation.email,
+      name: typeof name === "string" && name.trim() ? name.trim() : undefined,
+      active: true,
+      invitedBy: invitation.invitedBy,
+      passwordHash: await hashPassword(password),
+    });
+    return user;
+  }
+}
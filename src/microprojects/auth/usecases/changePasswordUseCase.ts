@@ -0,0 +1,73 @@
+import { AuthRepository } from "../domain/repositories/AuthRepository";
+import { SupplierUserRepository } from "../domain/repositories/SupplierUserRepository";
+import { RefreshTokenRepository } from "../domain/repositories/RefreshTokenRepository";
+import { User } from "../domain/entities/User";
+import { buildMemberUser } from "../domain/memberUser";
+import { validatePassword } from "../domain/passwordPolicy";
+import { hashPassword, verifyPassword } from "../../../shared/auth/passwordHasher";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class ChangePasswordUseCase {
+  constructor(
+    private authRepository: AuthRepository,
+    private supplierUserRepository: SupplierUserRepository,
+    private refreshTokenRepository: RefreshTokenRepository
+  ) {}
+
+  // memberId identifica al colaborador; sin él se cambia la contraseña de la cuenta del NIT
+  async execute(userId: string, currentPassword: string, newPassword: string, memberId?: string): Promise<User> {
+    if (memberId) {
+      return this.changeMemberPassword(userId, memberId, currentPassword, newPassword);
+    }
+
+    const user = await this.authRepository.findById(userId);
+    const credentials = user ? await this.authRepository.getCredentials(user.id) : null;
+
+    if (!user || !credentials) {
+      throw new AppError("Proveedor no encontrado", 404);
+    }
+
+    await this.checkPasswords(user, credentials.passwordHash, currentPassword, newPassword);
+
+    await this.authRepository.saveCredentials(user.id, await hashPassword(newPassword), false);
+    // Se cierran las demás sesiones; el llamador emite una nueva
+    await this.refreshTokenRepository.revokeAllForUser(user.id, "supplier");
+    return { ...user, mustChangePassword: false, supplierRole: "owner" };
+  }
+
+  private async changeMemberPassword(
+    supplierId: string,
+    memberId: string,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<User> {
+    const member = await this.supplierUserRepository.findById(memberId);
+    const supplier = member ? await this.authRepository.findById(member.supplierId) : null;
+
+    if (!member || !member.active || !member.passwordHash || !supplier || String(member.supplierId) !== String(supplierId)) {
+      throw new AppError("Usuario no encontrado", 404);
+    }
+
+    await this.checkPasswords({ id: supplier.id, username: member.email }, member.passwordHash, currentPassword, newPassword);
+
+    await this.supplierUserRepository.updatePassword(member.id, await hashPassword(newPassword));
+    await this.refreshTokenRepository.revokeAllForUser(member.id, "supplier_user");
+    return buildMemberUser(supplier, member);
+  }
+
+  private async checkPasswords(user: User, passwordHash: string, currentPassword: string, newPassword: string) {
+    const valid = await verifyPassword(String(currentPassword ?? ""), passwordHash);
+    if (!valid) {
+      throw new AppError("La contraseña actual es incorrecta", 401);
+    }
+
+    if (currentPassword === newPassword) {
+      throw new AppError("La nueva contraseña debe ser diferente a la actual", 400);
+    }
+
+    const errors = validatePassword(newPassword, user);
+    if (errors.length > 0) {
+      throw new AppError("La nueva contraseña no cumple la política", 400, errors);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import crypto from "crypto";
+import { ApiKeyRepository } from "../domain/repositories/ApiKeyRepository";
+import { ApiKey } from "../domain/entities/ApiKey";
+import { API_KEY_PREFIX } from "../../../shared/auth/apiKeyStore";
+import { hashOpaqueToken } from "../../../shared/auth/opaqueToken";
+import { API_KEY_SCOPES } from "../../../shared/auth/roles";
+import { AppError } from "../../../shared/errors/AppError";
+
+const MAX_ACTIVE_KEYS = 10;
+
+export class CreateApiKeyUseCase {
+  constructor(private apiKeyRepository: ApiKeyRepository) {}
+
+  // La llave en claro solo se devuelve en la creación
+  async execute(userId: string, name: string, scopes?: string[]): Promise<{ apiKey: string; key: ApiKey }> {
+    if (!name || typeof name !== "string" || name.trim().length > 80) {
+      throw new AppError("El nombre de la API key es obligatorio (máximo 80 caracteres)", 400);
+    }
+
+    // Sin scopes explícitos la llave recibe todas las operaciones delegables
+    const requested = Array.isArray(scopes) && scopes.length > 0 ? [...new Set(scopes)] : [...API_KEY_SCOPES];
+    const invalid = requested.filter((scope) => !(API_KEY_SCOPES as string[]).includes(scope));
+    if (invalid.length > 0) {
+      throw new AppError("Scopes inválidos", 400, invalid.map((scope) => `Scope no permitido: ${scope}`));
+    }
+
+    const active = (await this.apiKeyRepository.listByUser(userId)).filter((key) => !key.revokedAt);
+    if (active.length >= MAX_ACTIVE_KEYS) {
+      throw new AppError(`Se alcanzó el máximo de ${MAX_ACTIVE_KEYS} API keys activas`, 409);
+    }
+
+    const prefix = crypto.randomBytes(4).toString("hex");
+    const apiKey = `${API_KEY_PREFIX}${prefix}_${crypto.randomBytes(24).toString("hex")}`;
+
+    const key = await this.apiKeyRepository.create(userId, name.trim(), prefix, hashOpaqueToken(apiKey), requested);
+    return { apiKey, key };
+  }
+}
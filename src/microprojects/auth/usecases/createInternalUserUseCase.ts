@@ -0,0 +1,57 @@
+import { InternalUserRepository } from "../domain/repositories/InternalUserRepository";
+import { InternalUser } from "../domain/entities/InternalUser";
+import { validatePassword } from "../domain/passwordPolicy";
+import { hashPassword } from "../../../shared/auth/passwordHasher";
+import { isInternalRole, Role, ROLES } from "../../../shared/auth/roles";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class CreateInternalUserUseCase {
+  constructor(private internalUserRepository: InternalUserRepository) {}
+
+  async execute(data: {
+    username: string;
+    name?: string;
+    email?: string;
+    password: string;
+    role: Role;
+    centros?: string[] | null;
+  }): Promise<InternalUser> {
+    if (!data?.username) {
+      throw new AppError("El username es obligatorio", 400);
+    }
+    if (!ROLES.includes(data.role) || !isInternalRole(data.role)) {
+      throw new AppError("Rol inválido para un usuario interno", 400, ["Roles permitidos: buyer, admin"]);
+    }
+
+    // Sin centros (o null) el usuario consulta todos los centros de distribución
+    const centros = data.centros ?? null;
+    if (
+      centros !== null &&
+      (!Array.isArray(centros) || centros.length === 0 || !centros.every((c) => typeof c === "string" && /^[A-Za-z0-9]{1,4}$/.test(c)))
+    ) {
+      throw new AppError("Centros inválidos", 400, ["centros debe ser una lista de códigos bk_centro (máximo 4 caracteres) o null"]);
+    }
+
+    const errors = validatePassword(data.password, { id: "", username: data.username });
+    if (errors.length > 0) {
+      throw new AppError("La contraseña no cumple la política", 400, errors);
+    }
+
+    if (await this.internalUserRepository.findByUsername(data.username)) {
+      throw new AppError("Ya existe un usuario con ese username", 409);
+    }
+
+    const created = await this.internalUserRepository.create({
+      username: data.username,
+      name: data.name,
+      email: data.email,
+      role: data.role,
+      active: true,
+      centros: centros && [...new Set(centros)],
+      passwordHash: await hashPassword(data.password),
+    });
+
+    const { passwordHash, ...user } = created;
+    return user;
+  }
+}
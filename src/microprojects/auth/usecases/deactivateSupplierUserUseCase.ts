@@ -0,0 +1,20 @@
+import { SupplierUserRepository } from "../domain/repositories/SupplierUserRepository";
+import { RefreshTokenRepository } from "../domain/repositories/RefreshTokenRepository";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class DeactivateSupplierUserUseCase {
+  constructor(
+    private supplierUserRepository: SupplierUserRepository,
+    private refreshTokenRepository: RefreshTokenRepository
+  ) {}
+
+  // Desactiva al colaborador y cierra sus sesiones abiertas
+  async execute(supplierId: string, id: string): Promise<void> {
+    const deactivated = await this.supplierUserRepository.deactivate(supplierId, id);
+    if (!deactivated) {
+      throw new AppError("Usuario no encontrado", 404);
+    }
+
+    await this.refreshTokenRepository.revokeAllForUser(id, "supplier_user");
+  }
+}
@@ -0,0 +1,41 @@
+import { AuthRepository } from "../domain/repositories/AuthRepository";
+import { PasswordResetRepository } from "../domain/repositories/PasswordResetRepository";
+import { MailTransport } from "../../../shared/mail/MailTransport";
+import { generateOpaqueToken, hashOpaqueToken } from "../../../shared/auth/opaqueToken";
+
+const RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+const RESET_URL = process.env.PASSWORD_RESET_URL || "http://localhost:4200/reset-password";
+
+export class ForgotPasswordUseCase {
+  constructor(
+    private authRepository: AuthRepository,
+    private resetRepository: PasswordResetRepository,
+    private mailTransport: MailTransport
+  ) {}
+
+  // No revela si el NIT existe: el llamador siempre responde el mismo mensaje
+  async execute(username: string): Promise<void> {
+    if (!username) return;
+
+    const user = await this.authRepository.findByUsername(username);
+    if (!user || !user.email) return;
+
+    // Solo un token vigente por proveedor
+    await this.resetRepository.invalidateForUser(user.id);
+
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + RESET_TTL_MINUTES * 60 * 1000);
+    await this.resetRepository.create(user.id, hashOpaqueToken(token), expiresAt);
+
+    const link = `${RESET_URL}?token=${token}`;
+    await this.mailTransport.send({
+      to: user.email,
+      subject: "Restablecimiento de contraseña - Portal de proveedores",
+      text:
+        `Hola ${user.name ?? ""},\n\n` +
+        `Recibimos una solicitud para restablecer la contraseña del NIT ${user.username}.\n` +
+        `Use el siguiente enlace dentro de los próximos ${RESET_TTL_MINUTES} minutos:\n\n${link}\n\n` +
+        `Si usted no hizo esta solicitud, ignore este mensaje.`,
+    });
+  }
+}
@@ -0,0 +1,16 @@
+import { SupplierProfile } from "../domain/entities/SupplierProfile";
+import { SupplierProfileRepository } from "../domain/repositories/SupplierProfileRepository";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class GetProfileUseCase {
+  constructor(private profileRepository: SupplierProfileRepository) {}
+
+  async execute(supplierId: string): Promise<SupplierProfile> {
+    const profile = await this.profileRepository.findById(supplierId);
+    if (!profile) {
+      throw new AppError("Proveedor no encontrado", 404);
+    }
+
+    return profile;
+  }
+}
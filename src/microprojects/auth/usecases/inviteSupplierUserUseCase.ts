@@ -0,0 +1,53 @@
+import { AuthRepository } from "../domain/repositories/AuthRepository";
+import { SupplierUserRepository } from "../domain/repositories/SupplierUserRepository";
+import { InvitationRepository } from "../domain/repositories/InvitationRepository";
+import { MailTransport } from "../../../shared/mail/MailTransport";
+import { generateOpaqueToken, hashOpaqueToken } from "../../../shared/auth/opaqueToken";
+import { AppError } from "../../../shared/errors/AppError";
+
+const INVITATION_TTL_HOURS = Number(process.env.INVITATION_TTL_HOURS) || 72;
+const INVITATION_URL = process.env.INVITATION_URL || "http://localhost:4200/accept-invitation";
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class InviteSupplierUserUseCase {
+  constructor(
+    private authRepository: AuthRepository,
+    private supplierUserRepository: SupplierUserRepository,
+    private invitationRepository: InvitationRepository,
+    private mailTransport: MailTransport
+  ) {}
+
+  async execute(supplierId: string, email: string): Promise<void> {
+    const normalized = String(email ?? "").trim().toLowerCase();
+    if (!EMAIL_REGEX.test(normalized)) {
+      throw new AppError("Correo electrónico inválido", 400);
+    }
+
+    const supplier = await this.authRepository.findById(supplierId);
+    if (!supplier) {
+      throw new AppError("Proveedor no encontrado", 404);
+    }
+
+    if (await this.supplierUserRepository.findByEmail(normalized)) {
+      throw new AppError("Ya existe un usuario con ese correo", 409);
+    }
+
+    // Reenviar una invitación anula la anterior
+    await this.invitationRepository.cancelPending(supplier.id, normalized);
+
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000);
+    await this.invitationRepository.create(supplier.id, normalized, hashOpaqueToken(token), supplier.id, expiresAt);
+
+    await this.mailTransport.send({
+      to: normalized,
+      subject: "Invitación al portal de proveedores de Tierragro",
+      text:
+        `Hola,\n\n` +
+        `${supplier.name ?? "Un proveedor"} (NIT ${supplier.username}) lo invitó a usar el portal de proveedores.\n` +
+        `Cree su contraseña con el siguiente enlace dentro de las próximas ${INVITATION_TTL_HOURS} horas:\n\n` +
+        `${INVITATION_URL}?token=${token}\n\n` +
+        `Si no esperaba esta invitación, ignore este mensaje.`,
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import crypto from "crypto";
+import { RefreshTokenRepository } from "../domain/repositories/RefreshTokenRepository";
+import { User } from "../domain/entities/User";
+import { SessionUserType } from "../domain/entities/RefreshToken";
+import { Session } from "../domain/entities/Session";
+import { generateOpaqueToken, hashOpaqueToken } from "../../../shared/auth/opaqueToken";
+import { ACCESS_TOKEN_TTL_SECONDS, signAccessToken } from "../../../shared/auth/tokenService";
+import { isInternalRole, permissionsFor } from "../../../shared/auth/roles";
+
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 7;
+
+export class IssueSessionUseCase {
+  constructor(private refreshTokenRepository: RefreshTokenRepository) {}
+
+  // Sin familyId inicia una sesión nueva; con familyId rota dentro de la misma sesión
+  async execute(user: User, familyId?: string): Promise<Session> {
+    const role = user.role ?? "supplier";
+
+    if (!familyId) {
+      const userType: SessionUserType = isInternalRole(role)
+        ? "internal"
+        : user.userId ? "supplier_user" : "supplier";
+
+      familyId = crypto.randomUUID();
+      await this.refreshTokenRepository.createFamily(familyId, user.userId ?? user.id, userType);
+    }
+
+    const refreshToken = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+    await this.refreshTokenRepository.create(familyId, hashOpaqueToken(refreshToken), expiresAt);
+
+    const payload = {
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      email: user.email,
+      role,
+      permissions: permissionsFor(role),
+      // Centros de distribución que puede consultar un usuario interno (sin el claim, todos)
+      ...(isInternalRole(role) && user.centros && { centros: user.centros }),
+      mustChangePassword: Boolean(user.mustChangePassword),
+      // id sigue siendo el proveedor; userId identifica a la persona cuando es un colaborador
+      ...(role === "supplier" && {
+        supplierRole: user.supplierRole ?? "owner",
+        userId: user.userId,
+        userName: user.userName,
+      }),
+      fid: familyId,
+    };
+
+    return {
+      accessToken: signAccessToken(payload),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+}
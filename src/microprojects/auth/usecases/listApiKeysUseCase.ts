@@ -0,0 +1,10 @@
+import { ApiKeyRepository } from "../domain/repositories/ApiKeyRepository";
+import { ApiKey } from "../domain/entities/ApiKey";
+
+export class ListApiKeysUseCase {
+  constructor(private apiKeyRepository: ApiKeyRepository) {}
+
+  async execute(userId: string): Promise<ApiKey[]> {
+    return await this.apiKeyRepository.listByUser(userId);
+  }
+}
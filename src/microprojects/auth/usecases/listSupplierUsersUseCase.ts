@@ -0,0 +1,10 @@
+import { SupplierUserRepository } from "../domain/repositories/SupplierUserRepository";
+import { SupplierUser } from "../domain/entities/SupplierUser";
+
+export class ListSupplierUsersUseCase {
+  constructor(private supplierUserRepository: SupplierUserRepository) {}
+
+  async execute(supplierId: string): Promise<SupplierUser[]> {
+    return await this.supplierUserRepository.listBySupplier(supplierId);
+  }
+}
@@ -0,0 +1,26 @@
+import { InternalUserRepository } from "../domain/repositories/InternalUserRepository";
+import { User } from "../domain/entities/User";
+import { verifyPassword } from "../../../shared/auth/passwordHasher";
+
+export class LoginInternalUserUseCase {
+  constructor(private internalUserRepository: InternalUserRepository) {}
+
+  async execute(username: string, password: string): Promise<User | null> {
+    if (!username || !password) return null;
+
+    const user = await this.internalUserRepository.findByUsername(username);
+    if (!user || !user.active || !user.passwordHash) return null;
+
+    const valid = await verifyPassword(password, user.passwordHash);
+    if (!valid) return null;
+
+    return {
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      centros: user.centros ?? null,
+    };
+  }
+}
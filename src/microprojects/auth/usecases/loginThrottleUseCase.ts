@@ -0,0 +1,103 @@
+import { LoginAttempt } from "../domain/entities/LoginAttempt";
+import { LoginAttemptPolicy, LoginAttemptStore } from "../domain/repositories/LoginAttemptStore";
+import { AppError } from "../../../shared/errors/AppError";
+
+export type LoginScope = "supplier" | "internal";
+
+export interface ThrottleDecision {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  reason?: "locked" | "delay";
+}
+
+const minutes = (value: string | undefined, fallback: number) => (Number(value) || fallback) * 60 * 1000;
+
+const USER_POLICY: LoginAttemptPolicy = {
+  maxFailures: Number(process.env.LOGIN_MAX_FAILURES) || 5,
+  lockoutMs: minutes(process.env.LOGIN_LOCKOUT_MINUTES, 15),
+  windowMs: minutes(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES, 15),
+};
+
+// Una IP puede agrupar a varios usuarios (NAT corporativo), por eso su umbral es mayor.
+// Detrás de un balanceador requiere TRUST_PROXY (ver app.ts) para ver la IP del cliente.
+const IP_POLICY: LoginAttemptPolicy = {
+  ...USER_POLICY,
+  maxFailures: Number(process.env.LOGIN_MAX_FAILURES_PER_IP) || 20,
+};
+
+const BASE_DELAY_MS = Number(process.env.LOGIN_BASE_DELAY_MS) || 500;
+const MAX_DELAY_MS = Number(process.env.LOGIN_MAX_DELAY_MS) || 30 * 1000;
+
+/**
+ * Protección contra fuerza bruta en el login.
+ *
+ * Cuenta los fallos por usuario y por IP. Cada fallo de un usuario impone una
+ * espera exponencial antes del siguiente intento (500 ms, 1 s, 2 s, ...) y al
+ * superar el máximo de fallos el usuario o la IP quedan bloqueados temporalmente.
+ */
+export class LoginThrottleUseCase {
+  constructor(private store: LoginAttemptStore) {}
+
+  async check(scope: LoginScope, username: string, ip: string): Promise<ThrottleDecision> {
+    const now = Date.now();
+    const [userAttempt, ipAttempt] = await Promise.all([
+      this.store.get(this.userKey(scope, username)),
+      this.store.get(this.ipKey(scope, ip)),
+    ]);
+
+    const lockedUntil = Math.max(this.lockedUntil(userAttempt, now), this.lockedUntil(ipAttempt, now));
+    if (lockedUntil > now) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((lockedUntil - now) / 1000), reason: "locked" };
+    }
+
+    if (userAttempt && userAttempt.lastFailureAt.getTime() >= now - USER_POLICY.windowMs) {
+      const nextAllowed = userAttempt.lastFailureAt.getTime() + this.delayFor(userAttempt.failures);
+      if (nextAllowed > now) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((nextAllowed - now) / 1000), reason: "delay" };
+      }
+    }
+
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  async registerFailure(scope: LoginScope, username: string, ip: string): Promise<void> {
+    await Promise.all([
+      this.store.recordFailure(this.userKey(scope, username), USER_POLICY),
+      this.store.recordFailure(this.ipKey(scope, ip), IP_POLICY),
+    ]);
+  }
+
+  // El contador de la IP no se reinicia: un atacante con cuenta propia podría limpiarlo
+  async registerSuccess(scope: LoginScope, username: string): Promise<void> {
+    await this.store.reset(this.userKey(scope, username));
+  }
+
+  // Desbloqueo manual por un administrador
+  async unlock(scope: LoginScope, username?: string, ip?: string): Promise<void> {
+    if (!username && !ip) {
+      throw new AppError("Debe indicar username o ip a desbloquear", 400);
+    }
+    if (scope !== "supplier" && scope !== "internal") {
+      throw new AppError("Scope inválido (supplier | internal)", 400);
+    }
+
+    if (username) await this.store.reset(this.userKey(scope, username));
+    if (ip) await this.store.reset(this.ipKey(scope, ip));
+  }
+
+  private delayFor(failures: number): number {
+    return Math.min(BASE_DELAY_MS * 2 ** Math.max(failures - 1, 0), MAX_DELAY_MS);
+  }
+
+  private lockedUntil(attempt: LoginAttempt | null, now: number): number {
+    return attempt?.lockedUntil ? new Date(attempt.lockedUntil).getTime() : now;
+  }
+
+  private userKey(scope: LoginScope, username: string): string {
+    return `${scope}:user:${String(username ?? "").trim().toLowerCase()}`;
+  }
+
+  private ipKey(scope: LoginScope, ip: string): string {
+    return `${scope}:ip:${ip}`;
+  }
+}
@@ -1,9 +1,57 @@
 import { AuthRepository } from "../domain/repositories/AuthRepository";
+import { SupplierUserRepository } from "../domain/repositories/SupplierUserRepository";
+import { User } from "../domain/entities/User";
+import { buildMemberUser } from "../domain/memberUser";
+import { hashPassword, verifyPassword } from "../../../shared/auth/passwordHasher";
+
+// Los proveedores sin credenciales definen su contraseña con el flujo de
+// recuperación (POST /forgot-password). Solo con AUTH_ALLOW_LEGACY_FIRST_LOGIN=true
+// pueden ingresar una única vez con su id_proveedor, quedando obligados a cambiarla.
+const ALLOW_LEGACY_FIRST_LOGIN = process.env.AUTH_ALLOW_LEGACY_FIRST_LOGIN === "true";
 
 export class LoginUserUseCase {
-  constructor(private authRepository: AuthRepository) {}
+  constructor(
+    private authRepository: AuthRepository,
+    private supplierUserRepository: SupplierUserRepository
+  ) {}
+
+  // El username es el NIT (cuenta del proveedor) o el correo de un colaborador
+  async execute(username: string, password: string): Promise<User | null> {
+    if (!username || !password) return null;
+
+    if (String(username).includes("@")) {
+      return this.loginMember(String(username), password);
+    }
+
+    const user = await this.authRepository.findByUsername(username);
+    if (!user) return null;
+
+    const credentials = await this.authRepository.getCredentials(user.id);
+
+    if (!credentials) {
+      if (!ALLOW_LEGACY_FIRST_LOGIN || password !== String(user.id)) return null;
+
+      // Primer ingreso: se guarda el hash de la contraseña inicial y se exige cambiarla
+      await this.authRepository.saveCredentials(user.id, await hashPassword(password), true);
+      return { ...user, mustChangePassword: true, supplierRole: "owner" };
+    }
+
+    const valid = await verifyPassword(password, credentials.passwordHash);
+    if (!valid) return null;
+
+    return { ...user, mustChangePassword: credentials.mustChangePassword, supplierRole: "owner" };
+  }
+
+  private async loginMember(email: string, password: string): Promise<User | null> {
+    const member = await this.supplierUserRepository.findByEmail(email);
+    if (!member || !member.active || !member.passwordHash) return null;
+
+    const valid = await verifyPassword(password, member.passwordHash);
+    if (!valid) return null;
+
+    const supplier = await this.authRepository.findById(member.supplierId);
+    if (!supplier) return null;
 
-  async execute(username: string, password: string) {
-    return await this.authRepository.login(username, password);
+    return buildMemberUser(supplier, member);
   }
 }
@@ -0,0 +1,19 @@
+import { RefreshTokenRepository } from "../domain/repositories/RefreshTokenRepository";
+import { hashOpaqueToken } from "../../../shared/auth/opaqueToken";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class LogoutUseCase {
+  constructor(private refreshTokenRepository: RefreshTokenRepository) {}
+
+  // Revoca la familia completa: el refresh token y los access tokens emitidos con él
+  async execute(refreshToken: string): Promise<void> {
+    if (!refreshToken) {
+      throw new AppError("Refresh token requerido", 400);
+    }
+
+    const stored = await this.refreshTokenRepository.findByHash(hashOpaqueToken(String(refreshToken)));
+    if (!stored) return;
+
+    await this.refreshTokenRepository.revokeFamily(stored.familyId);
+  }
+}
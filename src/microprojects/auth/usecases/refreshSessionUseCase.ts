@@ -0,0 +1,77 @@
+import { AuthRepository } from "../domain/repositories/AuthRepository";
+import { InternalUserRepository } from "../domain/repositories/InternalUserRepository";
+import { SupplierUserRepository } from "../domain/repositories/SupplierUserRepository";
+import { RefreshTokenRepository } from "../domain/repositories/RefreshTokenRepository";
+import { RefreshToken } from "../domain/entities/RefreshToken";
+import { Session } from "../domain/entities/Session";
+import { User } from "../domain/entities/User";
+import { buildMemberUser } from "../domain/memberUser";
+import { IssueSessionUseCase } from "./issueSessionUseCase";
+import { hashOpaqueToken } from "../../../shared/auth/opaqueToken";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class RefreshSessionUseCase {
+  constructor(
+    private authRepository: AuthRepository,
+    private internalUserRepository: InternalUserRepository,
+    private supplierUserRepository: SupplierUserRepository,
+    private refreshTokenRepository: RefreshTokenRepository,
+    private issueSessionUseCase: IssueSessionUseCase
+  ) {}
+
+  async execute(refreshToken: string): Promise<Session> {
+    if (!refreshToken) {
+      throw new AppError("Refresh token requerido", 400);
+    }
+
+    const stored = await this.refreshTokenRepository.findByHash(hashOpaqueToken(String(refreshToken)));
+
+    if (!stored || stored.familyRevokedAt || stored.expiresAt <= new Date()) {
+      throw new AppError("Refresh token inválido o expirado", 401);
+    }
+
+    // Un token ya rotado que vuelve a presentarse indica robo: se cierra toda la sesión
+    const rotated = await this.refreshTokenRepository.markUsed(stored.id);
+    if (!rotated) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+      throw new AppError("Refresh token reutilizado; la sesión fue revocada", 401);
+    }
+
+    // Los datos del token se recargan para reflejar cambios de perfil, rol o contraseña
+    const user = await this.loadUser(stored);
+    if (!user) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+      throw new AppError("Usuario no encontrado o inactivo", 401);
+    }
+
+    return this.issueSessionUseCase.execute(user, stored.familyId);
+  }
+
+  private async loadUser(stored: RefreshToken): Promise<User | null> {
+    if (stored.userType === "internal") {
+      const internal = await this.internalUserRepository.findById(stored.userId);
+      if (!internal || !internal.active) return null;
+      return {
+        id: internal.id,
+        username: internal.username,
+        name: internal.name,
+        email: internal.email,
+        role: internal.role,
+        centros: internal.centros ?? null,
+      };
+    }
+
+    if (stored.userType === "supplier_user") {
+      const member = await this.supplierUserRepository.findById(stored.userId);
+      if (!member || !member.active) return null;
+      const supplier = await this.authRepository.findById(member.supplierId);
+      return supplier ? buildMemberUser(supplier, member) : null;
+    }
+
+    const user = await this.authRepository.findById(stored.userId);
+    const credentials = user ? await this.authRepository.getCredentials(user.id) : null;
+    if (!user || !credentials) return null;
+
+    return { ...user, mustChangePassword: credentials.mustChangePassword, supplierRole: "owner" };
+  }
+}
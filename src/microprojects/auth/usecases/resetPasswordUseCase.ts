@@ -0,0 +1,43 @@
+import { AuthRepository } from "../domain/repositories/AuthRepository";
+import { PasswordResetRepository } from "../domain/repositories/PasswordResetRepository";
+import { RefreshTokenRepository } from "../domain/repositories/RefreshTokenRepository";
+import { validatePassword } from "../domain/passwordPolicy";
+import { hashPassword } from "../../../shared/auth/passwordHasher";
+import { hashOpaqueToken } from "../../../shared/auth/opaqueToken";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class ResetPasswordUseCase {
+  constructor(
+    private authRepository: AuthRepository,
+    private resetRepository: PasswordResetRepository,
+    private refreshTokenRepository: RefreshTokenRepository
+  ) {}
+
+  async execute(token: string, newPassword: string): Promise<void> {
+    if (!token) {
+      throw new AppError("Token requerido", 400);
+    }
+
+    const tokenHash = hashOpaqueToken(String(token));
+    const resetToken = await this.resetRepository.findValid(tokenHash);
+    const user = resetToken ? await this.authRepository.findById(resetToken.userId) : null;
+
+    if (!resetToken || !user) {
+      throw new AppError("El enlace de restablecimiento es inválido o expiró", 400);
+    }
+
+    const errors = validatePassword(newPassword, user);
+    if (errors.length > 0) {
+      throw new AppError("La nueva contraseña no cumple la política", 400, errors);
+    }
+
+    // El consumo es atómico: si dos peticiones usan el mismo token solo una gana
+    const consumed = await this.resetRepository.consume(tokenHash);
+    if (!consumed) {
+      throw new AppError("El enlace de restablecimiento es inválido o expiró", 400);
+    }
+
+    await this.authRepository.saveCredentials(user.id, await hashPassword(newPassword), false);
+    await this.refreshTokenRepository.revokeAllForUser(user.id, "supplier");
+  }
+}
@@ -0,0 +1,13 @@
+import { ApiKeyRepository } from "../domain/repositories/ApiKeyRepository";
+import { AppError } from "../../../shared/errors/AppError";
+
+export class RevokeApiKeyUseCase {
+  constructor(private apiKeyRepository: ApiKeyRepository) {}
+
+  async execute(userId: string, id: number): Promise<void> {
+    const revoked = await this.apiKeyRepository.revoke(userId, Number(id));
+    if (!revoked) {
+      throw new AppError("API key no encontrada", 404);
+    }
+  }
+}
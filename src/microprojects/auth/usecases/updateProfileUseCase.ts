@@ -0,0 +1,63 @@
+import { ProfileChange, SupplierContactField, SupplierProfile } from "../domain/entities/SupplierProfile";
+import { SupplierProfileRepository } from "../domain/repositories/SupplierProfileRepository";
+import { AppError } from "../../../shared/errors/AppError";
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Dígitos con separadores habituales y prefijo internacional opcional
+const PHONE_REGEX = /^\+?[0-9][0-9 ()-]{5,18}[0-9]$/;
+
+export interface ProfileUpdate {
+  email?: string;
+  phone?: string;
+}
+
+export class UpdateProfileUseCase {
+  constructor(private profileRepository: SupplierProfileRepository) {}
+
+  async execute(supplierId: string, update: ProfileUpdate, changedBy: string): Promise<SupplierProfile> {
+    const contact = this.validate(update);
+
+    const profile = await this.profileRepository.findById(supplierId);
+    if (!profile) {
+      throw new AppError("Proveedor no encontrado", 404);
+    }
+
+    const changes: ProfileChange[] = (Object.keys(contact) as SupplierContactField[])
+      .filter((field) => (profile[field] ?? null) !== contact[field])
+      .map((field) => ({ field, oldValue: profile[field] ?? null, newValue: contact[field]! }));
+
+    if (changes.length === 0) return profile;
+
+    const applied = Object.fromEntries(changes.map((change) => [change.field, change.newValue!]));
+    await this.profileRepository.applyChanges(supplierId, changes, changedBy);
+
+    return { ...profile, ...applied };
+  }
+
+  private validate(update: ProfileUpdate): Partial<Record<SupplierContactField, string>> {
+    const errors: string[] = [];
+    const contact: Partial<Record<SupplierContactField, string>> = {};
+
+    if (update?.email === undefined && update?.phone === undefined) {
+      throw new AppError("Debe enviar email y/o phone", 400);
+    }
+
+    if (update.email !== undefined) {
+      const email = String(update.email ?? "").trim().toLowerCase();
+      if (!EMAIL_REGEX.test(email) || email.length > 255) errors.push("email: correo electrónico inválido");
+      else contact.email = email;
+    }
+
+    if (update.phone !== undefined) {
+      const phone = String(update.phone ?? "").trim();
+      if (!PHONE_REGEX.test(phone)) errors.push("phone: teléfono inválido");
+      else contact.phone = phone;
+    }
+
+    if (errors.length > 0) {
+      throw new AppError("Datos de contacto inválidos", 400, errors);
+    }
+
+    return contact;
+  }
+}
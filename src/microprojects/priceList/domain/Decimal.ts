@@ -0,0 +1,196 @@
+/**
+ * Decimales internos con los que se representan los valores
+ * @constant {number}
+ */
+const SCALE = 12;
+
+/**
+ * Factor de escala (10^SCALE)
+ * @constant {bigint}
+ */
+const FACTOR = 10n ** BigInt(SCALE);
+
+/**
+ * Número decimal exacto para cálculos de precios.
+ *
+ * Guarda el valor como un entero escalado (BigInt con 12 decimales), así que
+ * sumas, restas y multiplicaciones no arrastran los errores de punto
+ * flotante (0.1 + 0.2 === 0.3). Las divisiones y el redondeo final usan
+ * redondeo half-up (0.005 → 0.01). Es inmutable: cada operación devuelve
+ * una instancia nueva.
+ *
+ * @class Decimal
+ * @module PriceList/Domain
+ *
+ * @example
+ * Decimal.of('100.50').times(Decimal.of('0.9')).toFixed(2); // '90.45'
+ */
+export default class Decimal {
+  /**
+   * Valor escalado por 10^SCALE
+   * @private
+   * @type {bigint}
+   */
+  private readonly units: bigint;
+
+  /**
+   * @private
+   * @constructor
+   * @param {bigint} units - Valor ya escalado
+   */
+  private constructor(units: bigint) {
+    this.units = units;
+  }
+
+  /**
+   * Crea un decimal desde un número o texto (por ejemplo una columna NUMERIC).
+   *
+   * @public
+   * @static
+   * @param {any} value - Valor a convertir
+   * @returns {Decimal | null} Decimal, o null si el valor está vacío o no es numérico
+   *
+   * @example
+   * Decimal.from('1500.25'); // 1500.25
+   * Decimal.from(''); // null
+   */
+  public static from(value: any): Decimal | null {
+    if (value === undefined || value === null || value === '') return null;
+    if (value instanceof Decimal) return value;
+
+    let text: string;
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) return null;
+      text = /e/i.test(String(value)) ? value.toFixed(SCALE) : String(value);
+    } else {
+      text = String(value).trim();
+    }
+
+    const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text);
+    if (!match || (match[2] === '' && (match[3] ?? '') === '')) return null;
+
+    const [, sign, integer, fraction = ''] = match;
+    // Los decimales que sobran se redondean half-up
+    const digits = BigInt((integer || '0') + fraction.padEnd(SCALE + 1, '0').slice(0, SCALE + 1));
+    const units = Decimal.divRound(digits, 10n);
+    return new Decimal(sign === '-' ? -units : units);
+  }
+
+  /**
+   * Como {@link Decimal.from}, pero falla si el valor no es numérico.
+   *
+   * @public
+   * @static
+   * @param {any} value - Valor a convertir
+   * @returns {Decimal} Decimal
+   *
+   * @throws {Error} Si el valor está vacío o no es numérico
+   */
+  public static of(value: any): Decimal {
+    const decimal = Decimal.from(value);
+    if (!decimal) {
+      throw new Error(`Valor decimal inválido: ${value}`);
+    }
+    return decimal;
+  }
+
+  /**
+   * @public
+   * @param {Decimal} other - Sumando
+   * @returns {Decimal} this + other
+   */
+  public plus(other: Decimal): Decimal {
+    return new Decimal(this.units + other.units);
+  }
+
+  /**
+   * @public
+   * @param {Decimal} other - Sustraendo
+   * @returns {Decimal} this - other
+   */
+  public minus(other: Decimal): Decimal {
+    return new Decimal(this.units - other.units);
+  }
+
+  /**
+   * @public
+   * @param {Decimal} other - Factor
+   * @returns {Decimal} this × other
+   */
+  public times(other: Decimal): Decimal {
+    return new Decimal(Decimal.divRound(this.units * other.units, FACTOR));
+  }
+
+  /**
+   * @public
+   * @param {Decimal} other - Divisor
+   * @returns {Decimal} this ÷ other, redondeado a 12 decimales
+   *
+   * @throws {Error} Si el divisor es cero
+   */
+  public dividedBy(other: Decimal): Decimal {
+    if (other.units === 0n) {
+      throw new Error('División por cero');
+    }
+    return new Decimal(Decimal.divRound(this.units * FACTOR, other.units));
+  }
+
+  /**
+   * @public
+   * @returns {boolean} Si el valor es cero
+   */
+  public isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  /**
+   * Redondea half-up a la cantidad de decimales indicada.
+   *
+   * @public
+   * @param {number} decimals - Decimales (0 a 12)
+   * @returns {string} Valor con exactamente `decimals` decimales
+   *
+   * @example
+   * Decimal.of('2.675').toFixed(2); // '2.68' (con Number sería '2.67')
+   */
+  public toFixed(decimals: number): string {
+    const rounded = Decimal.divRound(this.units, 10n ** BigInt(SCALE - decimals));
+    const negative = rounded < 0n;
+    const digits = (negative ? -rounded : rounded).toString().padStart(decimals + 1, '0');
+
+    const integer = digits.slice(0, digits.length - decimals);
+    const fraction = decimals > 0 ? '.' + digits.slice(digits.length - decimals) : '';
+    return (negative ? '-' : '') + integer + fraction;
+  }
+
+  /**
+   * Redondea half-up y convierte a número (para respuestas JSON).
+   *
+   * @public
+   * @param {number} decimals - Decimales (0 a 12)
+   * @returns {number} Valor redondeado
+   */
+  public toNumber(decimals: number): number {
+    return Number(this.toFixed(decimals));
+  }
+
+  /**
+   * División entera con redondeo half-up (alejándose de cero).
+   *
+   * @private
+   * @static
+   * @param {bigint} numerator - Dividendo
+   * @param {bigint} denominator - Divisor (distinto de cero)
+   * @returns {bigint} Cociente redondeado
+   */
+  private static divRound(numerator: bigint, denominator: bigint): bigint {
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    const abs = (n: bigint) => (n < 0n ? -n : n);
+
+    if (abs(remainder) * 2n >= abs(denominator)) {
+      return quotient + ((numerator < 0n) !== (denominator < 0n) ? -1n : 1n);
+    }
+    return quotient;
+  }
+}
@@ -0,0 +1,140 @@
+import Decimal from './Decimal';
+import { PriceBreakdown, PriceTaxRate, SupplierPriceRow } from '../../../shared/types/priceList';
+
+/**
+ * Decimales con los que se entregan los montos calculados
+ * @constant {number}
+ */
+export const PRICE_DECIMALS = 2;
+
+/**
+ * Cien, para convertir porcentajes
+ * @constant {Decimal}
+ */
+const HUNDRED = Decimal.of(100);
+
+/**
+ * Calculadora del costo neto de un item de lista de precios.
+ *
+ * Parte del costo unitario del proveedor (bruto), aplica DESC1 y luego DESC2
+ * en cascada sobre el resultado anterior, suma el impuesto según el código
+ * `tax_1` de SAP y la tabla de tasas, y entrega el costo neto. Todo el
+ * cálculo se hace con {@link Decimal}. El costo con descuentos y el impuesto
+ * se redondean a dos decimales como en una línea de factura, y el neto es
+ * su suma, así que el desglose siempre cuadra al centavo.
+ *
+ * Un descuento vacío cuenta como 0. Si el item no tiene costo no se calcula
+ * nada; si su código de impuesto no está en la tabla se entrega el costo con
+ * descuentos, pero no el impuesto ni el neto.
+ *
+ * @class PriceCalculator
+ * @module PriceList/Domain
+ */
+export default class PriceCalculator {
+  /**
+   * Calcula el desglose de costo de un registro.
+   *
+   * @public
+   * @static
+   * @param {SupplierPriceRow} row - Registro con costo_unitario, descuentos y tipo_impuesto
+   * @param {PriceTaxRate[]} rates - Tasas de impuesto por código
+   * @returns {PriceBreakdown} Bruto, con descuentos, tasa, impuesto y neto
+   *
+   * @example
+   * PriceCalculator.calculate(
+   *   { costo_unitario: '100.50', descuento1: 10, descuento2: 5, tipo_impuesto: 'IVA19', ... },
+   *   [{ tax_code: 'IVA19', rate_pct: 19 }]
+   * );
+   * // 85.9275 → 85.93; 85.93 × 19% = 16.3267 → 16.33; 85.93 + 16.33 = 102.26
+   * // { precio_bruto: 100.5, costo_descuentos: 85.93, tasa_impuesto: 19, impuesto: 16.33, precio_neto: 102.26 }
+   */
+  public static calculate(row: SupplierPriceRow, rates: PriceTaxRate[]): PriceBreakdown {
+    const breakdown: PriceBreakdown = {
+      precio_bruto: null,
+      costo_descuentos: null,
+      tasa_impuesto: null,
+      impuesto: null,
+      precio_neto: null,
+    };
+
+    const bruto = Decimal.from(row.costo_unitario);
+    if (!bruto) return breakdown;
+
+    const descontado = PriceCalculator.round(PriceCalculator.discounted(row)!);
+    breakdown.precio_bruto = bruto.toNumber(PRICE_DECIMALS);
+    breakdown.costo_descuentos = descontado.toNumber(PRICE_DECIMALS);
+
+    const tasa = PriceCalculator.taxRate(row.tipo_impuesto, rates);
+    if (!tasa) return breakdown;
+
+    const impuesto = PriceCalculator.round(descontado.times(tasa).dividedBy(HUNDRED));
+    breakdown.tasa_impuesto = tasa.toNumber(PRICE_DECIMALS);
+    breakdown.impuesto = impuesto.toNumber(PRICE_DECIMALS);
+    breakdown.precio_neto = descontado.plus(impuesto).toNumber(PRICE_DECIMALS);
+
+    return breakdown;
+  }
+
+  /**
+   * Agrega el desglose de costo a un registro.
+   *
+   * @public
+   * @static
+   * @param {SupplierPriceRow} row - Registro combinado con SAP
+   * @param {PriceTaxRate[]} rates - Tasas de impuesto por código
+   * @returns {SupplierPriceRow} Copia del registro con precio_bruto, costo_descuentos, tasa_impuesto, impuesto y precio_neto
+   */
+  public static apply(row: SupplierPriceRow, rates: PriceTaxRate[]): SupplierPriceRow {
+    return { ...row, ...PriceCalculator.calculate(row, rates) };
+  }
+
+  /**
+   * Costo unitario con DESC1 y luego DESC2 aplicados en cascada, sin redondear.
+   *
+   * @public
+   * @static
+   * @param {SupplierPriceRow} row - Registro de la lista de precios
+   * @returns {Decimal | null} Costo con descuentos, o null si el registro no tiene costo
+   *
+   * @example
+   * // 100.50 × (1 - 10%) × (1 - 5%) = 85.9275
+   * PriceCalculator.discounted({ costo_unitario: '100.50', descuento1: 10, descuento2: 5, ... });
+   */
+  public static discounted(row: SupplierPriceRow): Decimal | null {
+    const bruto = Decimal.from(row.costo_unitario);
+    if (!bruto) return null;
+
+    return [row.descuento1, row.descuento2].reduce<Decimal>((costo, descuento) => {
+      const pct = Decimal.from(descuento);
+      return pct ? costo.times(HUNDRED.minus(pct)).dividedBy(HUNDRED) : costo;
+    }, bruto);
+  }
+
+  /**
+   * Redondea un monto a PRICE_DECIMALS (half-up).
+   *
+   * @private
+   * @static
+   * @param {Decimal} value - Monto sin redondear
+   * @returns {Decimal} Monto redondeado
+   */
+  private static round(value: Decimal): Decimal {
+    return Decimal.of(value.toFixed(PRICE_DECIMALS));
+  }
+
+  /**
+   * Tasa de impuesto para un código tax_1.
+   *
+   * @private
+   * @static
+   * @param {string | undefined} code - Código de impuesto de SAP
+   * @param {PriceTaxRate[]} rates - Tasas de impuesto por código
+   * @returns {Decimal | null} Tasa en %, o null si el código no está en la tabla
+   */
+  private static taxRate(code: string | undefined, rates: PriceTaxRate[]): Decimal | null {
+    if (code === undefined || code === null) return null;
+    const key = String(code).trim();
+    const rate = rates.find((r) => String(r.tax_code).trim() === key);
+    return rate ? Decimal.from(rate.rate_pct) : null;
+  }
+}
@@ -1,4 +1,13 @@
-import { PriceListItem } from '../../../shared/types/priceList';
+import { PriceListFieldError, PriceListItem, SupplierPriceRow } from '../../../shared/types/priceList';
+import PriceListValidationError, { PriceListFieldIssue } from './PriceListValidationError';
+import PriceQuote from './PriceQuote';
+
+/**
+ * Centro de distribución (bk_centro de SAP) de los items que no indican CENTRO.
+ * Es el centro con el que se cargaron las listas antes de cotizar por centro.
+ * @constant {string}
+ */
+export const DEFAULT_CENTRO = process.env.PRICE_LIST_DEFAULT_CENTRO || '1001';
 
 /**
  * Entidad de dominio que representa un elemento de lista de precios.
@@ -32,9 +41,13 @@ export default class PriceList {
    * @param {number|string|null} [data.DESC1] - Primer descuento aplicable (numérico, máx. 3 dígitos)
    * @param {number|string|null} [data.DESC2] - Segundo descuento aplicable (numérico, máx. 3 dígitos)
    * @param {number|null} [data.PROVEEDOR] - ID del proveedor
+   * @param {string|null} [data.CENTRO] - Centro de distribución (alfanumérico, máx. 4 caracteres; por defecto DEFAULT_CENTRO)
+   * @param {string|null} [data.MONEDA] - Moneda de COSTO_UNIT (ISO 4217, 3 letras; por defecto COP)
+   * @param {string|null} [data.UNIDAD] - Unidad de medida cotizada (alfanumérico, máx. 3 caracteres)
+   * @param {number|string|null} [data.FACTOR_UNIDAD] - Unidades base de SAP por UNIDAD (mayor que 0; requerido con UNIDAD)
    *
-   * @throws {Error} Si COD_PROV no está presente en los datos
-   * @throws {Error} Si alguna validación de formato o tamaño falla
+   * @throws {PriceListValidationError} Si COD_PROV no está presente en los datos
+   * @throws {PriceListValidationError} Si alguna validación de formato o tamaño falla (indica el campo)
    *
    * @example
    * const precio = new PriceList({
@@ -48,49 +61,10 @@ export default class PriceList {
    * });
    */
   constructor(data: PriceListItem) {
-    // Validaciones de datos requeridos
-    if (!data || !data.COD_PROV) {
-      throw new Error('COD_PROV es requerido en PriceList');
-    }
-
-    // Validar COD_PROV: Alfanumérico, máximo 12 caracteres
-    this.validateCodProv(data.COD_PROV);
-
-    // Validar COD_SAP: Numérico, máximo 6 dígitos (si está presente)
-    if (
-      data.COD_SAP !== undefined &&
-      data.COD_SAP !== null &&
-      data.COD_SAP !== ''
-    ) {
-      this.validateCodSap(data.COD_SAP);
-    }
-
-    // Validar DESCRIP: Alfanumérico, máximo 40 caracteres (si está presente)
-    if (
-      data.DESCRIP !== undefined &&
-      data.DESCRIP !== null &&
-      data.DESCRIP !== ''
-    ) {
-      this.validateDescrip(data.DESCRIP);
-    }
-
-    // Validar COSTO_UNIT: Decimal (si está presente)
-    if (
-      data.COSTO_UNIT !== undefined &&
-      data.COSTO_UNIT !== null &&
-      data.COSTO_UNIT !== ''
-    ) {
-      this.validateCostoUnit(data.COSTO_UNIT);
-    }
-
-    // Validar DESC1: Numérico, máximo 3 dígitos (si está presente)
-    if (data.DESC1 !== undefined && data.DESC1 !== null && data.DESC1 !== '') {
-      this.validateDescuento(data.DESC1, 'DESC1');
-    }
-
-    // Validar DESC2: Numérico, máximo 3 dígitos (si está presente)
-    if (data.DESC2 !== undefined && data.DESC2 !== null && data.DESC2 !== '') {
-      this.validateDescuento(data.DESC2, 'DESC2');
+    // Se valida todo el item; si hay errores se lanza el primero
+    const [first] = PriceList.validate(data);
+    if (first) {
+      throw new PriceListValidationError(first.field, first.code, first.message);
     }
 
     /**
@@ -116,30 +90,276 @@ export default class PriceList {
       COD_PROV: String(data.COD_PROV).trim(),
       COD_SAP: data.COD_SAP ? String(data.COD_SAP).trim() : null,
       DESCRIP: data.DESCRIP ? String(data.DESCRIP).trim() : null,
-      COSTO_UNIT: normalizeNumber(data.COSTO_UNIT),
+      // Igual que en validateCostoUnit, las comas son separadores de miles
+      COSTO_UNIT: normalizeNumber(
+        typeof data.COSTO_UNIT === 'string' ? data.COSTO_UNIT.replace(/,/g, '') : data.COSTO_UNIT
+      ),
       DESC1: normalizeNumber(data.DESC1),
       DESC2: normalizeNumber(data.DESC2),
       PROVEEDOR: data.PROVEEDOR ?? null,
+      CENTRO: PriceList.centroOf(data),
+      MONEDA: PriceQuote.currencyOf(data),
+      UNIDAD: data.UNIDAD ? String(data.UNIDAD).trim().toUpperCase() : null,
+      FACTOR_UNIDAD: normalizeNumber(data.FACTOR_UNIDAD) ?? 1,
     };
   }
 
+  /**
+   * Valida todos los campos de un item sin detenerse en el primer error.
+   *
+   * Aplica las mismas reglas que el constructor y devuelve un error por cada
+   * campo inválido, para que los lotes y cargas masivas puedan reportarlos
+   * todos de una vez.
+   *
+   * @public
+   * @static
+   * @param {PriceListItem} data - Datos del item de lista de precios
+   * @returns {PriceListFieldIssue[]} Errores encontrados (vacío si el item es válido)
+   *
+   * @example
+   * PriceList.validate({ COD_PROV: 'A-1', COSTO_UNIT: -5 });
+   * // [
+   * //   { field: 'COD_PROV', code: 'INVALID_FORMAT', message: 'COD_PROV debe ser alfanumérico (solo letras y números)' },
+   * //   { field: 'COSTO_UNIT', code: 'NEGATIVE', message: 'COSTO_UNIT no puede ser negativo' }
+   * // ]
+   */
+  public static validate(data: PriceListItem): PriceListFieldIssue[] {
+    const issues: PriceListFieldIssue[] = [];
+    const present = (value: unknown) => value !== undefined && value !== null && value !== '';
+    const check = (validation: () => void) => {
+      try {
+        validation();
+      } catch (error) {
+        if (!(error instanceof PriceListValidationError)) throw error;
+        issues.push({ field: error.field, code: error.code, message: error.message });
+      }
+    };
+
+    // Validaciones de datos requeridos
+    if (!data || !data.COD_PROV) {
+      issues.push({ field: 'COD_PROV', code: 'REQUIRED', message: 'COD_PROV es requerido en PriceList' });
+    } else {
+      // Validar COD_PROV: Alfanumérico, máximo 12 caracteres
+      check(() => PriceList.validateCodProv(data.COD_PROV));
+    }
+    if (!data) return issues;
+
+    // Validar COD_SAP: Numérico, máximo 6 dígitos (si está presente)
+    if (present(data.COD_SAP)) {
+      check(() => PriceList.validateCodSap(data.COD_SAP!));
+    }
+
+    // Validar DESCRIP: Alfanumérico, máximo 40 caracteres (si está presente)
+    if (present(data.DESCRIP)) {
+      check(() => PriceList.validateDescrip(data.DESCRIP!));
+    }
+
+    // Validar COSTO_UNIT: Decimal (si está presente)
+    if (present(data.COSTO_UNIT)) {
+      check(() => PriceList.validateCostoUnit(data.COSTO_UNIT!));
+    }
+
+    // Validar DESC1 y DESC2: Numéricos, máximo 3 dígitos (si están presentes)
+    if (present(data.DESC1)) {
+      check(() => PriceList.validateDescuento(data.DESC1!, 'DESC1'));
+    }
+    if (present(data.DESC2)) {
+      check(() => PriceList.validateDescuento(data.DESC2!, 'DESC2'));
+    }
+
+    // Validar CENTRO: Alfanumérico, máximo 4 caracteres (si está presente)
+    if (present(data.CENTRO)) {
+      check(() => PriceList.validateCentro(data.CENTRO!));
+    }
+
+    // Validar MONEDA: código ISO 4217 de 3 letras (si está presente)
+    if (present(data.MONEDA)) {
+      check(() => PriceList.validateMoneda(data.MONEDA!));
+    }
+
+    // Validar UNIDAD y FACTOR_UNIDAD: una unidad distinta de la base exige su factor
+    if (present(data.UNIDAD)) {
+      check(() => PriceList.validateUnidad(data.UNIDAD!));
+      if (!present(data.FACTOR_UNIDAD)) {
+        issues.push({ field: 'FACTOR_UNIDAD', code: 'REQUIRED', message: 'FACTOR_UNIDAD es requerido cuando se indica UNIDAD' });
+      }
+    }
+    if (present(data.FACTOR_UNIDAD)) {
+      check(() => PriceList.validateFactorUnidad(data.FACTOR_UNIDAD!));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Centro de distribución de un item: el indicado o, si no trae, DEFAULT_CENTRO.
+   *
+   * @public
+   * @static
+   * @param {PriceListItem} item - Item de lista de precios
+   * @returns {string} Código bk_centro
+   */
+  public static centroOf(item: PriceListItem): string {
+    const centro = item?.CENTRO ? String(item.CENTRO).trim() : '';
+    return centro === '' ? DEFAULT_CENTRO : centro;
+  }
+
+  /**
+   * Clave de un precio del proveedor: el material en un centro de distribución.
+   *
+   * @public
+   * @static
+   * @param {string} codProv - Código del material (COD_PROV)
+   * @param {string} centro - Centro de distribución
+   * @returns {string} Clave COD_PROV@CENTRO
+   */
+  public static keyOf(codProv: string, centro: string): string {
+    return `${String(codProv).trim()}@${String(centro).trim()}`;
+  }
+
+  /**
+   * Valida un lote completo: las reglas de cada item y los COD_PROV repetidos.
+   *
+   * @public
+   * @static
+   * @param {PriceListItem[]} items - Items del lote
+   * @returns {PriceListFieldError[]} Todos los errores, ordenados por posición del item
+   *
+   * @example
+   * const errors = PriceList.validateBatch(lista);
+   * if (errors.length > 0) throw new AppError('...', 422, errors);
+   */
+  public static validateBatch(items: PriceListItem[]): PriceListFieldError[] {
+    return [
+      ...items.flatMap((item, index) => PriceList.validate(item).map((issue) => ({ index, ...issue }))),
+      ...PriceList.findDuplicates(items),
+    ].sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Detecta COD_PROV repetidos dentro de un lote.
+   *
+   * Un proveedor tiene un solo precio por material en cada centro, así que la
+   * primera aparición de cada código y centro se acepta y las siguientes se
+   * reportan como DUPLICATE. Los items sin COD_PROV se ignoran (ya los
+   * reporta validate).
+   *
+   * @public
+   * @static
+   * @param {PriceListItem[]} items - Items del lote
+   * @returns {PriceListFieldError[]} Un error por cada repetición (index = posición del item)
+   *
+   * @example
+   * PriceList.findDuplicates([{ COD_PROV: 'A1' }, { COD_PROV: 'A1', CENTRO: '1002' }, { COD_PROV: 'A1 ' }]);
+   * // [{ index: 2, field: 'COD_PROV', code: 'DUPLICATE', message: 'COD_PROV A1 está repetido en la lista para el centro 1001' }]
+   */
+  public static findDuplicates(items: PriceListItem[]): PriceListFieldError[] {
+    const seen = new Set<string>();
+    const errors: PriceListFieldError[] = [];
+
+    items.forEach((item, index) => {
+      const codProv = item?.COD_PROV ? String(item.COD_PROV).trim() : '';
+      if (codProv === '') return;
+
+      const centro = PriceList.centroOf(item);
+      const key = PriceList.keyOf(codProv, centro);
+      if (seen.has(key)) {
+        errors.push({
+          index,
+          field: 'COD_PROV',
+          code: 'DUPLICATE',
+          message: `COD_PROV ${codProv} está repetido en la lista para el centro ${centro}`,
+        });
+      }
+      seen.add(key);
+    });
+
+    return errors;
+  }
+
+  /**
+   * Detecta items cuyo centro de distribución no existe en SAP.
+   *
+   * Los centros válidos los entrega el repositorio desde
+   * postgre_sap.stg_consulta_costo; los items sin CENTRO se verifican con
+   * DEFAULT_CENTRO.
+   *
+   * @public
+   * @static
+   * @param {PriceListItem[]} items - Items del lote
+   * @param {Set<string>} centros - Centros existentes en SAP
+   * @returns {PriceListFieldError[]} Un error NOT_IN_SAP por cada item con un centro desconocido
+   *
+   * @example
+   * PriceList.findUnknownCentros([{ COD_PROV: 'A1', CENTRO: '9999' }], new Set(['1001', '1002']));
+   * // [{ index: 0, field: 'CENTRO', code: 'NOT_IN_SAP', message: 'El centro 9999 no existe en SAP' }]
+   */
+  public static findUnknownCentros(items: PriceListItem[], centros: Set<string>): PriceListFieldError[] {
+    return items.flatMap((item, index) => {
+      const centro = PriceList.centroOf(item);
+      return centros.has(centro)
+        ? []
+        : [{ index, field: 'CENTRO', code: 'NOT_IN_SAP' as const, message: `El centro ${centro} no existe en SAP` }];
+    });
+  }
+
+  /**
+   * Aplica una actualización parcial sobre el registro vigente.
+   *
+   * Solo se toman del item las columnas listadas en CAMPOS; las demás
+   * conservan el valor actual del registro (el costo en la moneda y unidad
+   * en que está cotizado). Así, dos actualizaciones parciales del mismo
+   * material aprobadas una tras otra no se pisan entre sí.
+   *
+   * @public
+   * @static
+   * @param {SupplierPriceRow} row - Registro vigente en supplier_price_list
+   * @param {PriceListItem} item - Item de la solicitud con CAMPOS
+   * @returns {PriceListItem} Registro completo a aplicar
+   *
+   * @example
+   * PriceList.patch(
+   *   { cod_prov: 'A1', costo_unitario: 100, descuento1: 5, descuento2: 0, centro: '1001', ... },
+   *   { COD_PROV: 'A1', COSTO_UNIT: 90, DESC1: 10, CAMPOS: ['DESC1'] }
+   * );
+   * // { COD_PROV: 'A1', COSTO_UNIT: 100, DESC1: 10, DESC2: 0, CENTRO: '1001', ... }
+   */
+  public static patch(row: SupplierPriceRow, item: PriceListItem): PriceListItem {
+    const patched: PriceListItem = {
+      COD_PROV: row.cod_prov,
+      COD_SAP: row.cod_sap,
+      COSTO_UNIT: row.costo_original ?? row.costo_unitario,
+      DESC1: row.descuento1,
+      DESC2: row.descuento2,
+      CENTRO: row.centro,
+      MONEDA: row.moneda,
+      UNIDAD: row.unidad,
+      FACTOR_UNIDAD: row.factor_unidad,
+    };
+    for (const field of item.CAMPOS ?? []) {
+      patched[field] = item[field];
+    }
+    return patched;
+  }
+
   /**
    * Valida el código del proveedor (COD_PROV).
    * Debe ser alfanumérico y tener máximo 12 caracteres.
    *
    * @private
+   * @static
    * @param {string} codProv - Código del proveedor a validar
-   * @throws {Error} Si el código es inválido o excede la longitud máxima
+   * @throws {PriceListValidationError} Si el código es inválido o excede la longitud máxima
    */
-  private validateCodProv(codProv: string): void {
+  private static validateCodProv(codProv: string): void {
     const trimmedCodProv = String(codProv).trim();
 
     if (trimmedCodProv.length === 0) {
-      throw new Error('COD_PROV no puede estar vacío');
+      throw new PriceListValidationError('COD_PROV', 'REQUIRED', 'COD_PROV no puede estar vacío');
     }
 
     if (trimmedCodProv.length > 12) {
-      throw new Error(
+      throw new PriceListValidationError('COD_PROV', 'TOO_LONG',
         `COD_PROV excede el máximo de 12 caracteres (actual: ${trimmedCodProv.length})`
       );
     }
@@ -147,7 +367,7 @@ export default class PriceList {
     // Validar que sea alfanumérico
     const alfanumericoRegex = /^[a-zA-Z0-9]+$/;
     if (!alfanumericoRegex.test(trimmedCodProv)) {
-      throw new Error('COD_PROV debe ser alfanumérico (solo letras y números)');
+      throw new PriceListValidationError('COD_PROV', 'INVALID_FORMAT', 'COD_PROV debe ser alfanumérico (solo letras y números)');
     }
   }
 
@@ -156,10 +376,11 @@ export default class PriceList {
    * Debe ser numérico y tener máximo 6 dígitos.
    *
    * @private
+   * @static
    * @param {string} codSap - Código SAP a validar
-   * @throws {Error} Si el código es inválido o excede la longitud máxima
+   * @throws {PriceListValidationError} Si el código es inválido o excede la longitud máxima
    */
-  private validateCodSap(codSap: string): void {
+  private static validateCodSap(codSap: string): void {
     const trimmedCodSap = String(codSap).trim();
 
     if (trimmedCodSap.length === 0) {
@@ -169,11 +390,11 @@ export default class PriceList {
     // Validar que sea numérico
     const numericoRegex = /^\d+$/;
     if (!numericoRegex.test(trimmedCodSap)) {
-      throw new Error('COD_SAP debe ser numérico (solo dígitos)');
+      throw new PriceListValidationError('COD_SAP', 'INVALID_FORMAT', 'COD_SAP debe ser numérico (solo dígitos)');
     }
 
     if (trimmedCodSap.length > 6) {
-      throw new Error(
+      throw new PriceListValidationError('COD_SAP', 'TOO_LONG',
         `COD_SAP excede el máximo de 6 dígitos (actual: ${trimmedCodSap.length})`
       );
     }
@@ -184,10 +405,11 @@ export default class PriceList {
    * Debe ser alfanumérico y tener máximo 40 caracteres (contando espacios).
    *
    * @private
+   * @static
    * @param {string} descrip - Descripción a validar
-   * @throws {Error} Si la descripción es inválida o excede la longitud máxima
+   * @throws {PriceListValidationError} Si la descripción es inválida o excede la longitud máxima
    */
-  private validateDescrip(descrip: string): void {
+  private static validateDescrip(descrip: string): void {
     const trimmedDescrip = String(descrip).trim();
 
     if (trimmedDescrip.length === 0) {
@@ -195,7 +417,7 @@ export default class PriceList {
     }
 
     if (trimmedDescrip.length > 40) {
-      throw new Error(
+      throw new PriceListValidationError('DESCRIP', 'TOO_LONG',
         `DESCRIP excede el máximo de 40 caracteres (actual: ${trimmedDescrip.length})`
       );
     }
@@ -204,22 +426,111 @@ export default class PriceList {
     // Se permite alfanumérico, espacios, caracteres especiales básicos y matemáticos: . , - _ ( ) / # : + * % = < > ^ $ &
     const alfanumericoYEspecialesRegex = /^[a-zA-Z0-9\s.,\-_/()#:+*%<>=^$&]+$/;
     if (!alfanumericoYEspecialesRegex.test(trimmedDescrip)) {
-      throw new Error(
+      throw new PriceListValidationError('DESCRIP', 'INVALID_FORMAT',
         'DESCRIP debe ser alfanumérico y puede incluir los caracteres básicos'
       );
     }
   }
 
+  /**
+   * Valida el centro de distribución (CENTRO).
+   * Debe ser alfanumérico y tener máximo 4 caracteres, como bk_centro en SAP.
+   *
+   * @private
+   * @static
+   * @param {string} centro - Centro a validar
+   * @throws {PriceListValidationError} Si el centro es inválido o excede la longitud máxima
+   */
+  private static validateCentro(centro: string): void {
+    const trimmedCentro = String(centro).trim();
+
+    if (trimmedCentro.length > 4) {
+      throw new PriceListValidationError('CENTRO', 'TOO_LONG',
+        `CENTRO excede el máximo de 4 caracteres (actual: ${trimmedCentro.length})`
+      );
+    }
+
+    if (!/^[a-zA-Z0-9]*$/.test(trimmedCentro)) {
+      throw new PriceListValidationError('CENTRO', 'INVALID_FORMAT', 'CENTRO debe ser alfanumérico (solo letras y números)');
+    }
+  }
+
+  /**
+   * Valida la moneda (MONEDA).
+   * Debe ser un código ISO 4217 de 3 letras.
+   *
+   * @private
+   * @static
+   * @param {string} moneda - Moneda a validar
+   * @throws {PriceListValidationError} Si la moneda no tiene el formato esperado
+   */
+  private static validateMoneda(moneda: string): void {
+    if (!/^[a-zA-Z]{3}$/.test(String(moneda).trim())) {
+      throw new PriceListValidationError('MONEDA', 'INVALID_FORMAT', 'MONEDA debe ser un código ISO 4217 de 3 letras (p. ej. COP o USD)');
+    }
+  }
+
+  /**
+   * Valida la unidad de medida cotizada (UNIDAD).
+   * Debe ser alfanumérica y tener máximo 3 caracteres, como las unidades de SAP.
+   *
+   * @private
+   * @static
+   * @param {string} unidad - Unidad a validar
+   * @throws {PriceListValidationError} Si la unidad es inválida o excede la longitud máxima
+   */
+  private static validateUnidad(unidad: string): void {
+    const trimmedUnidad = String(unidad).trim();
+
+    if (trimmedUnidad.length > 3) {
+      throw new PriceListValidationError('UNIDAD', 'TOO_LONG',
+        `UNIDAD excede el máximo de 3 caracteres (actual: ${trimmedUnidad.length})`
+      );
+    }
+
+    if (!/^[a-zA-Z0-9]+$/.test(trimmedUnidad)) {
+      throw new PriceListValidationError('UNIDAD', 'INVALID_FORMAT', 'UNIDAD debe ser alfanumérica (solo letras y números)');
+    }
+  }
+
+  /**
+   * Valida el factor de conversión de la unidad (FACTOR_UNIDAD).
+   * Es la cantidad de unidades base de SAP que trae cada unidad cotizada y
+   * debe ser mayor que cero.
+   *
+   * @private
+   * @static
+   * @param {number | string} factor - Factor a validar
+   * @throws {PriceListValidationError} Si el factor no es un número mayor que cero
+   */
+  private static validateFactorUnidad(factor: number | string): void {
+    const valor = Number(typeof factor === 'string' ? factor.trim() : factor);
+
+    if (isNaN(valor) || !isFinite(valor)) {
+      throw new PriceListValidationError('FACTOR_UNIDAD', 'INVALID_FORMAT', 'FACTOR_UNIDAD debe ser un número válido');
+    }
+
+    if (valor < 0) {
+      throw new PriceListValidationError('FACTOR_UNIDAD', 'NEGATIVE', 'FACTOR_UNIDAD no puede ser negativo');
+    }
+
+    if (valor === 0) {
+      throw new PriceListValidationError('FACTOR_UNIDAD', 'OUT_OF_RANGE', 'FACTOR_UNIDAD debe ser mayor que cero');
+    }
+  }
+
   /**
    * Valida el costo unitario (COSTO_UNIT).
    * Se aceptan valores enteros y decimales, y se admiten valores con separador de miles (coma).
    * Siempre se normalizan a decimal independientemente del formato recibido.
+   * Es estática para que las actualizaciones parciales apliquen la misma regla.
    *
-   * @private
+   * @public
+   * @static
    * @param {number | string} costoUnit - Costo unitario a validar
-   * @throws {Error} Si el costo no es un número decimal válido
+   * @throws {PriceListValidationError} Si el costo no es un número decimal válido
    */
-  private validateCostoUnit(costoUnit: number | string): void {
+  public static validateCostoUnit(costoUnit: number | string): void {
     let valor: number;
 
     if (typeof costoUnit === 'string') {
@@ -234,23 +545,24 @@ export default class PriceList {
     }
 
     if (isNaN(valor) || !isFinite(valor)) {
-      throw new Error('COSTO_UNIT debe ser un número decimal válido');
+      throw new PriceListValidationError('COSTO_UNIT', 'INVALID_FORMAT', 'COSTO_UNIT debe ser un número decimal válido');
     }
 
     if (valor < 0) {
-      throw new Error('COSTO_UNIT no puede ser negativo');
+      throw new PriceListValidationError('COSTO_UNIT', 'NEGATIVE', 'COSTO_UNIT no puede ser negativo');
     }
   }
 
   /**
    * Valida que los descuentos (DESC1 o DESC2) sean números enteros entre 0 y 100.
    *
-   * @private
+   * @public
+   * @static
    * @param {number | string} descuento - Descuento a validar (únicamente entero)
    * @param {string} nombreCampo - Nombre del campo ('DESC1' o 'DESC2')
-   * @throws {Error} Si el descuento es inválido o fuera de rango permitido
+   * @throws {PriceListValidationError} Si el descuento es inválido o fuera de rango permitido
    */
-  private validateDescuento(
+  public static validateDescuento(
     descuento: number | string,
     nombreCampo: string
   ): void {
@@ -260,7 +572,7 @@ export default class PriceList {
       // Eliminar posibles espacios y validar que no tiene símbolos extraños
       const trimmed = descuento.trim();
       if (!/^-?\d+$/.test(trimmed)) {
-        throw new Error(`${nombreCampo} debe ser un número entero`);
+        throw new PriceListValidationError(nombreCampo, 'NOT_INTEGER', `${nombreCampo} debe ser un número entero`);
       }
       valor = Number(trimmed);
     } else {
@@ -268,19 +580,19 @@ export default class PriceList {
     }
 
     if (!Number.isInteger(valor)) {
-      throw new Error(`${nombreCampo} debe ser un número entero`);
+      throw new PriceListValidationError(nombreCampo, 'NOT_INTEGER', `${nombreCampo} debe ser un número entero`);
     }
 
     if (isNaN(valor)) {
-      throw new Error(`${nombreCampo} debe ser un número válido`);
+      throw new PriceListValidationError(nombreCampo, 'INVALID_FORMAT', `${nombreCampo} debe ser un número válido`);
     }
 
     if (valor < 0) {
-      throw new Error(`${nombreCampo} no puede ser negativo`);
+      throw new PriceListValidationError(nombreCampo, 'NEGATIVE', `${nombreCampo} no puede ser negativo`);
     }
 
     if (valor > 100) {
-      throw new Error(
+      throw new PriceListValidationError(nombreCampo, 'OUT_OF_RANGE',
         `${nombreCampo} excede el máximo de 3 dígitos (valor máximo: 100)`
       );
     }
@@ -1,58 +1,106 @@
+import PriceList from './PriceList';
+import { UpdatePriceListItem } from '../../../shared/types/priceList';
+
 /**
- * Entidad de dominio para actualización de precios en listas.
- * 
- * Esta clase encapsula la información necesaria para actualizar el costo
- * unitario de un producto en la lista de precios, validando que los datos
- * requeridos estén presentes antes de proceder con la actualización.
- * 
+ * Campos de supplier_price_list que admite una actualización de precios
+ */
+export const UPDATABLE_PRICE_FIELDS = ['costo_unitario', 'descuento1', 'descuento2'] as const;
+
+/**
+ * Entidad de dominio para la actualización parcial de un registro de lista de precios.
+ *
+ * Solo conserva los campos enviados por el cliente: un campo ausente no se
+ * modifica en base de datos, mientras que `null` o `''` lo dejan vacío.
+ * Los valores enviados pasan por las mismas validaciones que aplica
+ * {@link PriceList} al insertar (costo no negativo, descuentos enteros ≤ 100).
+ *
  * @class PriceListUpdate
  * @module PriceList/Domain
  */
 class PriceListUpdate {
   /**
-   * Código del proveedor del producto a actualizar
-   * @type {string}
-   */
-  COD_PROV: string;
-
-  /**
-   * Nuevo costo unitario a aplicar al producto
-   * @type {string}
+   * Datos normalizados de la actualización (solo los campos enviados)
+   * @private
+   * @type {UpdatePriceListItem}
    */
-  NEW_COSTO_UNIT: string;
+  private data: UpdatePriceListItem;
 
   /**
    * Crea una instancia de PriceListUpdate.
-   * 
-   * Valida que tanto el código de proveedor como el nuevo costo unitario
-   * estén presentes antes de crear la instancia.
-   * 
+   *
    * @constructor
-   * @param {Object} params - Parámetros para la actualización
-   * @param {string} params.COD_PROV - Código del proveedor (requerido)
-   * @param {string} params.NEW_COSTO_UNIT - Nuevo costo unitario (requerido)
-   * 
-   * @throws {Error} Si COD_PROV no es proporcionado
-   * @throws {Error} Si NEW_COSTO_UNIT no es proporcionado
-   * 
+   * @param {Object} item - Item recibido en la petición
+   * @param {number} item.id - ID del registro a actualizar (requerido)
+   * @param {number|string|null} [item.costo_unitario] - Nuevo costo unitario
+   * @param {number|string|null} [item.descuento1] - Nuevo primer descuento
+   * @param {number|string|null} [item.descuento2] - Nuevo segundo descuento
+   *
+   * @throws {Error} Si el ID no es un entero positivo
+   * @throws {Error} Si no se envía ningún campo a actualizar
+   * @throws {Error} Si algún valor no cumple las validaciones de PriceList
+   *
    * @example
-   * const actualizacion = new PriceListUpdate({
-   *   COD_PROV: '12345',
-   *   NEW_COSTO_UNIT: '150.00'
-   * });
+   * // Solo modifica descuento2; el costo se conserva
+   * const actualizacion = new PriceListUpdate({ id: 1, descuento2: 5 });
+   * actualizacion.toObject(); // { id: 1, descuento2: 5 }
+   */
+  constructor(item: any) {
+    const id = Number(item?.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error('id es requerido y debe ser un entero positivo');
+    }
+
+    this.data = { id };
+
+    if (item.costo_unitario !== undefined) {
+      this.data.costo_unitario = this.normalize(item.costo_unitario, (v) => {
+        PriceList.validateCostoUnit(v);
+        return Number(typeof v === 'string' ? v.trim().replace(/,/g, '') : v);
+      });
+    }
+
+    if (item.descuento1 !== undefined) {
+      this.data.descuento1 = this.normalize(item.descuento1, (v) => {
+        PriceList.validateDescuento(v, 'descuento1');
+        return Number(v);
+      });
+    }
+
+    if (item.descuento2 !== undefined) {
+      this.data.descuento2 = this.normalize(item.descuento2, (v) => {
+        PriceList.validateDescuento(v, 'descuento2');
+        return Number(v);
+      });
+    }
+
+    if (UPDATABLE_PRICE_FIELDS.every((field) => this.data[field] === undefined)) {
+      throw new Error(
+        `Debe enviar al menos un campo a actualizar (${UPDATABLE_PRICE_FIELDS.join(', ')})`
+      );
+    }
+  }
+
+  /**
+   * Normaliza un valor enviado: vacío se convierte en null y el resto se valida.
+   *
+   * @private
+   * @param {any} value - Valor recibido
+   * @param {Function} parse - Valida y convierte el valor a número
+   * @returns {number | null} Valor normalizado
+   */
+  private normalize(value: any, parse: (v: number | string) => number): number | null {
+    if (value === null || value === '') return null;
+    return parse(value);
+  }
+
+  /**
+   * Convierte la entidad a un objeto plano con los campos a actualizar.
+   *
+   * @public
+   * @returns {UpdatePriceListItem} ID y campos enviados, ya normalizados
    */
-  constructor({
-    COD_PROV,
-    NEW_COSTO_UNIT,
-  }: {
-    COD_PROV: string;
-    NEW_COSTO_UNIT: string;
-  }) {
-    if (!COD_PROV) throw new Error('COD_PROV es requerido');
-    if (!NEW_COSTO_UNIT) throw new Error('NEW_COSTO_UNIT es requerido');
-
-    this.COD_PROV = COD_PROV;
-    this.NEW_COSTO_UNIT = NEW_COSTO_UNIT;
+  public toObject(): UpdatePriceListItem {
+    return { ...this.data };
   }
 }
 
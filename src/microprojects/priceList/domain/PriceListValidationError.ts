@@ -0,0 +1,43 @@
+import { PriceListErrorCode, PriceListFieldError } from '../../../shared/types/priceList';
+
+/**
+ * Error de un campo de lista de precios, sin la posición del item en el lote
+ */
+export type PriceListFieldIssue = Omit<PriceListFieldError, 'index'>;
+
+/**
+ * Error de validación de un campo de lista de precios.
+ *
+ * Lo lanzan las entidades del dominio para que las capas superiores puedan
+ * ubicar el campo que falló (por ejemplo, la columna de una hoja de cálculo)
+ * y clasificarlo por código.
+ *
+ * @class PriceListValidationError
+ * @module PriceList/Domain
+ */
+export default class PriceListValidationError extends Error {
+  /**
+   * Campo que no superó la validación (COD_PROV, COSTO_UNIT, descuento1, ...)
+   * @type {string}
+   */
+  public readonly field: string;
+
+  /**
+   * Código del error (REQUIRED, TOO_LONG, INVALID_FORMAT, ...)
+   * @type {PriceListErrorCode}
+   */
+  public readonly code: PriceListErrorCode;
+
+  /**
+   * @constructor
+   * @param {string} field - Campo que no superó la validación
+   * @param {PriceListErrorCode} code - Código del error
+   * @param {string} message - Mensaje descriptivo para el usuario
+   */
+  constructor(field: string, code: PriceListErrorCode, message: string) {
+    super(message);
+    this.name = 'PriceListValidationError';
+    this.field = field;
+    this.code = code;
+  }
+}
@@ -0,0 +1,103 @@
+import Decimal from './Decimal';
+import { ExchangeRate, NormalizedQuote, PriceListFieldError, PriceListItem } from '../../../shared/types/priceList';
+
+/**
+ * Moneda en la que se guardan y comparan los costos
+ * @constant {string}
+ */
+export const BASE_CURRENCY = 'COP';
+
+/**
+ * Decimales con los que se guarda el costo convertido
+ * @constant {number}
+ */
+export const QUOTE_DECIMALS = 4;
+
+/**
+ * Conversión de la cotización de un proveedor a COP por unidad base de SAP.
+ *
+ * Un item puede cotizarse en otra moneda (MONEDA) y por una unidad distinta
+ * de la de SAP (UNIDAD, con FACTOR_UNIDAD unidades base cada una). El costo
+ * convertido es COSTO_UNIT × tasa de cambio ÷ FACTOR_UNIDAD, calculado con
+ * {@link Decimal} y redondeado una sola vez. La tasa es la última registrada
+ * para la moneda hasta la fecha de la conversión; COP no necesita tasa.
+ *
+ * @class PriceQuote
+ * @module PriceList/Domain
+ */
+export default class PriceQuote {
+  /**
+   * Moneda de un item: la indicada (en mayúsculas) o BASE_CURRENCY.
+   *
+   * @public
+   * @static
+   * @param {PriceListItem} item - Item de lista de precios
+   * @returns {string} Código ISO 4217
+   */
+  public static currencyOf(item: PriceListItem): string {
+    const moneda = item?.MONEDA ? String(item.MONEDA).trim().toUpperCase() : '';
+    return moneda === '' ? BASE_CURRENCY : moneda;
+  }
+
+  /**
+   * Convierte la cotización de un item.
+   *
+   * @public
+   * @static
+   * @param {PriceListItem} item - Item ya validado por PriceList
+   * @param {ExchangeRate[]} rates - Tasa vigente de cada moneda (ver RepositoryListPrecios.getExchangeRates)
+   * @returns {NormalizedQuote | null} Costo convertido y cotización original, o null si la moneda no tiene tasa
+   *
+   * @example
+   * // Caja de 12 a USD 30 con tasa 4000: 30 × 4000 ÷ 12 = 10000 COP por unidad
+   * PriceQuote.normalize(
+   *   { COD_PROV: 'A1', COSTO_UNIT: 30, MONEDA: 'USD', UNIDAD: 'CJ', FACTOR_UNIDAD: 12 },
+   *   [{ moneda: 'USD', fecha: '2026-04-01', tasa: '4000' }]
+   * );
+   * // { costo_unitario: '10000.0000', costo_original: '30', moneda: 'USD', unidad: 'CJ',
+   * //   factor_unidad: '12', tasa_cambio: '4000', fecha_tasa: '2026-04-01' }
+   */
+  public static normalize(item: PriceListItem, rates: ExchangeRate[]): NormalizedQuote | null {
+    const moneda = PriceQuote.currencyOf(item);
+    const rate = moneda === BASE_CURRENCY ? null : rates.find((candidate) => candidate.moneda === moneda);
+    if (moneda !== BASE_CURRENCY && !rate) return null;
+
+    const tasa = rate ? Decimal.of(rate.tasa) : Decimal.of(1);
+    const factor = Decimal.from(item.FACTOR_UNIDAD) ?? Decimal.of(1);
+    const original = Decimal.from(item.COSTO_UNIT);
+    const unidad = item.UNIDAD ? String(item.UNIDAD).trim().toUpperCase() : '';
+
+    return {
+      costo_unitario: original ? original.times(tasa).dividedBy(factor).toFixed(QUOTE_DECIMALS) : null,
+      costo_original: item.COSTO_UNIT === undefined || item.COSTO_UNIT === null ? null : String(item.COSTO_UNIT),
+      moneda,
+      unidad: unidad === '' ? null : unidad,
+      factor_unidad: String(item.FACTOR_UNIDAD ?? 1),
+      tasa_cambio: rate ? String(rate.tasa) : '1',
+      fecha_tasa: rate ? rate.fecha : null,
+    };
+  }
+
+  /**
+   * Detecta items cotizados en una moneda sin tasa de cambio.
+   *
+   * @public
+   * @static
+   * @param {PriceListItem[]} items - Items del lote
+   * @param {ExchangeRate[]} rates - Tasa vigente de cada moneda
+   * @returns {PriceListFieldError[]} Un error NO_EXCHANGE_RATE por cada item sin tasa
+   *
+   * @example
+   * PriceQuote.findMissingRates([{ COD_PROV: 'A1', MONEDA: 'EUR' }], []);
+   * // [{ index: 0, field: 'MONEDA', code: 'NO_EXCHANGE_RATE', message: 'No hay tasa de cambio registrada para EUR' }]
+   */
+  public static findMissingRates(items: PriceListItem[], rates: ExchangeRate[]): PriceListFieldError[] {
+    const available = new Set(rates.map((rate) => rate.moneda));
+    return items.flatMap((item, index) => {
+      const moneda = PriceQuote.currencyOf(item);
+      return moneda === BASE_CURRENCY || available.has(moneda)
+        ? []
+        : [{ index, field: 'MONEDA', code: 'NO_EXCHANGE_RATE' as const, message: `No hay tasa de cambio registrada para ${moneda}` }];
+    });
+  }
+}
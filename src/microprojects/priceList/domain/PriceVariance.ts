@@ -0,0 +1,94 @@
+import Decimal from './Decimal';
+import PriceCalculator from './PriceCalculator';
+import { PriceVariance as PriceVarianceResult, PriceVarianceThreshold, SupplierPriceRow } from '../../../shared/types/priceList';
+
+/**
+ * Umbral de variación (en %) cuando no hay ninguno configurado en price_variance_thresholds
+ * @constant {number}
+ */
+export const DEFAULT_VARIANCE_MAX_PCT = Number(process.env.PRICE_VARIANCE_MAX_PCT) || 15;
+
+/**
+ * Reglas para comparar el costo del proveedor con el precio efectivo de SAP.
+ *
+ * El costo neto del proveedor es el costo unitario con DESC1 y luego DESC2
+ * aplicados en cascada, sin impuesto (ver {@link PriceCalculator}). La
+ * variación es la diferencia porcentual frente a `atr_precio_efectiv`; un
+ * item se marca cuando su valor absoluto supera el umbral que le corresponde. Los umbrales se resuelven del más específico al
+ * más general: proveedor, categoría, global y, si no hay ninguno, el valor
+ * de `PRICE_VARIANCE_MAX_PCT`.
+ *
+ * @class PriceVariance
+ * @module PriceList/Domain
+ */
+export default class PriceVariance {
+  /**
+   * Calcula la variación de un registro y la agrega en `variance`.
+   *
+   * @public
+   * @static
+   * @param {SupplierPriceRow} row - Registro combinado con SAP
+   * @param {PriceVarianceThreshold[]} thresholds - Umbrales configurados
+   * @returns {SupplierPriceRow} Copia del registro con su variación
+   *
+   * @example
+   * PriceVariance.evaluate(
+   *   { costo_unitario: 1200, descuento1: 10, descuento2: 0, precio_sap: 1000, ... },
+   *   [{ scope: 'global', scope_key: null, max_pct: 5 }]
+   * ).variance;
+   * // { costo_neto: 1080, precio_sap: 1000, diferencia: 80, variacion_pct: 8, umbral_pct: 5, umbral_origen: 'global', excede: true }
+   */
+  public static evaluate(row: SupplierPriceRow, thresholds: PriceVarianceThreshold[]): SupplierPriceRow {
+    const { max_pct, scope } = PriceVariance.resolveThreshold(thresholds, row.proveedor_id, row.categoria);
+
+    const costoNeto = PriceCalculator.discounted(row);
+    const precioSap = Decimal.from(row.precio_sap);
+
+    const variance: PriceVarianceResult = {
+      costo_neto: costoNeto ? costoNeto.toNumber(4) : null,
+      precio_sap: precioSap ? precioSap.toNumber(4) : null,
+      diferencia: null,
+      variacion_pct: null,
+      umbral_pct: max_pct,
+      umbral_origen: scope,
+      excede: false,
+    };
+
+    if (costoNeto && precioSap && !precioSap.isZero()) {
+      const diferencia = costoNeto.minus(precioSap);
+      variance.diferencia = diferencia.toNumber(4);
+      variance.variacion_pct = diferencia.times(Decimal.of(100)).dividedBy(precioSap).toNumber(2);
+      variance.excede = Math.abs(variance.variacion_pct) > max_pct;
+    }
+
+    return { ...row, variance };
+  }
+
+  /**
+   * Umbral que aplica a un proveedor y categoría.
+   *
+   * @public
+   * @static
+   * @param {PriceVarianceThreshold[]} thresholds - Umbrales configurados
+   * @param {string | number | null} [proveedor] - Proveedor del registro
+   * @param {string | null} [categoria] - Categoría del material en SAP
+   * @returns {{ max_pct: number, scope: string }} Umbral y alcance del que proviene
+   */
+  public static resolveThreshold(
+    thresholds: PriceVarianceThreshold[],
+    proveedor?: string | number | null,
+    categoria?: string | null
+  ): { max_pct: number; scope: PriceVarianceResult['umbral_origen'] } {
+    const find = (scope: PriceVarianceThreshold['scope'], key: string | null) =>
+      thresholds.find((t) => t.scope === scope && (t.scope_key ?? null) === key);
+
+    const match =
+      (proveedor !== undefined && proveedor !== null ? find('supplier', String(proveedor).trim()) : undefined) ??
+      (categoria ? find('category', String(categoria).trim()) : undefined) ??
+      find('global', null);
+
+    return match
+      ? { max_pct: Number(match.max_pct), scope: match.scope }
+      : { max_pct: DEFAULT_VARIANCE_MAX_PCT, scope: 'default' };
+  }
+}
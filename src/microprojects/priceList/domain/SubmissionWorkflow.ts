@@ -0,0 +1,83 @@
+import { SubmissionStatus } from '../../../shared/types/priceList';
+
+/**
+ * Estados a los que puede pasar una solicitud desde cada estado
+ * @constant {Record<SubmissionStatus, SubmissionStatus[]>}
+ */
+export const SUBMISSION_TRANSITIONS: Record<SubmissionStatus, readonly SubmissionStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['in_review'],
+  in_review: ['approved', 'rejected', 'changes_requested'],
+  changes_requested: ['draft', 'submitted'],
+  approved: [],
+  rejected: [],
+};
+
+/**
+ * Reglas del ciclo de vida de una solicitud de lista de precios.
+ *
+ * El proveedor arma el borrador y lo envía; el comprador lo toma en revisión
+ * y lo aprueba, lo rechaza o pide cambios. Con cambios solicitados el
+ * proveedor corrige los items (vuelve a borrador) y lo reenvía. Aprobada y
+ * rechazada son estados finales.
+ *
+ * @class SubmissionWorkflow
+ * @module PriceList/Domain
+ */
+export default class SubmissionWorkflow {
+  /**
+   * Indica si la transición está permitida.
+   *
+   * @public
+   * @static
+   * @param {SubmissionStatus} from - Estado actual
+   * @param {SubmissionStatus} to - Estado destino
+   * @returns {boolean} true si se puede pasar de `from` a `to`
+   *
+   * @example
+   * SubmissionWorkflow.canTransition('draft', 'submitted'); // true
+   * SubmissionWorkflow.canTransition('approved', 'in_review'); // false
+   */
+  public static canTransition(from: SubmissionStatus, to: SubmissionStatus): boolean {
+    return SUBMISSION_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Indica si el estado destino lo decide el comprador (si no, el proveedor).
+   *
+   * @public
+   * @static
+   * @param {SubmissionStatus} to - Estado destino
+   * @returns {boolean} true para en revisión, aprobada, rechazada y cambios solicitados
+   */
+  public static isReviewerTransition(to: SubmissionStatus): boolean {
+    return to === 'in_review' || to === 'approved' || to === 'rejected' || to === 'changes_requested';
+  }
+
+  /**
+   * Indica si la transición exige un comentario del comprador.
+   *
+   * Rechazar o pedir cambios sin explicar el motivo deja al proveedor sin
+   * saber qué corregir.
+   *
+   * @public
+   * @static
+   * @param {SubmissionStatus} to - Estado destino
+   * @returns {boolean} true para rechazada y cambios solicitados
+   */
+  public static requiresComment(to: SubmissionStatus): boolean {
+    return to === 'rejected' || to === 'changes_requested';
+  }
+
+  /**
+   * Indica si el proveedor puede reemplazar los items en el estado actual.
+   *
+   * @public
+   * @static
+   * @param {SubmissionStatus} status - Estado actual
+   * @returns {boolean} true en borrador y con cambios solicitados
+   */
+  public static isEditable(status: SubmissionStatus): boolean {
+    return status === 'draft' || status === 'changes_requested';
+  }
+}
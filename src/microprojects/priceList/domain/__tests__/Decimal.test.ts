@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import Decimal from "../Decimal";
+
+describe("Decimal", () => {
+  it("suma sin errores de punto flotante", () => {
+    assert.equal(Decimal.of("0.1").plus(Decimal.of("0.2")).toFixed(2), "0.30");
+    assert.equal(Decimal.of("0.3").minus(Decimal.of("0.1")).toFixed(12), "0.200000000000");
+  });
+
+  it("redondea half-up", () => {
+    assert.equal(Decimal.of("2.675").toFixed(2), "2.68");
+    assert.equal(Decimal.of("2.665").toFixed(2), "2.67");
+    assert.equal(Decimal.of("-2.675").toFixed(2), "-2.68");
+    assert.equal(Decimal.of("1.005").toNumber(2), 1.01);
+  });
+
+  it("multiplica y divide con 12 decimales", () => {
+    assert.equal(Decimal.of("100.50").times(Decimal.of("0.9")).toFixed(2), "90.45");
+    assert.equal(Decimal.of(1).dividedBy(Decimal.of(3)).toFixed(12), "0.333333333333");
+    assert.throws(() => Decimal.of(1).dividedBy(Decimal.of(0)), /División por cero/);
+  });
+
+  it("convierte texto, números y vacíos", () => {
+    assert.equal(Decimal.from("1500.25")?.toFixed(2), "1500.25");
+    assert.equal(Decimal.from(1e-7)?.toFixed(7), "0.0000001");
+    assert.equal(Decimal.from(" 42 ")?.toFixed(0), "42");
+    assert.equal(Decimal.from(""), null);
+    assert.equal(Decimal.from(null), null);
+    assert.equal(Decimal.from("1.500,50"), null);
+    assert.equal(Decimal.from(Number.NaN), null);
+    assert.throws(() => Decimal.of("abc"), /Valor decimal inválido/);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import PriceCalculator from "../PriceCalculator";
+import { SupplierPriceRow } from "../../../../shared/types/priceList";
+
+const IVA = [
+  { tax_code: "IVA19", rate_pct: 19 },
+  { tax_code: "IVA5", rate_pct: "5" },
+];
+
+// Postgres entrega las columnas NUMERIC como texto, así que se aceptan valores crudos
+const row = (values: Record<string, unknown>): SupplierPriceRow =>
+  ({ cod_prov: "A1", descuento1: null, descuento2: null, tipo_impuesto: "IVA19", ...values }) as unknown as SupplierPriceRow;
+
+describe("PriceCalculator", () => {
+  describe("discounted", () => {
+    it("aplica DESC1 y luego DESC2 en cascada", () => {
+      const costo = PriceCalculator.discounted(row({ costo_unitario: "100.50", descuento1: 10, descuento2: 5 }));
+      assert.equal(costo?.toFixed(4), "85.9275");
+    });
+
+    it("no suma los descuentos", () => {
+      // 10% + 10% en cascada es 19%, no 20%
+      const costo = PriceCalculator.discounted(row({ costo_unitario: 1000, descuento1: 10, descuento2: 10 }));
+      assert.equal(costo?.toFixed(2), "810.00");
+    });
+
+    it("toma los descuentos vacíos como 0", () => {
+      const costo = PriceCalculator.discounted(row({ costo_unitario: "250", descuento1: null, descuento2: "" }));
+      assert.equal(costo?.toFixed(2), "250.00");
+    });
+
+    it("devuelve null sin costo", () => {
+      assert.equal(PriceCalculator.discounted(row({ costo_unitario: null })), null);
+    });
+  });
+
+  describe("calculate", () => {
+    it("redondea cada componente y entrega un neto que cuadra al centavo", () => {
+      const breakdown = PriceCalculator.calculate(
+        row({ costo_unitario: "100.50", descuento1: 10, descuento2: 5 }),
+        IVA
+      );
+      assert.deepEqual(breakdown, {
+        precio_bruto: 100.5,
+        costo_descuentos: 85.93,
+        tasa_impuesto: 19,
+        impuesto: 16.33,
+        precio_neto: 102.26,
+      });
+      assert.equal(
+        Math.round((breakdown.costo_descuentos! + breakdown.impuesto!) * 100),
+        Math.round(breakdown.precio_neto! * 100)
+      );
+    });
+
+    it("calcula el impuesto sobre el costo con descuentos ya redondeado", () => {
+      // 0.125 → 0.13; 0.13 × 5% = 0.0065 → 0.01
+      const breakdown = PriceCalculator.calculate(row({ costo_unitario: "0.125", tipo_impuesto: "IVA5" }), IVA);
+      assert.equal(breakdown.costo_descuentos, 0.13);
+      assert.equal(breakdown.impuesto, 0.01);
+      assert.equal(breakdown.precio_neto, 0.14);
+    });
+
+    it("no calcula impuesto ni neto si el código no está en la tabla", () => {
+      const breakdown = PriceCalculator.calculate(row({ costo_unitario: "10", tipo_impuesto: "EXENTO" }), IVA);
+      assert.equal(breakdown.costo_descuentos, 10);
+      assert.equal(breakdown.tasa_impuesto, null);
+      assert.equal(breakdown.impuesto, null);
+      assert.equal(breakdown.precio_neto, null);
+    });
+
+    it("no calcula nada sin costo", () => {
+      assert.deepEqual(PriceCalculator.calculate(row({ costo_unitario: null }), IVA), {
+        precio_bruto: null,
+        costo_descuentos: null,
+        tasa_impuesto: null,
+        impuesto: null,
+        precio_neto: null,
+      });
+    });
+  });
+});
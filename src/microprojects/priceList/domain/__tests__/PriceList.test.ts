@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import PriceList, { DEFAULT_CENTRO } from "../PriceList";
+import { SupplierPriceRow } from "../../../../shared/types/priceList";
+
+const row = (values: Record<string, unknown>): SupplierPriceRow =>
+  ({
+    id: 7,
+    cod_prov: "A1",
+    cod_sap: "100200",
+    costo_unitario: 4000,
+    costo_original: 1,
+    descuento1: 5,
+    descuento2: 0,
+    proveedor_id: 10,
+    centro: "1002",
+    moneda: "USD",
+    unidad: null,
+    factor_unidad: 1,
+    ...values,
+  }) as unknown as SupplierPriceRow;
+
+describe("PriceList", () => {
+  describe("centros", () => {
+    it("los items sin CENTRO van al centro por defecto", () => {
+      assert.equal(PriceList.centroOf({ COD_PROV: "A1" }), DEFAULT_CENTRO);
+      assert.equal(PriceList.centroOf({ COD_PROV: "A1", CENTRO: " " }), DEFAULT_CENTRO);
+      assert.equal(PriceList.centroOf({ COD_PROV: "A1", CENTRO: " 2001 " }), "2001");
+    });
+
+    it("un mismo COD_PROV puede cotizarse en varios centros, pero una sola vez en cada uno", () => {
+      const errors = PriceList.findDuplicates([
+        { COD_PROV: "A1" },
+        { COD_PROV: "A1", CENTRO: "2001" },
+        { COD_PROV: "A1 ", CENTRO: DEFAULT_CENTRO },
+      ]);
+      assert.deepEqual(errors.map((error) => `${error.index}:${error.code}`), ["2:DUPLICATE"]);
+    });
+
+    it("reporta los centros que no existen en SAP", () => {
+      const errors = PriceList.findUnknownCentros(
+        [{ COD_PROV: "A1" }, { COD_PROV: "A2", CENTRO: "9999" }],
+        new Set([DEFAULT_CENTRO, "2001"])
+      );
+      assert.deepEqual(errors, [
+        { index: 1, field: "CENTRO", code: "NOT_IN_SAP", message: "El centro 9999 no existe en SAP" },
+      ]);
+    });
+  });
+
+  describe("patch", () => {
+    it("toma del item solo las columnas de CAMPOS", () => {
+      assert.deepEqual(PriceList.patch(row({}), { COD_PROV: "A1", COSTO_UNIT: 2, DESC1: 10, CAMPOS: ["DESC1"] }), {
+        COD_PROV: "A1",
+        COD_SAP: "100200",
+        COSTO_UNIT: 1,
+        DESC1: 10,
+        DESC2: 0,
+        CENTRO: "1002",
+        MONEDA: "USD",
+        UNIDAD: null,
+        FACTOR_UNIDAD: 1,
+      });
+    });
+
+    it("usa el costo cotizado del registro y no el convertido", () => {
+      assert.equal(PriceList.patch(row({}), { COD_PROV: "A1", CAMPOS: [] }).COSTO_UNIT, 1);
+      assert.equal(PriceList.patch(row({ costo_original: null }), { COD_PROV: "A1", CAMPOS: [] }).COSTO_UNIT, 4000);
+    });
+
+    it("dos actualizaciones parciales aplicadas en orden conservan ambos cambios", () => {
+      const first = PriceList.patch(row({}), { COD_PROV: "A1", COSTO_UNIT: 2, DESC1: 5, CAMPOS: ["COSTO_UNIT"] });
+      const approved = row({ costo_original: first.COSTO_UNIT, descuento1: first.DESC1 });
+      const second = PriceList.patch(approved, { COD_PROV: "A1", COSTO_UNIT: 1, DESC1: 15, CAMPOS: ["DESC1"] });
+      assert.equal(second.COSTO_UNIT, 2);
+      assert.equal(second.DESC1, 15);
+    });
+  });
+});
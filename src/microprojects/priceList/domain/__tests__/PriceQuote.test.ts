@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import PriceQuote, { BASE_CURRENCY } from "../PriceQuote";
+import { PriceListItem } from "../../../../shared/types/priceList";
+
+const RATES = [
+  { moneda: "USD", fecha: "2026-04-01", tasa: "4012.500000" },
+  { moneda: "EUR", fecha: "2026-03-31", tasa: "4350" },
+];
+
+const item = (values: Partial<PriceListItem>): PriceListItem => ({ COD_PROV: "A1", ...values }) as PriceListItem;
+
+describe("PriceQuote", () => {
+  describe("normalize", () => {
+    it("deja igual un costo en COP por unidad base", () => {
+      assert.deepEqual(PriceQuote.normalize(item({ COSTO_UNIT: "1500.5" }), RATES), {
+        costo_unitario: "1500.5000",
+        costo_original: "1500.5",
+        moneda: BASE_CURRENCY,
+        unidad: null,
+        factor_unidad: "1",
+        tasa_cambio: "1",
+        fecha_tasa: null,
+      });
+    });
+
+    it("convierte la moneda con la tasa vigente", () => {
+      const quote = PriceQuote.normalize(item({ COSTO_UNIT: 2.5, MONEDA: "usd" }), RATES);
+      assert.equal(quote?.costo_unitario, "10031.2500");
+      assert.equal(quote?.moneda, "USD");
+      assert.equal(quote?.tasa_cambio, "4012.500000");
+      assert.equal(quote?.fecha_tasa, "2026-04-01");
+    });
+
+    it("divide por el factor de la unidad", () => {
+      const quote = PriceQuote.normalize(item({ COSTO_UNIT: 12000, UNIDAD: "cj", FACTOR_UNIDAD: 24 }), RATES);
+      assert.equal(quote?.costo_unitario, "500.0000");
+      assert.equal(quote?.unidad, "CJ");
+      assert.equal(quote?.factor_unidad, "24");
+    });
+
+    it("convierte moneda y unidad redondeando una sola vez", () => {
+      // 30 × 4012.5 ÷ 7 = 17196.428571...
+      const quote = PriceQuote.normalize(item({ COSTO_UNIT: 30, MONEDA: "USD", UNIDAD: "PQ", FACTOR_UNIDAD: 7 }), RATES);
+      assert.equal(quote?.costo_unitario, "17196.4286");
+      assert.equal(quote?.costo_original, "30");
+    });
+
+    it("devuelve null si la moneda no tiene tasa", () => {
+      assert.equal(PriceQuote.normalize(item({ COSTO_UNIT: 1, MONEDA: "MXN" }), RATES), null);
+    });
+  });
+
+  describe("findMissingRates", () => {
+    it("reporta solo los items cuya moneda no tiene tasa", () => {
+      const errors = PriceQuote.findMissingRates(
+        [item({ MONEDA: "COP" }), item({ MONEDA: "MXN" }), item({}), item({ MONEDA: "eur" })],
+        RATES
+      );
+      assert.deepEqual(errors, [
+        { index: 1, field: "MONEDA", code: "NO_EXCHANGE_RATE", message: "No hay tasa de cambio registrada para MXN" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import SubmissionWorkflow, { SUBMISSION_TRANSITIONS } from "../SubmissionWorkflow";
+import { SubmissionStatus } from "../../../../shared/types/priceList";
+
+const STATUSES = Object.keys(SUBMISSION_TRANSITIONS) as SubmissionStatus[];
+
+describe("SubmissionWorkflow", () => {
+  it("sigue el ciclo borrador → enviada → en revisión → decisión", () => {
+    assert.ok(SubmissionWorkflow.canTransition("draft", "submitted"));
+    assert.ok(SubmissionWorkflow.canTransition("submitted", "in_review"));
+    assert.ok(SubmissionWorkflow.canTransition("in_review", "approved"));
+    assert.ok(SubmissionWorkflow.canTransition("in_review", "rejected"));
+    assert.ok(SubmissionWorkflow.canTransition("in_review", "changes_requested"));
+    assert.ok(SubmissionWorkflow.canTransition("changes_requested", "draft"));
+    assert.ok(SubmissionWorkflow.canTransition("changes_requested", "submitted"));
+  });
+
+  it("no permite saltarse la revisión ni salir de los estados finales", () => {
+    assert.equal(SubmissionWorkflow.canTransition("draft", "approved"), false);
+    assert.equal(SubmissionWorkflow.canTransition("submitted", "approved"), false);
+    for (const to of STATUSES) {
+      assert.equal(SubmissionWorkflow.canTransition("approved", to), false);
+      assert.equal(SubmissionWorkflow.canTransition("rejected", to), false);
+    }
+  });
+
+  it("distingue las transiciones del comprador y las que exigen comentario", () => {
+    assert.deepEqual(STATUSES.filter(SubmissionWorkflow.isReviewerTransition).sort(), [
+      "approved",
+      "changes_requested",
+      "in_review",
+      "rejected",
+    ]);
+    assert.deepEqual(STATUSES.filter(SubmissionWorkflow.requiresComment).sort(), ["changes_requested", "rejected"]);
+    assert.deepEqual(STATUSES.filter(SubmissionWorkflow.isEditable).sort(), ["changes_requested", "draft"]);
+  });
+});
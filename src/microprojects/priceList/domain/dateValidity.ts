@@ -1,3 +1,12 @@
+import { PriceListFieldError, ValidityWindow, ValidityWindowStatus } from '../../../shared/types/priceList';
+import { PriceListFieldIssue } from './PriceListValidationError';
+
+/**
+ * Formato de las fechas de vigencia (YYYY-MM-DD)
+ * @constant {RegExp}
+ */
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
 /**
  * Entidad de dominio que representa la validez temporal de una lista de precios.
  * 
@@ -5,15 +14,20 @@
  * de las listas de precios de un proveedor, asegurando que las fechas sean coherentes
  * y cumplan con las reglas del negocio.
  * 
+ * Un proveedor puede tener varias vigencias (la actual y las próximas), cada
+ * una ligada a una versión de su lista de precios (una solicitud), pero no
+ * pueden superponerse: ambos extremos son inclusivos, así que una vigencia
+ * que termina el 31 de marzo y otra que empieza el mismo día se superponen.
+ * 
  * @class DateValidity
  * @module PriceList/Domain
  */
 export class DateValidity {
   /**
-   * Identificador único de la validez de fecha
-   * @type {number}
+   * Identificador único de la validez de fecha (ausente en vigencias nuevas)
+   * @type {number | undefined}
    */
-  id: number;
+  id?: number;
 
   /**
    * Identificador del proveedor asociado a esta validez
@@ -22,59 +36,226 @@ export class DateValidity {
   idProveedor: number;
 
   /**
-   * Fecha de inicio de vigencia de la lista de precios (formato ISO 8601)
+   * Fecha de inicio de vigencia de la lista de precios (YYYY-MM-DD)
    * @type {string}
    */
   fecha_inicio: string;
 
   /**
-   * Fecha de fin de vigencia de la lista de precios (formato ISO 8601)
+   * Fecha de fin de vigencia de la lista de precios (YYYY-MM-DD, inclusive)
    * @type {string}
    */
   fecha_fin: string;
 
+  /**
+   * Versión de la lista de precios que aplica en esta vigencia (ID de la solicitud)
+   * @type {number | null}
+   */
+  submission_id: number | null;
+
   /**
    * Crea una instancia de DateValidity.
    * 
    * @constructor
    * @param {Object} params - Parámetros para crear la validez de fecha
-   * @param {number} params.id - Identificador único de la validez
+   * @param {number} [params.id] - Identificador de la validez (solo al modificar una existente)
    * @param {number} params.idProveedor - Identificador del proveedor
-   * @param {string} params.fecha_inicio - Fecha de inicio de vigencia
-   * @param {string} params.fecha_fin - Fecha de fin de vigencia
+   * @param {string} params.fecha_inicio - Fecha de inicio de vigencia (YYYY-MM-DD)
+   * @param {string} params.fecha_fin - Fecha de fin de vigencia (YYYY-MM-DD)
+   * @param {number} [params.submission_id] - Versión de la lista (obligatoria en vigencias nuevas)
    * 
-   * @throws {Error} Si el ID no es proporcionado
    * @throws {Error} Si el ID del proveedor no es proporcionado
-   * @throws {Error} Si la fecha de inicio es mayor que la fecha de fin
+   * @throws {Error} Si alguna regla de {@link DateValidity.validate} no se cumple
    * 
    * @example
    * const validez = new DateValidity({
-   *   id: 1,
    *   idProveedor: 100,
-   *   fecha_inicio: '2024-01-01',
-   *   fecha_fin: '2024-12-31'
+   *   fecha_inicio: '2026-04-01',
+   *   fecha_fin: '2026-06-30',
+   *   submission_id: 12
    * });
    */
   constructor(param: {
-    id: number;
+    id?: number | string | null;
     idProveedor: number;
     fecha_inicio: string;
     fecha_fin: string;
+    submission_id?: number | string | null;
   }) {
-    if (!param.id) throw new Error('El ID es obligatorio');
     if (!param.idProveedor)
       throw new Error('El ID del proveedor es obligatorio');
 
+    const [first] = DateValidity.validate(param);
+    if (first) throw new Error(first.message);
+
+    this.id = param.id ? Number(param.id) : undefined;
+    this.idProveedor = param.idProveedor;
+    this.fecha_inicio = String(param.fecha_inicio).trim();
+    this.fecha_fin = String(param.fecha_fin).trim();
+    this.submission_id = param.submission_id ? Number(param.submission_id) : null;
+  }
+
+  /**
+   * Valida una vigencia y devuelve todos los errores encontrados.
+   * 
+   * @public
+   * @static
+   * @param {any} param - Vigencia recibida
+   * @returns {PriceListFieldIssue[]} Errores por campo (vacío si es válida)
+   */
+  public static validate(param: any): PriceListFieldIssue[] {
+    const issues: PriceListFieldIssue[] = [];
+
+    if (param?.id !== undefined && param.id !== null && param.id !== '' && !DateValidity.isPositiveInt(param.id)) {
+      issues.push({ field: 'id', code: 'INVALID_FORMAT', message: 'id debe ser un entero positivo' });
+    }
+
+    const dates: Record<'fecha_inicio' | 'fecha_fin', boolean> = { fecha_inicio: false, fecha_fin: false };
+    for (const field of ['fecha_inicio', 'fecha_fin'] as const) {
+      const value = param?.[field];
+      if (value === undefined || value === null || value === '') {
+        issues.push({ field, code: 'REQUIRED', message: `${field} es requerido` });
+      } else if (!DateValidity.isDate(String(value).trim())) {
+        issues.push({ field, code: 'INVALID_FORMAT', message: `${field} debe ser una fecha con formato YYYY-MM-DD` });
+      } else {
+        dates[field] = true;
+      }
+    }
+
     // Validaciones de negocio
-    if (new Date(param.fecha_inicio) > new Date(param.fecha_fin)) {
-      throw new Error(
-        'La fecha de inicio no puede ser mayor que la fecha de fin'
-      );
+    if (dates.fecha_inicio && dates.fecha_fin && String(param.fecha_inicio).trim() > String(param.fecha_fin).trim()) {
+      issues.push({
+        field: 'fecha_fin',
+        code: 'OUT_OF_RANGE',
+        message: 'La fecha de inicio no puede ser mayor que la fecha de fin',
+      });
     }
 
-    this.id = param.id;
-    this.idProveedor = param.idProveedor;
-    this.fecha_inicio = param.fecha_inicio;
-    this.fecha_fin = param.fecha_fin;
+    // Una vigencia nueva siempre indica qué versión de la lista aplica
+    const submission = param?.submission_id;
+    if (submission === undefined || submission === null || submission === '') {
+      if (!param?.id) {
+        issues.push({ field: 'submission_id', code: 'REQUIRED', message: 'submission_id es requerido en una vigencia nueva' });
+      }
+    } else if (!DateValidity.isPositiveInt(submission)) {
+      issues.push({ field: 'submission_id', code: 'INVALID_FORMAT', message: 'submission_id debe ser un entero positivo' });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Indica si dos vigencias se superponen (extremos inclusivos).
+   * 
+   * @public
+   * @static
+   * @param {Object} a - Vigencia con fecha_inicio y fecha_fin (YYYY-MM-DD)
+   * @param {Object} b - Vigencia con fecha_inicio y fecha_fin (YYYY-MM-DD)
+   * @returns {boolean} true si comparten al menos un día
+   */
+  public static overlaps(
+    a: { fecha_inicio: string; fecha_fin: string },
+    b: { fecha_inicio: string; fecha_fin: string }
+  ): boolean {
+    return a.fecha_inicio <= b.fecha_fin && b.fecha_inicio <= a.fecha_fin;
+  }
+
+  /**
+   * Busca superposiciones entre las vigencias recibidas y las ya guardadas.
+   * 
+   * Las vigencias guardadas que se están modificando (mismo id) se comparan
+   * con sus fechas nuevas. Cada vigencia recibida que choca con otra se
+   * reporta una vez, indicando con cuál.
+   * 
+   * @public
+   * @static
+   * @param {DateValidity[]} incoming - Vigencias recibidas, en el orden del lote
+   * @param {ValidityWindow[]} existing - Vigencias guardadas del proveedor
+   * @returns {PriceListFieldError[]} Un error OVERLAP por cada vigencia recibida que se superpone
+   * 
+   * @example
+   * DateValidity.findOverlaps(
+   *   [new DateValidity({ idProveedor: 100, fecha_inicio: '2026-03-15', fecha_fin: '2026-06-30', submission_id: 12 })],
+   *   [{ id: 3, id_proveedor: '100', fecha_inicio: '2026-01-01', fecha_fin: '2026-03-31', submission_id: 9 }]
+   * );
+   * // [{ index: 0, field: 'fecha_inicio', code: 'OVERLAP', message: 'La vigencia 2026-03-15 a 2026-06-30 se superpone con la vigencia 3 (2026-01-01 a 2026-03-31)' }]
+   */
+  public static findOverlaps(incoming: DateValidity[], existing: ValidityWindow[]): PriceListFieldError[] {
+    const updated = new Set(incoming.filter((item) => item.id).map((item) => Number(item.id)));
+    const kept = existing.filter((window) => !updated.has(Number(window.id)));
+    const errors: PriceListFieldError[] = [];
+
+    incoming.forEach((item, index) => {
+      const label = (window: { id?: number; fecha_inicio: string; fecha_fin: string }, position?: number) =>
+        `${window.id ? `la vigencia ${window.id}` : `el item ${position}`} (${window.fecha_inicio} a ${window.fecha_fin})`;
+
+      const saved = kept.find((window) => DateValidity.overlaps(item, window));
+      const sibling = incoming.findIndex((other, i) => i !== index && DateValidity.overlaps(item, other));
+      if (!saved && sibling === -1) return;
+
+      errors.push({
+        index,
+        field: 'fecha_inicio',
+        code: 'OVERLAP',
+        message: `La vigencia ${item.fecha_inicio} a ${item.fecha_fin} se superpone con ${
+          saved ? label(saved) : label(incoming[sibling], sibling)
+        }`,
+      });
+    });
+
+    return errors;
+  }
+
+  /**
+   * Clasifica una vigencia respecto de una fecha.
+   * 
+   * @public
+   * @static
+   * @param {Object} window - Vigencia con fecha_inicio y fecha_fin (YYYY-MM-DD)
+   * @param {string} date - Fecha de referencia (YYYY-MM-DD)
+   * @returns {ValidityWindowStatus} current si la fecha está dentro, upcoming si aún no empieza, expired si ya terminó
+   */
+  public static statusOn(window: { fecha_inicio: string; fecha_fin: string }, date: string): ValidityWindowStatus {
+    if (date < window.fecha_inicio) return 'upcoming';
+    if (date > window.fecha_fin) return 'expired';
+    return 'current';
+  }
+
+  /**
+   * Fecha de hoy (hora local del servidor) en formato YYYY-MM-DD.
+   * 
+   * @public
+   * @static
+   * @returns {string} Fecha de hoy
+   */
+  public static today(): string {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  }
+
+  /**
+   * Indica si un texto es una fecha YYYY-MM-DD existente.
+   * 
+   * @public
+   * @static
+   * @param {string} value - Texto a validar
+   * @returns {boolean} true si es una fecha válida (rechaza, por ejemplo, 2026-02-30)
+   */
+  public static isDate(value: string): boolean {
+    if (!DATE_REGEX.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }
+
+  /**
+   * @private
+   * @static
+   * @param {any} value - Valor a validar
+   * @returns {boolean} true si es un entero positivo (o su texto)
+   */
+  private static isPositiveInt(value: any): boolean {
+    const n = Number(value);
+    return Number.isInteger(n) && n > 0;
   }
 }
@@ -5,11 +5,17 @@
  * coordinando la ejecución de casos de uso y formateando las respuestas de forma consistente.
  * 
  * Funcionalidades:
- * - Inserción de nuevas listas de precios
+ * - Registro de listas de precios como solicitudes sujetas a aprobación
+ * - Flujo de revisión de solicitudes por compradores (aprobar, rechazar, pedir cambios)
+ * - Validación previa sin guardar (dry run) con comparación contra precios vigentes
  * - Consulta de listas existentes con información de SAP
  * - Actualización de precios y descuentos
  * - Gestión de vigencia temporal de listas
  * - Obtención de plantillas desde SAP
+ * - Consulta por centro de distribución (bk_centro)
+ * - Historial de precios y consulta de precios a una fecha
+ * - Carga masiva desde CSV/XLSX con reporte de errores por fila
+ * - Exportación de listas y plantillas a CSV/XLSX
  * 
  * @class ControllerListaPrecios
  * @module PriceList/Interfaces/Controllers
@@ -17,10 +23,59 @@
 
 import { Request, Response } from "express";
 import GetListaPrecios from "../../usecases/getPriceList";
-import SeePriceLists from "../../usecases/seePriceLists";
+import SeePriceLists, { PRICE_LIST_SORT_FIELDS } from "../../usecases/seePriceLists";
 import UpdateLists from "../../usecases/updateLists";
 import DateValidityUsecase from "../../usecases/dateValidityUpdate";
 import getPricingtemplate from "../../usecases/getPricingTemplate";
+import GetPriceHistory from "../../usecases/getPriceHistory";
+import UploadPriceList from "../../usecases/uploadPriceList";
+import PreviewPriceList from "../../usecases/previewPriceList";
+import PriceListSubmissions from "../../usecases/priceListSubmissions";
+import PriceVarianceReport from "../../usecases/priceVarianceReport";
+import GetCentros from "../../usecases/getCentros";
+import SubmissionWorkflow from "../../domain/SubmissionWorkflow";
+import PriceListSpreadsheet from "../files/priceListSpreadsheet";
+import PriceListExport, {
+  ExportColumn,
+  PRICE_LIST_EXPORT_COLUMNS,
+  PRICING_TEMPLATE_EXPORT_COLUMNS,
+} from "../files/priceListExport";
+import { Readable } from "stream";
+import { hasPermission } from "../../../../shared/auth/authorize";
+import { actorOf } from "../../../../shared/auth/actor";
+import { AppError } from "../../../../shared/errors/AppError";
+import {
+  PageRequest,
+  PriceListFilters,
+  PriceListSaveMode,
+  PriceListSortField,
+  SubmissionStatus,
+} from "../../../../shared/types/priceList";
+
+/**
+ * Tipo MIME de los archivos XLSX
+ * @constant {string}
+ */
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Formatos de respuesta de las consultas
+ * @typedef {"json" | "csv" | "xlsx"} ResponseFormat
+ */
+type ResponseFormat = "json" | "csv" | "xlsx";
+
+/**
+ * Formato aceptado en `asOf`: fecha (YYYY-MM-DD) con hora opcional
+ * @constant {RegExp}
+ */
+const AS_OF_REGEX = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d{1,6})?)?)?$/;
+
+/**
+ * Tamaño de página por defecto y máximo de GET /validate-products
+ * @constant {number}
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
 
 export default class ControllerListaPrecios {
 
@@ -59,6 +114,62 @@ export default class ControllerListaPrecios {
    */
   private pricingtemplate = new getPricingtemplate();
 
+  /**
+   * Caso de uso para consultar el historial de precios
+   * @private
+   * @type {GetPriceHistory}
+   */
+  private priceHistory = new GetPriceHistory();
+
+  /**
+   * Caso de uso para consultar los centros de distribución
+   * @private
+   * @type {GetCentros}
+   */
+  private centros = new GetCentros();
+
+  /**
+   * Caso de uso para la carga masiva desde archivo
+   * @private
+   * @type {UploadPriceList}
+   */
+  private uploadPriceList = new UploadPriceList();
+
+  /**
+   * Caso de uso para validar listas sin guardarlas (dry run)
+   * @private
+   * @type {PreviewPriceList}
+   */
+  private previewPriceList = new PreviewPriceList();
+
+  /**
+   * Caso de uso para consultar y revisar solicitudes de listas de precios
+   * @private
+   * @type {PriceListSubmissions}
+   */
+  private submissions = new PriceListSubmissions();
+
+  /**
+   * Caso de uso para el reporte de variaciones frente a SAP
+   * @private
+   * @type {PriceVarianceReport}
+   */
+  private varianceReport = new PriceVarianceReport();
+
+  /**
+   * Lectura y escritura de hojas de cálculo de listas de precios
+   * @private
+   * @type {PriceListSpreadsheet}
+   */
+  private spreadsheet = new PriceListSpreadsheet();
+
+  /**
+   * Exportación de listas de precios a CSV/XLSX
+   * @private
+   * @type {PriceListExport}
+   */
+  private exporter = new PriceListExport();
+
   /**
    * Método centralizado para enviar respuestas HTTP con un formato consistente.
    * 
@@ -91,17 +202,287 @@ export default class ControllerListaPrecios {
   }
 
   /**
-   * Controlador para insertar nuevas listas de precios.
+   * Determina el proveedor sobre el que se consulta.
+   *
+   * Un proveedor siempre consulta sus propios datos. Los usuarios internos con
+   * permiso `price-lists:read-all` (compradores y administradores) pueden indicar
+   * el proveedor con `?proveedor=`; si no lo indican se devuelve undefined (todos).
+   *
+   * @private
+   * @param {Request} req - Objeto de petición de Express
+   * @returns {string | undefined} ID del proveedor a consultar
+   */
+  private resolveProveedor(req: Request): string | undefined {
+    const user = (req as any).user;
+
+    if (user?.role === "supplier") {
+      return user.id;
+    }
+
+    if (hasPermission(req, "price-lists:read-all")) {
+      const proveedor = req.query.proveedor;
+      return typeof proveedor === "string" && proveedor !== "" ? proveedor : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Centros de distribución permitidos al usuario.
+   *
+   * Los usuarios internos pueden tener el claim `centros` en el token; sin
+   * él (y para los proveedores) se permiten todos. Limita lo que el usuario
+   * consulta (listas, plantilla, variaciones e historial) y las solicitudes
+   * que ve y decide.
+   *
+   * @private
+   * @param {Request} req - Objeto de petición de Express
+   * @returns {string[] | null} Centros permitidos, o null si son todos
+   */
+  private allowedCentros(req: Request): string[] | null {
+    const centros = (req as any).user?.centros;
+    return Array.isArray(centros) && centros.length > 0 ? centros.map(String) : null;
+  }
+
+  /**
+   * Determina los centros de distribución sobre los que se consulta.
+   *
+   * Con `?centro=` se consulta ese centro, que debe estar entre los permitidos
+   * al usuario; sin él, los permitidos (undefined si son todos).
+   *
+   * @private
+   * @param {Request} req - Objeto de petición de Express
+   * @returns {string[] | undefined} Centros a consultar, o undefined para todos
+   * @throws {AppError} 400 si el centro no tiene un formato válido
+   * @throws {AppError} 403 si el centro no está permitido al usuario
+   */
+  private resolveCentros(req: Request): string[] | undefined {
+    const allowed = this.allowedCentros(req);
+    const centro = typeof req.query.centro === "string" ? req.query.centro.trim() : "";
+
+    if (centro === "") {
+      return allowed ?? undefined;
+    }
+    if (!/^[A-Za-z0-9]{1,4}$/.test(centro)) {
+      throw new AppError("Parámetros de consulta inválidos", 400, ["centro debe ser alfanumérico de máximo 4 caracteres"]);
+    }
+    if (allowed && !allowed.includes(centro)) {
+      throw new AppError(`No tiene acceso al centro ${centro}`, 403, [`Centros permitidos: ${allowed.join(", ")}`]);
+    }
+    return [centro];
+  }
+
+  /**
+   * Interpreta el parámetro `asOf` de las consultas a una fecha.
+   *
+   * Una fecha sin hora se toma hasta el final de ese día, de modo que
+   * `asOf=2026-03-01` incluye los cambios hechos el 1 de marzo.
+   *
+   * @private
+   * @param {unknown} value - Valor recibido en `req.query.asOf`
+   * @returns {string | undefined} Fecha/hora de corte, o undefined si no se envió
+   * @throws {AppError} 400 si el formato o la fecha no son válidos
+   */
+  private parseAsOf(value: unknown): string | undefined {
+    if (value === undefined || value === "") return undefined;
+
+    const asOf = typeof value === "string" ? value.trim() : "";
+    if (!AS_OF_REGEX.test(asOf) || Number.isNaN(Date.parse(asOf))) {
+      throw new AppError("asOf inválido", 400, ["Use el formato YYYY-MM-DD o YYYY-MM-DDTHH:mm:ss"]);
+    }
+
+    return asOf.length === 10 ? `${asOf} 23:59:59.999999` : asOf.replace("T", " ");
+  }
+
+  /**
+   * Interpreta los filtros, el orden y la página de la consulta de listas de precios.
+   *
+   * Reúne todos los parámetros inválidos en un solo error. Las fechas sin hora
+   * de `updatedTo` se toman hasta el final del día, como en `asOf`. Los
+   * centros se resuelven con resolveCentros.
+   *
+   * @private
+   * @param {Request} req - Objeto de petición de Express
+   * @returns {{ filters: PriceListFilters, page: PageRequest }} Filtros y página
+   * @throws {AppError} 400 con un mensaje por cada parámetro inválido
+   * @throws {AppError} 403 si el centro no está permitido al usuario
+   */
+  private parsePriceListQuery(req: Request): { filters: PriceListFilters; page: PageRequest } {
+    const errors: string[] = [];
+    const text = (name: string): string | undefined => {
+      const value = req.query[name];
+      return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+    };
+    const date = (name: string, endOfDay: boolean): string | undefined => {
+      const value = text(name);
+      if (value === undefined) return undefined;
+      if (!AS_OF_REGEX.test(value) || Number.isNaN(Date.parse(value))) {
+        errors.push(`${name} debe tener el formato YYYY-MM-DD o YYYY-MM-DDTHH:mm:ss`);
+        return undefined;
+      }
+      if (value.length === 10) return endOfDay ? `${value} 23:59:59.999999` : `${value} 00:00:00`;
+      return value.replace("T", " ");
+    };
+    const number = (name: string, min: number, max = Number.MAX_SAFE_INTEGER, integer = false): number | undefined => {
+      const value = text(name);
+      if (value === undefined) return undefined;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < min || parsed > max || (integer && !Number.isInteger(parsed))) {
+        errors.push(`${name} debe ser un ${integer ? "entero" : "número"} entre ${min} y ${max}`);
+        return undefined;
+      }
+      return parsed;
+    };
+
+    const filters: PriceListFilters = {
+      cod_prov: text("cod_prov"),
+      cod_sap: text("cod_sap"),
+      q: text("q"),
+      tipo_impuesto: text("tipo_impuesto"),
+      updatedFrom: date("updatedFrom", false),
+      updatedTo: date("updatedTo", true),
+      minPrice: number("minPrice", 0),
+      maxPrice: number("maxPrice", 0),
+      centros: this.resolveCentros(req),
+    };
+
+    const sort = text("sort");
+    if (sort !== undefined) {
+      if (PRICE_LIST_SORT_FIELDS.includes(sort as PriceListSortField)) filters.sort = sort as PriceListSortField;
+      else errors.push(`sort debe ser uno de: ${PRICE_LIST_SORT_FIELDS.join(", ")}`);
+    }
+
+    const order = text("order");
+    if (order !== undefined) {
+      if (order === "asc" || order === "desc") filters.order = order;
+      else errors.push("order debe ser asc o desc");
+    }
+
+    if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+      errors.push("minPrice no puede ser mayor que maxPrice");
+    }
+    if (filters.updatedFrom && filters.updatedTo && filters.updatedFrom > filters.updatedTo) {
+      errors.push("updatedFrom no puede ser posterior a updatedTo");
+    }
+
+    const page: PageRequest = {
+      page: number("page", 1, Number.MAX_SAFE_INTEGER, true) ?? 1,
+      pageSize: number("pageSize", 1, MAX_PAGE_SIZE, true) ?? DEFAULT_PAGE_SIZE,
+    };
+
+    if (errors.length > 0) {
+      throw new AppError("Parámetros de consulta inválidos", 400, errors);
+    }
+    return { filters, page };
+  }
+
+  /**
+   * Interpreta el modo de registro de una lista (`?mode=`).
+   *
+   * @private
+   * @param {unknown} value - Valor recibido en `req.query.mode`
+   * @returns {PriceListSaveMode} `merge` por defecto, o `replace`
+   * @throws {AppError} 400 si el modo no es uno de los soportados
+   */
+  private parseSaveMode(value: unknown): PriceListSaveMode {
+    if (value === undefined || value === "") return "merge";
+    if (value === "merge" || value === "replace") return value;
+    throw new AppError("Modo no soportado", 400, ["Use mode=merge o mode=replace"]);
+  }
+
+  /**
+   * Determina el formato de respuesta de una consulta.
+   *
+   * `?format=csv|xlsx|json` tiene prioridad; si no se envía se negocia con el
+   * encabezado `Accept` (por defecto JSON).
+   *
+   * @private
+   * @param {Request} req - Objeto de petición de Express
+   * @returns {ResponseFormat} Formato solicitado
+   * @throws {AppError} 400 si `format` no es uno de los soportados
+   */
+  private responseFormat(req: Request): ResponseFormat {
+    const format = req.query.format;
+    if (format !== undefined) {
+      if (format === "json" || format === "csv" || format === "xlsx") return format;
+      throw new AppError("Formato no soportado", 400, ["Use format=json, csv o xlsx"]);
+    }
+
+    const accepted = req.accepts(["json", "text/csv", XLSX_MIME]);
+    if (accepted === "text/csv") return "csv";
+    if (accepted === XLSX_MIME) return "xlsx";
+    return "json";
+  }
+
+  /**
+   * Envía una exportación CSV/XLSX leyendo las filas desde un stream.
+   *
+   * Si la consulta falla después de enviados los encabezados, la respuesta se
+   * corta para que el cliente no reciba un archivo incompleto como válido.
+   *
+   * @private
+   * @async
+   * @param {Response} res - Objeto de respuesta de Express
+   * @param {"csv" | "xlsx"} format - Formato del archivo
+   * @param {Readable} rows - Stream de filas
+   * @param {ExportColumn[]} columns - Columnas a exportar
+   * @param {string} filename - Nombre del archivo, sin extensión
+   * @param {string} sheetName - Nombre de la hoja (XLSX)
+   * @returns {Promise<void>}
+   */
+  private async sendExport(
+    res: Response,
+    format: "csv" | "xlsx",
+    rows: Readable,
+    columns: ExportColumn[],
+    filename: string,
+    sheetName: string
+  ): Promise<void> {
+    res.status(200);
+    res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : XLSX_MIME);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+
+    // Si el cliente se desconecta se cierra el cursor y se libera la conexión
+    res.on("close", () => rows.destroy());
+
+    try {
+      if (format === "csv") {
+        await this.exporter.writeCsv(rows, columns, res);
+      } else {
+        await this.exporter.writeXlsx(rows, columns, res, sheetName);
+      }
+    } catch (error: any) {
+      console.error("Error exportando lista de precios:", error.message);
+      res.destroy(error);
+    }
+  }
+
+  /**
+   * Controlador para registrar listas de precios.
    * 
    * Maneja la petición HTTP POST para registrar una lista de precios.
    * Valida que los datos sean un array, añade el ID del proveedor autenticado
    * a cada item, y delega la lógica de negocio al caso de uso correspondiente.
+   * La lista queda como solicitud en borrador (o enviada, con `?submit=true`)
+   * y sus precios solo pasan a ser vigentes cuando un comprador la aprueba.
+   * Al aprobarse se aplica como upsert por proveedor, centro y COD_PROV: con
+   * `?mode=merge` (por defecto) se agregan y actualizan materiales, y con
+   * `?mode=replace` además se eliminan los que no vienen en la lista.
+   * Si algún item no pasa las validaciones del dominio responde 422 con todos
+   * los errores (posición del item, campo, código y mensaje) y no inserta nada.
+   * 
+   * Con `?dryRun=true` no guarda nada: valida el lote completo (dominio,
+   * COD_PROV repetidos, existencia en SAP) y responde la vista previa con los
+   * items nuevos, modificados (con sus diferencias), sin cambios y los errores.
    * 
    * @async
    * @public
    * @param {Request} req - Objeto de petición de Express
    * @param {Object} req.body - Cuerpo de la petición
    * @param {Array} req.body.data - Array de items de lista de precios
+   * @param {string} [req.query.dryRun] - "true" para validar sin guardar
+   * @param {string} [req.query.mode] - merge (por defecto) o replace
+   * @param {string} [req.query.submit] - "true" para enviar la solicitud a revisión de inmediato
    * @param {Object} req.user - Usuario autenticado (añadido por authMiddleware)
    * @param {number} req.user.id - ID del proveedor autenticado
    * @param {Response} res - Objeto de respuesta de Express
@@ -125,8 +506,52 @@ export default class ControllerListaPrecios {
    * // Response 200:
    * {
    *   "success": true,
-   *   "data": [...],
-   *   "message": "Lista de precios procesada correctamente",
+   *   "data": {
+   *     "id": 12,
+   *     "proveedor_id": "100",
+   *     "status": "draft",
+   *     "mode": "merge",
+   *     "source": "validate",
+   *     "item_count": 1,
+   *     ...
+   *   },
+   *   "message": "Lista de precios registrada como solicitud 12 (draft)",
+   *   "errors": []
+   * }
+   * 
+   * // Response 422:
+   * {
+   *   "success": false,
+   *   "data": null,
+   *   "message": "La lista de precios tiene 2 errores de validación",
+   *   "errors": [
+   *     { "index": 0, "field": "DESC1", "code": "OUT_OF_RANGE", "message": "DESC1 excede el máximo de 3 dígitos (valor máximo: 100)" },
+   *     { "index": 3, "field": "COSTO_UNIT", "code": "NEGATIVE", "message": "COSTO_UNIT no puede ser negativo" }
+   *   ]
+   * }
+   * 
+   * // Response 200 con ?dryRun=true:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "valid": false,
+   *     "mode": "merge",
+   *     "summary": { "total": 3, "new": 1, "changed": 1, "unchanged": 0, "removed": 0, "errors": 1 },
+   *     "new": [{ "index": 0, "item": { "COD_PROV": "A100", ... }, "current": null, "changes": [] }],
+   *     "changed": [{
+   *       "index": 1,
+   *       "item": { "COD_PROV": "B200", "COSTO_UNIT": 1100, ... },
+   *       "current": { "id": 7, "cod_prov": "B200", "costo_unitario": "1000", "costo_original": "1000", "moneda": "COP", ... },
+   *       "changes": [
+   *         { "field": "COSTO_UNIT", "current": 1000, "proposed": 1100, "delta": 100, "deltaPct": 10 },
+   *         { "field": "COSTO_CONVERTIDO", "current": 1000, "proposed": 1100, "delta": 100, "deltaPct": 10 }
+   *       ]
+   *     }],
+   *     "unchanged": [],
+   *     "removed": [],
+   *     "errors": [{ "index": 2, "field": "COD_PROV", "code": "NOT_IN_SAP", "message": "COD_PROV C300 no existe en SAP para el proveedor" }]
+   *   },
+   *   "message": "Vista previa con 1 errores; la lista no se guardó",
    *   "errors": []
    * }
    */
@@ -151,16 +576,41 @@ export default class ControllerListaPrecios {
         PROVEEDOR: proveedor,
       }));
 
-      const result = await this.registeListPrecios.newListPrecios(dataWithProveedor);
+      const mode = this.parseSaveMode(req.query.mode);
+
+      if (req.query.dryRun === "true") {
+        const preview = await this.previewPriceList.previewListPrecios(dataWithProveedor, String(proveedor), mode);
+        return this.sendResponse(
+          res,
+          200,
+          true,
+          preview,
+          preview.valid
+            ? "La lista es válida; no se guardó (dry run)"
+            : `Vista previa con ${preview.errors.length} errores; la lista no se guardó`
+        );
+      }
+
+      const submission = await this.registeListPrecios.newListPrecios(
+        dataWithProveedor,
+        String(proveedor),
+        mode,
+        actorOf(req),
+        req.query.submit === "true"
+      );
 
       return this.sendResponse(
         res,
         200,
         true,
-        result,
-        "Lista de precios procesada correctamente"
+        submission,
+        `Lista de precios registrada como solicitud ${submission.id} (${submission.status})`
       );
     } catch (error: any) {
+      // Modo inválido (400) o errores de validación (422, con todos los campos inválidos, sin guardar nada)
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
       console.error("Error en insertListPrecios:", error.message);
       return this.sendResponse(
         res,
@@ -179,55 +629,118 @@ export default class ControllerListaPrecios {
    * 
    * Maneja la petición HTTP GET para obtener las listas de precios del proveedor
    * autenticado. Combina información de las listas locales con datos de SAP,
-   * incluyendo descripciones, precios efectivos y tipos de impuesto.
+   * incluyendo descripciones, precios efectivos y tipos de impuesto. Cada
+   * registro trae el desglose de su costo (bruto, con DESC1 y DESC2 en
+   * cascada, impuesto según tipo_impuesto y neto) y en `variance` la variación de su costo neto frente al
+   * precio efectivo de SAP y si excede su umbral (`excede`).
+   * Con `?asOf=` devuelve los costos y descuentos que había en esa fecha.
+   * Con `?format=csv|xlsx` (o el encabezado `Accept`) descarga la lista como
+   * archivo, generado por streaming. La respuesta JSON se entrega paginada;
+   * los filtros y el orden aplican también a los archivos, que no se paginan.
    * 
    * @async
    * @public
    * @param {Request} req - Objeto de petición de Express
    * @param {Object} req.user - Usuario autenticado (añadido por authMiddleware)
    * @param {number} req.user.id - ID del proveedor autenticado
+   * @param {string} [req.query.proveedor] - Proveedor a consultar (solo compradores y administradores)
+   * @param {string} [req.query.asOf] - Fecha de corte (YYYY-MM-DD o ISO 8601 con hora)
+   * @param {string} [req.query.format] - Formato de respuesta: json (por defecto), csv o xlsx
+   * @param {string} [req.query.cod_prov] - COD_PROV que empieza por el texto
+   * @param {string} [req.query.cod_sap] - Código SAP que empieza por el texto
+   * @param {string} [req.query.q] - Texto contenido en la descripción
+   * @param {string} [req.query.tipo_impuesto] - Tipo de impuesto exacto
+   * @param {string} [req.query.updatedFrom] - Actualizados desde (YYYY-MM-DD o ISO 8601)
+   * @param {string} [req.query.updatedTo] - Actualizados hasta (YYYY-MM-DD incluye todo el día)
+   * @param {string} [req.query.minPrice] - Costo unitario mínimo
+   * @param {string} [req.query.maxPrice] - Costo unitario máximo
+   * @param {string} [req.query.sort] - Columna de orden (por defecto fecha_actualizacion_precio)
+   * @param {string} [req.query.order] - asc o desc (por defecto)
+   * @param {string} [req.query.page] - Página, desde 1 (no aplica a CSV/XLSX)
+   * @param {string} [req.query.pageSize] - Registros por página (por defecto 50, máximo 500)
    * @param {Response} res - Objeto de respuesta de Express
    * 
-   * @returns {Promise<Response>} Respuesta HTTP con las listas de precios
+   * @returns {Promise<Response>} Respuesta HTTP con la página de listas de precios
    * 
    * @example
+   * // GET /validate-products?q=urea&sort=costo_unitario&order=asc&page=1&pageSize=50
    * // Response 200:
    * {
    *   "success": true,
-   *   "data": [
-   *     {
-   *       "id": 1,
-   *       "cod_prov": "12345",
-   *       "cod_sap": "SAP001",
-   *       "descripcion": "Producto X",
-   *       "costo_unitario": 100.50,
-   *       "descuento1": 10,
-   *       "descuento2": 5,
-   *       "proveedor_id": 100,
-   *       "fecha_actualizacion_precio": "2024-01-15",
-   *       "tipo_impuesto": "IVA",
-   *       "precio_bruto": 120.00,
-   *       "precio_neto": 108.00
-   *     }
-   *   ],
+   *   "data": {
+   *     "items": [
+   *       {
+   *         "id": 1,
+   *         "cod_prov": "12345",
+   *         "cod_sap": "SAP001",
+   *         "descripcion": "Producto X",
+   *         "costo_unitario": 100.50,
+   *         "costo_original": "0.025125",
+   *         "moneda": "USD",
+   *         "unidad": null,
+   *         "factor_unidad": "1",
+   *         "tasa_cambio": "4000.000000",
+   *         "fecha_tasa": "2024-01-15",
+   *         "descuento1": 10,
+   *         "descuento2": 5,
+   *         "proveedor_id": 100,
+   *         "fecha_actualizacion_precio": "2024-01-15",
+   *         "tipo_impuesto": "IVA19",
+   *         "precio_bruto": 100.5,
+   *         "costo_descuentos": 85.93,
+   *         "tasa_impuesto": 19,
+   *         "impuesto": 16.33,
+   *         "precio_neto": 102.26,
+   *         "precio_sap": 120.00,
+   *         "categoria": "FERT",
+   *         "variance": {
+   *           "costo_neto": 85.9275,
+   *           "precio_sap": 120,
+   *           "diferencia": -34.0725,
+   *           "variacion_pct": -28.39,
+   *           "umbral_pct": 15,
+   *           "umbral_origen": "default",
+   *           "excede": true
+   *         }
+   *       }
+   *     ],
+   *     "pagination": { "page": 1, "pageSize": 50, "total": 8, "totalPages": 1, "hasNext": false, "nextPage": null }
+   *   },
    *   "message": "Datos obtenidos correctamente",
    *   "errors": []
    * }
    */
   public seeListPrice = async (req: Request, res: Response) => {
     try {
-      // tomamos como id de proveedor aquel que esta logeado
-      const proveedor = (req as any).user?.id;
+      // el proveedor logeado ve su lista; compradores y administradores pueden ver todas
+      const proveedor = this.resolveProveedor(req);
 
+      if (!proveedor && !hasPermission(req, "price-lists:read-all")) {
+        return this.sendResponse(res, 400, false, null, "Proveedor no especificado");
+      }
 
+      const asOf = this.parseAsOf(req.query.asOf);
+      const format = this.responseFormat(req);
+      const { filters, page } = this.parsePriceListQuery(req);
 
-      if (!proveedor) {
-        return this.sendResponse(res, 400, false, null, "Proveedor no especificado");
+      if (format !== "json") {
+        const rows = await this.priceLists.streamCombinedPrices(proveedor, asOf, filters);
+        return this.sendExport(
+          res,
+          format,
+          rows,
+          PRICE_LIST_EXPORT_COLUMNS,
+          `lista-precios-${proveedor ?? "todos"}`,
+          "Lista de precios"
+        );
       }
 
-      const result = await this.priceLists.getCombinedPrices(proveedor);
+      const result = await this.priceLists.getCombinedPrices(proveedor, asOf, filters, page);
       return this.sendResponse(res, 200, true, result, "Datos obtenidos correctamente");
     } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
       console.error("Error en seeListPrice:", error.message);
       return this.sendResponse(res, 500, false, null, "Error al obtener la lista de precios", [error.message]);
     }
@@ -238,7 +751,11 @@ export default class ControllerListaPrecios {
    * 
    * Maneja la petición HTTP POST para actualizar costos unitarios y descuentos
    * de items específicos en listas de precios. Permite actualizaciones parciales,
-   * actualizando solo los campos proporcionados.
+   * cambiando solo los campos proporcionados. Los cambios se registran como una
+   * solicitud que se aplica cuando un comprador la aprueba. Solo se aceptan
+   * registros del proveedor autenticado; los demás se reportan en `errors` con
+   * código NOT_FOUND o FORBIDDEN, y los items que no pasan las validaciones del
+   * dominio con código INVALID.
    * 
    * @async
    * @public
@@ -249,6 +766,9 @@ export default class ControllerListaPrecios {
    * @param {number} [req.body.data[].costo_unitario] - Nuevo costo unitario (opcional)
    * @param {number} [req.body.data[].descuento1] - Nuevo descuento 1 (opcional)
    * @param {number} [req.body.data[].descuento2] - Nuevo descuento 2 (opcional)
+   * @param {string} [req.query.submit] - "true" para enviar la solicitud a revisión de inmediato
+   * @param {Object} req.user - Usuario autenticado (añadido por authMiddleware)
+   * @param {number} req.user.id - ID del proveedor autenticado
    * @param {Response} res - Objeto de respuesta de Express
    * 
    * @returns {Promise<Response>} Respuesta HTTP con el resultado de la actualización
@@ -273,12 +793,12 @@ export default class ControllerListaPrecios {
    * {
    *   "success": true,
    *   "data": {
-   *     "updatedCount": 2,
-   *     "updatedItems": [...],
-   *     "message": "2 registros actualizados correctamente"
+   *     "submission": { "id": 14, "status": "draft", "source": "update-prices", "item_count": 1, ... },
+   *     "errors": [{ "id": 2, "code": "FORBIDDEN", "message": "El registro 2 no pertenece al proveedor" }],
+   *     "message": "Solicitud 14 creada con 1 registros; los precios se aplicarán al aprobarse"
    *   },
-   *   "message": "Lista de precios actualizada correctamente",
-   *   "errors": []
+   *   "message": "Solicitud de actualización creada con errores",
+   *   "errors": [{ "id": 2, "code": "FORBIDDEN", "message": "El registro 2 no pertenece al proveedor" }]
    * }
    */
   public updatePrice = async (req: Request, res: Response) => {
@@ -286,12 +806,22 @@ export default class ControllerListaPrecios {
       return this.sendResponse(res, 400, false, null, "Datos inválidos", ["Se requiere un arreglo de datos"]);
     }
 
+    const proveedor = (req as any).user?.id;
+
     try {
 
-      const result = await this.updateListsFinish.updateListsPrecios(req.body.data);
+      const result = await this.updateListsFinish.updateListsPrecios(
+        req.body.data,
+        proveedor,
+        actorOf(req),
+        req.query.submit === "true"
+      );
 
+      const message = result.errors.length > 0
+        ? "Solicitud de actualización creada con errores"
+        : "Solicitud de actualización creada correctamente";
 
-      return this.sendResponse(res, 200, true, result, "Lista de precios actualizada correctamente");
+      return this.sendResponse(res, 200, true, result, message, result.errors);
     } catch (error: any) {
       console.error("Error en updatePrice:", error.message);
       return this.sendResponse(res, 500, false, null, "Error actualizando lista de precios", [error.message]);
@@ -301,32 +831,36 @@ export default class ControllerListaPrecios {
   /**
    * Controlador para gestionar la vigencia temporal de listas de precios.
    * 
-   * Maneja la petición HTTP POST para insertar o actualizar las fechas de
-   * inicio y fin de vigencia de una lista de precios. Utiliza operación UPSERT
-   * para actualizar si ya existe una validez para el proveedor.
+   * Maneja la petición HTTP POST para crear o modificar las vigencias de la
+   * lista de precios del proveedor. Un proveedor puede programar varias
+   * vigencias (por ejemplo, la del próximo trimestre), cada una ligada a una
+   * versión de su lista (`submission_id`), siempre que no se superpongan.
+   * Un item sin `id` crea una vigencia; con `id` modifica la existente. Las
+   * vigencias con `id` de otro proveedor o inexistente se reportan en `errors`.
    * 
    * @async
    * @public
    * @param {Request} req - Objeto de petición de Express
    * @param {Object} req.body - Cuerpo de la petición
-   * @param {Array} req.body.data - Array de validaciones de fecha
-   * @param {number} req.body.data[].id - ID de la validez
-   * @param {string} req.body.data[].fecha_inicio - Fecha de inicio (formato ISO 8601)
-   * @param {string} req.body.data[].fecha_fin - Fecha de fin (formato ISO 8601)
+   * @param {Array} req.body.data - Array de vigencias
+   * @param {number} [req.body.data[].id] - ID de la vigencia a modificar
+   * @param {string} req.body.data[].fecha_inicio - Fecha de inicio (YYYY-MM-DD)
+   * @param {string} req.body.data[].fecha_fin - Fecha de fin, inclusive (YYYY-MM-DD)
+   * @param {number} [req.body.data[].submission_id] - Versión de la lista (obligatoria en vigencias nuevas)
    * @param {Object} req.user - Usuario autenticado (añadido por authMiddleware)
    * @param {number} req.user.id - ID del proveedor autenticado
    * @param {Response} res - Objeto de respuesta de Express
    * 
-   * @returns {Promise<Response>} Respuesta HTTP con el resultado de la operación
+   * @returns {Promise<Response>} Respuesta HTTP con el resultado de la operación; 422 si hay superposiciones o datos inválidos
    * 
    * @example
    * // Request body:
    * {
    *   "data": [
    *     {
-   *       "id": 1,
-   *       "fecha_inicio": "2024-01-01",
-   *       "fecha_fin": "2024-12-31"
+   *       "fecha_inicio": "2026-04-01",
+   *       "fecha_fin": "2026-06-30",
+   *       "submission_id": 12
    *     }
    *   ]
    * }
@@ -336,15 +870,26 @@ export default class ControllerListaPrecios {
    *   "success": true,
    *   "data": [
    *     {
-   *       "id": 1,
-   *       "id_proveedor": 100,
-   *       "fecha_inicio": "2024-01-01",
-   *       "fecha_fin": "2024-12-31"
+   *       "id": 8,
+   *       "id_proveedor": "100",
+   *       "fecha_inicio": "2026-04-01",
+   *       "fecha_fin": "2026-06-30",
+   *       "submission_id": 12
    *     }
    *   ],
    *   "message": "Validez de fechas actualizada correctamente",
    *   "errors": []
    * }
+   * 
+   * // Response 422:
+   * {
+   *   "success": false,
+   *   "data": null,
+   *   "message": "Las vigencias no se pueden guardar",
+   *   "errors": [
+   *     { "index": 0, "field": "fecha_inicio", "code": "OVERLAP", "message": "La vigencia 2026-03-15 a 2026-06-30 se superpone con la vigencia 7 (2026-01-01 a 2026-03-31)" }
+   *   ]
+   * }
    */
   public dateValidity = async (req: Request, res: Response) => {
     if (!req.body?.data || !Array.isArray(req.body.data)) {
@@ -353,24 +898,76 @@ export default class ControllerListaPrecios {
     const proveedor = (req as any).user?.id;
 
     try {
-
-
       const dataWithProveedor = req.body.data.map((item: any) => ({
         ...item,
         idProveedor: proveedor,
       }));
-      const result = await this.dateValidityUsecase.updateValidityDate(dataWithProveedor);
-      return this.sendResponse(res, 200, true, result, "Validez de fechas actualizada correctamente");
+      const result = await this.dateValidityUsecase.updateValidityDate(dataWithProveedor, proveedor);
+      const message = result.errors.length > 0
+        ? "Validez de fechas actualizada con errores"
+        : "Validez de fechas actualizada correctamente";
+
+      return this.sendResponse(res, 200, true, result.items, message, result.errors);
     } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
       console.error("Error en dateValidity:", error.message);
       return this.sendResponse(res, 500, false, null, "Error actualizando validez de fechas", [error.message]);
     }
   };
 
+  /**
+   * Controlador para consultar las vigencias de la lista de precios.
+   * 
+   * Muestra, para una fecha (hoy por defecto), la vigencia actual con la
+   * versión de lista que aplica, las próximas y las vencidas. Los usuarios
+   * internos deben indicar el proveedor con `?proveedor=`. `estado` es el
+   * estado que el programador de vigencias ya aplicó (scheduled, active o
+   * expired); `status` se calcula para la fecha consultada.
+   * 
+   * @async
+   * @public
+   * @param {Request} req - Objeto de petición de Express
+   * @param {string} [req.query.date] - Fecha de referencia (YYYY-MM-DD)
+   * @param {string} [req.query.proveedor] - Proveedor a consultar (solo con "price-lists:read-all")
+   * @param {Response} res - Objeto de respuesta de Express
+   * 
+   * @returns {Promise<Response>} Vigencia actual, próximas y vencidas
+   * 
+   * @example
+   * // GET /date-validity?date=2026-05-10
+   * // Response 200:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "date": "2026-05-10",
+   *     "current": { "id": 8, "fecha_inicio": "2026-04-01", "fecha_fin": "2026-06-30", "submission_id": 12, "estado": "active", "submission_status": "approved", "item_count": 340, "status": "current", ... },
+   *     "upcoming": [{ "id": 9, "fecha_inicio": "2026-07-01", "fecha_fin": "2026-09-30", "submission_id": 15, "estado": "scheduled", "submission_status": "in_review", "status": "upcoming", ... }],
+   *     "expired": [{ "id": 7, "fecha_inicio": "2026-01-01", "fecha_fin": "2026-03-31", "submission_id": 9, "estado": "expired", "status": "expired", ... }]
+   *   },
+   *   "message": "Vigencias obtenidas correctamente",
+   *   "errors": []
+   * }
+   */
+  public getDateValidity = async (req: Request, res: Response) => {
+    try {
+      const proveedor = this.resolveProveedor(req);
+      if (!proveedor) {
+        return this.sendResponse(res, 400, false, null, "Proveedor no especificado");
+      }
 
-
-
-
+      const date = typeof req.query.date === "string" && req.query.date !== "" ? req.query.date.trim() : undefined;
+      const result = await this.dateValidityUsecase.getValidityOverview(proveedor, date);
+      return this.sendResponse(res, 200, true, result, "Vigencias obtenidas correctamente");
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
+      console.error("Error en getDateValidity:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error al obtener las vigencias", [error.message]);
+    }
+  };
 
   /**
    * Controlador para obtener plantilla de precios desde SAP.
@@ -378,13 +975,17 @@ export default class ControllerListaPrecios {
    * Maneja la petición HTTP GET para obtener información base de productos
    * desde el sistema SAP del proveedor autenticado. Esta plantilla sirve como
    * base para crear o actualizar listas de precios, incluyendo códigos de
-   * material, descripciones y precios efectivos.
+   * material, descripciones y precios efectivos. Con `?format=csv|xlsx` (o el
+   * encabezado `Accept`) la plantilla se descarga como archivo por streaming.
    * 
    * @async
    * @public
    * @param {Request} req - Objeto de petición de Express
    * @param {Object} req.user - Usuario autenticado (añadido por authMiddleware)
    * @param {number} req.user.id - ID del proveedor autenticado
+   * @param {string} [req.query.proveedor] - Proveedor a consultar (solo compradores y administradores)
+   * @param {string} [req.query.centro] - Centro de distribución (por defecto los permitidos al usuario o el principal)
+   * @param {string} [req.query.format] - Formato de respuesta: json (por defecto), csv o xlsx
    * @param {Response} res - Objeto de respuesta de Express
    * 
    * @returns {Promise<Response>} Respuesta HTTP con la plantilla de precios desde SAP
@@ -397,11 +998,13 @@ export default class ControllerListaPrecios {
    *     {
    *       "bk_material": "12345",
    *       "des_material": "Producto X",
+   *       "bk_centro": "1001",
    *       "atr_precio_efectiv": 120.00
    *     },
    *     {
    *       "bk_material": "67890",
    *       "des_material": "Producto Y",
+   *       "bk_centro": "1001",
    *       "atr_precio_efectiv": 200.00
    *     }
    *   ],
@@ -412,17 +1015,469 @@ export default class ControllerListaPrecios {
   public getPricingtemplate = async (req: Request, res: Response) => {
     try {
 
-      const proveedor = (req as any).user?.id;
+      const proveedor = this.resolveProveedor(req);
 
       if (!proveedor) {
         return this.sendResponse(res, 400, false, null, "Proveedor no especificado");
       }
 
-      const result = await this.pricingtemplate.getPricingTemplate(proveedor);
+      const format = this.responseFormat(req);
+      const centros = this.resolveCentros(req);
+
+      if (format !== "json") {
+        const rows = await this.pricingtemplate.streamPricingTemplate(proveedor, centros);
+        return this.sendExport(
+          res,
+          format,
+          rows,
+          PRICING_TEMPLATE_EXPORT_COLUMNS,
+          `plantilla-precios-${proveedor}`,
+          "Plantilla de precios"
+        );
+      }
+
+      const result = await this.pricingtemplate.getPricingTemplate(proveedor, centros);
       return this.sendResponse(res, 200, true, result, "Datos obtenidos correctamente");
     } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
       console.error("Error en getPricingtemplate:", error.message);
       return this.sendResponse(res, 500, false, null, "Error al obtener la plantilla de precios", [error.message]);
     }
   };
+
+  /**
+   * Controlador para consultar el historial de un registro de lista de precios.
+   * 
+   * Un proveedor solo puede consultar el historial de sus propios registros;
+   * compradores y administradores consultan el de cualquier proveedor.
+   * 
+   * @async
+   * @public
+   * @param {Request} req - Objeto de petición de Express
+   * @param {string} req.params.id - ID del registro en supplier_price_list
+   * @param {Object} req.user - Usuario autenticado (añadido por authMiddleware)
+   * @param {Response} res - Objeto de respuesta de Express
+   * 
+   * @returns {Promise<Response>} Respuesta HTTP con el historial del registro
+   * 
+   * @example
+   * // GET /api/price-lists/1/history
+   * // Response 200:
+   * {
+   *   "success": true,
+   *   "data": [
+   *     {
+   *       "id": 10,
+   *       "price_list_id": 1,
+   *       "action": "UPDATE",
+   *       "old_costo_unitario": "100.50",
+   *       "new_costo_unitario": "110.00",
+   *       "costo_original": "110.00",
+   *       "moneda": "COP",
+   *       "unidad": null,
+   *       "factor_unidad": "1",
+   *       "tasa_cambio": "1",
+   *       "changed_by": "supplier-user:7",
+   *       "changed_at": "2026-03-01T15:20:00.000Z",
+   *       "vigencia_inicio": "2026-01-01",
+   *       "vigencia_fin": "2026-12-31"
+   *     }
+   *   ],
+   *   "message": "Historial obtenido correctamente",
+   *   "errors": []
+   * }
+   */
+  public getPriceHistory = async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const proveedor = hasPermission(req, "price-lists:read-all") ? undefined : user?.id;
+
+      const result = await this.priceHistory.getHistory(
+        Number(req.params.id),
+        proveedor,
+        this.allowedCentros(req) ?? undefined
+      );
+      return this.sendResponse(res, 200, true, result, "Historial obtenido correctamente");
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
+      console.error("Error en getPriceHistory:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error al obtener el historial de precios", [error.message]);
+    }
+  };
+
+  /**
+   * Controlador para la carga masiva de listas de precios desde archivo.
+   * 
+   * Recibe un archivo `.csv` o `.xlsx` (campo `file` de multipart/form-data)
+   * con las columnas de PriceListItem. Cada fila pasa por las validaciones de
+   * PriceList; si alguna falla (o repite un COD_PROV) no se guarda nada y se
+   * responde con los errores ubicados por fila y columna. Como en /validate, la
+   * lista queda como solicitud (borrador, o enviada con `?submit=true`) que se
+   * aplica al aprobarse, como upsert por COD_PROV en modo `merge` o `replace`.
+   * 
+   * Con `?format=xlsx` (o `Accept` de XLSX) la respuesta es el reporte anotado
+   * como hoja de cálculo, con las celdas erróneas resaltadas; el encabezado
+   * `X-Upload-Error-Count` indica cuántos errores tiene.
+   * 
+   * @async
+   * @public
+   * @param {Request} req - Objeto de petición de Express
+   * @param {Express.Multer.File} req.file - Archivo cargado (añadido por priceListUpload)
+   * @param {string} [req.query.format] - `xlsx` para descargar el reporte anotado
+   * @param {string} [req.query.mode] - merge (por defecto) o replace
+   * @param {string} [req.query.submit] - "true" para enviar la solicitud a revisión de inmediato
+   * @param {Object} req.user - Usuario autenticado (añadido por authMiddleware)
+   * @param {Response} res - Objeto de respuesta de Express
+   * 
+   * @returns {Promise<Response | void>} Resultado de la carga o reporte XLSX
+   * 
+   * @example
+   * // Response 200 (JSON):
+   * {
+   *   "success": true,
+   *   "data": { "rows": 120, "submission": { "id": 15, "status": "draft", "source": "upload", "item_count": 120, ... } },
+   *   "message": "Lista de precios cargada como solicitud 15 (draft)",
+   *   "errors": []
+   * }
+   * 
+   * // Response 422 (JSON):
+   * {
+   *   "success": false,
+   *   "data": { "rows": 120, "inserted": 0 },
+   *   "message": "El archivo tiene errores; no se insertó ningún registro",
+   *   "errors": [{ "row": 7, "column": "DESC1", "code": "NOT_INTEGER", "message": "DESC1 debe ser un número entero" }]
+   * }
+   */
+  public uploadListPrecios = async (req: Request, res: Response) => {
+    const proveedor = (req as any).user?.id;
+
+    if (!req.file) {
+      return this.sendResponse(res, 400, false, null, "Archivo inválido", ["Se requiere un archivo en el campo 'file'"]);
+    }
+
+    try {
+      // Se resuelven antes de guardar para no fallar después de haber guardado
+      const format = this.responseFormat(req);
+      const mode = this.parseSaveMode(req.query.mode);
+
+      const rows = (await this.spreadsheet.read(req.file.buffer, req.file.originalname)).map(({ row, item }) => ({
+        row,
+        item: { ...item, PROVEEDOR: proveedor },
+      }));
+
+      const { submission, errors } = await this.uploadPriceList.uploadListPrecios(
+        rows,
+        String(proveedor),
+        mode,
+        actorOf(req),
+        req.query.submit === "true"
+      );
+
+      if (format === "xlsx") {
+        res.status(200);
+        res.setHeader("Content-Type", XLSX_MIME);
+        res.setHeader("Content-Disposition", 'attachment; filename="reporte-carga.xlsx"');
+        res.setHeader("X-Upload-Error-Count", String(errors.length));
+        await this.spreadsheet.writeReport(rows, errors, res);
+        return res.end();
+      }
+
+      if (!submission) {
+        return this.sendResponse(
+          res,
+          422,
+          false,
+          { rows: rows.length, inserted: 0 },
+          "El archivo tiene errores; no se insertó ningún registro",
+          errors
+        );
+      }
+
+      return this.sendResponse(
+        res,
+        200,
+        true,
+        { rows: rows.length, submission },
+        `Lista de precios cargada como solicitud ${submission.id} (${submission.status})`
+      );
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
+      console.error("Error en uploadListPrecios:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error cargando la lista de precios", [error.message]);
+    }
+  };
+
+  /**
+   * Controlador para listar solicitudes de listas de precios.
+   * 
+   * El proveedor ve solo las suyas; compradores y administradores ven las de
+   * todos (o las de `?proveedor=`). Con `?status=` se filtran por estado, por
+   * ejemplo `submitted` para la bandeja de revisión.
+   * 
+   * @async
+   * @public
+   * @param {Request} req - Objeto de petición de Express
+   * @param {string} [req.query.status] - Estado de las solicitudes
+   * @param {string} [req.query.proveedor] - Proveedor a consultar (solo con "price-lists:read-all")
+   * @param {Response} res - Objeto de respuesta de Express
+   * 
+   * @returns {Promise<Response>} Solicitudes, de la más reciente a la más antigua
+   */
+  public listSubmissions = async (req: Request, res: Response) => {
+    try {
+      const status = typeof req.query.status === "string" && req.query.status !== "" ? req.query.status : undefined;
+      const result = await this.submissions.list({
+        proveedor: this.resolveProveedor(req),
+        status,
+        centros: this.allowedCentros(req) ?? undefined,
+      });
+      return this.sendResponse(res, 200, true, result, "Solicitudes obtenidas correctamente");
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
+      console.error("Error en listSubmissions:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error al obtener las solicitudes", [error.message]);
+    }
+  };
+
+  /**
+   * Controlador para consultar una solicitud con sus items y su historial.
+   * 
+   * El historial (`events`) incluye cada cambio de estado con el actor, la
+   * fecha y el comentario del comprador; `review_comment` es la última nota.
+   * 
+   * @async
+   * @public
+   * @param {Request} req - Objeto de petición de Express
+   * @param {string} req.params.id - ID de la solicitud
+   * @param {Response} res - Objeto de respuesta de Express
+   * 
+   * @returns {Promise<Response>} Solicitud con items y eventos
+   * 
+   * @example
+   * // Response 200:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "id": 12,
+   *     "status": "changes_requested",
+   *     "review_comment": "El costo de A100 está 40% por encima del anterior",
+   *     "items": [{ "COD_PROV": "A100", "COSTO_UNIT": 1400, ... }],
+   *     "events": [
+   *       { "from_status": null, "to_status": "draft", "actor": "supplier:100", "comment": null, ... },
+   *       { "from_status": "draft", "to_status": "submitted", "actor": "supplier:100", "comment": null, ... },
+   *       { "from_status": "submitted", "to_status": "in_review", "actor": "buyer:3", "comment": null, ... },
+   *       { "from_status": "in_review", "to_status": "changes_requested", "actor": "buyer:3", "comment": "El costo de A100...", ... }
+   *     ]
+   *   },
+   *   "message": "Solicitud obtenida correctamente",
+   *   "errors": []
+   * }
+   */
+  public getSubmission = async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const proveedor = hasPermission(req, "price-lists:read-all") ? undefined : user?.id;
+
+      const result = await this.submissions.get(Number(req.params.id), proveedor, this.allowedCentros(req) ?? undefined);
+      return this.sendResponse(res, 200, true, result, "Solicitud obtenida correctamente");
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
+      console.error("Error en getSubmission:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error al obtener la solicitud", [error.message]);
+    }
+  };
+
+  /**
+   * Controlador para reemplazar los items de una solicitud.
+   * 
+   * Solo el proveedor dueño, con la solicitud en borrador o con cambios
+   * solicitados; en este último caso vuelve a borrador para reenviarla.
+   * 
+   * @async
+   * @public
+   * @param {Request} req - Objeto de petición de Express
+   * @param {string} req.params.id - ID de la solicitud
+   * @param {Array} req.body.data - Nuevos items (mismo formato que /validate)
+   * @param {string} [req.query.mode] - merge (por defecto) o replace
+   * @param {Response} res - Objeto de respuesta de Express
+   * 
+   * @returns {Promise<Response>} Solicitud actualizada; 409 si ya no se puede editar, 422 con errores de validación
+   */
+  public updateSubmission = async (req: Request, res: Response) => {
+    const proveedor = (req as any).user?.id;
+
+    if (!req.body?.data || !Array.isArray(req.body.data)) {
+      return this.sendResponse(res, 400, false, null, "Datos inválidos", ["Se requiere un arreglo de datos"]);
+    }
+
+    try {
+      const mode = this.parseSaveMode(req.query.mode);
+      const data = req.body.data.map((item: any) => ({ ...item, PROVEEDOR: proveedor }));
+
+      const result = await this.submissions.replaceItems(
+        Number(req.params.id),
+        data,
+        String(proveedor),
+        mode,
+        actorOf(req)
+      );
+      return this.sendResponse(res, 200, true, result, "Solicitud actualizada correctamente");
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
+      console.error("Error en updateSubmission:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error al actualizar la solicitud", [error.message]);
+    }
+  };
+
+  /**
+   * Crea el controlador que mueve una solicitud al estado indicado.
+   * 
+   * El envío (`submitted`) lo hace el proveedor dueño de la solicitud; el
+   * resto de estados los decide el comprador, con el comentario en
+   * `req.body.comment` (obligatorio al rechazar o pedir cambios). Al aprobar
+   * responde también cuántos precios se insertaron, actualizaron o eliminaron.
+   * 
+   * @public
+   * @param {SubmissionStatus} to - Estado destino
+   * @returns {Function} Controlador de Express
+   * 
+   * @example
+   * router.post("/submissions/:id/approve", ..., controller.transitionSubmission("approved"));
+   * 
+   * // Response 200 (approved):
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "submission": { "id": 12, "status": "approved", "reviewed_by": "buyer:3", ... },
+   *     "result": { "mode": "merge", "inserted": 2, "updated": 10, "unchanged": 88, "removed": 0, "deduplicated": 0, "items": [...] }
+   *   },
+   *   "message": "Solicitud 12 en estado approved",
+   *   "errors": []
+   * }
+   */
+  public transitionSubmission = (to: SubmissionStatus) => async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+
+      const result = await this.submissions.transition({
+        id: Number(req.params.id),
+        to,
+        actor: actorOf(req),
+        comment: req.body?.comment,
+        // El proveedor solo puede enviar sus propias solicitudes
+        proveedor: SubmissionWorkflow.isReviewerTransition(to) ? undefined : String(user?.id),
+        // y el comprador solo decide las de sus centros
+        centros: this.allowedCentros(req) ?? undefined,
+      });
+      return this.sendResponse(res, 200, true, result, `Solicitud ${result.submission.id} en estado ${to}`);
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
+      console.error("Error en transitionSubmission:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error al cambiar el estado de la solicitud", [error.message]);
+    }
+  };
+
+  /**
+   * Controlador para el reporte de variaciones de costo frente a SAP.
+   * 
+   * Devuelve solo los items cuyo costo neto (con DESC1 y DESC2 en cascada)
+   * se aleja del precio efectivo de SAP más que su umbral, del más atípico al
+   * menos. Sin `?proveedor=` incluye a todos los proveedores.
+   * 
+   * @async
+   * @public
+   * @param {Request} req - Objeto de petición de Express
+   * @param {string} [req.query.proveedor] - Proveedor a consultar
+   * @param {string} [req.query.centro] - Centro de distribución (por defecto los permitidos al usuario)
+   * @param {Response} res - Objeto de respuesta de Express
+   * 
+   * @returns {Promise<Response>} Resumen e items marcados
+   * 
+   * @example
+   * // Response 200:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "summary": { "total": 120, "flagged": 1, "withoutSapPrice": 2 },
+   *     "items": [
+   *       {
+   *         "id": 7,
+   *         "cod_prov": "A100",
+   *         "costo_unitario": "1200.00",
+   *         "descuento1": 10,
+   *         "descuento2": 0,
+   *         "precio_sap": "1000.00",
+   *         "categoria": "FERT",
+   *         "variance": {
+   *           "costo_neto": 1080, "precio_sap": 1000, "diferencia": 80, "variacion_pct": 8,
+   *           "umbral_pct": 5, "umbral_origen": "category", "excede": true
+   *         },
+   *         ...
+   *       }
+   *     ]
+   *   },
+   *   "message": "Reporte de variaciones generado correctamente",
+   *   "errors": []
+   * }
+   */
+  public getVarianceReport = async (req: Request, res: Response) => {
+    try {
+      const result = await this.varianceReport.getReport(this.resolveProveedor(req), this.resolveCentros(req));
+      return this.sendResponse(res, 200, true, result, "Reporte de variaciones generado correctamente");
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        return this.sendResponse(res, error.statusCode, false, null, error.message, error.errors);
+      }
+      console.error("Error en getVarianceReport:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error al generar el reporte de variaciones", [error.message]);
+    }
+  };
+
+  /**
+   * Controlador para consultar los centros de distribución.
+   * 
+   * Devuelve los centros que existen en SAP y que el usuario puede consultar;
+   * son los valores válidos de `CENTRO` en las listas y de `?centro=` en las
+   * consultas.
+   * 
+   * @async
+   * @public
+   * @param {Request} req - Objeto de petición de Express
+   * @param {Response} res - Objeto de respuesta de Express
+   * 
+   * @returns {Promise<Response>} Códigos de centro
+   * 
+   * @example
+   * // GET /centros
+   * // Response 200:
+   * {
+   *   "success": true,
+   *   "data": ["1001", "1002", "2001"],
+   *   "message": "Centros obtenidos correctamente",
+   *   "errors": []
+   * }
+   */
+  public getCentros = async (req: Request, res: Response) => {
+    try {
+      const result = await this.centros.getCentros(this.allowedCentros(req));
+      return this.sendResponse(res, 200, true, result, "Centros obtenidos correctamente");
+    } catch (error: any) {
+      console.error("Error en getCentros:", error.message);
+      return this.sendResponse(res, 500, false, null, "Error al obtener los centros de distribución", [error.message]);
+    }
+  };
 }
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import PriceListSpreadsheet from "../priceListSpreadsheet";
+
+const read = (content: string, filename = "lista.csv") =>
+  new PriceListSpreadsheet().read(Buffer.from(content, "utf8"), filename);
+
+describe("PriceListSpreadsheet.read", () => {
+  describe("CSV separado por ; (coma decimal)", () => {
+    it("lee el punto como separador de miles aunque no haya decimales", async () => {
+      const [{ item }] = await read("COD_PROV;COSTO_UNIT\nA1;1.500\n");
+      assert.equal(item.COSTO_UNIT, "1500");
+    });
+
+    it("lee miles con punto y decimales con coma", async () => {
+      const [{ item }] = await read("COD_PROV;COSTO_UNIT\nA1;1.500,50\n");
+      assert.equal(item.COSTO_UNIT, "1500.50");
+    });
+
+    it("lee la coma decimal sin separador de miles", async () => {
+      const [{ item }] = await read("COD_PROV;DESC1\nA1;15,5\n");
+      assert.equal(item.DESC1, "15.5");
+    });
+
+    it("no altera los códigos", async () => {
+      const [{ item }] = await read("COD_PROV;COD_SAP;COSTO_UNIT\n00.12;000123;1.000\n");
+      assert.equal(item.COD_PROV, "00.12");
+      assert.equal(item.COD_SAP, "000123");
+    });
+  });
+
+  describe("CSV separado por ,", () => {
+    it("usa el punto como separador decimal", async () => {
+      const [{ item }] = await read("COD_PROV,COSTO_UNIT\nA1,1.500\n");
+      assert.equal(item.COSTO_UNIT, "1.500");
+    });
+  });
+
+  it("conserva el número de fila de la hoja y omite las filas vacías", async () => {
+    const rows = await read("COD_PROV;COSTO_UNIT\nA1;10\n;\nA2;20\n");
+    assert.deepEqual(
+      rows.map(({ row, item }) => [row, item.COD_PROV]),
+      [
+        [2, "A1"],
+        [4, "A2"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,182 @@
+import ExcelJS from "exceljs";
+import { once } from "events";
+import { Readable, Writable } from "stream";
+
+/**
+ * Columna de una exportación: campo de la fila, encabezado en español y tipo
+ */
+export interface ExportColumn {
+  key: string;
+  header: string;
+  type: "text" | "number" | "date";
+  width?: number;
+}
+
+/**
+ * Columnas de la exportación de listas de precios (validate-products)
+ * @constant {ExportColumn[]}
+ */
+export const PRICE_LIST_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "id", header: "ID", type: "number", width: 10 },
+  { key: "cod_prov", header: "Código proveedor", type: "text", width: 16 },
+  { key: "cod_sap", header: "Código SAP", type: "text", width: 12 },
+  { key: "centro", header: "Centro", type: "text", width: 10 },
+  { key: "descripcion", header: "Descripción", type: "text", width: 40 },
+  { key: "costo_unitario", header: "Costo unitario (COP)", type: "number", width: 18 },
+  { key: "costo_original", header: "Costo cotizado", type: "number", width: 16 },
+  { key: "moneda", header: "Moneda", type: "text", width: 10 },
+  { key: "unidad", header: "Unidad", type: "text", width: 10 },
+  { key: "factor_unidad", header: "Factor unidad", type: "number", width: 14 },
+  { key: "tasa_cambio", header: "Tasa de cambio", type: "number", width: 16 },
+  { key: "descuento1", header: "Descuento 1 (%)", type: "number", width: 15 },
+  { key: "descuento2", header: "Descuento 2 (%)", type: "number", width: 15 },
+  { key: "proveedor_id", header: "Proveedor", type: "text", width: 12 },
+  { key: "fecha_actualizacion_precio", header: "Fecha actualización precio", type: "date", width: 22 },
+  { key: "tipo_impuesto", header: "Tipo de impuesto", type: "text", width: 16 },
+  { key: "precio_bruto", header: "Precio bruto", type: "number", width: 16 },
+  { key: "costo_descuentos", header: "Costo con descuentos", type: "number", width: 18 },
+  { key: "tasa_impuesto", header: "Impuesto (%)", type: "number", width: 12 },
+  { key: "impuesto", header: "Impuesto", type: "number", width: 14 },
+  { key: "precio_neto", header: "Precio neto", type: "number", width: 16 },
+  { key: "precio_sap", header: "Precio efectivo SAP", type: "number", width: 18 },
+];
+
+/**
+ * Columnas de la exportación de la plantilla de precios (get-pricing-template)
+ * @constant {ExportColumn[]}
+ */
+export const PRICING_TEMPLATE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "bk_material", header: "Código material", type: "text", width: 16 },
+  { key: "des_material", header: "Descripción", type: "text", width: 40 },
+  { key: "bk_centro", header: "Centro", type: "text", width: 10 },
+  { key: "atr_precio_efectiv", header: "Precio efectivo", type: "number", width: 16 },
+];
+
+/**
+ * Formato numérico de las celdas XLSX
+ * @constant {string}
+ */
+const NUMBER_FORMAT = "#,##0.00";
+
+/**
+ * Exportación de listas de precios a CSV y XLSX por streaming.
+ *
+ * Escribe las filas a medida que llegan del stream de la base de datos,
+ * respetando la contrapresión de la respuesta, así que el archivo nunca se
+ * arma completo en memoria. Los valores numéricos (que Postgres entrega como
+ * texto en columnas NUMERIC) se escriben como números.
+ *
+ * @class PriceListExport
+ * @module PriceList/Interfaces/Files
+ */
+export default class PriceListExport {
+  /**
+   * Escribe las filas como CSV (UTF-8 con BOM para que Excel respete las tildes).
+   *
+   * @async
+   * @public
+   * @param {Readable} rows - Stream de filas
+   * @param {ExportColumn[]} columns - Columnas a exportar
+   * @param {Writable} output - Destino (por ejemplo, la respuesta HTTP)
+   * @returns {Promise<void>}
+   */
+  public async writeCsv(rows: Readable, columns: ExportColumn[], output: Writable): Promise<void> {
+    await this.write(output, "\uFEFF" + columns.map((column) => this.csvField(column.header)).join(",") + "\r\n");
+
+    for await (const row of rows) {
+      const line = columns.map((column) => {
+        const value = this.typed(row[column.key], column);
+        if (value === null) return "";
+        if (value instanceof Date) return value.toISOString();
+        return this.csvField(String(value));
+      });
+      await this.write(output, line.join(",") + "\r\n");
+    }
+
+    output.end();
+  }
+
+  /**
+   * Escribe las filas como XLSX con el escritor por streaming de ExcelJS.
+   *
+   * @async
+   * @public
+   * @param {Readable} rows - Stream de filas
+   * @param {ExportColumn[]} columns - Columnas a exportar
+   * @param {Writable} output - Destino (por ejemplo, la respuesta HTTP)
+   * @param {string} sheetName - Nombre de la hoja
+   * @returns {Promise<void>}
+   */
+  public async writeXlsx(rows: Readable, columns: ExportColumn[], output: Writable, sheetName: string): Promise<void> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+    const sheet = workbook.addWorksheet(sheetName, { views: [{ state: "frozen", ySplit: 1 }] });
+
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      key: column.key,
+      width: column.width ?? 14,
+      style:
+        column.type === "number"
+          ? { numFmt: NUMBER_FORMAT }
+          : column.type === "date"
+            ? { numFmt: "yyyy-mm-dd hh:mm" }
+            : {},
+    }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).commit();
+
+    for await (const row of rows) {
+      sheet.addRow(columns.map((column) => this.typed(row[column.key], column))).commit();
+    }
+
+    sheet.commit();
+    await workbook.commit();
+  }
+
+  /**
+   * Convierte un valor de la base de datos al tipo de la columna.
+   *
+   * @private
+   * @param {any} value - Valor leído de la fila
+   * @param {ExportColumn} column - Columna de destino
+   * @returns {string | number | Date | null} Valor tipado
+   */
+  private typed(value: any, column: ExportColumn): string | number | Date | null {
+    if (value === null || value === undefined || value === "") return null;
+
+    if (column.type === "number") {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : null;
+    }
+    if (column.type === "date") {
+      const date = value instanceof Date ? value : new Date(value);
+      return Number.isNaN(date.getTime()) ? null : date;
+    }
+    return String(value);
+  }
+
+  /**
+   * Escapa un campo CSV cuando contiene separadores, comillas o saltos de línea.
+   *
+   * @private
+   * @param {string} value - Valor del campo
+   * @returns {string} Campo listo para el CSV
+   */
+  private csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  /**
+   * Escribe en el destino esperando el evento `drain` cuando su buffer está lleno.
+   *
+   * @private
+   * @param {Writable} output - Destino
+   * @param {string} chunk - Texto a escribir
+   * @returns {Promise<void>}
+   */
+  private async write(output: Writable, chunk: string): Promise<void> {
+    if (!output.write(chunk)) {
+      await once(output, "drain");
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import ExcelJS from "exceljs";
+import { Readable, Writable } from "stream";
+import {
+  PriceListItem,
+  PriceListUploadError,
+  PriceListUploadRow,
+} from "../../../../shared/types/priceList";
+import { AppError } from "../../../../shared/errors/AppError";
+
+/**
+ * Columnas que se leen del archivo, con los mismos nombres de PriceListItem
+ * @constant {string[]}
+ */
+export const UPLOAD_COLUMNS = [
+  "COD_PROV",
+  "COD_SAP",
+  "DESCRIP",
+  "COSTO_UNIT",
+  "DESC1",
+  "DESC2",
+  "CENTRO",
+  "MONEDA",
+  "UNIDAD",
+  "FACTOR_UNIDAD",
+] as const;
+
+type UploadColumn = (typeof UPLOAD_COLUMNS)[number];
+
+/**
+ * Máximo de filas de datos aceptadas por archivo
+ * @constant {number}
+ */
+const MAX_UPLOAD_ROWS = Number(process.env.PRICE_LIST_UPLOAD_MAX_ROWS) || 5000;
+
+/**
+ * Relleno de las celdas con error en el reporte
+ * @constant {ExcelJS.Fill}
+ */
+const ERROR_FILL: ExcelJS.Fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFFFC7CE" } };
+
+/**
+ * Lectura y escritura de listas de precios en hojas de cálculo (CSV y XLSX).
+ *
+ * Convierte un archivo cargado por el proveedor en filas de PriceListItem
+ * conservando el número de fila original, y genera el reporte anotado con los
+ * errores de validación de cada fila.
+ *
+ * @class PriceListSpreadsheet
+ * @module PriceList/Interfaces/Files
+ */
+export default class PriceListSpreadsheet {
+  /**
+   * Lee un archivo CSV o XLSX con las columnas de PriceListItem.
+   *
+   * La primera fila debe contener los encabezados (sin importar mayúsculas);
+   * las columnas desconocidas se ignoran y las filas vacías se omiten. En CSV
+   * se detecta el separador (`,` o `;`) y los valores se leen como texto para
+   * no perder ceros a la izquierda en los códigos; con `;` (configuración
+   * regional en español) los números usan coma decimal: `1.500,50`.
+   *
+   * @async
+   * @public
+   * @param {Buffer} buffer - Contenido del archivo
+   * @param {string} filename - Nombre original del archivo (define el formato)
+   * @returns {Promise<PriceListUploadRow[]>} Filas leídas con su número de fila en la hoja
+   *
+   * @throws {AppError} 400 si el formato no es soportado, falta COD_PROV o el archivo no tiene datos
+   *
+   * @example
+   * const filas = await new PriceListSpreadsheet().read(req.file.buffer, req.file.originalname);
+   * // [{ row: 2, item: { COD_PROV: 'A100', COSTO_UNIT: 1500, ... } }, ...]
+   */
+  public async read(buffer: Buffer, filename: string): Promise<PriceListUploadRow[]> {
+    const { worksheet, decimalComma } = await this.loadWorksheet(buffer, filename);
+    if (!worksheet) {
+      throw new AppError("El archivo no contiene hojas", 400);
+    }
+
+    const columns = new Map<number, UploadColumn>();
+    worksheet.getRow(1).eachCell((cell, colNumber) => {
+      const header = String(this.cellValue(cell.value) ?? "").replace(/^\uFEFF/, "").trim().toUpperCase();
+      if ((UPLOAD_COLUMNS as readonly string[]).includes(header)) {
+        columns.set(colNumber, header as UploadColumn);
+      }
+    });
+
+    if (![...columns.values()].includes("COD_PROV")) {
+      throw new AppError("El archivo debe tener la columna COD_PROV en la primera fila", 400, [
+        `Columnas esperadas: ${UPLOAD_COLUMNS.join(", ")}`,
+      ]);
+    }
+
+    const rows: PriceListUploadRow[] = [];
+    worksheet.eachRow((sheetRow, rowNumber) => {
+      if (rowNumber === 1) return;
+
+      const item: Record<string, string | number | null> = {};
+      let empty = true;
+      for (const [colNumber, column] of columns) {
+        const value = this.cellValue(sheetRow.getCell(colNumber).value);
+        const normalized = typeof value === "string" && value.trim() === "" ? null : value;
+        if (normalized !== null) empty = false;
+        item[column] = normalized;
+      }
+
+      if (!empty) {
+        rows.push({ row: rowNumber, item: this.toItem(item, decimalComma) });
+      }
+    });
+
+    if (rows.length === 0) {
+      throw new AppError("El archivo no tiene filas de datos", 400);
+    }
+    if (rows.length > MAX_UPLOAD_ROWS) {
+      throw new AppError(`El archivo excede el máximo de ${MAX_UPLOAD_ROWS} filas`, 400);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Escribe el reporte de carga como XLSX anotado.
+   *
+   * Repite las filas leídas con su número de fila original, marca en rojo las
+   * celdas con error (con el mensaje como nota) y agrega las columnas ESTADO y
+   * ERRORES.
+   *
+   * @async
+   * @public
+   * @param {PriceListUploadRow[]} rows - Filas leídas del archivo
+   * @param {PriceListUploadError[]} errors - Errores de validación por fila
+   * @param {Writable} output - Destino del archivo (por ejemplo, la respuesta HTTP)
+   * @returns {Promise<void>}
+   */
+  public async writeReport(rows: PriceListUploadRow[], errors: PriceListUploadError[], output: Writable): Promise<void> {
+    const errorsByRow = new Map<number, PriceListUploadError[]>();
+    for (const error of errors) {
+      errorsByRow.set(error.row, [...(errorsByRow.get(error.row) ?? []), error]);
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Reporte");
+    sheet.columns = [
+      { header: "FILA", key: "FILA", width: 8 },
+      ...UPLOAD_COLUMNS.map((column) => ({ header: column, key: column, width: column === "DESCRIP" ? 40 : 14 })),
+      { header: "ESTADO", key: "ESTADO", width: 12 },
+      { header: "ERRORES", key: "ERRORES", width: 60 },
+    ];
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+
+    for (const { row, item } of rows) {
+      const rowErrors = errorsByRow.get(row) ?? [];
+      const sheetRow = sheet.addRow({
+        FILA: row,
+        ...Object.fromEntries(UPLOAD_COLUMNS.map((column) => [column, item[column] ?? null])),
+        ESTADO: rowErrors.length > 0 ? "ERROR" : "OK",
+        ERRORES: rowErrors.map((error) => error.message).join("; "),
+      });
+
+      for (const error of rowErrors) {
+        const column = UPLOAD_COLUMNS.find((name) => name === error.column);
+        const cell = column ? sheetRow.getCell(column) : sheetRow.getCell("FILA");
+        cell.fill = ERROR_FILL;
+        cell.note = error.message;
+      }
+    }
+
+    await workbook.xlsx.write(output);
+  }
+
+  /**
+   * Carga la primera hoja del archivo según su extensión.
+   *
+   * @private
+   * @param {Buffer} buffer - Contenido del archivo
+   * @param {string} filename - Nombre original del archivo
+   * @returns {Promise<Object>} Hoja con los datos e indicador de coma decimal (CSV separado por `;`)
+   */
+  private async loadWorksheet(
+    buffer: Buffer,
+    filename: string
+  ): Promise<{ worksheet: ExcelJS.Worksheet | undefined; decimalComma: boolean }> {
+    const extension = filename.toLowerCase().split(".").pop();
+    const workbook = new ExcelJS.Workbook();
+
+    try {
+      if (extension === "xlsx") {
+        await workbook.xlsx.load(buffer as any);
+        return { worksheet: workbook.worksheets[0], decimalComma: false };
+      }
+
+      if (extension === "csv") {
+        const firstLine = buffer.toString("utf8", 0, Math.min(buffer.length, 4096)).split(/\r?\n/)[0];
+        const delimiter = firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+        const worksheet = await workbook.csv.read(Readable.from(buffer), {
+          map: (value: any) => value,
+          parserOptions: { delimiter },
+        });
+        return { worksheet, decimalComma: delimiter === ";" };
+      }
+    } catch (error: any) {
+      throw new AppError("No fue posible leer el archivo", 400, [error.message]);
+    }
+
+    throw new AppError("Formato de archivo no soportado (use .csv o .xlsx)", 400);
+  }
+
+  /**
+   * Convierte el valor de una celda a texto o número.
+   *
+   * Resuelve fórmulas (su resultado), texto enriquecido e hipervínculos.
+   *
+   * @private
+   * @param {ExcelJS.CellValue} value - Valor de la celda
+   * @returns {string | number | null} Valor plano
+   */
+  private cellValue(value: ExcelJS.CellValue): string | number | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === "number" || typeof value === "string") return value;
+    if (typeof value === "boolean") return String(value);
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if ("result" in value) return this.cellValue(value.result as ExcelJS.CellValue);
+    if ("richText" in value) return value.richText.map((part) => part.text).join("");
+    if ("text" in value) return String(value.text);
+    if ("error" in value) return String(value.error);
+    return String(value);
+  }
+
+  /**
+   * Arma el PriceListItem de una fila; los códigos y la descripción siempre como texto.
+   *
+   * @private
+   * @param {Record<string, string | number | null>} values - Valores por columna
+   * @param {boolean} decimalComma - Si los números usan coma decimal (`1.500,50`); el punto
+   *   es siempre separador de miles, así que `1.500` es mil quinientos
+   * @returns {PriceListItem} Item listo para validar con PriceList
+   */
+  private toItem(values: Record<string, string | number | null>, decimalComma: boolean): PriceListItem {
+    const text = (value: string | number | null | undefined) =>
+      value === null || value === undefined ? null : String(value).trim();
+    const number = (value: string | number | null | undefined) =>
+      decimalComma && typeof value === "string"
+        ? value.trim().replace(/\./g, "").replace(",", ".")
+        : value ?? null;
+
+    return {
+      COD_PROV: text(values.COD_PROV) ?? "",
+      COD_SAP: text(values.COD_SAP),
+      DESCRIP: text(values.DESCRIP),
+      COSTO_UNIT: number(values.COSTO_UNIT),
+      DESC1: number(values.DESC1),
+      DESC2: number(values.DESC2),
+      CENTRO: text(values.CENTRO),
+      MONEDA: text(values.MONEDA),
+      UNIDAD: text(values.UNIDAD),
+      FACTOR_UNIDAD: number(values.FACTOR_UNIDAD),
+    };
+  }
+}
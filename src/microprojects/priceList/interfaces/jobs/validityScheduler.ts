@@ -0,0 +1,54 @@
+import PriceListScheduler from "../../usecases/priceListScheduler";
+
+/**
+ * Minutos entre corridas del programador de vigencias
+ * @constant {number}
+ */
+const INTERVAL_MINUTES = Number(process.env.PRICE_LIST_SCHEDULER_INTERVAL_MINUTES) || 5;
+
+/**
+ * Si el programador corre en esta instancia (se desactiva con PRICE_LIST_SCHEDULER_ENABLED=false)
+ * @constant {boolean}
+ */
+const ENABLED = process.env.PRICE_LIST_SCHEDULER_ENABLED !== "false";
+
+/**
+ * Inicia el programador de vigencias dentro del proceso.
+ *
+ * Corre una vez al iniciar y luego cada INTERVAL_MINUTES. Si una corrida
+ * sigue en curso cuando toca la siguiente, esta se omite. Puede iniciarse en
+ * todas las instancias: el advisory lock del caso de uso evita que dos corran
+ * a la vez. El timer no mantiene vivo el proceso.
+ *
+ * @module PriceList/Interfaces/Jobs
+ * @returns {NodeJS.Timeout | null} Timer del programador, o null si está desactivado
+ */
+export const startValidityScheduler = (): NodeJS.Timeout | null => {
+  if (!ENABLED) return null;
+
+  const scheduler = new PriceListScheduler();
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const summary = await scheduler.run();
+      if (summary && (summary.activated.length || summary.expired.length || summary.skipped.length)) {
+        console.log(
+          `Programador de vigencias ${summary.date}: ${summary.activated.length} activadas, ` +
+            `${summary.expired.length} vencidas, ${summary.skipped.length} omitidas`
+        );
+      }
+    } catch (error: any) {
+      console.error("Error en el programador de vigencias:", error.message);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+
+/**
+ * Tamaño máximo del archivo de carga masiva, en MB
+ * @constant {number}
+ */
+const MAX_UPLOAD_MB = Number(process.env.PRICE_LIST_UPLOAD_MAX_MB) || 5;
+
+/**
+ * Extensiones aceptadas para la carga masiva
+ * @constant {RegExp}
+ */
+const ALLOWED_EXTENSIONS = /\.(csv|xlsx)$/i;
+
+/**
+ * Configuración de multer: el archivo se mantiene en memoria, ya que se
+ * procesa completo dentro de la misma petición y no se guarda en disco.
+ */
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    if (!ALLOWED_EXTENSIONS.test(file.originalname)) {
+      return callback(new Error("Solo se aceptan archivos .csv o .xlsx"));
+    }
+    callback(null, true);
+  },
+});
+
+/**
+ * Middleware que recibe el archivo de lista de precios en el campo `file`
+ * de una petición multipart/form-data y lo deja en `req.file`.
+ *
+ * Los errores de carga (tamaño, tipo de archivo, campos inesperados) se
+ * responden con 400 en el formato estándar del microproyecto.
+ *
+ * @module PriceList/Interfaces/Middlewares
+ */
+export const priceListUpload = (req: Request, res: Response, next: NextFunction) => {
+  upload.single("file")(req, res, (error: any) => {
+    if (!error) return next();
+
+    const message =
+      error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE"
+        ? `El archivo excede el máximo de ${MAX_UPLOAD_MB} MB`
+        : error.message;
+
+    return res.status(400).json({ success: false, data: null, message: "Archivo inválido", errors: [message] });
+  });
+};
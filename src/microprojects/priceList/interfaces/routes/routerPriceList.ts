@@ -3,10 +3,17 @@
  * 
  * Este módulo define todas las rutas HTTP disponibles para el microproyecto
  * de listas de precios, incluyendo operaciones de inserción, consulta,
- * actualización y gestión de validez temporal.
+ * actualización, gestión de validez temporal y el flujo de aprobación de
+ * solicitudes (borrador, enviada, en revisión, aprobada, rechazada o con
+ * cambios solicitados).
  * 
- * Todas las rutas están protegidas por el middleware de autenticación,
- * asegurando que solo proveedores autenticados puedan acceder.
+ * Todas las rutas están protegidas por el middleware de autenticación y por
+ * permisos: los proveedores escriben y consultan sus propias listas, mientras
+ * que compradores y administradores pueden consultar las de todos.
+ * 
+ * Además del Bearer JWT, authMiddleware acepta API keys de proveedor
+ * (`X-Api-Key` o `Authorization: ApiKey <llave>`) para integraciones ERP;
+ * los scopes de la llave se evalúan como permisos.
  * 
  * @module PriceList/Interfaces/Routes
  */
@@ -14,6 +21,8 @@
 import { Router } from "express";
 import ControllerListaPrecios from "../controllers/controllerPriceList";
 import { authMiddleware } from "../../../../shared/auth/authMiddleware"
+import { requirePermission } from "../../../../shared/auth/authorize";
+import { priceListUpload } from "../middlewares/priceListUpload";
 
 /**
  * Router de Express para listas de precios
@@ -29,41 +38,96 @@ const controller = new ControllerListaPrecios();
 
 /**
  * @route POST /validate
- * @description Inserta una nueva lista de precios para el proveedor autenticado
+ * @description Registra la lista de precios del proveedor autenticado como solicitud; al aprobarse se aplica por proveedor, centro y COD_PROV
  * @access Privado - Requiere autenticación de proveedor
  * @middleware authMiddleware - Valida el token JWT del proveedor
+ * @middleware requirePermission - Requiere "price-lists:write"
  * 
  * @body {Object} req.body
  * @body {Array} req.body.data - Array de items de lista de precios a insertar
  * @body {string} req.body.data[].COD_PROV - Código del proveedor
  * @body {string} req.body.data[].COD_SAP - Código SAP del producto
- * @body {number} req.body.data[].COSTO_UNIT - Costo unitario
+ * @body {number} req.body.data[].COSTO_UNIT - Costo unitario, en MONEDA por UNIDAD
  * @body {number} req.body.data[].DESC1 - Primer descuento
  * @body {number} req.body.data[].DESC2 - Segundo descuento
+ * @body {string} [req.body.data[].CENTRO] - Centro de distribución (ver GET /centros; por defecto el principal)
+ * @body {string} [req.body.data[].MONEDA] - Moneda ISO 4217 de la cotización (por defecto COP; debe tener tasa de cambio)
+ * @body {string} [req.body.data[].UNIDAD] - Unidad de la cotización si no es la unidad base de SAP (ej. CJ)
+ * @body {number} [req.body.data[].FACTOR_UNIDAD] - Unidades base por UNIDAD (obligatorio con UNIDAD; por defecto 1)
+ * @query {string} [dryRun] - "true" para validar sin guardar: responde la vista previa (nuevos, modificados, sin cambios, eliminados y errores)
+ * @query {string} [mode] - merge (por defecto: agrega y actualiza) o replace (además elimina los COD_PROV y centros que no vienen)
+ * @query {string} [submit] - "true" para enviarla a revisión de inmediato; si no, queda en borrador
  * 
- * @returns {Object} 200 - Lista de precios insertada exitosamente
- * @returns {Object} 400 - Datos inválidos
+ * @returns {Object} 200 - Solicitud creada con sus items (o vista previa con dryRun)
+ * @returns {Object} 400 - Datos inválidos o modo no soportado
+ * @returns {Object} 422 - Items con errores de validación (todos los errores, no se inserta nada)
  * @returns {Object} 500 - Error interno del servidor
  */
-router.post("/validate", authMiddleware, controller.insertListPrecios);
+router.post("/validate", authMiddleware, requirePermission("price-lists:write"), controller.insertListPrecios);
+
+/**
+ * @route POST /upload
+ * @description Carga masiva de la lista de precios del proveedor desde un archivo CSV o XLSX
+ * @access Privado - Requiere autenticación de proveedor
+ * @middleware authMiddleware - Valida el token JWT o la API key del proveedor
+ * @middleware requirePermission - Requiere "price-lists:write"
+ * @middleware priceListUpload - Recibe el archivo (multipart/form-data, campo `file`)
+ * 
+ * @body {File} file - Archivo .csv o .xlsx con columnas COD_PROV, COD_SAP, DESCRIP, COSTO_UNIT, DESC1, DESC2 y opcionales CENTRO, MONEDA, UNIDAD y FACTOR_UNIDAD
+ * @query {string} [format] - `xlsx` para descargar el reporte anotado en lugar de JSON
+ * @query {string} [mode] - merge (por defecto) o replace, como en /validate
+ * @query {string} [submit] - "true" para enviar la solicitud a revisión de inmediato
+ * 
+ * @returns {Object} 200 - Filas del archivo y la solicitud creada (o reporte XLSX)
+ * @returns {Object} 400 - Archivo inválido o modo no soportado
+ * @returns {Object} 422 - Filas con errores de validación (por fila, columna y código)
+ * @returns {Object} 500 - Error cargando la lista de precios
+ */
+router.post(
+  "/upload",
+  authMiddleware,
+  requirePermission("price-lists:write"),
+  priceListUpload,
+  controller.uploadListPrecios
+);
 
 /**
  * @route GET /validate-products
  * @description Obtiene las listas de precios del proveedor autenticado con información combinada de SAP
- * @access Privado - Requiere autenticación de proveedor
- * @middleware authMiddleware - Valida el token JWT del proveedor
+ * @access Privado - Proveedor (su lista) o comprador/administrador (cualquier proveedor)
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:read"
  * 
- * @returns {Object} 200 - Array de listas de precios con información completa
- * @returns {Object} 400 - Proveedor no especificado
+ * @query {string} [proveedor] - Proveedor a consultar (solo con "price-lists:read-all")
+ * @query {string} [asOf] - Fecha de corte (YYYY-MM-DD o ISO 8601): precios vigentes en esa fecha según el historial
+ * @query {string} [centro] - Centro de distribución; sin él, los centros permitidos al usuario
+ * @query {string} [format] - json (por defecto), csv o xlsx; también se negocia con el encabezado Accept
+ * @query {string} [cod_prov] - COD_PROV que empieza por el texto
+ * @query {string} [cod_sap] - Código SAP que empieza por el texto
+ * @query {string} [q] - Texto contenido en la descripción
+ * @query {string} [tipo_impuesto] - Tipo de impuesto
+ * @query {string} [updatedFrom] - Fecha de actualización desde (YYYY-MM-DD o ISO 8601)
+ * @query {string} [updatedTo] - Fecha de actualización hasta (YYYY-MM-DD incluye todo el día)
+ * @query {number} [minPrice] - Costo unitario mínimo
+ * @query {number} [maxPrice] - Costo unitario máximo
+ * @query {string} [sort] - Columna de orden (por defecto fecha_actualizacion_precio)
+ * @query {string} [order] - asc o desc (por defecto)
+ * @query {number} [page] - Página, desde 1 (solo JSON)
+ * @query {number} [pageSize] - Registros por página (por defecto 50, máximo 500; solo JSON)
+ * 
+ * @returns {Object} 200 - `items` de la página, con su variación frente a SAP en `variance`, y `pagination` con el total y la página siguiente (o archivo CSV/XLSX con todos los registros filtrados)
+ * @returns {Object} 400 - Proveedor no especificado, asOf, filtros, orden o página inválidos, o formato no soportado
+ * @returns {Object} 403 - Centro no permitido al usuario
  * @returns {Object} 500 - Error al obtener la lista de precios
  */
-router.get("/validate-products", authMiddleware, controller.seeListPrice);
+router.get("/validate-products", authMiddleware, requirePermission("price-lists:read"), controller.seeListPrice);
 
 /**
  * @route POST /update-prices
- * @description Actualiza precios existentes en listas del proveedor autenticado
+ * @description Solicita la actualización de precios vigentes del proveedor autenticado (se aplica al aprobarse)
  * @access Privado - Requiere autenticación de proveedor
  * @middleware authMiddleware - Valida el token JWT del proveedor
+ * @middleware requirePermission - Requiere "price-lists:write"
  * 
  * @body {Object} req.body
  * @body {Array} req.body.data - Array de items a actualizar
@@ -71,41 +135,271 @@ router.get("/validate-products", authMiddleware, controller.seeListPrice);
  * @body {number} [req.body.data[].costo_unitario] - Nuevo costo unitario (opcional)
  * @body {number} [req.body.data[].descuento1] - Nuevo primer descuento (opcional)
  * @body {number} [req.body.data[].descuento2] - Nuevo segundo descuento (opcional)
+ * @query {string} [submit] - "true" para enviar la solicitud a revisión de inmediato
  * 
- * @returns {Object} 200 - Lista de precios actualizada exitosamente
+ * @returns {Object} 200 - Solicitud de actualización creada (con los errores por item, si los hubo)
  * @returns {Object} 400 - Datos inválidos
  * @returns {Object} 500 - Error actualizando lista de precios
  */
-router.post("/update-prices", authMiddleware, controller.updatePrice);
+router.post("/update-prices", authMiddleware, requirePermission("price-lists:write"), controller.updatePrice);
 
 /**
  * @route POST /date-validity
- * @description Inserta o actualiza las fechas de validez de la lista de precios del proveedor
+ * @description Crea o modifica vigencias de la lista de precios del proveedor; cada una ligada a una versión de la lista y sin superponerse
  * @access Privado - Requiere autenticación de proveedor
  * @middleware authMiddleware - Valida el token JWT del proveedor
+ * @middleware requirePermission - Requiere "price-lists:write"
  * 
  * @body {Object} req.body
- * @body {Array} req.body.data - Array de validaciones de fecha
- * @body {number} req.body.data[].id - ID de la validez
- * @body {string} req.body.data[].fecha_inicio - Fecha de inicio de vigencia (ISO 8601)
- * @body {string} req.body.data[].fecha_fin - Fecha de fin de vigencia (ISO 8601)
+ * @body {Array} req.body.data - Array de vigencias
+ * @body {number} [req.body.data[].id] - ID de la vigencia a modificar (sin id se crea una nueva)
+ * @body {string} req.body.data[].fecha_inicio - Fecha de inicio de vigencia (YYYY-MM-DD)
+ * @body {string} req.body.data[].fecha_fin - Fecha de fin de vigencia, inclusive (YYYY-MM-DD)
+ * @body {number} [req.body.data[].submission_id] - Solicitud (versión de la lista) que aplica; obligatoria en vigencias nuevas
  * 
- * @returns {Object} 200 - Validez de fechas actualizada correctamente
+ * @returns {Object} 200 - Vigencias guardadas (con errores por fila si alguna no pertenece al proveedor)
  * @returns {Object} 400 - Datos inválidos
+ * @returns {Object} 422 - Fechas inválidas, vigencias superpuestas o versión inexistente (no se guarda ninguna)
  * @returns {Object} 500 - Error actualizando validez de fechas
  */
-router.post("/date-validity", authMiddleware, controller.dateValidity);
+router.post("/date-validity", authMiddleware, requirePermission("price-lists:write"), controller.dateValidity);
+
+/**
+ * @route GET /date-validity
+ * @description Muestra las vigencias del proveedor a una fecha: la actual (qué versión de precios aplica), las próximas y las vencidas
+ * @access Privado - Proveedor (sus vigencias) o comprador/administrador indicando el proveedor
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:read"
+ * 
+ * @query {string} [date] - Fecha de referencia (YYYY-MM-DD, por defecto hoy)
+ * @query {string} [proveedor] - Proveedor a consultar (obligatorio para usuarios internos)
+ * 
+ * @returns {Object} 200 - Vigencia actual, próximas y vencidas
+ * @returns {Object} 400 - Proveedor no especificado o fecha inválida
+ * @returns {Object} 500 - Error al obtener las vigencias
+ */
+router.get("/date-validity", authMiddleware, requirePermission("price-lists:read"), controller.getDateValidity);
 
 /**
  * @route GET /get-pricing-template
  * @description Obtiene la plantilla de precios desde SAP para el proveedor autenticado
- * @access Privado - Requiere autenticación de proveedor
- * @middleware authMiddleware - Valida el token JWT del proveedor
+ * @access Privado - Proveedor (su plantilla) o comprador/administrador indicando el proveedor
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:read"
+ * 
+ * @query {string} [proveedor] - Proveedor a consultar (obligatorio para usuarios internos)
+ * @query {string} [centro] - Centro de distribución; sin él, los permitidos al usuario o el centro principal
+ * @query {string} [format] - json (por defecto), csv o xlsx; también se negocia con el encabezado Accept
  * 
- * @returns {Object} 200 - Array con plantilla de precios desde SAP
- * @returns {Object} 400 - Proveedor no especificado
+ * @returns {Object} 200 - Array con plantilla de precios desde SAP, una fila por material y centro (o archivo CSV/XLSX)
+ * @returns {Object} 400 - Proveedor no especificado, centro inválido o formato no soportado
+ * @returns {Object} 403 - Centro no permitido al usuario
  * @returns {Object} 500 - Error al obtener la plantilla de precios
  */
-router.get("/get-pricing-template", authMiddleware, controller.getPricingtemplate);
+router.get("/get-pricing-template", authMiddleware, requirePermission("price-lists:read"), controller.getPricingtemplate);
+
+/**
+ * @route GET /centros
+ * @description Centros de distribución de SAP (bk_centro) que el usuario puede consultar
+ * @access Privado - Proveedores, compradores y administradores
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:read"
+ * 
+ * @returns {Object} 200 - Códigos de centro, ordenados
+ * @returns {Object} 500 - Error al obtener los centros de distribución
+ */
+router.get("/centros", authMiddleware, requirePermission("price-lists:read"), controller.getCentros);
+
+/**
+ * @route GET /variance-report
+ * @description Reporte para compradores de los items cuyo costo neto excede el umbral de variación frente al precio efectivo de SAP
+ * @access Privado - Comprador o administrador
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:read-all"
+ * 
+ * @query {string} [proveedor] - Proveedor a consultar (todos si no se indica)
+ * @query {string} [centro] - Centro de distribución; sin él, los centros permitidos al usuario
+ * 
+ * @returns {Object} 200 - Resumen e items marcados, de mayor a menor variación
+ * @returns {Object} 500 - Error al generar el reporte
+ */
+router.get("/variance-report", authMiddleware, requirePermission("price-lists:read-all"), controller.getVarianceReport);
+
+/**
+ * @route GET /submissions
+ * @description Lista las solicitudes de listas de precios (bandeja del comprador o seguimiento del proveedor)
+ * @access Privado - Proveedor (sus solicitudes) o comprador/administrador (todas)
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:read"
+ * 
+ * @query {string} [status] - draft, submitted, in_review, approved, rejected o changes_requested
+ * @query {string} [proveedor] - Proveedor a consultar (solo con "price-lists:read-all")
+ * 
+ * @returns {Object} 200 - Solicitudes de los centros permitidos al usuario, de la más reciente a la más antigua
+ * @returns {Object} 400 - Estado inválido
+ * @returns {Object} 500 - Error al obtener las solicitudes
+ */
+router.get("/submissions", authMiddleware, requirePermission("price-lists:read"), controller.listSubmissions);
+
+/**
+ * @route GET /submissions/:id
+ * @description Obtiene una solicitud con sus items, su estado, las notas del comprador y el historial de estados
+ * @access Privado - Proveedor (sus solicitudes) o comprador/administrador (cualquiera)
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:read"
+ * 
+ * @param {number} id - ID de la solicitud
+ * 
+ * @returns {Object} 200 - Solicitud con items y eventos
+ * @returns {Object} 403 - La solicitud pertenece a otro proveedor o incluye centros no permitidos al usuario
+ * @returns {Object} 404 - La solicitud no existe
+ * @returns {Object} 500 - Error al obtener la solicitud
+ */
+router.get("/submissions/:id", authMiddleware, requirePermission("price-lists:read"), controller.getSubmission);
+
+/**
+ * @route PUT /submissions/:id
+ * @description Reemplaza los items de una solicitud en borrador o con cambios solicitados
+ * @access Privado - Proveedor dueño de la solicitud
+ * @middleware authMiddleware - Valida el token JWT del proveedor
+ * @middleware requirePermission - Requiere "price-lists:write"
+ * 
+ * @param {number} id - ID de la solicitud
+ * @body {Array} req.body.data - Items de la lista (mismo formato que /validate)
+ * @query {string} [mode] - merge (por defecto) o replace
+ * 
+ * @returns {Object} 200 - Solicitud actualizada (en borrador)
+ * @returns {Object} 400 - Datos inválidos o modo no soportado
+ * @returns {Object} 409 - La solicitud ya no se puede editar
+ * @returns {Object} 422 - Items con errores de validación
+ * @returns {Object} 500 - Error al actualizar la solicitud
+ */
+router.put("/submissions/:id", authMiddleware, requirePermission("price-lists:write"), controller.updateSubmission);
+
+/**
+ * @route POST /submissions/:id/submit
+ * @description Envía a revisión una solicitud en borrador o con cambios solicitados
+ * @access Privado - Proveedor dueño de la solicitud
+ * @middleware authMiddleware - Valida el token JWT del proveedor
+ * @middleware requirePermission - Requiere "price-lists:write"
+ * 
+ * @param {number} id - ID de la solicitud
+ * 
+ * @returns {Object} 200 - Solicitud en estado submitted
+ * @returns {Object} 403 - La solicitud pertenece a otro proveedor
+ * @returns {Object} 409 - La solicitud no se puede enviar desde su estado actual
+ * @returns {Object} 500 - Error al cambiar el estado
+ */
+router.post(
+  "/submissions/:id/submit",
+  authMiddleware,
+  requirePermission("price-lists:write"),
+  controller.transitionSubmission("submitted")
+);
+
+/**
+ * @route POST /submissions/:id/review
+ * @description Toma en revisión una solicitud enviada
+ * @access Privado - Comprador o administrador
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:review"
+ * 
+ * @param {number} id - ID de la solicitud
+ * 
+ * @returns {Object} 200 - Solicitud en estado in_review
+ * @returns {Object} 403 - La solicitud incluye centros no permitidos al comprador
+ * @returns {Object} 409 - La solicitud no está enviada
+ * @returns {Object} 500 - Error al cambiar el estado
+ */
+router.post(
+  "/submissions/:id/review",
+  authMiddleware,
+  requirePermission("price-lists:review"),
+  controller.transitionSubmission("in_review")
+);
+
+/**
+ * @route POST /submissions/:id/approve
+ * @description Aprueba una solicitud en revisión; sus precios pasan a ser los vigentes del proveedor
+ * @access Privado - Comprador o administrador
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:review"
+ * 
+ * @param {number} id - ID de la solicitud
+ * @body {string} [req.body.comment] - Nota para el proveedor
+ * 
+ * @returns {Object} 200 - Solicitud aprobada y conteos de precios insertados, actualizados y eliminados
+ * @returns {Object} 403 - La solicitud incluye centros no permitidos al comprador
+ * @returns {Object} 409 - La solicitud no está en revisión
+ * @returns {Object} 500 - Error al cambiar el estado
+ */
+router.post(
+  "/submissions/:id/approve",
+  authMiddleware,
+  requirePermission("price-lists:review"),
+  controller.transitionSubmission("approved")
+);
+
+/**
+ * @route POST /submissions/:id/reject
+ * @description Rechaza una solicitud en revisión; sus precios no se aplican
+ * @access Privado - Comprador o administrador
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:review"
+ * 
+ * @param {number} id - ID de la solicitud
+ * @body {string} req.body.comment - Motivo del rechazo (obligatorio)
+ * 
+ * @returns {Object} 200 - Solicitud rechazada
+ * @returns {Object} 400 - Falta el comentario
+ * @returns {Object} 403 - La solicitud incluye centros no permitidos al comprador
+ * @returns {Object} 409 - La solicitud no está en revisión
+ * @returns {Object} 500 - Error al cambiar el estado
+ */
+router.post(
+  "/submissions/:id/reject",
+  authMiddleware,
+  requirePermission("price-lists:review"),
+  controller.transitionSubmission("rejected")
+);
+
+/**
+ * @route POST /submissions/:id/request-changes
+ * @description Devuelve una solicitud en revisión al proveedor para que la corrija y la reenvíe
+ * @access Privado - Comprador o administrador
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:review"
+ * 
+ * @param {number} id - ID de la solicitud
+ * @body {string} req.body.comment - Cambios que se solicitan (obligatorio)
+ * 
+ * @returns {Object} 200 - Solicitud con cambios solicitados
+ * @returns {Object} 400 - Falta el comentario
+ * @returns {Object} 403 - La solicitud incluye centros no permitidos al comprador
+ * @returns {Object} 409 - La solicitud no está en revisión
+ * @returns {Object} 500 - Error al cambiar el estado
+ */
+router.post(
+  "/submissions/:id/request-changes",
+  authMiddleware,
+  requirePermission("price-lists:review"),
+  controller.transitionSubmission("changes_requested")
+);
+
+/**
+ * @route GET /:id/history
+ * @description Obtiene el historial de cambios (costo y descuentos) de un registro de lista de precios
+ * @access Privado - Proveedor (sus registros) o comprador/administrador (cualquier registro)
+ * @middleware authMiddleware - Valida el token JWT del usuario
+ * @middleware requirePermission - Requiere "price-lists:read"
+ * 
+ * @param {number} id - ID del registro en supplier_price_list
+ * 
+ * @returns {Object} 200 - Historial del registro, del cambio más reciente al más antiguo
+ * @returns {Object} 403 - El registro pertenece a otro proveedor o a un centro no permitido al usuario
+ * @returns {Object} 404 - El registro no existe
+ * @returns {Object} 500 - Error al obtener el historial
+ */
+router.get("/:id/history", authMiddleware, requirePermission("price-lists:read"), controller.getPriceHistory);
 
 export default router;
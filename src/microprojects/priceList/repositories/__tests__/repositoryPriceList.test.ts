@@ -0,0 +1,62 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import pool from "../../../../config/database";
+import RepositoryListPrecios from "../repositoryPriceList";
+
+// Registros 1 y 2 del proveedor 10, registro 3 del proveedor 11
+const OWNERS: Record<number, string> = { 1: "10", 2: "10", 3: "11" };
+
+/**
+ * Conexión falsa que responde la verificación de dueño y la consulta de
+ * registros; `queries` guarda los parámetros de cada consulta.
+ */
+const fakeClient = () => {
+  const queries: { sql: string; params?: any[] }[] = [];
+  const client = {
+    query: async (sql: string, params?: any[]) => {
+      queries.push({ sql, params });
+      if (sql.includes("AS owner")) {
+        return { rows: (params![0] as number[]).filter((id) => OWNERS[id]).map((id) => ({ id, owner: OWNERS[id] })) };
+      }
+      if (sql.includes("FROM supplier_price_list")) {
+        return { rows: (params![0] as number[]).map((id) => ({ id, proveedor_id: OWNERS[id] })) };
+      }
+      return { rows: [] };
+    },
+    release: () => {},
+  };
+  return { client, queries };
+};
+
+describe("RepositoryListPrecios", () => {
+  const connect = pool.connect;
+  afterEach(() => {
+    pool.connect = connect;
+  });
+
+  describe("getPricesById", () => {
+    it("devuelve solo los registros del proveedor y reporta los demás por fila", async () => {
+      const { client, queries } = fakeClient();
+      pool.connect = (async () => client) as any;
+
+      const { rows, errors } = await new RepositoryListPrecios().getPricesById([1, 3, 9, 0], "10");
+
+      assert.deepEqual(rows.map((row) => row.id), [1]);
+      assert.deepEqual(
+        errors.map((error) => `${error.id}:${error.code}`),
+        ["3:FORBIDDEN", "9:NOT_FOUND", "0:INVALID"]
+      );
+      // Los IDs inválidos no llegan a la base de datos
+      assert.deepEqual(queries.find((query) => query.sql.includes("AS owner"))?.params, [[1, 3, 9]]);
+    });
+
+    it("compara el dueño como texto", async () => {
+      const { client } = fakeClient();
+      pool.connect = (async () => client) as any;
+
+      const { rows, errors } = await new RepositoryListPrecios().getPricesById([1, 2], 10 as unknown as string);
+      assert.deepEqual(rows.map((row) => row.id), [1, 2]);
+      assert.deepEqual(errors, []);
+    });
+  });
+});
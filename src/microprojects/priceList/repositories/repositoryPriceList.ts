@@ -1,6 +1,69 @@
 import pool from "../../../config/database";
-import { PriceListItem, UpdatePriceListItem, SupplierPriceRow } from "../../../shared/types/priceList";
+import { PoolClient } from "pg";
+import QueryStream from "pg-query-stream";
+import { Readable } from "stream";
+import {
+  PriceListItem,
+  PriceListSaveMode,
+  PriceListSaveResult,
+  SupplierPriceRow,
+  PriceListRowError,
+  PriceHistoryEntry,
+  PriceVarianceThreshold,
+  PriceTaxRate,
+  ExchangeRate,
+  PriceListFilters,
+  PriceListSortField,
+  PageRequest,
+  PriceListFieldError,
+  ValidityWindow,
+} from "../../../shared/types/priceList";
 import { DateValidity } from "../domain/dateValidity";
+import PriceList, { DEFAULT_CENTRO } from "../domain/PriceList";
+import PriceQuote from "../domain/PriceQuote";
+
+/**
+ * Filas leídas por lote en las exportaciones por streaming
+ * @constant {number}
+ */
+const STREAM_BATCH_SIZE = 500;
+
+/**
+ * Columnas de date_validity con las fechas como texto YYYY-MM-DD
+ * @constant {string}
+ */
+const VALIDITY_COLUMNS =
+  "id, id_proveedor::text AS id_proveedor, to_char(fecha_inicio, 'YYYY-MM-DD') AS fecha_inicio, " +
+  "to_char(fecha_fin, 'YYYY-MM-DD') AS fecha_fin, submission_id, estado";
+
+/**
+ * Columnas de supplier_price_list que se leen para aplicar, actualizar y
+ * comparar precios, con la cotización original
+ * @constant {string}
+ */
+const PRICE_COLUMNS =
+  "id, cod_prov, cod_sap, costo_unitario, descuento1, descuento2, proveedor_id, centro, " +
+  "costo_original, moneda, unidad, factor_unidad, tasa_cambio, to_char(fecha_tasa, 'YYYY-MM-DD') AS fecha_tasa";
+
+/**
+ * Columna de la consulta combinada para cada campo de orden
+ * @constant {Record<PriceListSortField, string>}
+ */
+const SORT_COLUMNS: Record<PriceListSortField, string> = {
+  id: "id",
+  cod_prov: "cod_prov",
+  cod_sap: "cod_sap",
+  descripcion: "descripcion",
+  costo_unitario: "costo_unitario",
+  descuento1: "descuento1",
+  descuento2: "descuento2",
+  proveedor_id: "proveedor_id",
+  fecha_actualizacion_precio: "fecha_actualizacion_precio",
+  tipo_impuesto: "tipo_impuesto",
+  precio_sap: "precio_sap",
+  categoria: "categoria",
+  centro: "centro",
+};
 
 /**
  * Repositorio para gestionar operaciones de persistencia de listas de precios.
@@ -15,72 +78,227 @@ import { DateValidity } from "../domain/dateValidity";
 export default class RepositoryListPrecios {
 
   /**
-   * Inserta nuevas listas de precios en el sistema.
+   * Aplica la lista de precios de un proveedor (upsert por proveedor, centro y COD_PROV).
    * 
-   * Realiza la inserción de múltiples items de listas de precios en una
-   * transacción, asegurando que todos los registros se inserten correctamente
-   * o se revierta la operación completa en caso de error.
+   * Un proveedor tiene un solo registro por COD_PROV en cada centro de
+   * distribución (los items sin CENTRO van al centro por defecto, ver
+   * PriceList.centroOf): si el código no existe en el centro se inserta, si existe y cambió algún valor (COD_SAP, costo o descuentos) se
+   * actualiza, y si es igual se deja como está. Cada item reemplaza los valores
+   * del registro completo, así que un descuento que no viene queda vacío;
+   * la excepción son los items con CAMPOS (actualizaciones parciales), que
+   * solo cambian esas columnas del registro vigente (ver PriceList.patch) y
+   * se omiten si el registro ya no existe.
+   * 
+   * El costo se guarda convertido a COP por unidad base de SAP con la tasa de
+   * cambio vigente al aplicar la lista (ver PriceQuote), junto con la
+   * cotización original: costo, moneda, unidad, factor y la tasa usada.
+   * 
+   * En modo `replace` además se eliminan los registros del proveedor cuyo
+   * COD_PROV y centro no vienen en la lista; en `merge` se conservan. Los
+   * registros repetidos de un mismo COD_PROV y centro (cargados antes del
+   * upsert) se eliminan y se conserva el más reciente. Cada cambio deja su entrada INSERT, UPDATE o
+   * DELETE en el historial de precios.
+   * 
+   * Se ejecuta dentro de la transacción de quien llama (la aprobación de una
+   * solicitud), para que el cambio de estado y los precios se guarden juntos.
+   * 
+   * Las cargas de un mismo proveedor se serializan con un advisory lock, de modo
+   * que dos envíos simultáneos no dupliquen un COD_PROV nuevo. Para depurar los
+   * repetidos existentes y garantizarlo también a nivel de tabla:
+   * 
+   *   DELETE FROM supplier_price_list sp
+   *   USING supplier_price_list newer
+   *   WHERE newer.proveedor_id = sp.proveedor_id
+   *     AND newer.cod_prov = sp.cod_prov
+   *     AND newer.id > sp.id;
+   *   CREATE UNIQUE INDEX uq_supplier_price_list_material ON supplier_price_list (proveedor_id, cod_prov);
+   * 
+   * Los costos se cotizan por centro de distribución; los registros anteriores
+   * quedan en el centro con el que se consultaban:
+   * 
+   *   ALTER TABLE supplier_price_list ADD COLUMN centro VARCHAR(4) NOT NULL DEFAULT '1001';
+   *   ALTER TABLE supplier_price_list ALTER COLUMN centro DROP DEFAULT;
+   *   DROP INDEX uq_supplier_price_list_material;
+   *   CREATE UNIQUE INDEX uq_supplier_price_list_material ON supplier_price_list (proveedor_id, centro, cod_prov);
+   * 
+   * Cotización original (los registros anteriores quedan en COP por unidad base):
+   * 
+   *   ALTER TABLE supplier_price_list
+   *     ADD COLUMN costo_original NUMERIC,
+   *     ADD COLUMN moneda CHAR(3) NOT NULL DEFAULT 'COP',
+   *     ADD COLUMN unidad VARCHAR(3),
+   *     ADD COLUMN factor_unidad NUMERIC NOT NULL DEFAULT 1 CHECK (factor_unidad > 0),
+   *     ADD COLUMN tasa_cambio NUMERIC NOT NULL DEFAULT 1,
+   *     ADD COLUMN fecha_tasa DATE;
+   *   UPDATE supplier_price_list SET costo_original = costo_unitario;
    * 
    * @async
    * @public
-   * @param {PriceListItem[]} data - Array de items de lista de precios a insertar
-   * @returns {Promise<SupplierPriceRow[]>} Array de registros insertados con sus IDs asignados
+   * @param {PoolClient} client - Conexión con la transacción activa
+   * @param {PriceListItem[]} data - Items ya validados y normalizados por PriceList (sin COD_PROV repetidos)
+   * @param {string} proveedor - ID del proveedor dueño de la lista
+   * @param {PriceListSaveMode} mode - `merge` (agrega y actualiza) o `replace` (además elimina lo que no viene)
+   * @param {string} actor - Quien realiza la operación (ver actorOf)
+   * @returns {Promise<PriceListSaveResult>} Conteos de insertados, actualizados, sin cambios y eliminados
    * 
    * @throws {Error} Si los datos no son un array
-   * @throws {Error} Si ocurre un error durante la inserción
+   * @throws {Error} Si la moneda de algún item no tiene tasa de cambio
+   * @throws {Error} Si ocurre un error durante el registro
    * 
    * @example
    * const repository = new RepositoryListPrecios();
-   * const insertados = await repository.insertarListPrecios([
+   * const resultado = await repository.applyListPrecios(client, [
    *   {
    *     COD_PROV: '12345',
-   *     COD_SAP: 'SAP001',
+   *     COD_SAP: '123456',
    *     COSTO_UNIT: 100.50,
    *     DESC1: 10,
    *     DESC2: 5,
-   *     PROVEEDOR: 1
+   *     PROVEEDOR: 1,
+   *     CENTRO: '1001'
    *   }
-   * ]);
+   * ], '1', 'merge', 'supplier:1');
+   * // { mode: 'merge', inserted: 0, updated: 1, unchanged: 0, removed: 0, deduplicated: 0, items: [...] }
    */
-  public async insertarListPrecios(data: PriceListItem[]): Promise<SupplierPriceRow[]> {
+  public async applyListPrecios(
+    client: PoolClient,
+    data: PriceListItem[],
+    proveedor: string,
+    mode: PriceListSaveMode,
+    actor: string
+  ): Promise<PriceListSaveResult> {
     if (!Array.isArray(data)) {
       throw new Error("Los datos deben ser un array");
     }
 
-    const client = await pool.connect();
     try {
-      await client.query("BEGIN");
-      const insertedItems: SupplierPriceRow[] = [];
-
-      for (const item of data) {
-        const query = {
-          text: `
-            INSERT INTO supplier_price_list (
-              cod_prov, cod_sap, costo_unitario, descuento1, descuento2, proveedor_id
-            ) VALUES ($1, $2, $3, $4, $5, $6)
-            RETURNING *
-          `,
-          values: [
-            item.COD_PROV,
-            item.COD_SAP,
-            parseFloat(String(item.COSTO_UNIT)),
-            parseFloat(String(item.DESC1)),
-            parseFloat(String(item.DESC2)),
-            item.PROVEEDOR,
-          ],
-        };
-
-        const result = await client.query(query);
-        insertedItems.push(result.rows[0]);
+      await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`supplier_price_list:${proveedor}`]);
+      const rates = await this.queryExchangeRates(client, DateValidity.today());
+
+      // Registros actuales del proveedor; el primero de cada COD_PROV y centro es el vigente
+      const existing = await client.query(
+        `SELECT ${PRICE_COLUMNS}
+         FROM supplier_price_list
+         WHERE proveedor_id::text = $1::text
+         ORDER BY cod_prov, centro, fecha_actualizacion DESC NULLS LAST, id DESC
+         FOR UPDATE`,
+        [proveedor]
+      );
+      const current = new Map<string, SupplierPriceRow>();
+      const repeated: SupplierPriceRow[] = [];
+      for (const row of existing.rows as SupplierPriceRow[]) {
+        const key = PriceList.keyOf(row.cod_prov, row.centro!);
+        if (current.has(key)) repeated.push(row);
+        else current.set(key, row);
       }
 
-      await client.query("COMMIT");
-      return insertedItems;
+      const result: PriceListSaveResult = {
+        mode,
+        inserted: 0,
+        updated: 0,
+        unchanged: 0,
+        removed: 0,
+        deduplicated: 0,
+        items: [],
+      };
+
+      for (const submitted of data) {
+        const centro = PriceList.centroOf(submitted);
+        const previous = current.get(PriceList.keyOf(submitted.COD_PROV, centro));
+
+        // Actualización parcial: solo las columnas de CAMPOS, sobre el registro vigente
+        // (si el registro ya no existe no hay nada que actualizar)
+        if (submitted.CAMPOS && !previous) {
+          result.unchanged++;
+          continue;
+        }
+        const item = submitted.CAMPOS ? PriceList.patch(previous!, submitted) : submitted;
+
+        const quote = PriceQuote.normalize(item, rates);
+        if (!quote) {
+          throw new Error(`No hay tasa de cambio registrada para ${PriceQuote.currencyOf(item)} (COD_PROV ${item.COD_PROV})`);
+        }
+        const values = [
+          item.COD_SAP ?? null,
+          quote.costo_unitario,
+          item.DESC1 ?? null,
+          item.DESC2 ?? null,
+          quote.costo_original,
+          quote.moneda,
+          quote.unidad,
+          quote.factor_unidad,
+          quote.tasa_cambio,
+          quote.fecha_tasa,
+        ];
+
+        if (!previous) {
+          const inserted = await client.query(
+            `INSERT INTO supplier_price_list (
+               cod_sap, costo_unitario, descuento1, descuento2,
+               costo_original, moneda, unidad, factor_unidad, tasa_cambio, fecha_tasa,
+               cod_prov, proveedor_id, centro
+             ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+             RETURNING ${PRICE_COLUMNS}`,
+            [...values, item.COD_PROV, proveedor, centro]
+          );
+          result.inserted++;
+          result.items.push(inserted.rows[0]);
+          await this.recordHistory(client, "INSERT", null, inserted.rows[0], actor);
+          continue;
+        }
+
+        const updated = await client.query(
+          `UPDATE supplier_price_list
+           SET cod_sap = $1,
+               costo_unitario = $2,
+               descuento1 = $3,
+               descuento2 = $4,
+               costo_original = $5,
+               moneda = $6,
+               unidad = $7,
+               factor_unidad = $8,
+               tasa_cambio = $9,
+               fecha_tasa = $10,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $11
+             AND (
+               cod_sap IS DISTINCT FROM $1 OR
+               costo_unitario IS DISTINCT FROM $2::numeric OR
+               descuento1 IS DISTINCT FROM $3::numeric OR
+               descuento2 IS DISTINCT FROM $4::numeric OR
+               costo_original IS DISTINCT FROM $5::numeric OR
+               moneda IS DISTINCT FROM $6 OR
+               unidad IS DISTINCT FROM $7 OR
+               factor_unidad IS DISTINCT FROM $8::numeric
+             )
+           RETURNING ${PRICE_COLUMNS}`,
+          [...values, previous.id]
+        );
+        if (updated.rows.length > 0) {
+          result.updated++;
+          result.items.push(updated.rows[0]);
+          await this.recordHistory(client, "UPDATE", previous, updated.rows[0], actor);
+        } else {
+          result.unchanged++;
+        }
+      }
+
+      const submitted = new Set(data.map((item) => PriceList.keyOf(item.COD_PROV, PriceList.centroOf(item))));
+      const keyOf = (row: SupplierPriceRow) => PriceList.keyOf(row.cod_prov, row.centro!);
+      const removed = mode === "replace" ? [...current.values()].filter((row) => !submitted.has(keyOf(row))) : [];
+      // En merge solo se depuran los repetidos de los COD_PROV enviados; en replace todos
+      const deduplicated = repeated.filter((row) => mode === "replace" || submitted.has(keyOf(row)));
+
+      for (const row of [...removed, ...deduplicated]) {
+        await client.query(`DELETE FROM supplier_price_list WHERE id = $1`, [row.id]);
+        await this.recordHistory(client, "DELETE", row, null, actor);
+      }
+      result.removed = removed.length;
+      result.deduplicated = deduplicated.length;
+
+      return result;
     } catch (error: any) {
-      await client.query("ROLLBACK");
-      throw new Error(`Error al insertar lista de precios: ${error.message}`);
-    } finally {
-      client.release();
+      throw new Error(`Error al registrar lista de precios: ${error.message}`);
     }
   }
 
@@ -91,9 +309,16 @@ export default class RepositoryListPrecios {
    * con información adicional del sistema SAP, incluyendo descripciones,
    * precios efectivos, tipos de impuestos y fechas de actualización.
    * 
+   * Con `asOf` el costo y los descuentos se toman del historial de precios:
+   * para cada registro se usa el último cambio hasta esa fecha, y los registros
+   * creados después (o eliminados antes) no se incluyen. Los datos de SAP
+   * siguen siendo los actuales.
+   * 
    * @async
    * @public
    * @param {string} [proveedor] - Código del proveedor para filtrar (opcional)
+   * @param {string} [asOf] - Fecha/hora de corte ('YYYY-MM-DD HH:mm:ss') para consultar precios pasados (opcional)
+   * @param {PriceListFilters} [filters] - Filtros y orden (por defecto, los más recientes primero)
    * @returns {Promise<SupplierPriceRow[]>} Array de registros con información completa
    * 
    * @throws {Error} Si ocurre un error durante la consulta
@@ -106,45 +331,71 @@ export default class RepositoryListPrecios {
    * 
    * // Obtener listas de un proveedor específico
    * const proveedor = await repository.getPrices('100');
+   * 
+   * // Precios que tenía el proveedor al cierre del 1 de marzo
+   * const marzo = await repository.getPrices('100', '2026-03-01 23:59:59.999');
    */
-  public async getPrices(proveedor?: string): Promise<SupplierPriceRow[]> {
+  public async getPrices(
+    proveedor?: string,
+    asOf?: string,
+    filters: PriceListFilters = {}
+  ): Promise<SupplierPriceRow[]> {
 
     const client = await pool.connect();
     try {
-      let baseQuery = `SELECT DISTINCT
-          sp.id,
-          sp.cod_prov,
-          sp.cod_sap,
-          pd.des_material as descripcion,
-          sp.costo_unitario,
-          CASE 
-              WHEN sp.descuento1 = TRUNC(sp.descuento1) THEN sp.descuento1::integer
-              ELSE sp.descuento1
-          END AS descuento1,
-          CASE 
-              WHEN sp.descuento2 = TRUNC(sp.descuento2) THEN sp.descuento2::integer
-              ELSE sp.descuento2
-          END AS descuento2,
-          pd.bk_proveedor as proveedor_id,
-          sp.fecha_actualizacion as fecha_actualizacion_precio,
-          pd.tax_1 as tipo_impuesto,
-          pd.atr_precio_efectiv as precio_bruto,
-          pd.atr_precio_efectiv as precio_neto,
-          sp.fecha_actualizacion as fecha_actualizacion_proveedor
-      FROM supplier_price_list sp
-      LEFT JOIN postgre_sap.stg_consulta_costo pd 
-        ON sp.cod_prov = pd.bk_material
-      WHERE  pd.bk_centro = '1001' 
-    `;
+      const { text, values } = this.buildPricesQuery(proveedor, asOf, filters);
 
-      if (proveedor) {
-        baseQuery += ` AND pd.bk_proveedor = $1`;
-      }
+      const result = await client.query(text, values);
+      return result.rows;
+    } catch (error: any) {
+      throw new Error(`Error al obtener lista de precios: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
 
-      baseQuery += ` ORDER BY sp.fecha_actualizacion DESC`;
 
-      const result = await client.query(baseQuery, proveedor ? [proveedor] : []);
-      return result.rows;
+
+  /**
+   * Obtiene una página de las listas de precios combinadas con SAP.
+   * 
+   * Misma consulta que getPrices con LIMIT/OFFSET, más el total de registros
+   * que cumplen los filtros para calcular las páginas.
+   * 
+   * @async
+   * @public
+   * @param {string | undefined} proveedor - Código del proveedor para filtrar (opcional)
+   * @param {string | undefined} asOf - Fecha/hora de corte para consultar precios pasados (opcional)
+   * @param {PriceListFilters} filters - Filtros y orden
+   * @param {PageRequest} page - Página (desde 1) y tamaño
+   * @returns {Promise<{ rows: SupplierPriceRow[], total: number }>} Registros de la página y total
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   * 
+   * @example
+   * const repository = new RepositoryListPrecios();
+   * const { rows, total } = await repository.getPricesPage('100', undefined, { q: 'urea', sort: 'costo_unitario', order: 'asc' }, { page: 2, pageSize: 50 });
+   */
+  public async getPricesPage(
+    proveedor: string | undefined,
+    asOf: string | undefined,
+    filters: PriceListFilters,
+    page: PageRequest
+  ): Promise<{ rows: SupplierPriceRow[]; total: number }> {
+    const client = await pool.connect();
+    try {
+      const { text, values } = this.buildPricesQuery(proveedor, asOf, filters);
+
+      const count = await client.query(
+        `SELECT COUNT(*)::int AS total FROM (${text}) counted`,
+        values
+      );
+      const result = await client.query(
+        `${text} LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+        [...values, page.pageSize, (page.page - 1) * page.pageSize]
+      );
+
+      return { rows: result.rows, total: count.rows[0].total };
     } catch (error: any) {
       throw new Error(`Error al obtener lista de precios: ${error.message}`);
     } finally {
@@ -152,7 +403,142 @@ export default class RepositoryListPrecios {
     }
   }
 
+  /**
+   * Arma la consulta de listas de precios combinadas con SAP.
+   * 
+   * La comparten la consulta normal, la paginada y la exportación por
+   * streaming. Los filtros y el orden se aplican sobre las columnas ya
+   * combinadas (`prices`), así que usan los mismos nombres de la respuesta.
+   * Cada registro se cruza con los datos de SAP de su propio centro de
+   * distribución.
+   * 
+   * @private
+   * @param {string} [proveedor] - Código del proveedor para filtrar (opcional)
+   * @param {string} [asOf] - Fecha/hora de corte para consultar precios pasados (opcional)
+   * @param {PriceListFilters} [filters] - Filtros y orden (opcional)
+   * @returns {{ text: string, values: any[] }} Consulta y parámetros
+   */
+  private buildPricesQuery(
+    proveedor?: string,
+    asOf?: string,
+    filters: PriceListFilters = {}
+  ): { text: string; values: any[] } {
+    const values: any[] = [];
+
+    // Origen de los registros: la tabla actual o, con fecha de corte, el último
+    // cambio de cada registro en el historial hasta esa fecha
+    let source = "supplier_price_list";
+    if (asOf) {
+      values.push(asOf);
+      source = `(
+      SELECT DISTINCT ON (h.price_list_id)
+             h.price_list_id AS id,
+             h.cod_prov,
+             h.cod_sap,
+             h.centro,
+             h.new_costo_unitario AS costo_unitario,
+             h.new_costo_original AS costo_original,
+             h.moneda,
+             h.unidad,
+             h.factor_unidad,
+             h.tasa_cambio,
+             h.fecha_tasa,
+             h.new_descuento1 AS descuento1,
+             h.new_descuento2 AS descuento2,
+             h.changed_at AS fecha_actualizacion,
+             h.action
+      FROM supplier_price_history h
+      WHERE h.changed_at <= $${values.length}::timestamp
+      ORDER BY h.price_list_id, h.changed_at DESC, h.id DESC
+    )`;
+    }
+
+    let baseQuery = `SELECT DISTINCT
+        sp.id,
+        sp.cod_prov,
+        sp.cod_sap,
+        pd.des_material as descripcion,
+        sp.costo_unitario,
+        CASE 
+            WHEN sp.descuento1 = TRUNC(sp.descuento1) THEN sp.descuento1::integer
+            ELSE sp.descuento1
+        END AS descuento1,
+        CASE 
+            WHEN sp.descuento2 = TRUNC(sp.descuento2) THEN sp.descuento2::integer
+            ELSE sp.descuento2
+        END AS descuento2,
+        pd.bk_proveedor as proveedor_id,
+        sp.centro,
+        sp.costo_original,
+        sp.moneda,
+        sp.unidad,
+        sp.factor_unidad,
+        sp.tasa_cambio,
+        to_char(sp.fecha_tasa, 'YYYY-MM-DD') as fecha_tasa,
+        sp.fecha_actualizacion as fecha_actualizacion_precio,
+        pd.tax_1 as tipo_impuesto,
+        pd.atr_precio_efectiv as precio_sap,
+        pd.bk_categoria as categoria,
+        sp.fecha_actualizacion as fecha_actualizacion_proveedor
+    FROM ${source} sp
+    LEFT JOIN postgre_sap.stg_consulta_costo pd 
+      ON sp.cod_prov = pd.bk_material
+     AND pd.bk_centro = sp.centro
+    WHERE  pd.bk_centro IS NOT NULL
+  `;
+
+    // Los registros eliminados antes de la fecha de corte ya no estaban vigentes.
+    // Sin fecha de corte, un proveedor se oculta solo si una vigencia suya venció
+    // y ninguna está activa: su lista dejó de ser la actual. Las vigencias
+    // programadas no ocultan la lista que aplica mientras llegan
+    if (asOf) {
+      baseQuery += ` AND sp.action <> 'DELETE'`;
+    } else {
+      baseQuery += ` AND (
+        EXISTS (SELECT 1 FROM date_validity dv WHERE dv.id_proveedor::text = sp.proveedor_id::text AND dv.estado = 'active')
+        OR NOT EXISTS (SELECT 1 FROM date_validity dv WHERE dv.id_proveedor::text = sp.proveedor_id::text AND dv.estado = 'expired')
+      )`;
+    }
+
+    if (proveedor) {
+      values.push(proveedor);
+      baseQuery += ` AND pd.bk_proveedor = $${values.length}`;
+    }
+
+    let text = `SELECT * FROM (${baseQuery}) prices WHERE TRUE`;
+    const where = (condition: (param: string) => string, value: any) => {
+      values.push(value);
+      text += ` AND ${condition(`$${values.length}`)}`;
+    };
+
+    if (filters.centros) where((p) => `prices.centro = ANY(${p}::text[])`, filters.centros);
+    if (filters.cod_prov) where((p) => `prices.cod_prov ILIKE (${p} || '%')`, this.escapeLike(filters.cod_prov));
+    if (filters.cod_sap) where((p) => `prices.cod_sap ILIKE (${p} || '%')`, this.escapeLike(filters.cod_sap));
+    if (filters.q) where((p) => `prices.descripcion ILIKE ('%' || ${p} || '%')`, this.escapeLike(filters.q));
+    if (filters.tipo_impuesto) where((p) => `TRIM(prices.tipo_impuesto) = ${p}`, filters.tipo_impuesto);
+    if (filters.updatedFrom) where((p) => `prices.fecha_actualizacion_precio >= ${p}::timestamp`, filters.updatedFrom);
+    if (filters.updatedTo) where((p) => `prices.fecha_actualizacion_precio <= ${p}::timestamp`, filters.updatedTo);
+    if (filters.minPrice !== undefined) where((p) => `prices.costo_unitario >= ${p}`, filters.minPrice);
+    if (filters.maxPrice !== undefined) where((p) => `prices.costo_unitario <= ${p}`, filters.maxPrice);
+
+    // El id desempata para que las páginas no repitan ni salten registros
+    const column = SORT_COLUMNS[filters.sort ?? "fecha_actualizacion_precio"] ?? SORT_COLUMNS.fecha_actualizacion_precio;
+    const order = filters.order === "asc" ? "ASC" : "DESC";
+    text += ` ORDER BY prices.${column} ${order} NULLS LAST, prices.id ${order}`;
+
+    return { text, values };
+  }
 
+  /**
+   * Escapa los comodines de LIKE (`%`, `_` y `\`) en un texto de búsqueda.
+   * 
+   * @private
+   * @param {string} value - Texto ingresado por el usuario
+   * @returns {string} Texto que se busca literalmente
+   */
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+  }
 
   /**
    * Obtiene plantilla de precios desde SAP para crear listas.
@@ -176,198 +562,799 @@ export default class RepositoryListPrecios {
    * 
    * // Obtener plantilla de un proveedor
    * const plantillaProveedor = await repository.getPricingTemplate('100');
+   * 
+   * // Plantilla de un proveedor en dos centros de distribución
+   * const porCentro = await repository.getPricingTemplate('100', ['1001', '1002']);
    */
-  public async getPricingTemplate(proveedor?: string): Promise<SupplierPriceRow[]> {
+  public async getPricingTemplate(proveedor?: string, centros: string[] = [DEFAULT_CENTRO]): Promise<SupplierPriceRow[]> {
   const client = await pool.connect();
   try {
+    const { text, values } = this.buildPricingTemplateQuery(proveedor, centros);
+
+    // Ejecutar consulta con o sin parámetro
+    const result = await client.query(text, values);
+
+    return result.rows as SupplierPriceRow[];
+  } catch (error: any) {
+    throw new Error(`Error al obtener lista de precios: ${error.message}`);
+  } finally {
+    client.release();
+  }
+}
+
+
+  /**
+   * Arma la consulta de la plantilla de precios desde SAP.
+   * 
+   * La comparten la consulta normal y la exportación por streaming. Cada
+   * material aparece una vez por centro de distribución indicado.
+   * 
+   * @private
+   * @param {string} [proveedor] - Código del proveedor para filtrar (opcional)
+   * @param {string[]} centros - Centros de distribución (bk_centro) a incluir
+   * @returns {{ text: string, values: any[] }} Consulta y parámetros
+   */
+  private buildPricingTemplateQuery(proveedor: string | undefined, centros: string[]): { text: string; values: any[] } {
     // Consulta base con alias 'sc'
     let baseQuery = `
       SELECT sc.bk_material,
              sc.des_material,
+             sc.bk_centro,
              sc.atr_precio_efectiv
       FROM postgre_sap.stg_consulta_costo sc
-      WHERE sc.bk_centro = '1001'
+      WHERE sc.bk_centro = ANY($1::text[])
     `;
 
     // Si llega el proveedor, se agrega al WHERE
     if (proveedor) {
-      baseQuery += ` AND sc.bk_proveedor = $1`;
+      baseQuery += ` AND sc.bk_proveedor = $2`;
     }
 
-    // Ejecutar consulta con o sin parámetro
-    const result = await client.query(baseQuery, proveedor ? [proveedor] : []);
+    return { text: baseQuery, values: proveedor ? [centros, proveedor] : [centros] };
+  }
 
-    return result.rows as SupplierPriceRow[];
-  } catch (error: any) {
-    throw new Error(`Error al obtener lista de precios: ${error.message}`);
-  } finally {
-    client.release();
+  /**
+   * Exporta por streaming las listas de precios combinadas con SAP.
+   * 
+   * Misma consulta que getPrices, pero las filas se leen por lotes con un
+   * cursor para no cargar listas grandes completas en memoria. La conexión se
+   * libera cuando el stream termina, falla o se cierra.
+   * 
+   * @async
+   * @public
+   * @param {string} [proveedor] - Código del proveedor para filtrar (opcional)
+   * @param {string} [asOf] - Fecha/hora de corte para consultar precios pasados (opcional)
+   * @param {PriceListFilters} [filters] - Filtros y orden (opcional)
+   * @returns {Promise<Readable>} Stream de objetos SupplierPriceRow
+   * 
+   * @example
+   * const stream = await repository.streamPrices('100');
+   * for await (const row of stream) { ... }
+   */
+  public async streamPrices(proveedor?: string, asOf?: string, filters: PriceListFilters = {}): Promise<Readable> {
+    const { text, values } = this.buildPricesQuery(proveedor, asOf, filters);
+    return this.streamQuery(text, values);
   }
-}
 
+  /**
+   * Exporta por streaming la plantilla de precios desde SAP.
+   * 
+   * @async
+   * @public
+   * @param {string} [proveedor] - Código del proveedor para filtrar (opcional)
+   * @param {string[]} [centros] - Centros de distribución a incluir (por defecto DEFAULT_CENTRO)
+   * @returns {Promise<Readable>} Stream de filas de la plantilla
+   */
+  public async streamPricingTemplate(proveedor?: string, centros: string[] = [DEFAULT_CENTRO]): Promise<Readable> {
+    const { text, values } = this.buildPricingTemplateQuery(proveedor, centros);
+    return this.streamQuery(text, values);
+  }
 
   /**
-   * Inserta o actualiza fechas de validez de listas de precios.
+   * Ejecuta una consulta como stream de filas usando un cursor.
+   * 
+   * @private
+   * @param {string} text - Consulta SQL
+   * @param {any[]} values - Parámetros de la consulta
+   * @returns {Promise<Readable>} Stream de filas
+   */
+  private async streamQuery(text: string, values: any[]): Promise<Readable> {
+    const client = await pool.connect();
+    let released = false;
+    const release = () => {
+      if (!released) {
+        released = true;
+        client.release();
+      }
+    };
+
+    const stream = client.query(new QueryStream(text, values, { batchSize: STREAM_BATCH_SIZE }));
+    stream.on("end", release);
+    stream.on("error", release);
+    stream.on("close", release);
+    return stream;
+  }
+
+  /**
+   * Inserta o actualiza vigencias de la lista de precios de un proveedor.
+   * 
+   * Un proveedor puede tener varias vigencias, cada una ligada a una versión
+   * de su lista (la solicitud en `submission_id`), siempre que no se
+   * superpongan. Un item sin `id` crea una vigencia nueva; uno con `id`
+   * modifica la existente, que debe pertenecer al proveedor (si no, se
+   * reporta en `errors` y no se aplica). Si no trae `submission_id` conserva
+   * la versión que tenía. Una vigencia que cambia de versión o que ya había
+   * vencido vuelve a quedar programada (`estado = 'scheduled'`) para que el
+   * programador de vigencias la active en su fecha.
    * 
-   * Utiliza operación UPSERT (INSERT ... ON CONFLICT) para insertar nuevas
-   * validaciones de fecha o actualizar las existentes basándose en el
-   * id_proveedor. Esto asegura que cada proveedor tenga una única validez activa.
+   * Las superposiciones (con las vigencias guardadas o entre los items) se
+   * detectan con las reglas de {@link DateValidity} y las versiones deben
+   * ser solicitudes del proveedor que no estén rechazadas. Si algún item no
+   * cumple, se devuelve en `invalid` y no se guarda ninguno. Los cambios de
+   * un mismo proveedor se serializan con un advisory lock para que dos
+   * envíos simultáneos no creen vigencias superpuestas. Esquema:
+   * 
+   *   ALTER TABLE date_validity DROP CONSTRAINT date_validity_id_proveedor_key;
+   *   ALTER TABLE date_validity ADD COLUMN submission_id INT REFERENCES price_list_submissions (id);
+   *   CREATE EXTENSION IF NOT EXISTS btree_gist;
+   *   ALTER TABLE date_validity ADD CONSTRAINT date_validity_no_overlap
+   *     EXCLUDE USING gist (id_proveedor WITH =, daterange(fecha_inicio, fecha_fin, '[]') WITH &&);
    * 
    * @async
    * @public
-   * @param {DateValidity[]} data - Array de validaciones de fecha a procesar
-   * @returns {Promise<DateValidity[]>} Array de validaciones insertadas/actualizadas
+   * @param {DateValidity[]} data - Vigencias ya validadas por DateValidity
+   * @param {string} proveedor - ID del proveedor autenticado
+   * @returns {Promise<Object>} Vigencias guardadas, errores por fila y errores que impidieron guardar
+   * @returns {ValidityWindow[]} return.items - Vigencias insertadas/actualizadas
+   * @returns {PriceListRowError[]} return.errors - Vigencias (por `id`) no encontradas o de otro proveedor
+   * @returns {PriceListFieldError[]} return.invalid - Superposiciones y versiones inválidas, por posición del item
    * 
    * @throws {Error} Si ocurre un error durante la operación
    * 
    * @example
    * const repository = new RepositoryListPrecios();
-   * const validaciones = await repository.dateValidity([
-   *   {
-   *     id: 1,
-   *     idProveedor: 100,
-   *     fecha_inicio: '2024-01-01',
-   *     fecha_fin: '2024-12-31'
-   *   }
-   * ]);
+   * const { items, errors, invalid } = await repository.dateValidity([
+   *   new DateValidity({ idProveedor: 100, fecha_inicio: '2026-04-01', fecha_fin: '2026-06-30', submission_id: 12 })
+   * ], '100');
    */
-  public async dateValidity(data: DateValidity[]): Promise<DateValidity[]> {
+  public async dateValidity(
+    data: DateValidity[],
+    proveedor: string
+  ): Promise<{ items: ValidityWindow[]; errors: PriceListRowError[]; invalid: PriceListFieldError[] }> {
     const client = await pool.connect();
     try {
-      const upserted: DateValidity[] = [];
+      await client.query("BEGIN");
+      await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`date_validity:${proveedor}`]);
+
+      const ids = data.filter((item) => item.id).map((item) => Number(item.id));
+      const errors = await this.checkOwnership(client, "date_validity", "id_proveedor", ids, proveedor);
+      const rejected = new Set(errors.map((error) => error.id));
+
+      // Se conserva la posición original de cada item para reportar los errores
+      const accepted = data
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => !(item.id && rejected.has(Number(item.id))));
 
-      for (const item of data) {
+      const existing = await this.queryValidityWindows(client, proveedor);
+      const invalid = DateValidity.findOverlaps(
+        accepted.map(({ item }) => item),
+        existing
+      ).map((error) => ({ ...error, index: accepted[error.index].index }));
+
+      const versions = [...new Set(accepted.map(({ item }) => item.submission_id).filter((id): id is number => !!id))];
+      const found = new Set<number>();
+      if (versions.length > 0) {
         const result = await client.query(
-          `
-        INSERT INTO date_validity (id_proveedor, fecha_inicio, fecha_fin)
-        VALUES ($1, $2, $3)
-        ON CONFLICT (id_proveedor)
-        DO UPDATE SET fecha_inicio = EXCLUDED.fecha_inicio,
-                      fecha_fin = EXCLUDED.fecha_fin
-        RETURNING id, id_proveedor, fecha_inicio, fecha_fin
-        `,
-          [item.idProveedor, item.fecha_inicio, item.fecha_fin]
+          `SELECT id FROM price_list_submissions
+           WHERE id = ANY($1::int[]) AND proveedor_id::text = $2::text AND status <> 'rejected'`,
+          [versions, proveedor]
         );
+        result.rows.forEach((row: any) => found.add(Number(row.id)));
+      }
+      for (const { item, index } of accepted) {
+        if (item.submission_id && !found.has(item.submission_id)) {
+          invalid.push({
+            index,
+            field: "submission_id",
+            code: "NOT_FOUND",
+            message: `La solicitud ${item.submission_id} no existe, es de otro proveedor o fue rechazada`,
+          });
+        }
+      }
+
+      if (invalid.length > 0) {
+        await client.query("ROLLBACK");
+        return { items: [], errors, invalid: invalid.sort((a, b) => a.index - b.index) };
+      }
+
+      const saved: ValidityWindow[] = [];
+      for (const { item } of accepted) {
+        const result = item.id
+          ? await client.query(
+              `UPDATE date_validity
+               SET fecha_inicio = $2, fecha_fin = $3, submission_id = COALESCE($4, submission_id),
+                   estado = CASE
+                     WHEN $4::int IS NOT NULL AND $4::int IS DISTINCT FROM submission_id THEN 'scheduled'
+                     WHEN estado = 'expired' THEN 'scheduled'
+                     ELSE estado
+                   END
+               WHERE id = $1
+               RETURNING ${VALIDITY_COLUMNS}`,
+              [item.id, item.fecha_inicio, item.fecha_fin, item.submission_id]
+            )
+          : await client.query(
+              `INSERT INTO date_validity (id_proveedor, fecha_inicio, fecha_fin, submission_id)
+               VALUES ($1, $2, $3, $4)
+               RETURNING ${VALIDITY_COLUMNS}`,
+              [proveedor, item.fecha_inicio, item.fecha_fin, item.submission_id]
+            );
 
         if (result.rows[0]) {
-          upserted.push(result.rows[0]);
+          saved.push(result.rows[0]);
         }
       }
 
-      return upserted;
+      await client.query("COMMIT");
+      return { items: saved, errors, invalid: [] };
     } catch (error: any) {
+      await client.query("ROLLBACK");
       throw new Error(`Error en dateValidity: ${error.message}`);
     } finally {
       client.release();
     }
   }
 
+  /**
+   * Obtiene las vigencias de un proveedor con la versión de lista de cada una.
+   * 
+   * @async
+   * @public
+   * @param {string} proveedor - ID del proveedor
+   * @returns {Promise<ValidityWindow[]>} Vigencias ordenadas por fecha de inicio, con estado e items de su solicitud
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   * 
+   * @example
+   * const repository = new RepositoryListPrecios();
+   * const vigencias = await repository.getValidityWindows('100');
+   */
+  public async getValidityWindows(proveedor: string): Promise<ValidityWindow[]> {
+    const client = await pool.connect();
+    try {
+      return await this.queryValidityWindows(client, proveedor);
+    } catch (error: any) {
+      throw new Error(`Error al obtener vigencias: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
 
+  /**
+   * Consulta las vigencias de un proveedor con la conexión indicada.
+   * 
+   * @private
+   * @param {PoolClient} client - Conexión (puede tener una transacción activa)
+   * @param {string} proveedor - ID del proveedor
+   * @returns {Promise<ValidityWindow[]>} Vigencias ordenadas por fecha de inicio
+   */
+  private async queryValidityWindows(client: PoolClient, proveedor: string): Promise<ValidityWindow[]> {
+    const result = await client.query(
+      `SELECT dv.id,
+              dv.id_proveedor::text AS id_proveedor,
+              to_char(dv.fecha_inicio, 'YYYY-MM-DD') AS fecha_inicio,
+              to_char(dv.fecha_fin, 'YYYY-MM-DD') AS fecha_fin,
+              dv.submission_id,
+              dv.estado,
+              s.status AS submission_status,
+              s.item_count
+       FROM date_validity dv
+       LEFT JOIN price_list_submissions s ON s.id = dv.submission_id
+       WHERE dv.id_proveedor::text = $1::text
+       ORDER BY dv.fecha_inicio, dv.id`,
+      [proveedor]
+    );
+    return result.rows;
+  }
 
+  /**
+   * Obtiene registros de lista de precios por ID, solo si son del proveedor.
+   * 
+   * Lo usa la actualización parcial de precios para completar cada cambio con
+   * los valores aprobados del registro: los IDs inexistentes o de otro
+   * proveedor se devuelven como errores por fila y no se incluyen.
+   * 
+   * @async
+   * @public
+   * @param {number[]} ids - IDs de registros en supplier_price_list
+   * @param {string} proveedor - ID del proveedor autenticado
+   * @returns {Promise<Object>} Registros encontrados y errores por fila
+   * @returns {SupplierPriceRow[]} return.rows - Registros del proveedor
+   * @returns {PriceListRowError[]} return.errors - Filas no encontradas o de otro proveedor
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   * 
+   * @example
+   * const repository = new RepositoryListPrecios();
+   * const { rows, errors } = await repository.getPricesById([1, 2], '100');
+   */
+  public async getPricesById(
+    ids: number[],
+    proveedor: string
+  ): Promise<{ rows: SupplierPriceRow[]; errors: PriceListRowError[] }> {
+    if (ids.length === 0) return { rows: [], errors: [] };
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const errors = await this.checkOwnership(client, "supplier_price_list", "proveedor_id", ids, proveedor);
+      const rejected = new Set(errors.map((error) => error.id));
+
+      const result = await client.query(
+        `SELECT ${PRICE_COLUMNS}
+         FROM supplier_price_list WHERE id = ANY($1::int[])`,
+        [ids.filter((id) => !rejected.has(id))]
+      );
+      await client.query("COMMIT");
+
+      return { rows: result.rows, errors };
+    } catch (error: any) {
+      await client.query("ROLLBACK");
+      throw new Error(`Error al obtener lista de precios: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
 
   /**
-   * Actualiza precios en listas existentes.
+   * Obtiene el historial de cambios de un registro de lista de precios.
    * 
-   * Actualiza selectivamente costos unitarios y descuentos de items en listas
-   * de precios. Solo actualiza registros donde los valores son diferentes a los
-   * existentes, evitando actualizaciones innecesarias. La operación se realiza
-   * en una transacción para garantizar consistencia.
+   * El historial solo admite inserciones: cada alta, actualización o
+   * eliminación del registro agrega una fila con los valores anteriores y nuevos, el actor,
+   * la fecha y la vigencia del proveedor activa en ese momento.
    * 
    * @async
    * @public
-   * @param {UpdatePriceListItem[]} data - Array de items a actualizar
-   * @param {number} data[].id - ID del registro a actualizar
-   * @param {number} data[].costo_unitario - Nuevo costo unitario
-   * @param {number} data[].descuento1 - Nuevo primer descuento
-   * @param {number} data[].descuento2 - Nuevo segundo descuento
+   * @param {number} id - ID del registro en supplier_price_list
+   * @returns {Promise<PriceHistoryEntry[]>} Cambios del registro, del más reciente al más antiguo
    * 
-   * @returns {Promise<Object>} Resultado de la operación
-   * @returns {number} return.updatedCount - Cantidad de registros actualizados
-   * @returns {SupplierPriceRow[]} return.updatedItems - Array de registros actualizados
-   * @returns {string} return.message - Mensaje descriptivo del resultado
+   * @throws {Error} Si ocurre un error durante la consulta
    * 
-   * @throws {Error} Si los datos no son un array
-   * @throws {Error} Si ocurre un error durante la actualización
+   * @example
+   * const repository = new RepositoryListPrecios();
+   * const historial = await repository.getPriceHistory(1);
+   */
+  public async getPriceHistory(id: number): Promise<PriceHistoryEntry[]> {
+    try {
+      const result = await pool.query(
+        `SELECT id, price_list_id, proveedor_id, cod_prov, cod_sap, centro, action,
+                old_costo_unitario, old_descuento1, old_descuento2,
+                new_costo_unitario, new_descuento1, new_descuento2,
+                new_costo_original AS costo_original, moneda, unidad, factor_unidad, tasa_cambio,
+                changed_by, changed_at, vigencia_inicio, vigencia_fin
+         FROM supplier_price_history
+         WHERE price_list_id = $1
+         ORDER BY changed_at DESC, id DESC`,
+        [id]
+      );
+      return result.rows;
+    } catch (error: any) {
+      throw new Error(`Error al obtener historial de precios: ${error.message}`);
+    }
+  }
+
+  /**
+   * Obtiene el proveedor dueño y el centro de un registro de lista de precios.
+   * 
+   * Si el registro fue eliminado se toman de su historial, para que se pueda
+   * seguir consultando qué precios tuvo.
+   * 
+   * @async
+   * @public
+   * @param {number} id - ID del registro en supplier_price_list
+   * @returns {Promise<Object | null>} Proveedor y centro del registro, o null si el registro no existe
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   */
+  public async getPriceOwner(id: number): Promise<{ proveedor_id: string; centro: string } | null> {
+    try {
+      const result = await pool.query(
+        `SELECT proveedor_id::text, COALESCE(centro, $2) AS centro FROM supplier_price_list WHERE id = $1
+         UNION ALL
+         (SELECT proveedor_id::text, COALESCE(centro, $2) FROM supplier_price_history WHERE price_list_id = $1 LIMIT 1)
+         LIMIT 1`,
+        [id, DEFAULT_CENTRO]
+      );
+      if (result.rows.length === 0) return null;
+      const [row] = result.rows;
+      return { proveedor_id: String(row.proveedor_id), centro: String(row.centro).trim() };
+    } catch (error: any) {
+      throw new Error(`Error al obtener lista de precios: ${error.message}`);
+    }
+  }
+
+  /**
+   * Obtiene el registro vigente de cada material del proveedor en cada centro.
+   * 
+   * Si un COD_PROV quedó cargado más de una vez en un centro se toma el
+   * actualizado más recientemente, que es el que se muestra como precio actual.
+   * 
+   * @async
+   * @public
+   * @param {string} proveedor - ID del proveedor
+   * @param {string[]} [codProvs] - Códigos de material a buscar (todos si no se indican)
+   * @returns {Promise<SupplierPriceRow[]>} Un registro por COD_PROV y centro encontrado
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
    * 
    * @example
    * const repository = new RepositoryListPrecios();
-   * const resultado = await repository.updateListPrice([
-   *   {
-   *     id: 1,
-   *     costo_unitario: 150.00,
-   *     descuento1: 10,
-   *     descuento2: 5
-   *   }
-   * ]);
-   * console.log(resultado.message);
-   * // "1 registros actualizados correctamente"
+   * const vigentes = await repository.getCurrentPrices('100', ['A100', 'B200']);
    */
-  public async updateListPrice(data: UpdatePriceListItem[]): Promise<{
-    updatedCount: number;
-    updatedItems: SupplierPriceRow[];
-    message: string;
-  }> {
-    if (!Array.isArray(data)) {
-      throw new Error("Los datos deben ser un array");
+  public async getCurrentPrices(proveedor: string, codProvs?: string[]): Promise<SupplierPriceRow[]> {
+    if (codProvs?.length === 0) return [];
+
+    try {
+      const result = await pool.query(
+        `SELECT DISTINCT ON (cod_prov, centro)
+                ${PRICE_COLUMNS},
+                fecha_actualizacion AS fecha_actualizacion_precio
+         FROM supplier_price_list
+         WHERE proveedor_id::text = $1::text
+           AND ($2::text[] IS NULL OR cod_prov = ANY($2::text[]))
+         ORDER BY cod_prov, centro, fecha_actualizacion DESC NULLS LAST, id DESC`,
+        [proveedor, codProvs ?? null]
+      );
+      return result.rows;
+    } catch (error: any) {
+      throw new Error(`Error al obtener lista de precios: ${error.message}`);
     }
+  }
+
+  /**
+   * Indica cuáles materiales existen en SAP para el proveedor en su centro.
+   * 
+   * Usa el mismo cruce que getPrices (`cod_prov = bk_material` en el centro
+   * del registro) sobre postgre_sap.stg_consulta_costo.
+   * 
+   * @async
+   * @public
+   * @param {string} proveedor - ID del proveedor
+   * @param {PriceListItem[]} items - Items a verificar (COD_PROV y CENTRO)
+   * @returns {Promise<Set<string>>} Claves (PriceList.keyOf) de los materiales encontrados en SAP
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   */
+  public async findSapMaterials(proveedor: string, items: PriceListItem[]): Promise<Set<string>> {
+    if (items.length === 0) return new Set();
 
-    if (data.length === 0) {
-      return { updatedCount: 0, updatedItems: [], message: "No se proporcionaron datos para actualizar" };
+    try {
+      const result = await pool.query(
+        `SELECT DISTINCT sc.bk_material, sc.bk_centro
+         FROM postgre_sap.stg_consulta_costo sc
+         JOIN unnest($2::text[], $3::text[]) AS i(material, centro)
+           ON sc.bk_material = i.material AND sc.bk_centro = i.centro
+         WHERE sc.bk_proveedor = $1`,
+        [proveedor, items.map((item) => item.COD_PROV), items.map((item) => PriceList.centroOf(item))]
+      );
+      return new Set(result.rows.map((row: any) => PriceList.keyOf(row.bk_material, row.bk_centro)));
+    } catch (error: any) {
+      throw new Error(`Error al consultar materiales en SAP: ${error.message}`);
     }
+  }
 
-    const client = await pool.connect();
+  /**
+   * Obtiene los centros de distribución que existen en SAP.
+   * 
+   * Son los bk_centro de postgre_sap.stg_consulta_costo; con ellos se validan
+   * los centros de las listas y de las consultas.
+   * 
+   * @async
+   * @public
+   * @returns {Promise<string[]>} Códigos de centro, ordenados
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   * 
+   * @example
+   * const repository = new RepositoryListPrecios();
+   * const centros = await repository.getCentros(); // ['1001', '1002', '2001']
+   */
+  public async getCentros(): Promise<string[]> {
     try {
-      await client.query("BEGIN");
-      let updatedCount = 0;
-      const updatedItems: SupplierPriceRow[] = [];
-
-      for (const item of data) {
-        const query = {
-          text: `
-            UPDATE supplier_price_list 
-            SET 
-              costo_unitario = $1,
-              descuento1 = $2,
-              descuento2 = $3,
-              updated_at = CURRENT_TIMESTAMP
-            WHERE id = $4
-              AND (
-                costo_unitario IS DISTINCT FROM $1 OR
-                descuento1 IS DISTINCT FROM $2 OR
-                descuento2 IS DISTINCT FROM $3
-              )
-            RETURNING id, cod_prov, cod_sap, costo_unitario, descuento1, descuento2, proveedor_id
-          `,
-          values: [
-            parseFloat(String(item.costo_unitario)),
-            parseFloat(String(item.descuento1)),
-            parseFloat(String(item.descuento2)),
-            item.id,
-          ],
-        };
-
-        const result = await client.query(query);
-        if (result.rows.length > 0) {
-          updatedCount++;
-          updatedItems.push(result.rows[0]);
-        }
-      }
+      const result = await pool.query(
+        `SELECT DISTINCT TRIM(bk_centro) AS centro
+         FROM postgre_sap.stg_consulta_costo
+         WHERE bk_centro IS NOT NULL AND TRIM(bk_centro) <> ''
+         ORDER BY centro`
+      );
+      return result.rows.map((row: any) => String(row.centro));
+    } catch (error: any) {
+      throw new Error(`Error al obtener centros de distribución: ${error.message}`);
+    }
+  }
 
-      await client.query("COMMIT");
+  /**
+   * Obtiene los umbrales de variación frente al precio efectivo de SAP.
+   * 
+   * Hay como máximo un umbral global, uno por categoría (bk_categoria de
+   * postgre_sap.stg_consulta_costo) y uno por proveedor:
+   * 
+   *   CREATE TABLE price_variance_thresholds (
+   *     id SERIAL PRIMARY KEY,
+   *     scope VARCHAR(10) NOT NULL CHECK (scope IN ('global', 'category', 'supplier')),
+   *     scope_key TEXT, -- categoría o proveedor; NULL en el global
+   *     max_pct NUMERIC(6,2) NOT NULL CHECK (max_pct >= 0),
+   *     updated_by TEXT,
+   *     updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+   *     CHECK ((scope = 'global') = (scope_key IS NULL))
+   *   );
+   *   CREATE UNIQUE INDEX uq_price_variance_thresholds ON price_variance_thresholds (scope, COALESCE(scope_key, ''));
+   * 
+   * @async
+   * @public
+   * @returns {Promise<PriceVarianceThreshold[]>} Umbrales configurados
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   */
+  public async getVarianceThresholds(): Promise<PriceVarianceThreshold[]> {
+    try {
+      const result = await pool.query(
+        `SELECT scope, scope_key, max_pct::float8 AS max_pct
+         FROM price_variance_thresholds`
+      );
+      return result.rows;
+    } catch (error: any) {
+      throw new Error(`Error al obtener umbrales de variación: ${error.message}`);
+    }
+  }
 
-      return {
-        updatedCount,
-        updatedItems,
-        message:
-          updatedCount === 0
-            ? "No se modificaron registros (los valores eran iguales)"
-            : `${updatedCount} registros actualizados correctamente`,
-      };
+  /**
+   * Obtiene la tasa de cambio a COP vigente en una fecha para cada moneda.
+   * 
+   * Es la última tasa registrada hasta esa fecha (inclusive):
+   * 
+   *   CREATE TABLE price_exchange_rates (
+   *     moneda      CHAR(3) NOT NULL,   -- ISO 4217
+   *     fecha       DATE NOT NULL,
+   *     tasa        NUMERIC(18,6) NOT NULL CHECK (tasa > 0),  -- COP por 1 unidad de moneda
+   *     updated_by  TEXT,
+   *     updated_at  TIMESTAMP NOT NULL DEFAULT NOW(),
+   *     PRIMARY KEY (moneda, fecha)
+   *   );
+   * 
+   * Las tasas se leen como texto para no perder precisión (ver Decimal).
+   * 
+   * @async
+   * @public
+   * @param {string} [date] - Fecha (YYYY-MM-DD, por defecto hoy)
+   * @returns {Promise<ExchangeRate[]>} Una tasa por moneda que tenga alguna hasta la fecha
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   * 
+   * @example
+   * const repository = new RepositoryListPrecios();
+   * const tasas = await repository.getExchangeRates('2026-04-01');
+   * // [{ moneda: 'USD', fecha: '2026-03-31', tasa: '4012.500000' }]
+   */
+  public async getExchangeRates(date: string = DateValidity.today()): Promise<ExchangeRate[]> {
+    const client = await pool.connect();
+    try {
+      return await this.queryExchangeRates(client, date);
     } catch (error: any) {
-      await client.query("ROLLBACK");
-      throw new Error(`Error al actualizar lista de precios: ${error.message}`);
+      throw new Error(`Error al obtener tasas de cambio: ${error.message}`);
     } finally {
       client.release();
     }
   }
+
+  /**
+   * Consulta las tasas de cambio vigentes con la conexión indicada.
+   * 
+   * @private
+   * @param {PoolClient} client - Conexión (puede tener una transacción activa)
+   * @param {string} date - Fecha (YYYY-MM-DD)
+   * @returns {Promise<ExchangeRate[]>} Una tasa por moneda
+   */
+  private async queryExchangeRates(client: PoolClient, date: string): Promise<ExchangeRate[]> {
+    const result = await client.query(
+      `SELECT DISTINCT ON (moneda)
+              TRIM(moneda) AS moneda, to_char(fecha, 'YYYY-MM-DD') AS fecha, tasa::text AS tasa
+       FROM price_exchange_rates
+       WHERE fecha <= $1::date
+       ORDER BY moneda, fecha DESC`,
+      [date]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Obtiene la tabla de tasas de impuesto por código tax_1 de SAP.
+   * 
+   *   CREATE TABLE price_tax_rates (
+   *     tax_code TEXT PRIMARY KEY, -- valor de postgre_sap.stg_consulta_costo.tax_1
+   *     rate_pct NUMERIC(5,2) NOT NULL CHECK (rate_pct >= 0),
+   *     description TEXT,
+   *     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+   *   );
+   * 
+   * Las tasas se leen como texto para no perder precisión (ver Decimal).
+   * 
+   * @async
+   * @public
+   * @returns {Promise<PriceTaxRate[]>} Tasas por código
+   * 
+   * @throws {Error} Si ocurre un error durante la consulta
+   */
+  public async getTaxRates(): Promise<PriceTaxRate[]> {
+    try {
+      const result = await pool.query(`SELECT tax_code, rate_pct::text AS rate_pct FROM price_tax_rates`);
+      return result.rows;
+    } catch (error: any) {
+      throw new Error(`Error al obtener tasas de impuesto: ${error.message}`);
+    }
+  }
+
+  /**
+   * Agrega una entrada al historial de precios dentro de la transacción en curso.
+   * 
+   * La vigencia registrada es la del proveedor activa al momento del cambio
+   * (null si no tiene ninguna vigente). El historial vive en:
+   * 
+   *   CREATE TABLE supplier_price_history (
+   *     id                  BIGSERIAL PRIMARY KEY,
+   *     price_list_id       INTEGER NOT NULL,
+   *     proveedor_id        VARCHAR(20) NOT NULL,
+   *     cod_prov            VARCHAR(12),
+   *     cod_sap             VARCHAR(6),
+   *     centro              VARCHAR(4),            -- centro de distribución del registro
+   *     action              VARCHAR(10) NOT NULL,  -- INSERT | UPDATE | DELETE
+   *     old_costo_unitario  NUMERIC,
+   *     old_descuento1      NUMERIC,
+   *     old_descuento2      NUMERIC,
+   *     new_costo_unitario  NUMERIC,
+   *     new_descuento1      NUMERIC,
+   *     new_descuento2      NUMERIC,
+   *     changed_by          VARCHAR(60) NOT NULL,
+   *     changed_at          TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+   *     vigencia_inicio     DATE,
+   *     vigencia_fin        DATE
+   *   );
+   *   CREATE INDEX idx_price_history_item ON supplier_price_history (price_list_id, changed_at);
+   *   CREATE INDEX idx_price_history_proveedor ON supplier_price_history (proveedor_id, changed_at);
+   * 
+   * Para las tablas creadas antes de cotizar por centro:
+   * 
+   *   ALTER TABLE supplier_price_history ADD COLUMN centro VARCHAR(4);
+   *   UPDATE supplier_price_history SET centro = '1001';
+   * 
+   * y antes de guardar la cotización original (moneda, unidad y tasa con que
+   * se convirtió el costo nuevo):
+   * 
+   *   ALTER TABLE supplier_price_history
+   *     ADD COLUMN new_costo_original NUMERIC,
+   *     ADD COLUMN moneda CHAR(3),
+   *     ADD COLUMN unidad VARCHAR(3),
+   *     ADD COLUMN factor_unidad NUMERIC,
+   *     ADD COLUMN tasa_cambio NUMERIC,
+   *     ADD COLUMN fecha_tasa DATE;
+   *   UPDATE supplier_price_history
+   *   SET new_costo_original = new_costo_unitario, moneda = 'COP', factor_unidad = 1, tasa_cambio = 1;
+   * 
+   * Los registros existentes antes del historial se cargan una vez como INSERT:
+   * 
+   *   INSERT INTO supplier_price_history (price_list_id, proveedor_id, cod_prov, cod_sap, action,
+   *     new_costo_unitario, new_descuento1, new_descuento2, changed_by, changed_at)
+   *   SELECT id, proveedor_id, cod_prov, cod_sap, 'INSERT', costo_unitario, descuento1, descuento2,
+   *     'migration', COALESCE(fecha_actualizacion, CURRENT_TIMESTAMP)
+   *   FROM supplier_price_list;
+   * 
+   * @private
+   * @param {PoolClient} client - Conexión con la transacción activa
+   * @param {"INSERT" | "UPDATE" | "DELETE"} action - Tipo de cambio
+   * @param {SupplierPriceRow | null} before - Valores anteriores (null en inserciones)
+   * @param {SupplierPriceRow | null} after - Valores resultantes (null en eliminaciones)
+   * @param {string} actor - Quien realiza la operación
+   */
+  private async recordHistory(
+    client: PoolClient,
+    action: "INSERT" | "UPDATE" | "DELETE",
+    before: SupplierPriceRow | null,
+    after: SupplierPriceRow | null,
+    actor: string
+  ): Promise<void> {
+    const row = (after ?? before)!;
+
+    await client.query(
+      `INSERT INTO supplier_price_history (
+         price_list_id, proveedor_id, cod_prov, cod_sap, action,
+         old_costo_unitario, old_descuento1, old_descuento2,
+         new_costo_unitario, new_descuento1, new_descuento2,
+         changed_by, vigencia_inicio, vigencia_fin, centro,
+         new_costo_original, moneda, unidad, factor_unidad, tasa_cambio, fecha_tasa
+       )
+       SELECT $1::int, $2::text, $3::text, $4::text, $5::text,
+              $6::numeric, $7::numeric, $8::numeric,
+              $9::numeric, $10::numeric, $11::numeric,
+              $12::text, dv.fecha_inicio, dv.fecha_fin, $13::text,
+              $14::numeric, $15::text, $16::text, $17::numeric, $18::numeric, $19::date
+       FROM (SELECT 1) AS one
+       LEFT JOIN LATERAL (
+         SELECT fecha_inicio, fecha_fin
+         FROM date_validity
+         WHERE id_proveedor::text = $2::text
+           AND CURRENT_DATE BETWEEN fecha_inicio AND fecha_fin
+         ORDER BY fecha_inicio DESC
+         LIMIT 1
+       ) dv ON TRUE`,
+      [
+        row.id,
+        String(row.proveedor_id),
+        row.cod_prov ?? null,
+        row.cod_sap ?? null,
+        action,
+        before?.costo_unitario ?? null,
+        before?.descuento1 ?? null,
+        before?.descuento2 ?? null,
+        after?.costo_unitario ?? null,
+        after?.descuento1 ?? null,
+        after?.descuento2 ?? null,
+        actor,
+        row.centro ?? null,
+        after?.costo_original ?? null,
+        after?.moneda ?? null,
+        after?.unidad ?? null,
+        after?.factor_unidad ?? null,
+        after?.tasa_cambio ?? null,
+        after?.fecha_tasa ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Verifica que los registros indicados existan y pertenezcan al proveedor.
+   * 
+   * Bloquea las filas encontradas (FOR UPDATE) para que la verificación siga
+   * siendo válida durante la transacción en curso. Un ID que no es un entero
+   * positivo se reporta como INVALID en su fila, sin consultarlo.
+   * 
+   * @private
+   * @param {PoolClient} client - Conexión con la transacción activa
+   * @param {string} table - Tabla a verificar
+   * @param {string} ownerColumn - Columna con el ID del proveedor dueño
+   * @param {number[]} ids - IDs de registros a verificar
+   * @param {string} proveedor - ID del proveedor autenticado
+   * @returns {Promise<PriceListRowError[]>} Errores de las filas inválidas, inexistentes o ajenas
+   */
+  private async checkOwnership(
+    client: PoolClient,
+    table: "supplier_price_list" | "date_validity",
+    ownerColumn: "proveedor_id" | "id_proveedor",
+    ids: number[],
+    proveedor: string
+  ): Promise<PriceListRowError[]> {
+    if (ids.length === 0) return [];
+
+    const isValidId = (id: number) => Number.isInteger(id) && id > 0;
+    const valid = ids.filter(isValidId);
+    const owners = new Map<number, string>();
+    if (valid.length > 0) {
+      const result = await client.query(
+        `SELECT id, ${ownerColumn} AS owner FROM ${table} WHERE id = ANY($1::int[]) FOR UPDATE`,
+        [valid]
+      );
+      result.rows.forEach((row: any) => owners.set(Number(row.id), String(row.owner)));
+    }
+
+    const errors: PriceListRowError[] = [];
+    for (const id of ids) {
+      const owner = owners.get(Number(id));
+      if (!isValidId(id)) {
+        errors.push({ id, code: "INVALID", message: "id debe ser un entero positivo" });
+      } else if (owner === undefined) {
+        errors.push({ id, code: "NOT_FOUND", message: `El registro ${id} no existe` });
+      } else if (owner !== String(proveedor)) {
+        errors.push({ id, code: "FORBIDDEN", message: `El registro ${id} no pertenece al proveedor` });
+      }
+    }
+    return errors;
+  }
 }
@@ -0,0 +1,504 @@
+import pool from "../../../config/database";
+import { PoolClient } from "pg";
+import RepositoryListPrecios from "./repositoryPriceList";
+import SubmissionWorkflow from "../domain/SubmissionWorkflow";
+import { DEFAULT_CENTRO } from "../domain/PriceList";
+import {
+  PriceListItem,
+  PriceListSaveMode,
+  PriceListSaveResult,
+  PriceListSubmission,
+  PriceListSubmissionEvent,
+  SubmissionSource,
+  SubmissionStatus,
+} from "../../../shared/types/priceList";
+
+/**
+ * Columnas de price_list_submissions que se devuelven en las consultas
+ * @constant {string}
+ */
+const SUBMISSION_COLUMNS = `id, proveedor_id, status, mode, source, item_count, created_by, created_at,
+  updated_at, review_comment, reviewed_by, reviewed_at`;
+
+/**
+ * Repositorio de solicitudes de cambio de listas de precios.
+ *
+ * Guarda los precios propuestos por el proveedor hasta que un comprador los
+ * aprueba; solo entonces pasan a supplier_price_list. Cada cambio de estado
+ * queda registrado con el actor, la fecha y el comentario. Tablas:
+ *
+ *   CREATE TABLE price_list_submissions (
+ *     id              SERIAL PRIMARY KEY,
+ *     proveedor_id    VARCHAR(20) NOT NULL,
+ *     status          VARCHAR(20) NOT NULL,  -- draft | submitted | in_review | approved | rejected | changes_requested
+ *     mode            VARCHAR(10) NOT NULL,  -- merge | replace
+ *     source          VARCHAR(20) NOT NULL,  -- validate | upload | update-prices
+ *     item_count      INTEGER NOT NULL,
+ *     created_by      VARCHAR(60) NOT NULL,
+ *     created_at      TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ *     updated_at      TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ *     review_comment  TEXT,
+ *     reviewed_by     VARCHAR(60),
+ *     reviewed_at     TIMESTAMP
+ *   );
+ *   CREATE INDEX idx_submissions_proveedor ON price_list_submissions (proveedor_id, created_at);
+ *   CREATE INDEX idx_submissions_status ON price_list_submissions (status, created_at);
+ *
+ *   CREATE TABLE price_list_submission_items (
+ *     id              BIGSERIAL PRIMARY KEY,
+ *     submission_id   INTEGER NOT NULL REFERENCES price_list_submissions (id) ON DELETE CASCADE,
+ *     position        INTEGER NOT NULL,
+ *     cod_prov        VARCHAR(12) NOT NULL,
+ *     cod_sap         VARCHAR(6),
+ *     descrip         VARCHAR(40),
+ *     costo_unitario  NUMERIC,
+ *     descuento1      NUMERIC,
+ *     descuento2      NUMERIC,
+ *     centro          VARCHAR(4),  -- NULL en solicitudes anteriores a los centros (centro por defecto)
+ *     moneda          CHAR(3),     -- cotización tal como la envió el proveedor; NULL = COP
+ *     unidad          VARCHAR(3),
+ *     factor_unidad   NUMERIC,
+ *     campos          TEXT[]       -- actualizaciones parciales: columnas a aplicar (COSTO_UNIT, DESC1, DESC2); NULL = registro completo
+ *   );
+ *   CREATE INDEX idx_submission_items ON price_list_submission_items (submission_id, position);
+ *
+ *   CREATE TABLE price_list_submission_events (
+ *     id              BIGSERIAL PRIMARY KEY,
+ *     submission_id   INTEGER NOT NULL REFERENCES price_list_submissions (id),
+ *     from_status     VARCHAR(20),
+ *     to_status       VARCHAR(20) NOT NULL,
+ *     actor           VARCHAR(60) NOT NULL,
+ *     comment         TEXT,
+ *     created_at      TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ *   CREATE INDEX idx_submission_events ON price_list_submission_events (submission_id, created_at);
+ *
+ * Bases que ya tenían la tabla de items sin la columna campos:
+ *
+ *   ALTER TABLE price_list_submission_items ADD COLUMN campos TEXT[];
+ *
+ * Los precios cargados antes del flujo de aprobación se consideran aprobados.
+ *
+ * @class RepositorySubmissions
+ * @module PriceList/Repositories
+ */
+export default class RepositorySubmissions {
+  /**
+   * Repositorio de listas de precios, para aplicar las solicitudes aprobadas
+   * @private
+   * @type {RepositoryListPrecios}
+   */
+  private prices = new RepositoryListPrecios();
+
+  /**
+   * Crea una solicitud con sus items, como borrador o ya enviada.
+   *
+   * @async
+   * @public
+   * @param {Object} params - Datos de la solicitud
+   * @param {string} params.proveedor - ID del proveedor dueño
+   * @param {PriceListSaveMode} params.mode - Modo con el que se aplicará al aprobarse
+   * @param {SubmissionSource} params.source - Ruta por la que llegaron los precios
+   * @param {PriceListItem[]} params.items - Items ya validados y normalizados
+   * @param {string} params.actor - Quien crea la solicitud
+   * @param {boolean} params.submit - true para dejarla enviada (submitted) en lugar de borrador
+   * @returns {Promise<PriceListSubmission>} Solicitud creada
+   *
+   * @throws {Error} Si ocurre un error durante la inserción
+   */
+  public async create(params: {
+    proveedor: string;
+    mode: PriceListSaveMode;
+    source: SubmissionSource;
+    items: PriceListItem[];
+    actor: string;
+    submit: boolean;
+  }): Promise<PriceListSubmission> {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const result = await client.query(
+        `INSERT INTO price_list_submissions (proveedor_id, status, mode, source, item_count, created_by)
+         VALUES ($1, 'draft', $2, $3, $4, $5)
+         RETURNING ${SUBMISSION_COLUMNS}`,
+        [params.proveedor, params.mode, params.source, params.items.length, params.actor]
+      );
+      let submission: PriceListSubmission = result.rows[0];
+
+      await this.insertItems(client, submission.id, params.items);
+      await this.recordEvent(client, submission.id, null, "draft", params.actor, null);
+
+      if (params.submit) {
+        submission = (await this.changeStatus(client, submission.id, ["draft"], "submitted", params.actor, null))!;
+      }
+
+      await client.query("COMMIT");
+      return submission;
+    } catch (error: any) {
+      await client.query("ROLLBACK");
+      throw new Error(`Error al crear la solicitud de lista de precios: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Obtiene una solicitud con sus items y su historial de estados.
+   *
+   * @async
+   * @public
+   * @param {number} id - ID de la solicitud
+   * @returns {Promise<PriceListSubmission | null>} Solicitud, o null si no existe
+   *
+   * @throws {Error} Si ocurre un error durante la consulta
+   */
+  public async findById(id: number): Promise<PriceListSubmission | null> {
+    try {
+      const result = await pool.query(
+        `SELECT ${SUBMISSION_COLUMNS} FROM price_list_submissions WHERE id = $1`,
+        [id]
+      );
+      if (result.rows.length === 0) return null;
+
+      const [items, events] = await Promise.all([
+        pool.query(
+          `SELECT cod_prov AS "COD_PROV", cod_sap AS "COD_SAP", descrip AS "DESCRIP",
+                  costo_unitario::float8 AS "COSTO_UNIT", descuento1::float8 AS "DESC1",
+                  descuento2::float8 AS "DESC2", centro AS "CENTRO", moneda AS "MONEDA",
+                  unidad AS "UNIDAD", factor_unidad::float8 AS "FACTOR_UNIDAD", campos AS "CAMPOS"
+           FROM price_list_submission_items
+           WHERE submission_id = $1
+           ORDER BY position`,
+          [id]
+        ),
+        pool.query(
+          `SELECT id, submission_id, from_status, to_status, actor, comment, created_at
+           FROM price_list_submission_events
+           WHERE submission_id = $1
+           ORDER BY created_at, id`,
+          [id]
+        ),
+      ]);
+
+      return { ...result.rows[0], items: items.rows, events: events.rows as PriceListSubmissionEvent[] };
+    } catch (error: any) {
+      throw new Error(`Error al obtener la solicitud de lista de precios: ${error.message}`);
+    }
+  }
+
+  /**
+   * Lista solicitudes (sin items), de la más reciente a la más antigua.
+   *
+   * @async
+   * @public
+   * @param {Object} [filters] - Filtros opcionales
+   * @param {string} [filters.proveedor] - Solo las de este proveedor
+   * @param {SubmissionStatus} [filters.status] - Solo las que están en este estado
+   * @param {string[]} [filters.centros] - Solo las que no tienen items de otros centros
+   * @returns {Promise<PriceListSubmission[]>} Solicitudes encontradas
+   *
+   * @throws {Error} Si ocurre un error durante la consulta
+   */
+  public async list(
+    filters: { proveedor?: string; status?: SubmissionStatus; centros?: string[] } = {}
+  ): Promise<PriceListSubmission[]> {
+    const values: any[] = [];
+    let query = `SELECT ${SUBMISSION_COLUMNS} FROM price_list_submissions WHERE TRUE`;
+
+    if (filters.proveedor) {
+      values.push(filters.proveedor);
+      query += ` AND proveedor_id = $${values.length}`;
+    }
+    if (filters.status) {
+      values.push(filters.status);
+      query += ` AND status = $${values.length}`;
+    }
+    if (filters.centros) {
+      // Solo las solicitudes cuyos items son todos de los centros indicados
+      values.push(filters.centros, DEFAULT_CENTRO);
+      query += ` AND NOT EXISTS (
+        SELECT 1 FROM price_list_submission_items i
+        WHERE i.submission_id = price_list_submissions.id
+          AND COALESCE(i.centro, $${values.length}) <> ALL($${values.length - 1}::text[])
+      )`;
+    }
+    query += ` ORDER BY created_at DESC, id DESC`;
+
+    try {
+      const result = await pool.query(query, values);
+      return result.rows;
+    } catch (error: any) {
+      throw new Error(`Error al listar solicitudes de lista de precios: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reemplaza los items de una solicitud que el proveedor todavía puede editar.
+   *
+   * Si la solicitud tenía cambios solicitados vuelve a borrador (queda
+   * registrado como transición del proveedor).
+   *
+   * @async
+   * @public
+   * @param {number} id - ID de la solicitud
+   * @param {SubmissionStatus[]} editable - Estados en los que se permite editar
+   * @param {PriceListSaveMode} mode - Nuevo modo de la solicitud
+   * @param {PriceListItem[]} items - Items ya validados y normalizados
+   * @param {string} actor - Quien edita la solicitud
+   * @returns {Promise<PriceListSubmission | null>} Solicitud actualizada, o null si ya no estaba en un estado editable
+   *
+   * @throws {Error} Si ocurre un error durante la actualización
+   */
+  public async replaceItems(
+    id: number,
+    editable: SubmissionStatus[],
+    mode: PriceListSaveMode,
+    items: PriceListItem[],
+    actor: string
+  ): Promise<PriceListSubmission | null> {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const locked = await client.query(
+        `SELECT status FROM price_list_submissions WHERE id = $1 AND status = ANY($2::text[]) FOR UPDATE`,
+        [id, editable]
+      );
+      if (locked.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      if (locked.rows[0].status !== "draft") {
+        await this.changeStatus(client, id, [locked.rows[0].status], "draft", actor, null);
+      }
+
+      await client.query(`DELETE FROM price_list_submission_items WHERE submission_id = $1`, [id]);
+      await this.insertItems(client, id, items);
+      const result = await client.query(
+        `UPDATE price_list_submissions
+         SET mode = $2, item_count = $3, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING ${SUBMISSION_COLUMNS}`,
+        [id, mode, items.length]
+      );
+
+      await client.query("COMMIT");
+      return result.rows[0];
+    } catch (error: any) {
+      await client.query("ROLLBACK");
+      throw new Error(`Error al actualizar la solicitud de lista de precios: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Cambia el estado de una solicitud y registra la transición.
+   *
+   * La actualización solo ocurre si la solicitud sigue en el estado esperado,
+   * así que dos compradores no pueden decidir la misma solicitud a la vez.
+   * Al aprobarla, sus items se aplican a supplier_price_list en la misma
+   * transacción (upsert por COD_PROV con el modo de la solicitud), salvo que
+   * sea la versión de una vigencia programada: entonces se aplican cuando la
+   * vigencia se activa.
+   *
+   * @async
+   * @public
+   * @param {number} id - ID de la solicitud
+   * @param {SubmissionStatus} from - Estado esperado
+   * @param {SubmissionStatus} to - Estado destino
+   * @param {string} actor - Quien realiza la transición
+   * @param {string | null} comment - Comentario (nota del comprador)
+   * @returns {Promise<Object | null>} Solicitud actualizada y, si se aprobó, el resultado de aplicar los precios; null si el estado ya había cambiado
+   *
+   * @throws {Error} Si ocurre un error durante la actualización
+   */
+  public async transition(
+    id: number,
+    from: SubmissionStatus,
+    to: SubmissionStatus,
+    actor: string,
+    comment: string | null
+  ): Promise<{ submission: PriceListSubmission; result: PriceListSaveResult | null } | null> {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const submission = await this.changeStatus(client, id, [from], to, actor, comment);
+      if (!submission) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      // Si la solicitud es la versión de una vigencia que aún no empieza, sus
+      // precios los aplica el programador de vigencias al llegar la fecha
+      let result: PriceListSaveResult | null = null;
+      if (to === "approved") {
+        const scheduled = await client.query(
+          `SELECT 1 FROM date_validity WHERE submission_id = $1 AND estado = 'scheduled' LIMIT 1`,
+          [id]
+        );
+        if (scheduled.rows.length === 0) {
+          result = await this.applySubmission(client, submission, actor);
+        }
+      }
+
+      await client.query("COMMIT");
+      return { submission, result };
+    } catch (error: any) {
+      await client.query("ROLLBACK");
+      throw new Error(`Error al cambiar el estado de la solicitud: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Aplica los items de una solicitud a supplier_price_list con su modo.
+   *
+   * Se ejecuta en la transacción de quien llama: la aprobación o la
+   * activación de la vigencia ligada a la solicitud. Los items de una
+   * actualización parcial (con CAMPOS) solo cambian esas columnas del
+   * registro vigente.
+   *
+   * @async
+   * @public
+   * @param {PoolClient} client - Conexión con la transacción activa
+   * @param {PriceListSubmission} submission - Solicitud aprobada
+   * @param {string} actor - Quien aplica los precios
+   * @returns {Promise<PriceListSaveResult>} Conteos de insertados, actualizados, sin cambios y eliminados
+   */
+  public async applySubmission(
+    client: PoolClient,
+    submission: PriceListSubmission,
+    actor: string
+  ): Promise<PriceListSaveResult> {
+    const items = await client.query(
+      `SELECT cod_prov AS "COD_PROV", cod_sap AS "COD_SAP", costo_unitario AS "COSTO_UNIT",
+              descuento1 AS "DESC1", descuento2 AS "DESC2", centro AS "CENTRO",
+              moneda AS "MONEDA", unidad AS "UNIDAD", factor_unidad AS "FACTOR_UNIDAD", campos AS "CAMPOS"
+       FROM price_list_submission_items
+       WHERE submission_id = $1
+       ORDER BY position`,
+      [submission.id]
+    );
+    return this.prices.applyListPrecios(client, items.rows, submission.proveedor_id, submission.mode, actor);
+  }
+
+  /**
+   * Actualiza el estado si la solicitud está en uno de los esperados y registra el evento.
+   *
+   * Las transiciones del comprador guardan además quién revisó, cuándo y su nota.
+   *
+   * @private
+   * @param {PoolClient} client - Conexión con la transacción activa
+   * @param {number} id - ID de la solicitud
+   * @param {SubmissionStatus[]} from - Estados esperados
+   * @param {SubmissionStatus} to - Estado destino
+   * @param {string} actor - Quien realiza la transición
+   * @param {string | null} comment - Comentario de la transición
+   * @returns {Promise<PriceListSubmission | null>} Solicitud actualizada, o null si no estaba en un estado esperado
+   */
+  private async changeStatus(
+    client: PoolClient,
+    id: number,
+    from: SubmissionStatus[],
+    to: SubmissionStatus,
+    actor: string,
+    comment: string | null
+  ): Promise<PriceListSubmission | null> {
+    const locked = await client.query(
+      `SELECT status FROM price_list_submissions WHERE id = $1 AND status = ANY($2::text[]) FOR UPDATE`,
+      [id, from]
+    );
+    if (locked.rows.length === 0) return null;
+
+    const result = await client.query(
+      `UPDATE price_list_submissions
+       SET status = $2,
+           updated_at = CURRENT_TIMESTAMP,
+           reviewed_by = CASE WHEN $3::boolean THEN $4 ELSE reviewed_by END,
+           reviewed_at = CASE WHEN $3::boolean THEN CURRENT_TIMESTAMP ELSE reviewed_at END,
+           review_comment = CASE WHEN $3::boolean AND $5::text IS NOT NULL THEN $5 ELSE review_comment END
+       WHERE id = $1
+       RETURNING ${SUBMISSION_COLUMNS}`,
+      [id, to, SubmissionWorkflow.isReviewerTransition(to), actor, comment]
+    );
+
+    await this.recordEvent(client, id, locked.rows[0].status, to, actor, comment);
+    return result.rows[0];
+  }
+
+  /**
+   * Inserta los items de una solicitud conservando su orden.
+   *
+   * @private
+   * @param {PoolClient} client - Conexión con la transacción activa
+   * @param {number} id - ID de la solicitud
+   * @param {PriceListItem[]} items - Items a insertar
+   */
+  private async insertItems(client: PoolClient, id: number, items: PriceListItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    await client.query(
+      `INSERT INTO price_list_submission_items (
+         submission_id, position, cod_prov, cod_sap, descrip, costo_unitario, descuento1, descuento2, centro,
+         moneda, unidad, factor_unidad, campos
+       )
+       SELECT $1, i.position, i.cod_prov, i.cod_sap, i.descrip, i.costo_unitario, i.descuento1, i.descuento2, i.centro,
+              i.moneda, i.unidad, i.factor_unidad, i.campos
+       FROM jsonb_to_recordset($2::jsonb) AS i(
+         position INTEGER, cod_prov TEXT, cod_sap TEXT, descrip TEXT,
+         costo_unitario NUMERIC, descuento1 NUMERIC, descuento2 NUMERIC, centro TEXT,
+         moneda TEXT, unidad TEXT, factor_unidad NUMERIC, campos TEXT[]
+       )`,
+      [
+        id,
+        JSON.stringify(
+          items.map((item, position) => ({
+            position,
+            cod_prov: item.COD_PROV,
+            cod_sap: item.COD_SAP ?? null,
+            descrip: item.DESCRIP ?? null,
+            costo_unitario: item.COSTO_UNIT ?? null,
+            descuento1: item.DESC1 ?? null,
+            descuento2: item.DESC2 ?? null,
+            centro: item.CENTRO ?? null,
+            moneda: item.MONEDA ?? null,
+            unidad: item.UNIDAD ?? null,
+            factor_unidad: item.FACTOR_UNIDAD ?? null,
+            campos: item.CAMPOS ?? null,
+          }))
+        ),
+      ]
+    );
+  }
+
+  /**
+   * Registra un cambio de estado de la solicitud.
+   *
+   * @private
+   * @param {PoolClient} client - Conexión con la transacción activa
+   * @param {number} id - ID de la solicitud
+   * @param {SubmissionStatus | null} from - Estado anterior (null al crearla)
+   * @param {SubmissionStatus} to - Estado nuevo
+   * @param {string} actor - Quien realiza la transición
+   * @param {string | null} comment - Comentario de la transición
+   */
+  private async recordEvent(
+    client: PoolClient,
+    id: number,
+    from: SubmissionStatus | null,
+    to: SubmissionStatus,
+    actor: string,
+    comment: string | null
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO price_list_submission_events (submission_id, from_status, to_status, actor, comment)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, from, to, actor, comment]
+    );
+  }
+}
@@ -0,0 +1,314 @@
+import pool from "../../../config/database";
+import { PoolClient } from "pg";
+import RepositorySubmissions from "./repositorySubmissions";
+import {
+  PriceListSaveResult,
+  PriceListSubmission,
+  ValidityWindow,
+  ValidityWindowState,
+} from "../../../shared/types/priceList";
+
+/**
+ * Columnas de date_validity que devuelve el programador, con las fechas como texto YYYY-MM-DD
+ * @constant {string}
+ */
+const WINDOW_COLUMNS =
+  "dv.id, dv.id_proveedor::text AS id_proveedor, to_char(dv.fecha_inicio, 'YYYY-MM-DD') AS fecha_inicio, " +
+  "to_char(dv.fecha_fin, 'YYYY-MM-DD') AS fecha_fin, dv.submission_id, dv.estado";
+
+/**
+ * Clave del advisory lock de sesión que toma cada corrida del programador
+ * @constant {string}
+ */
+const SCHEDULER_LOCK = "price_list_validity_scheduler";
+
+/**
+ * Repositorio del programador de vigencias.
+ *
+ * Avanza el estado guardado de cada vigencia (scheduled -> active -> expired)
+ * según sus fechas y deja cada cambio registrado. Al activarse una vigencia
+ * ligada a una solicitud aprobada, sus precios se aplican a
+ * supplier_price_list en la misma transacción. Esquema:
+ *
+ *   ALTER TABLE date_validity
+ *     ADD COLUMN estado VARCHAR(10) NOT NULL DEFAULT 'scheduled'
+ *       CHECK (estado IN ('scheduled', 'active', 'expired')),
+ *     ADD COLUMN activated_at TIMESTAMP,
+ *     ADD COLUMN expired_at TIMESTAMP;
+ *   UPDATE date_validity SET estado = CASE
+ *     WHEN fecha_fin < CURRENT_DATE THEN 'expired'
+ *     WHEN fecha_inicio <= CURRENT_DATE THEN 'active'
+ *     ELSE 'scheduled'
+ *   END;
+ *   CREATE INDEX idx_date_validity_estado ON date_validity (estado, fecha_inicio);
+ *
+ *   CREATE TABLE date_validity_events (
+ *     id           BIGSERIAL PRIMARY KEY,
+ *     validity_id  INTEGER NOT NULL REFERENCES date_validity (id),
+ *     from_estado  VARCHAR(10),
+ *     to_estado    VARCHAR(10) NOT NULL,
+ *     actor        VARCHAR(60) NOT NULL,
+ *     detail       JSONB,
+ *     created_at   TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+ *   );
+ *   CREATE INDEX idx_date_validity_events ON date_validity_events (validity_id, created_at);
+ *
+ * @class RepositoryValidityScheduler
+ * @module PriceList/Repositories
+ */
+export default class RepositoryValidityScheduler {
+  /**
+   * Repositorio de solicitudes, para aplicar los precios de la versión que se activa
+   * @private
+   * @type {RepositorySubmissions}
+   */
+  private submissions = new RepositorySubmissions();
+
+  /**
+   * Ejecuta `fn` solo si ninguna otra instancia de la aplicación está
+   * corriendo el programador.
+   *
+   * Toma un advisory lock de sesión sin esperar: si otra instancia lo tiene,
+   * no ejecuta nada y devuelve null. El lock se libera al terminar, aunque
+   * `fn` falle (y Postgres lo libera si la conexión se cae).
+   *
+   * @async
+   * @public
+   * @template T
+   * @param {() => Promise<T>} fn - Trabajo a ejecutar con el lock tomado
+   * @returns {Promise<T | null>} Resultado de `fn`, o null si el lock estaba tomado
+   *
+   * @throws {Error} Si no es posible tomar o liberar el lock
+   */
+  public async withLock<T>(fn: () => Promise<T>): Promise<T | null> {
+    const client = await pool.connect();
+    let locked = false;
+    try {
+      const result = await client.query("SELECT pg_try_advisory_lock(hashtext($1)) AS locked", [SCHEDULER_LOCK]);
+      locked = result.rows[0].locked === true;
+      if (!locked) {
+        return null;
+      }
+      return await fn();
+    } finally {
+      if (locked) {
+        await client
+          .query("SELECT pg_advisory_unlock(hashtext($1))", [SCHEDULER_LOCK])
+          .catch((error: any) => console.error("Error al liberar el lock del programador:", error.message));
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * Obtiene las vigencias que deben vencer: las que no han vencido y cuya
+   * fecha de fin ya pasó.
+   *
+   * @async
+   * @public
+   * @param {string} date - Fecha de referencia (YYYY-MM-DD)
+   * @returns {Promise<ValidityWindow[]>} Vigencias a vencer
+   *
+   * @throws {Error} Si ocurre un error durante la consulta
+   */
+  public async getWindowsToExpire(date: string): Promise<ValidityWindow[]> {
+    try {
+      const result = await pool.query(
+        `SELECT ${WINDOW_COLUMNS}
+         FROM date_validity dv
+         WHERE dv.estado IN ('scheduled', 'active') AND dv.fecha_fin < $1::date
+         ORDER BY dv.fecha_fin, dv.id`,
+        [date]
+      );
+      return result.rows;
+    } catch (error: any) {
+      throw new Error(`Error al obtener vigencias por vencer: ${error.message}`);
+    }
+  }
+
+  /**
+   * Obtiene las vigencias que deben activarse: las programadas que incluyen
+   * la fecha indicada.
+   *
+   * @async
+   * @public
+   * @param {string} date - Fecha de referencia (YYYY-MM-DD)
+   * @returns {Promise<ValidityWindow[]>} Vigencias a activar
+   *
+   * @throws {Error} Si ocurre un error durante la consulta
+   */
+  public async getWindowsToActivate(date: string): Promise<ValidityWindow[]> {
+    try {
+      const result = await pool.query(
+        `SELECT ${WINDOW_COLUMNS}
+         FROM date_validity dv
+         WHERE dv.estado = 'scheduled' AND dv.fecha_inicio <= $1::date AND dv.fecha_fin >= $1::date
+         ORDER BY dv.fecha_inicio, dv.id`,
+        [date]
+      );
+      return result.rows;
+    } catch (error: any) {
+      throw new Error(`Error al obtener vigencias por activar: ${error.message}`);
+    }
+  }
+
+  /**
+   * Activa una vigencia programada y aplica los precios de su versión.
+   *
+   * La vigencia se bloquea y se vuelve a leer, así que si cambió desde la
+   * consulta (otra versión, otras fechas o ya activada) no se toca. Si tiene
+   * versión, la solicitud debe estar aprobada: de lo contrario la vigencia
+   * sigue programada y se devuelve el motivo. Las vigencias sin versión
+   * (anteriores a las versiones) solo cambian de estado.
+   *
+   * @async
+   * @public
+   * @param {number} id - ID de la vigencia
+   * @param {string} date - Fecha de referencia (YYYY-MM-DD)
+   * @param {string} actor - Quien activa la vigencia
+   * @returns {Promise<Object>} Vigencia activada y resultado de aplicar los precios, o el motivo por el que no se activó
+   *
+   * @throws {Error} Si ocurre un error durante la operación
+   */
+  public async activate(
+    id: number,
+    date: string,
+    actor: string
+  ): Promise<{ window: ValidityWindow | null; result: PriceListSaveResult | null; reason: string | null }> {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const current = await client.query(
+        `SELECT ${WINDOW_COLUMNS}
+         FROM date_validity dv
+         WHERE dv.id = $1 AND dv.estado = 'scheduled' AND dv.fecha_inicio <= $2::date AND dv.fecha_fin >= $2::date
+         FOR UPDATE`,
+        [id, date]
+      );
+      const window: ValidityWindow | undefined = current.rows[0];
+      if (!window) {
+        await client.query("ROLLBACK");
+        return { window: null, result: null, reason: "La vigencia cambió desde la consulta" };
+      }
+
+      let result: PriceListSaveResult | null = null;
+      if (window.submission_id) {
+        const submission = await client.query(
+          "SELECT id, proveedor_id, status, mode FROM price_list_submissions WHERE id = $1",
+          [window.submission_id]
+        );
+        const version: PriceListSubmission | undefined = submission.rows[0];
+        if (!version || version.status !== "approved") {
+          await client.query("ROLLBACK");
+          return {
+            window: null,
+            result: null,
+            reason: `La solicitud ${window.submission_id} no está aprobada (${version?.status ?? "no existe"})`,
+          };
+        }
+        result = await this.submissions.applySubmission(client, version, actor);
+      }
+
+      const activated = await this.changeState(client, window, "active", actor, result ? { result: this.summarize(result) } : null);
+
+      await client.query("COMMIT");
+      return { window: activated, result, reason: null };
+    } catch (error: any) {
+      await client.query("ROLLBACK");
+      throw new Error(`Error al activar la vigencia ${id}: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Vence una vigencia cuya fecha de fin ya pasó.
+   *
+   * Igual que en activate, si la vigencia cambió desde la consulta no se toca.
+   *
+   * @async
+   * @public
+   * @param {number} id - ID de la vigencia
+   * @param {string} date - Fecha de referencia (YYYY-MM-DD)
+   * @param {string} actor - Quien vence la vigencia
+   * @returns {Promise<ValidityWindow | null>} Vigencia vencida, o null si ya no correspondía
+   *
+   * @throws {Error} Si ocurre un error durante la operación
+   */
+  public async expire(id: number, date: string, actor: string): Promise<ValidityWindow | null> {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const current = await client.query(
+        `SELECT ${WINDOW_COLUMNS}
+         FROM date_validity dv
+         WHERE dv.id = $1 AND dv.estado IN ('scheduled', 'active') AND dv.fecha_fin < $2::date
+         FOR UPDATE`,
+        [id, date]
+      );
+      const window: ValidityWindow | undefined = current.rows[0];
+      if (!window) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      const expired = await this.changeState(client, window, "expired", actor, null);
+
+      await client.query("COMMIT");
+      return expired;
+    } catch (error: any) {
+      await client.query("ROLLBACK");
+      throw new Error(`Error al vencer la vigencia ${id}: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Cambia el estado de una vigencia, marca la fecha del cambio y registra el evento.
+   *
+   * @private
+   * @param {PoolClient} client - Conexión con la transacción activa
+   * @param {ValidityWindow} window - Vigencia bloqueada con su estado actual
+   * @param {ValidityWindowState} to - Estado destino
+   * @param {string} actor - Quien realiza el cambio
+   * @param {Object | null} detail - Datos adicionales del evento
+   * @returns {Promise<ValidityWindow>} Vigencia actualizada
+   */
+  private async changeState(
+    client: PoolClient,
+    window: ValidityWindow,
+    to: ValidityWindowState,
+    actor: string,
+    detail: Record<string, unknown> | null
+  ): Promise<ValidityWindow> {
+    const stamp = to === "active" ? "activated_at" : "expired_at";
+    const updated = await client.query(
+      `UPDATE date_validity dv
+       SET estado = $2, ${stamp} = CURRENT_TIMESTAMP
+       WHERE dv.id = $1
+       RETURNING ${WINDOW_COLUMNS}`,
+      [window.id, to]
+    );
+    await client.query(
+      `INSERT INTO date_validity_events (validity_id, from_estado, to_estado, actor, detail)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [window.id, window.estado, to, actor, detail ? JSON.stringify(detail) : null]
+    );
+    return updated.rows[0];
+  }
+
+  /**
+   * Conteos del resultado de aplicar precios, para guardarlos en el evento
+   *
+   * @private
+   * @param {PriceListSaveResult} result - Resultado de applySubmission
+   * @returns {Object} Resultado sin los items
+   */
+  private summarize(result: PriceListSaveResult): Omit<PriceListSaveResult, "items"> {
+    const { items, ...counts } = result;
+    return counts;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import DateValidityUsecase from "../dateValidityUpdate";
+import { AppError } from "../../../../shared/errors/AppError";
+import { DateValidity } from "../../domain/dateValidity";
+
+/**
+ * Caso de uso con el repositorio en memoria: la vigencia 3 es de otro proveedor.
+ * `saved` guarda las vigencias y el proveedor con que se llamó al repositorio.
+ */
+const setup = (invalid: any[] = []) => {
+  const saved: { windows: DateValidity[]; proveedor: string }[] = [];
+  const usecase = new DateValidityUsecase();
+  Object.assign(usecase, {
+    repository: {
+      dateValidity: async (windows: DateValidity[], proveedor: string) => {
+        saved.push({ windows, proveedor });
+        const errors = windows
+          .filter((window) => window.id === 3)
+          .map((window) => ({ id: window.id!, code: "FORBIDDEN", message: `El registro ${window.id} no pertenece al proveedor` }));
+        return { items: windows.filter((window) => window.id !== 3), errors, invalid };
+      },
+    },
+  });
+  return { usecase, saved };
+};
+
+describe("DateValidityUsecase", () => {
+  it("verifica las vigencias contra el proveedor autenticado y reporta las ajenas", async () => {
+    const { usecase, saved } = setup();
+    const { items, errors } = await usecase.updateValidityDate(
+      [
+        { id: 2, idProveedor: 10, fecha_inicio: "2026-11-01", fecha_fin: "2026-11-30" },
+        { id: 3, idProveedor: 10, fecha_inicio: "2026-12-01", fecha_fin: "2026-12-31" },
+      ],
+      "10"
+    );
+
+    assert.equal(saved[0].proveedor, "10");
+    assert.deepEqual(items.map((item: any) => item.id), [2]);
+    assert.deepEqual(errors.map((error) => `${error.id}:${error.code}`), ["3:FORBIDDEN"]);
+  });
+
+  it("no llega al repositorio si alguna vigencia es inválida", async () => {
+    const { usecase, saved } = setup();
+    await assert.rejects(
+      usecase.updateValidityDate([{ idProveedor: 10, fecha_inicio: "2026-12-31", fecha_fin: "2026-12-01" }], "10"),
+      (error: AppError) => error.statusCode === 422
+    );
+    assert.equal(saved.length, 0);
+  });
+
+  it("responde 422 con las superposiciones que detecta el repositorio", async () => {
+    const overlap = { index: 0, field: "fecha_inicio", code: "OVERLAP", message: "Se superpone con la vigencia 2" };
+    const { usecase } = setup([overlap]);
+    await assert.rejects(
+      usecase.updateValidityDate(
+        [{ idProveedor: 10, fecha_inicio: "2026-11-15", fecha_fin: "2026-12-15", submission_id: 14 }],
+        "10"
+      ),
+      (error: AppError) => {
+        assert.equal(error.statusCode, 422);
+        assert.deepEqual(error.errors, [overlap]);
+        return true;
+      }
+    );
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import GetCentros from "../getCentros";
+
+describe("GetCentros", () => {
+  const usecase = new GetCentros();
+  Object.assign(usecase, { repository: { getCentros: async () => ["1001", "1002", "2001"] } });
+
+  it("devuelve todos los centros de SAP a quien no tiene restricción", async () => {
+    assert.deepEqual(await usecase.getCentros(null), ["1001", "1002", "2001"]);
+  });
+
+  it("devuelve solo los centros permitidos que existen en SAP", async () => {
+    assert.deepEqual(await usecase.getCentros(["2001", "1001", "9999"]), ["1001", "2001"]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import GetPriceHistory from "../getPriceHistory";
+import { AppError } from "../../../../shared/errors/AppError";
+
+// Registro 7 del proveedor 10 en el centro 1002
+const setup = () => {
+  const usecase = new GetPriceHistory();
+  Object.assign(usecase, {
+    repository: {
+      getPriceOwner: async (id: number) => (id === 7 ? { proveedor_id: "10", centro: "1002" } : null),
+      getPriceHistory: async (id: number) => [{ id: 1, price_list_id: id, operation: "INSERT" }],
+    },
+  });
+  return usecase;
+};
+
+const rejects = (promise: Promise<unknown>, statusCode: number) =>
+  assert.rejects(promise, (error: AppError) => {
+    assert.ok(error instanceof AppError);
+    assert.equal(error.statusCode, statusCode);
+    return true;
+  });
+
+describe("GetPriceHistory", () => {
+  it("un usuario con todos los centros consulta cualquier registro", async () => {
+    assert.equal((await setup().getHistory(7)).length, 1);
+  });
+
+  it("un usuario limitado a algunos centros solo consulta los suyos", async () => {
+    const usecase = setup();
+
+    assert.equal((await usecase.getHistory(7, undefined, ["1001", "1002"])).length, 1);
+    await rejects(usecase.getHistory(7, undefined, ["1001"]), 403);
+  });
+
+  it("un proveedor solo consulta el historial de sus registros", async () => {
+    const usecase = setup();
+
+    assert.equal((await usecase.getHistory(7, "10")).length, 1);
+    await rejects(usecase.getHistory(7, "11"), 403);
+  });
+
+  it("valida el ID y responde 404 a un registro inexistente", async () => {
+    const usecase = setup();
+
+    await rejects(usecase.getHistory(0), 400);
+    await rejects(usecase.getHistory(1.5), 400);
+    await rejects(usecase.getHistory(8), 404);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import PreviewPriceList from "../previewPriceList";
+import GetListaPrecios from "../getPriceList";
+import PriceList from "../../domain/PriceList";
+import { AppError } from "../../../../shared/errors/AppError";
+import { PriceListItem, SupplierPriceRow } from "../../../../shared/types/priceList";
+
+const RATES = [{ moneda: "USD", fecha: "2026-10-01", tasa: "4000" }];
+
+const ROW = {
+  id: 7,
+  cod_prov: "A1",
+  cod_sap: "100200",
+  costo_unitario: 1000,
+  costo_original: 1000,
+  descuento1: 5,
+  descuento2: 0,
+  proveedor_id: 10,
+  centro: "1001",
+  moneda: "COP",
+  unidad: null,
+  factor_unidad: 1,
+} as unknown as SupplierPriceRow;
+
+// Repositorio de listas en memoria: el material Z9 no existe en SAP para el proveedor
+const prices = {
+  getCentros: async () => ["1001"],
+  getExchangeRates: async () => RATES,
+  findSapMaterials: async (_proveedor: string, items: PriceListItem[]) =>
+    new Set(items.filter((item) => item.COD_PROV !== "Z9").map((item) => PriceList.keyOf(item.COD_PROV, item.CENTRO!))),
+  getCurrentPrices: async () => [ROW],
+};
+
+const preview = () => {
+  const usecase = new PreviewPriceList();
+  Object.assign(usecase, { repository: prices });
+  Object.assign((usecase as any).validator, { prices });
+  return usecase;
+};
+
+const LIST: PriceListItem[] = [
+  { COD_PROV: "A1", COSTO_UNIT: 1100, DESC1: 5, DESC2: 0, COD_SAP: "100200" },
+  { COD_PROV: "B2", COSTO_UNIT: 10 },
+  { COD_PROV: "Z9", COSTO_UNIT: 10 },
+  { COD_PROV: "C3", COSTO_UNIT: 10, MONEDA: "EUR" },
+];
+
+describe("PreviewPriceList", () => {
+  it("clasifica los items y reporta los errores en su posición", async () => {
+    const result = await preview().previewListPrecios(LIST, "10");
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.summary, { total: 4, new: 1, changed: 1, unchanged: 0, removed: 0, errors: 2 });
+    assert.deepEqual(
+      result.errors.map((error) => `${error.index}:${error.code}`),
+      ["2:NOT_IN_SAP", "3:NO_EXCHANGE_RATE"]
+    );
+    assert.deepEqual(
+      result.changed[0].changes.map((change) => change.field),
+      ["COSTO_UNIT", "COSTO_CONVERTIDO"]
+    );
+    assert.equal(result.new[0].item.COD_PROV, "B2");
+  });
+
+  it("rechaza los mismos items que el registro de la lista", async () => {
+    const register = new GetListaPrecios();
+    Object.assign((register as any).validator, { prices });
+
+    const { errors } = await preview().previewListPrecios(LIST, "10");
+    await assert.rejects(register.newListPrecios(LIST, "10", "merge", "supplier:10"), (error: AppError) => {
+      assert.equal(error.statusCode, 422);
+      assert.deepEqual(error.errors, errors);
+      return true;
+    });
+  });
+});
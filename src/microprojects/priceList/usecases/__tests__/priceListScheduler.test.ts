@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import PriceListScheduler, { SCHEDULER_ACTOR } from "../priceListScheduler";
+import { ValidityWindow } from "../../../../shared/types/priceList";
+
+const window = (id: number, estado: ValidityWindow["estado"], submission_id: number | null = null): ValidityWindow => ({
+  id,
+  id_proveedor: "10",
+  fecha_inicio: "2026-10-01",
+  fecha_fin: "2026-10-31",
+  submission_id,
+  estado,
+});
+
+/**
+ * Programador con el repositorio en memoria; `calls` registra el orden de las operaciones.
+ * `errors` indica, por id, las vigencias que lanzan un Error y `reasons` las que el repositorio no activa.
+ */
+const setup = (options: {
+  toExpire?: ValidityWindow[];
+  toActivate?: ValidityWindow[];
+  locked?: boolean;
+  errors?: Record<number, string>;
+  reasons?: Record<number, string>;
+}) => {
+  const calls: string[] = [];
+  const usecase = new PriceListScheduler();
+  Object.assign(usecase, {
+    repository: {
+      withLock: async <T>(fn: () => Promise<T>) => (options.locked ? null : fn()),
+      getWindowsToExpire: async (date: string) => {
+        calls.push(`getWindowsToExpire:${date}`);
+        return options.toExpire ?? [];
+      },
+      getWindowsToActivate: async (date: string) => {
+        calls.push(`getWindowsToActivate:${date}`);
+        return options.toActivate ?? [];
+      },
+      expire: async (id: number, _date: string, actor: string) => {
+        calls.push(`expire:${id}:${actor}`);
+        if (options.errors?.[id]) throw new Error(options.errors[id]);
+        return { ...window(id, "expired") };
+      },
+      activate: async (id: number, _date: string, actor: string) => {
+        calls.push(`activate:${id}:${actor}`);
+        if (options.errors?.[id]) throw new Error(options.errors[id]);
+        const reason = options.reasons?.[id] ?? null;
+        return { window: reason ? null : window(id, "active"), result: null, reason };
+      },
+    },
+  });
+  return { usecase, calls };
+};
+
+describe("PriceListScheduler", () => {
+  it("vence antes de activar, para que la vigencia nueva quede como la única activa", async () => {
+    const { usecase, calls } = setup({ toExpire: [window(1, "active")], toActivate: [window(2, "scheduled", 14)] });
+    const run = await usecase.run("2026-11-01");
+
+    assert.deepEqual(calls, [
+      "getWindowsToExpire:2026-11-01",
+      `expire:1:${SCHEDULER_ACTOR}`,
+      "getWindowsToActivate:2026-11-01",
+      `activate:2:${SCHEDULER_ACTOR}`,
+    ]);
+    assert.deepEqual(
+      { date: run?.date, expired: run?.expired.map((w) => w.id), activated: run?.activated.map((w) => w.id) },
+      { date: "2026-11-01", expired: [1], activated: [2] }
+    );
+    assert.deepEqual(run?.skipped, []);
+  });
+
+  it("omite las vigencias que fallan o no se pueden activar y sigue con las demás", async () => {
+    const { usecase } = setup({
+      toExpire: [window(1, "active"), window(2, "active")],
+      toActivate: [window(3, "scheduled", 14), window(4, "scheduled", 15), window(5, "scheduled")],
+      errors: { 1: "sin conexión", 4: "No hay tasa de cambio registrada para USD" },
+      reasons: { 3: "La solicitud 14 no está aprobada (in_review)" },
+    });
+    const run = await usecase.run("2026-11-01");
+
+    assert.deepEqual(run?.expired.map((w) => w.id), [2]);
+    assert.deepEqual(run?.activated.map((w) => w.id), [5]);
+    assert.deepEqual(run?.skipped, [
+      { id: 1, reason: "sin conexión" },
+      { id: 3, reason: "La solicitud 14 no está aprobada (in_review)" },
+      { id: 4, reason: "No hay tasa de cambio registrada para USD" },
+    ]);
+  });
+
+  it("no hace nada si otra instancia tiene el lock", async () => {
+    const { usecase, calls } = setup({ locked: true, toExpire: [window(1, "active")] });
+
+    assert.equal(await usecase.run("2026-11-01"), null);
+    assert.deepEqual(calls, []);
+  });
+});
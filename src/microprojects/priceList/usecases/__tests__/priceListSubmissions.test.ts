@@ -0,0 +1,164 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import PriceListSubmissions from "../priceListSubmissions";
+import PriceList from "../../domain/PriceList";
+import { AppError } from "../../../../shared/errors/AppError";
+import { PriceListItem, PriceListSubmission } from "../../../../shared/types/priceList";
+
+const SUBMISSION = {
+  id: 5,
+  proveedor_id: "10",
+  status: "draft",
+  mode: "merge",
+  items: [{ COD_PROV: "A1", CENTRO: "1001" }],
+} as unknown as PriceListSubmission;
+
+/**
+ * Caso de uso con repositorios en memoria; `replaced` guarda los items que llegan a la base de datos
+ * y `transitions` los cambios de estado. Con `race` el estado cambia antes de guardar la transición.
+ */
+const setup = (submission: PriceListSubmission = SUBMISSION, race = false) => {
+  const replaced: any[] = [];
+  const transitions: string[] = [];
+  const usecase = new PriceListSubmissions();
+  Object.assign(usecase, {
+    repository: {
+      findById: async (id: number) => (id === submission.id ? { ...submission } : null),
+      replaceItems: async (id: number, _editable: string[], mode: string, items: any[]) => {
+        replaced.push(items);
+        return { ...submission, id, mode, item_count: items.length };
+      },
+      transition: async (id: number, from: string, to: string, actor: string, comment: string | null) => {
+        if (race) return null;
+        transitions.push(`${id}:${from}>${to}:${actor}:${comment}`);
+        const result = to === "approved" ? { mode: submission.mode, inserted: 1, updated: 0 } : null;
+        return { submission: { ...submission, status: to }, result };
+      },
+    },
+  });
+  Object.assign((usecase as any).validator, {
+    prices: {
+      getCentros: async () => ["1001", "1002"],
+      getExchangeRates: async () => [{ moneda: "USD", fecha: "2026-10-01", tasa: "4000" }],
+      findSapMaterials: async (_proveedor: string, items: PriceListItem[]) =>
+        new Set(items.map((item) => PriceList.keyOf(item.COD_PROV, item.CENTRO!))),
+    },
+  });
+  return { usecase, replaced, transitions };
+};
+
+const rejects = (promise: Promise<unknown>, statusCode: number, codes?: string[]) =>
+  assert.rejects(promise, (error: AppError) => {
+    assert.ok(error instanceof AppError);
+    assert.equal(error.statusCode, statusCode);
+    if (codes) assert.deepEqual(error.errors.map((e) => `${e.index}:${e.code}`), codes);
+    return true;
+  });
+
+describe("PriceListSubmissions", () => {
+  describe("get", () => {
+    const mixed = { ...SUBMISSION, items: [{ COD_PROV: "A1", CENTRO: "1001" }, { COD_PROV: "A2", CENTRO: "1002" }] };
+
+    it("un comprador solo ve solicitudes con todos sus items en centros permitidos", async () => {
+      const { usecase } = setup(mixed as PriceListSubmission);
+
+      assert.equal((await usecase.get(5, undefined, ["1001", "1002"])).id, 5);
+      await rejects(usecase.get(5, undefined, ["1001"]), 403);
+      assert.equal((await usecase.get(5)).id, 5);
+    });
+
+    it("los items sin centro cuentan como del centro por defecto", async () => {
+      const { usecase } = setup({ ...SUBMISSION, items: [{ COD_PROV: "A1", CENTRO: null }] } as PriceListSubmission);
+
+      assert.equal((await usecase.get(5, undefined, [PriceList.centroOf({ COD_PROV: "A1" })])).id, 5);
+      await rejects(usecase.get(5, undefined, ["2001"]), 403);
+    });
+
+    it("un comprador no puede decidir una solicitud con items de otros centros", async () => {
+      const { usecase, transitions } = setup({ ...mixed, status: "in_review" } as PriceListSubmission);
+
+      await rejects(usecase.transition({ id: 5, to: "approved", actor: "buyer:3", centros: ["1001"] }), 403);
+      assert.deepEqual(transitions, []);
+    });
+  });
+
+  describe("replaceItems", () => {
+    it("reemplaza los items válidos", async () => {
+      const { usecase, replaced } = setup();
+      const result = await usecase.replaceItems(5, [{ COD_PROV: "A1", COSTO_UNIT: 2, MONEDA: "USD" }], "10", "merge", "supplier:10");
+
+      assert.equal(result.item_count, 1);
+      assert.equal(replaced[0][0].MONEDA, "USD");
+    });
+
+    it("rechaza con 422 los centros y monedas desconocidos junto con los errores de dominio", async () => {
+      const { usecase, replaced } = setup();
+      await rejects(
+        usecase.replaceItems(
+          5,
+          [
+            { COD_PROV: "A1", COSTO_UNIT: -1 },
+            { COD_PROV: "A2", COSTO_UNIT: 2, MONEDA: "EUR" },
+            { COD_PROV: "A3", COSTO_UNIT: 2, CENTRO: "9999" },
+          ],
+          "10",
+          "merge",
+          "supplier:10"
+        ),
+        422,
+        ["0:NEGATIVE", "1:NO_EXCHANGE_RATE", "2:NOT_IN_SAP"]
+      );
+      assert.equal(replaced.length, 0);
+    });
+
+    it("no edita solicitudes de otro proveedor ni fuera de borrador", async () => {
+      await rejects(setup().usecase.replaceItems(5, [{ COD_PROV: "A1" }], "11", "merge", "supplier:11"), 403);
+      const submitted = { ...SUBMISSION, status: "submitted" } as PriceListSubmission;
+      await rejects(setup(submitted).usecase.replaceItems(5, [{ COD_PROV: "A1" }], "10", "merge", "supplier:10"), 409);
+    });
+  });
+
+  describe("transition", () => {
+    const at = (status: string) => ({ ...SUBMISSION, status }) as PriceListSubmission;
+
+    it("el proveedor dueño envía su borrador", async () => {
+      const { usecase, transitions } = setup();
+      const { submission } = await usecase.transition({ id: 5, to: "submitted", actor: "supplier:10", proveedor: "10" });
+
+      assert.equal(submission.status, "submitted");
+      assert.deepEqual(transitions, ["5:draft>submitted:supplier:10:null"]);
+    });
+
+    it("el comprador aprueba una solicitud en revisión y recibe el resultado de aplicarla", async () => {
+      const { usecase, transitions } = setup(at("in_review"));
+      const { submission, result } = await usecase.transition({ id: 5, to: "approved", actor: "buyer:3", comment: "  " });
+
+      assert.equal(submission.status, "approved");
+      assert.equal(result?.inserted, 1);
+      assert.deepEqual(transitions, ["5:in_review>approved:buyer:3:null"]);
+    });
+
+    it("rechazar o pedir cambios exige un comentario", async () => {
+      const { usecase, transitions } = setup(at("in_review"));
+
+      await rejects(usecase.transition({ id: 5, to: "rejected", actor: "buyer:3" }), 400);
+      await rejects(usecase.transition({ id: 5, to: "changes_requested", actor: "buyer:3", comment: " " }), 400);
+      await usecase.transition({ id: 5, to: "changes_requested", actor: "buyer:3", comment: " Revisar DESC2 " });
+      assert.deepEqual(transitions, ["5:in_review>changes_requested:buyer:3:Revisar DESC2"]);
+    });
+
+    it("responde 409 a transiciones fuera del ciclo o si el estado cambió en paralelo", async () => {
+      await rejects(setup().usecase.transition({ id: 5, to: "approved", actor: "buyer:3" }), 409);
+      await rejects(setup(at("approved")).usecase.transition({ id: 5, to: "in_review", actor: "buyer:3" }), 409);
+      await rejects(setup(at("submitted"), true).usecase.transition({ id: 5, to: "in_review", actor: "buyer:3" }), 409);
+    });
+
+    it("responde 404 a una solicitud inexistente y 403 a la de otro proveedor", async () => {
+      const { usecase, transitions } = setup();
+
+      await rejects(usecase.transition({ id: 6, to: "submitted", actor: "supplier:10", proveedor: "10" }), 404);
+      await rejects(usecase.transition({ id: 5, to: "submitted", actor: "supplier:11", proveedor: "11" }), 403);
+      assert.deepEqual(transitions, []);
+    });
+  });
+});
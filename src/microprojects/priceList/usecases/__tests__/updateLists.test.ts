@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import UpdateLists from "../updateLists";
+import { SupplierPriceRow } from "../../../../shared/types/priceList";
+
+const ROW = {
+  id: 7,
+  cod_prov: "A1",
+  cod_sap: "100200",
+  costo_unitario: 1000,
+  costo_original: 1000,
+  descuento1: 5,
+  descuento2: 2,
+  proveedor_id: 10,
+  centro: "1001",
+  moneda: "COP",
+  unidad: null,
+  factor_unidad: 1,
+} as unknown as SupplierPriceRow;
+
+/**
+ * Caso de uso con repositorios en memoria; `created` guarda lo que se envía a la solicitud.
+ */
+const setup = (rows: SupplierPriceRow[] = [ROW]) => {
+  const created: any[] = [];
+  const usecase = new UpdateLists();
+  Object.assign(usecase, {
+    repository: {
+      getPricesById: async (ids: number[], proveedor: string) => ({
+        rows: rows.filter((row) => ids.includes(row.id) && String(row.proveedor_id) === proveedor),
+        errors: ids
+          .filter((id) => !rows.some((row) => row.id === id && String(row.proveedor_id) === proveedor))
+          .map((id) => ({ id, code: rows.some((row) => row.id === id) ? "FORBIDDEN" : "NOT_FOUND" })),
+      }),
+    },
+    submissions: {
+      create: async (params: any) => {
+        created.push(params);
+        return { id: 14, status: params.submit ? "submitted" : "draft", item_count: params.items.length };
+      },
+    },
+  });
+  return { usecase, created };
+};
+
+describe("UpdateLists", () => {
+  it("guarda el registro completo y en CAMPOS solo las columnas enviadas", async () => {
+    const { usecase, created } = setup();
+    const result = await usecase.updateListsPrecios([{ id: 7, descuento1: 10 }], "10", "supplier:10");
+
+    assert.equal(result.submission?.id, 14);
+    assert.deepEqual(result.errors, []);
+    assert.equal(created[0].source, "update-prices");
+    assert.equal(created[0].mode, "merge");
+    const [item] = created[0].items;
+    assert.equal(item.COD_PROV, "A1");
+    assert.equal(item.COSTO_UNIT, 1000);
+    assert.equal(item.DESC1, 10);
+    assert.equal(item.DESC2, 2);
+    assert.deepEqual(item.CAMPOS, ["DESC1"]);
+  });
+
+  it("acumula las columnas de un ID repetido; gana el último valor", async () => {
+    const { usecase, created } = setup();
+    await usecase.updateListsPrecios(
+      [
+        { id: 7, costo_unitario: 1200, descuento1: 10 },
+        { id: 7, descuento1: 12 },
+      ],
+      "10",
+      "supplier:10"
+    );
+
+    const [item] = created[0].items;
+    assert.equal(item.COSTO_UNIT, 1200);
+    assert.equal(item.DESC1, 12);
+    assert.deepEqual(item.CAMPOS, ["COSTO_UNIT", "DESC1"]);
+  });
+
+  it("devuelve los inválidos y los no encontrados sin crear solicitud", async () => {
+    const { usecase, created } = setup();
+    const result = await usecase.updateListsPrecios([{ id: 0, descuento1: 1 }, { id: 8, descuento1: 1 }], "10", "supplier:10");
+
+    assert.equal(result.submission, null);
+    assert.deepEqual(
+      result.errors.map((error) => [error.id, error.code]),
+      [
+        [0, "INVALID"],
+        [8, "NOT_FOUND"],
+      ]
+    );
+    assert.equal(created.length, 0);
+  });
+
+  it("no incluye en la solicitud los registros de otro proveedor", async () => {
+    const { usecase, created } = setup([ROW, { ...ROW, id: 8, cod_prov: "B2", proveedor_id: 11 }]);
+    const result = await usecase.updateListsPrecios(
+      [
+        { id: 7, descuento1: 10 },
+        { id: 8, descuento1: 10 },
+      ],
+      "10",
+      "supplier:10"
+    );
+
+    assert.deepEqual(result.errors.map((error) => `${error.id}:${error.code}`), ["8:FORBIDDEN"]);
+    assert.deepEqual(created[0].items.map((item: any) => item.COD_PROV), ["A1"]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import UploadPriceList from "../uploadPriceList";
+import PriceList from "../../domain/PriceList";
+import { PriceListItem } from "../../../../shared/types/priceList";
+
+/**
+ * Caso de uso con repositorios en memoria; `created` guarda las solicitudes creadas.
+ */
+const setup = () => {
+  const created: any[] = [];
+  const usecase = new UploadPriceList();
+  Object.assign(usecase, {
+    repository: {
+      create: async (params: any) => {
+        created.push(params);
+        return { id: 21, status: "draft", item_count: params.items.length };
+      },
+    },
+  });
+  Object.assign((usecase as any).validator, {
+    prices: {
+      getCentros: async () => ["1001"],
+      getExchangeRates: async () => [],
+      findSapMaterials: async (_proveedor: string, items: PriceListItem[]) =>
+        new Set(items.map((item) => PriceList.keyOf(item.COD_PROV, item.CENTRO!))),
+    },
+  });
+  return { usecase, created };
+};
+
+describe("UploadPriceList", () => {
+  it("reporta los errores con la fila y la columna del archivo sin crear la solicitud", async () => {
+    const { usecase, created } = setup();
+    const result = await usecase.uploadListPrecios(
+      [
+        { row: 2, item: { COD_PROV: "A1", COSTO_UNIT: 10 } },
+        { row: 3, item: { COD_PROV: "A2", COSTO_UNIT: 10, MONEDA: "USD" } },
+        { row: 5, item: { COD_PROV: "A1", COSTO_UNIT: 10 } },
+      ],
+      "10",
+      "merge",
+      "supplier:10"
+    );
+
+    assert.equal(result.submission, null);
+    assert.deepEqual(
+      result.errors.map((error) => [error.row, error.column, error.code]),
+      [
+        [3, "MONEDA", "NO_EXCHANGE_RATE"],
+        [5, "COD_PROV", "DUPLICATE"],
+      ]
+    );
+    assert.equal(created.length, 0);
+  });
+
+  it("crea la solicitud con los items normalizados", async () => {
+    const { usecase, created } = setup();
+    const result = await usecase.uploadListPrecios(
+      [{ row: 2, item: { COD_PROV: " A1 ", COSTO_UNIT: "1,500.5" } }],
+      "10",
+      "replace",
+      "supplier:10",
+      true
+    );
+
+    assert.equal(result.submission?.id, 21);
+    assert.equal(created[0].source, "upload");
+    assert.equal(created[0].mode, "replace");
+    assert.equal(created[0].submit, true);
+    assert.deepEqual(created[0].items.map((item: any) => [item.COD_PROV, item.COSTO_UNIT, item.CENTRO]), [["A1", 1500.5, "1001"]]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import ValidatePriceList from "../validatePriceList";
+import PriceList from "../../domain/PriceList";
+import { PriceListItem } from "../../../../shared/types/priceList";
+
+/**
+ * Validador con el repositorio en memoria; `calls` cuenta las consultas a la base de datos.
+ */
+const setup = () => {
+  const calls = { centros: 0, rates: 0, sap: [] as string[] };
+  const validator = new ValidatePriceList();
+  Object.assign(validator, {
+    prices: {
+      getCentros: async () => {
+        calls.centros++;
+        return ["1001", "1002"];
+      },
+      getExchangeRates: async () => {
+        calls.rates++;
+        return [{ moneda: "USD", fecha: "2026-10-01", tasa: "4000" }];
+      },
+      // El proveedor 10 no tiene el material Z9 en ningún centro
+      findSapMaterials: async (proveedor: string, items: PriceListItem[]) => {
+        calls.sap.push(...items.map((item) => item.COD_PROV));
+        return new Set(
+          items
+            .filter((item) => proveedor === "10" && item.COD_PROV !== "Z9")
+            .map((item) => PriceList.keyOf(item.COD_PROV, item.CENTRO!))
+        );
+      },
+    },
+  });
+  return { validator, calls };
+};
+
+const codes = (errors: { index: number; field: string; code: string }[]) =>
+  errors.map((error) => `${error.index}:${error.field}:${error.code}`);
+
+describe("ValidatePriceList", () => {
+  it("acepta un lote válido", async () => {
+    const { validator } = setup();
+    assert.deepEqual(
+      await validator.validate([
+        { COD_PROV: "A1", COSTO_UNIT: 10 },
+        { COD_PROV: "A1", COSTO_UNIT: 2, CENTRO: "1002", MONEDA: "USD" },
+      ], "10"),
+      []
+    );
+  });
+
+  it("reporta todos los errores en la posición original del item", async () => {
+    const { validator } = setup();
+    const errors = await validator.validate([
+      { COD_PROV: "A1", COSTO_UNIT: 10, CENTRO: "9999" },
+      { COD_PROV: "A-2", COSTO_UNIT: 10 },
+      { COD_PROV: "A3", COSTO_UNIT: 10, MONEDA: "EUR" },
+      { COD_PROV: "A3", COSTO_UNIT: 10 },
+      { COD_PROV: "Z9", COSTO_UNIT: 10 },
+    ], "10");
+
+    assert.deepEqual(codes(errors), [
+      "0:CENTRO:NOT_IN_SAP",
+      "1:COD_PROV:INVALID_FORMAT",
+      "2:MONEDA:NO_EXCHANGE_RATE",
+      "3:COD_PROV:DUPLICATE",
+      "4:COD_PROV:NOT_IN_SAP",
+    ]);
+  });
+
+  it("no verifica centro ni moneda de los items con errores de dominio", async () => {
+    const { validator, calls } = setup();
+    const errors = await validator.validate([{ COD_PROV: "A-1", CENTRO: "9999", MONEDA: "EUR" }], "10");
+
+    assert.deepEqual(codes(errors), ["0:COD_PROV:INVALID_FORMAT"]);
+    assert.deepEqual(calls, { centros: 0, rates: 0, sap: [] });
+  });
+
+  it("busca en SAP los materiales normalizados y solo en centros que existen", async () => {
+    const { validator, calls } = setup();
+    const errors = await validator.validate(
+      [
+        { COD_PROV: " A1 ", COSTO_UNIT: 10 },
+        { COD_PROV: "A2", COSTO_UNIT: 10, CENTRO: "9999" },
+      ],
+      "11"
+    );
+
+    assert.deepEqual(codes(errors), ["0:COD_PROV:NOT_IN_SAP", "1:CENTRO:NOT_IN_SAP"]);
+    assert.deepEqual(calls.sap, ["A1"]);
+  });
+});
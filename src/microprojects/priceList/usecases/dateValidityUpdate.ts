@@ -1,12 +1,20 @@
 import RepositoryListPrecios from "../repositories/repositoryPriceList";
 import { DateValidity } from "../domain/dateValidity";
+import {
+  PriceListFieldError,
+  PriceListRowError,
+  ValidityOverview,
+  ValidityWindow,
+} from "../../../shared/types/priceList";
+import { AppError } from "../../../shared/errors/AppError";
 
 /**
  * Caso de uso para actualizar la validez temporal de listas de precios.
  * 
- * Este caso de uso gestiona la actualización de las fechas de vigencia
- * de las listas de precios de proveedores, delegando la persistencia
- * en el repositorio correspondiente.
+ * Este caso de uso gestiona las vigencias de las listas de precios de
+ * proveedores: valida cada vigencia con las reglas de {@link DateValidity},
+ * delega la persistencia (y la detección de superposiciones) en el
+ * repositorio y arma la vista de vigencias actual, próximas y vencidas.
  * 
  * @class DateValidityUsecase
  * @module PriceList/UseCases
@@ -32,31 +40,93 @@ class DateValidityUsecase {
   }
 
   /**
-   * Actualiza las fechas de validez de listas de precios.
+   * Crea o modifica vigencias de la lista de precios del proveedor.
    * 
-   * Recibe un array de objetos DateValidity y los procesa para
-   * actualizar las fechas de vigencia en el sistema. Utiliza
-   * operaciones de upsert para insertar o actualizar según corresponda.
+   * Cada vigencia se valida completa (fechas, rango y versión); si alguna
+   * falla o se superpone con otra del proveedor no se guarda ninguna. Las
+   * vigencias que no pertenecen al proveedor se reportan como errores por
+   * fila y el resto se guarda.
    * 
    * @async
-   * @param {DateValidity[]} data - Array de validaciones de fecha a actualizar
-   * @returns {Promise<DateValidity[]>} Array de validaciones actualizadas con sus IDs
+   * @param {any[]} data - Vigencias recibidas
+   * @param {string} proveedor - ID del proveedor autenticado
+   * @returns {Promise<Object>} Vigencias guardadas (`items`) y errores por fila (`errors`)
    * 
+   * @throws {AppError} 422 con un PriceListFieldError por cada campo inválido, superposición o versión inexistente
    * @throws {Error} Si ocurre un error durante la actualización en el repositorio
    * 
    * @example
    * const usecase = new DateValidityUsecase();
    * const validaciones = await usecase.updateValidityDate([
-   *   {
-   *     id: 1,
-   *     idProveedor: 100,
-   *     fecha_inicio: '2024-01-01',
-   *     fecha_fin: '2024-12-31'
-   *   }
-   * ]);
+   *   { idProveedor: 100, fecha_inicio: '2026-04-01', fecha_fin: '2026-06-30', submission_id: 12 }
+   * ], '100');
    */
-  async updateValidityDate(data: DateValidity[]): Promise<DateValidity[]> {
-    return await this.repository.dateValidity(data);
+  async updateValidityDate(
+    data: any[],
+    proveedor: string
+  ): Promise<{ items: ValidityWindow[]; errors: PriceListRowError[] }> {
+    const issues: PriceListFieldError[] = data.flatMap((item, index) =>
+      DateValidity.validate(item).map((issue) => ({ index, ...issue }))
+    );
+    if (issues.length > 0) {
+      throw new AppError(`Las vigencias tienen ${issues.length} errores de validación`, 422, issues);
+    }
+
+    try {
+      const windows = data.map((item) => new DateValidity(item));
+      const { items, errors, invalid } = await this.repository.dateValidity(windows, proveedor);
+
+      if (invalid.length > 0) {
+        throw new AppError("Las vigencias no se pueden guardar", 422, invalid);
+      }
+      return { items, errors };
+    } catch (error: any) {
+      console.error("Error en updateValidityDate:", error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Muestra las vigencias del proveedor respecto de una fecha.
+   * 
+   * La vigencia actual indica qué versión de la lista (solicitud) aplica en
+   * esa fecha; las próximas, cuáles están programadas, y las vencidas, cuáles
+   * ya terminaron.
+   * 
+   * @async
+   * @param {string} proveedor - ID del proveedor
+   * @param {string} [date] - Fecha de referencia (YYYY-MM-DD, por defecto hoy)
+   * @returns {Promise<ValidityOverview>} Vigencia actual, próximas y vencidas
+   * 
+   * @throws {AppError} 400 si la fecha no es válida
+   * @throws {Error} Si ocurre un error consultando las vigencias
+   * 
+   * @example
+   * const usecase = new DateValidityUsecase();
+   * const vista = await usecase.getValidityOverview('100', '2026-05-10');
+   * // { date: '2026-05-10', current: { id: 7, submission_id: 12, ... }, upcoming: [...], expired: [...] }
+   */
+  async getValidityOverview(proveedor: string, date: string = DateValidity.today()): Promise<ValidityOverview> {
+    if (!DateValidity.isDate(date)) {
+      throw new AppError("Fecha inválida", 400, ["Use el formato YYYY-MM-DD"]);
+    }
+
+    try {
+      const windows = (await this.repository.getValidityWindows(proveedor)).map((window) => ({
+        ...window,
+        status: DateValidity.statusOn(window, date),
+      }));
+
+      return {
+        date,
+        current: windows.find((window) => window.status === "current") ?? null,
+        upcoming: windows.filter((window) => window.status === "upcoming"),
+        expired: windows.filter((window) => window.status === "expired").reverse(),
+      };
+    } catch (error: any) {
+      console.error("Error en getValidityOverview:", error.message);
+      throw error;
+    }
   }
 }
 
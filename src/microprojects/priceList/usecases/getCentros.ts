@@ -0,0 +1,53 @@
+import RepositoryListaPrecios from "../repositories/repositoryPriceList";
+
+/**
+ * Caso de uso para consultar los centros de distribución.
+ *
+ * Los centros válidos salen de SAP (bk_centro de postgre_sap.stg_consulta_costo);
+ * cada usuario ve solo los que tiene permitidos.
+ *
+ * @class GetCentros
+ * @module PriceList/UseCases
+ */
+export default class GetCentros {
+  /**
+   * Repositorio para operaciones de persistencia de listas de precios
+   * @private
+   * @type {RepositoryListaPrecios}
+   */
+  private repository: RepositoryListaPrecios;
+
+  /**
+   * Crea una instancia de GetCentros.
+   *
+   * @constructor
+   */
+  constructor() {
+    this.repository = new RepositoryListaPrecios();
+  }
+
+  /**
+   * Obtiene los centros de distribución de SAP que el usuario puede consultar.
+   *
+   * @async
+   * @public
+   * @param {string[] | null} allowed - Centros permitidos al usuario (null = todos)
+   * @returns {Promise<string[]>} Códigos de centro, ordenados
+   *
+   * @throws {Error} Si ocurre un error consultando SAP
+   *
+   * @example
+   * const usecase = new GetCentros();
+   * const centros = await usecase.getCentros(['1001', '1002']);
+   * // ['1001', '1002']
+   */
+  public async getCentros(allowed: string[] | null): Promise<string[]> {
+    try {
+      const centros = await this.repository.getCentros();
+      return allowed ? centros.filter((centro) => allowed.includes(centro)) : centros;
+    } catch (error: any) {
+      console.error("Error en getCentros:", error.message);
+      throw error;
+    }
+  }
+}
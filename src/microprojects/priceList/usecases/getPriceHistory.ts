@@ -0,0 +1,76 @@
+import RepositoryListaPrecios from "../repositories/repositoryPriceList";
+import { PriceHistoryEntry } from "../../../shared/types/priceList";
+import { AppError } from "../../../shared/errors/AppError";
+
+/**
+ * Caso de uso para consultar el historial de un registro de lista de precios.
+ *
+ * Permite responder qué costo y descuentos tuvo un material en cada momento,
+ * quién los cambió y qué vigencia estaba activa entonces.
+ *
+ * @class GetPriceHistory
+ * @module PriceList/UseCases
+ */
+export default class GetPriceHistory {
+  /**
+   * Repositorio para operaciones de persistencia de listas de precios
+   * @private
+   * @type {RepositoryListaPrecios}
+   */
+  private repository: RepositoryListaPrecios;
+
+  /**
+   * Crea una instancia de GetPriceHistory.
+   *
+   * @constructor
+   */
+  constructor() {
+    this.repository = new RepositoryListaPrecios();
+  }
+
+  /**
+   * Obtiene el historial de cambios de un registro.
+   *
+   * Si se indica `proveedor`, el registro debe pertenecerle; los usuarios
+   * internos con permiso de lectura global consultan cualquier proveedor,
+   * pero solo en sus centros permitidos.
+   *
+   * @async
+   * @public
+   * @param {number} id - ID del registro en supplier_price_list
+   * @param {string} [proveedor] - Proveedor al que se restringe la consulta (opcional)
+   * @param {string[]} [centros] - Centros permitidos al usuario (todos si no se indican)
+   * @returns {Promise<PriceHistoryEntry[]>} Cambios del registro, del más reciente al más antiguo
+   *
+   * @throws {AppError} 400 si el ID no es válido
+   * @throws {AppError} 404 si el registro no existe
+   * @throws {AppError} 403 si el registro es de otro proveedor o de un centro no permitido
+   *
+   * @example
+   * const usecase = new GetPriceHistory();
+   * const historial = await usecase.getHistory(1, '100');
+   */
+  public async getHistory(id: number, proveedor?: string, centros?: string[]): Promise<PriceHistoryEntry[]> {
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new AppError("ID de lista de precios inválido", 400);
+    }
+
+    try {
+      const owner = await this.repository.getPriceOwner(id);
+      if (owner === null) {
+        throw new AppError(`El registro ${id} no existe`, 404);
+      }
+      if (proveedor !== undefined && owner.proveedor_id !== String(proveedor)) {
+        throw new AppError(`El registro ${id} no pertenece al proveedor`, 403);
+      }
+      if (centros && !centros.includes(owner.centro)) {
+        throw new AppError(`No tiene acceso al centro ${owner.centro}`, 403);
+      }
+
+      return await this.repository.getPriceHistory(id);
+    } catch (error: any) {
+      console.error("Error en getHistory:", error.message);
+      throw error;
+    }
+  }
+}
@@ -1,14 +1,22 @@
 // src/microprojects/priceList/usecases/getListaPrecios.ts
 
-import RepositoryListaPrecios from "../repositories/repositoryPriceList";
+import RepositorySubmissions from "../repositories/repositorySubmissions";
+import ValidatePriceList from "./validatePriceList";
 import PriceList from "../domain/PriceList";
-import { PriceListItem } from "../../../shared/types/priceList";
+import {
+  PriceListItem,
+  PriceListSaveMode,
+  PriceListSubmission,
+} from "../../../shared/types/priceList";
+import { AppError } from "../../../shared/errors/AppError";
 
 /**
  * Caso de uso para registrar nuevas listas de precios.
  * 
  * Este caso de uso se encarga de recibir una o varias entradas de lista de precios,
- * transformarlas en entidades del dominio y delegar la inserción en el repositorio.
+ * transformarlas en entidades del dominio y registrarlas como solicitud. Los
+ * precios solo pasan a ser vigentes cuando un comprador aprueba la solicitud
+ * (upsert por proveedor, centro y COD_PROV).
  * 
  * Su objetivo es mantener la lógica de negocio separada de la capa de datos y
  * asegurar que los datos pasen por validaciones y normalizaciones antes de ser persistidos.
@@ -18,36 +26,48 @@ import { PriceListItem } from "../../../shared/types/priceList";
  */
 export default class GetListaPrecios {
   /**
-   * Repositorio encargado de las operaciones de persistencia de listas de precios
+   * Repositorio de solicitudes de listas de precios
    * @private
-   * @type {RepositoryListaPrecios}
+   * @type {RepositorySubmissions}
    */
-  private repository: RepositoryListaPrecios;
+  private repository: RepositorySubmissions;
+
+  /**
+   * Validaciones del lote compartidas con la carga de archivos y la edición de solicitudes
+   * @private
+   * @type {ValidatePriceList}
+   */
+  private validator: ValidatePriceList;
 
   /**
    * Crea una instancia de GetListaPrecios.
    * 
-   * Inicializa el repositorio necesario para realizar operaciones
-   * de inserción de listas de precios.
+   * Inicializa el repositorio necesario para registrar las solicitudes
+   * de listas de precios.
    * 
    * @constructor
    */
   constructor() {
-    this.repository = new RepositoryListaPrecios();
+    this.repository = new RepositorySubmissions();
+    this.validator = new ValidatePriceList();
   }
 
   /**
-   * Inserta una nueva lista de precios en el sistema.
+   * Registra una lista de precios en el sistema.
    * 
    * Este método recibe datos de listas de precios (uno o múltiples items),
    * los valida y normaliza a través de entidades de dominio, y luego
-   * los persiste en la base de datos mediante el repositorio.
+   * los guarda como solicitud en borrador (o ya enviada a revisión). Al
+   * aprobarse, volver a enviar un COD_PROV actualiza su registro en lugar de
+   * duplicarlo.
    * 
    * Proceso:
    * 1. Normaliza la entrada a un array (si se recibe un solo elemento)
-   * 2. Convierte cada item en una entidad PriceList (aplica validaciones)
-   * 3. Extrae los objetos planos validados
-   * 4. Delega la inserción al repositorio
+   * 2. Valida todos los items y acumula los errores de cada campo (ver ValidatePriceList)
+   * 3. Detecta COD_PROV repetidos (en el mismo centro), centros o materiales que no existen en SAP y monedas sin tasa de cambio
+   * 4. Si hay errores, no guarda nada y los devuelve todos (AppError 422)
+   * 5. Convierte cada item en una entidad PriceList y extrae su objeto plano
+   * 6. Crea la solicitud con el modo (merge o replace) que se aplicará al aprobarla
    * 
    * @async
    * @public
@@ -58,11 +78,16 @@ export default class GetListaPrecios {
    * @param {number} data.DESC1 - Primer descuento aplicable
    * @param {number} data.DESC2 - Segundo descuento aplicable
    * @param {number} data.PROVEEDOR - ID del proveedor
+   * @param {string} [data.CENTRO] - Centro de distribución (por defecto el principal)
+   * @param {string} proveedor - ID del proveedor dueño de la lista
+   * @param {PriceListSaveMode} mode - `merge` conserva los COD_PROV que no vienen; `replace` los elimina
+   * @param {string} actor - Quien realiza la operación
+   * @param {boolean} [submit=false] - true para enviarla a revisión de inmediato
    * 
-   * @returns {Promise<any>} Array de registros insertados con sus IDs asignados
+   * @returns {Promise<PriceListSubmission>} Solicitud creada (draft o submitted)
    * 
-   * @throws {Error} Si COD_PROV no está presente en algún item
-   * @throws {Error} Si ocurre algún problema durante el procesamiento o la inserción
+   * @throws {AppError} 422 con un PriceListFieldError por cada campo inválido, COD_PROV repetido, centro o material inexistente en SAP o moneda sin tasa (index = posición del item)
+   * @throws {Error} Si ocurre algún problema al crear la solicitud
    * 
    * @example
    * const usecase = new GetListaPrecios();
@@ -75,28 +100,48 @@ export default class GetListaPrecios {
    *   DESC1: 10,
    *   DESC2: 5,
    *   PROVEEDOR: 1
-   * });
+   * }, '1', 'merge', 'supplier:1');
+   * // { id: 12, status: 'draft', mode: 'merge', item_count: 1, ... }
    * 
-   * // Insertar múltiples items
-   * const resultados = await usecase.newListPrecios([
+   * // Reemplazar la lista completa del proveedor
+   * const resultado = await usecase.newListPrecios([
    *   { COD_PROV: '12345', COSTO_UNIT: 100.50, ... },
    *   { COD_PROV: '67890', COSTO_UNIT: 200.00, ... }
-   * ]);
+   * ], '1', 'replace', 'supplier:1', true);
+   * // { id: 13, status: 'submitted', mode: 'replace', item_count: 2, ... }
    */
-  public async newListPrecios(data: PriceListItem | PriceListItem[]): Promise<any> {
+  public async newListPrecios(
+    data: PriceListItem | PriceListItem[],
+    proveedor: string,
+    mode: PriceListSaveMode,
+    actor: string,
+    submit: boolean = false
+  ): Promise<PriceListSubmission> {
     try {
       // Normalizamos: siempre trabajaremos con un arreglo
       const lista = Array.isArray(data) ? data : [data];
 
+      // Validamos todo el lote antes de insertar, para reportar todos los errores juntos
+      const errors = await this.validator.validate(lista, proveedor);
+      if (errors.length > 0) {
+        throw new AppError(`La lista de precios tiene ${errors.length} errores de validación`, 422, errors);
+      }
+
       // Convertimos cada item en una entidad y luego lo pasamos a objeto plano
       const listaPreciosEntities: PriceListItem[] = lista.map((item) => {
         const entity = new PriceList(item); // Aplica reglas y validaciones del dominio
         return entity.toObject(); // Convierte la entidad en un objeto simple
       });
 
-      // Llamamos al repositorio para insertar los registros
-      const inserted = await this.repository.insertarListPrecios(listaPreciosEntities);
-      return inserted;
+      // La lista queda como solicitud; se aplica a supplier_price_list al aprobarse
+      return await this.repository.create({
+        proveedor,
+        mode,
+        source: "validate",
+        items: listaPreciosEntities,
+        actor,
+        submit,
+      });
     } catch (error: any) {
       console.error("Error en newListPrecios:", error.message);
       throw error; 
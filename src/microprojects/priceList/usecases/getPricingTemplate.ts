@@ -1,3 +1,4 @@
+import { Readable } from "stream";
 import RepositoryListaPrecios from "../repositories/repositoryPriceList";
 
 /**
@@ -35,11 +36,13 @@ export default class getPricingtemplate {
    * 
    * Recupera información de precios efectivos desde el sistema SAP,
    * permitiendo filtrar opcionalmente por proveedor. Esta información
-   * incluye códigos de material, descripciones y precios efectivos.
+   * incluye códigos de material, descripciones, centro de distribución y
+   * precios efectivos (una fila por material y centro).
    * 
    * @async
    * @public
    * @param {string} [proveedorFilter] - Código del proveedor para filtrar (opcional)
+   * @param {string[]} [centros] - Centros de distribución (por defecto el principal)
    * @returns {Promise<any[]>} Array con la información de precios desde SAP
    * 
    * @throws {Error} Si ocurre un error al obtener la plantilla de precios
@@ -53,12 +56,33 @@ export default class getPricingtemplate {
    * // Obtener plantilla de un proveedor específico
    * const plantillaProveedor = await usecase.getPricingTemplate('100');
    */
-  public async getPricingTemplate(proveedorFilter?: string) {
+  public async getPricingTemplate(proveedorFilter?: string, centros?: string[]) {
     try {
-      return await this.repository.getPricingTemplate(proveedorFilter);
+      return await this.repository.getPricingTemplate(proveedorFilter, centros);
     } catch (error: any) {
       console.error("Error en getPricingTemplate:", error.message);
       throw error;
     }
   }
+
+  /**
+   * Obtiene la plantilla de precios como stream, para exportar plantillas
+   * grandes sin cargarlas completas en memoria.
+   * 
+   * @async
+   * @public
+   * @param {string} [proveedorFilter] - Código del proveedor para filtrar (opcional)
+   * @param {string[]} [centros] - Centros de distribución (por defecto el principal)
+   * @returns {Promise<Readable>} Stream de filas de la plantilla
+   * 
+   * @throws {Error} Si no es posible abrir la consulta
+   */
+  public async streamPricingTemplate(proveedorFilter?: string, centros?: string[]): Promise<Readable> {
+    try {
+      return await this.repository.streamPricingTemplate(proveedorFilter, centros);
+    } catch (error: any) {
+      console.error("Error en streamPricingTemplate:", error.message);
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,214 @@
+import RepositoryListaPrecios from "../repositories/repositoryPriceList";
+import ValidatePriceList from "./validatePriceList";
+import PriceList from "../domain/PriceList";
+import PriceQuote from "../domain/PriceQuote";
+import Decimal from "../domain/Decimal";
+import {
+  ExchangeRate,
+  PriceListFieldChange,
+  PriceListItem,
+  PriceListPreview,
+  PriceListPreviewItem,
+  PriceListSaveMode,
+  SupplierPriceRow,
+} from "../../../shared/types/priceList";
+
+/**
+ * Campos del item que se comparan con el precio vigente y su columna en supplier_price_list.
+ * COSTO_UNIT se compara con la cotización original, en la moneda y unidad del proveedor;
+ * COSTO_CONVERTIDO es ese costo en COP por unidad base, tal como se guardaría.
+ * @constant
+ */
+const COMPARED_FIELDS = [
+  { field: "COD_SAP", column: "cod_sap", numeric: false },
+  { field: "COSTO_UNIT", column: "costo_original", numeric: true },
+  { field: "COSTO_CONVERTIDO", column: "costo_unitario", numeric: true },
+  { field: "MONEDA", column: "moneda", numeric: false },
+  { field: "UNIDAD", column: "unidad", numeric: false },
+  { field: "FACTOR_UNIDAD", column: "factor_unidad", numeric: true },
+  { field: "DESC1", column: "descuento1", numeric: true },
+  { field: "DESC2", column: "descuento2", numeric: true },
+] as const;
+
+/**
+ * Caso de uso para validar una lista de precios sin guardarla (dry run).
+ *
+ * Ejecuta las mismas validaciones que el registro de listas (ver
+ * ValidatePriceList): reglas del dominio, COD_PROV repetidos en el lote, que
+ * cada COD_PROV exista en SAP (postgre_sap.stg_consulta_costo) para el
+ * proveedor en su centro de distribución y que su moneda tenga tasa de
+ * cambio; luego compara con los precios vigentes de ese centro. No escribe
+ * nada en la base de datos.
+ *
+ * @class PreviewPriceList
+ * @module PriceList/UseCases
+ */
+export default class PreviewPriceList {
+  /**
+   * Repositorio para operaciones de persistencia de listas de precios
+   * @private
+   * @type {RepositoryListaPrecios}
+   */
+  private repository: RepositoryListaPrecios;
+
+  /**
+   * Validaciones del lote, las mismas que se aplican al registrar la lista
+   * @private
+   * @type {ValidatePriceList}
+   */
+  private validator: ValidatePriceList;
+
+  /**
+   * Crea una instancia de PreviewPriceList.
+   *
+   * @constructor
+   */
+  constructor() {
+    this.repository = new RepositoryListaPrecios();
+    this.validator = new ValidatePriceList();
+  }
+
+  /**
+   * Genera la vista previa de una lista de precios.
+   *
+   * Cada item termina en una sola categoría: con errores (no se cargaría),
+   * nuevo (el proveedor no tiene ese COD_PROV en el centro), modificado (con los cambios
+   * campo a campo y sus diferencias) o sin cambios. En `summary.errors` se
+   * cuentan los items rechazados; `errors` trae cada error por separado.
+   * En modo `replace` también se listan los registros vigentes que se
+   * eliminarían por no venir en la lista.
+   *
+   * @async
+   * @public
+   * @param {PriceListItem[]} data - Items enviados por el proveedor
+   * @param {string} proveedor - ID del proveedor autenticado
+   * @param {PriceListSaveMode} [mode="merge"] - Modo con el que se guardaría la lista
+   * @returns {Promise<PriceListPreview>} Items nuevos, modificados, sin cambios, eliminados y errores
+   *
+   * @throws {Error} Si ocurre un error consultando la base de datos
+   *
+   * @example
+   * const usecase = new PreviewPriceList();
+   * const preview = await usecase.previewListPrecios([{ COD_PROV: 'A100', COSTO_UNIT: 1500 }], '100');
+   * // { valid: true, summary: { total: 1, new: 0, changed: 1, unchanged: 0, removed: 0, errors: 0 }, changed: [...] }
+   */
+  public async previewListPrecios(
+    data: PriceListItem[],
+    proveedor: string,
+    mode: PriceListSaveMode = "merge"
+  ): Promise<PriceListPreview> {
+    try {
+      // 1. Las mismas validaciones que al registrar la lista: dominio, repetidos, centro, moneda y SAP
+      const errors = await this.validator.validate(data, proveedor);
+
+      // 2. Comparación con los precios vigentes (en replace, con toda la lista del proveedor)
+      const excluded = new Set(errors.map((error) => error.index));
+      const accepted = data
+        .map((item, index) => ({ index, item }))
+        .filter(({ index }) => !excluded.has(index))
+        .map(({ index, item }) => ({ index, item: new PriceList(item).toObject() }));
+      const rates = await this.repository.getExchangeRates();
+      const rows = await this.repository.getCurrentPrices(
+        proveedor,
+        mode === "replace" ? undefined : accepted.map(({ item }) => item.COD_PROV)
+      );
+      const current = new Map<string, SupplierPriceRow>(
+        rows.map((row) => [PriceList.keyOf(String(row.cod_prov), String(row.centro)), row])
+      );
+
+      // Se eliminarían los COD_PROV vigentes que no vienen en su centro (ni siquiera con errores)
+      const submitted = new Set(
+        data.map((item) => PriceList.keyOf(item?.COD_PROV ? String(item.COD_PROV) : "", PriceList.centroOf(item)))
+      );
+      const removed =
+        mode === "replace"
+          ? rows.filter((row) => !submitted.has(PriceList.keyOf(String(row.cod_prov), String(row.centro))))
+          : [];
+
+      const preview: PriceListPreview = {
+        valid: errors.length === 0,
+        mode,
+        summary: { total: data.length, new: 0, changed: 0, unchanged: 0, removed: removed.length, errors: excluded.size },
+        new: [],
+        changed: [],
+        unchanged: [],
+        removed,
+        errors,
+      };
+
+      for (const { index, item } of accepted) {
+        const row = current.get(PriceList.keyOf(item.COD_PROV, item.CENTRO!)) ?? null;
+        const entry: PriceListPreviewItem = {
+          index,
+          item,
+          current: row,
+          changes: row ? this.compare(item, row, rates) : [],
+        };
+
+        if (!row) preview.new.push(entry);
+        else if (entry.changes.length > 0) preview.changed.push(entry);
+        else preview.unchanged.push(entry);
+      }
+
+      preview.summary.new = preview.new.length;
+      preview.summary.changed = preview.changed.length;
+      preview.summary.unchanged = preview.unchanged.length;
+
+      return preview;
+    } catch (error: any) {
+      console.error("Error en previewListPrecios:", error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Compara un item normalizado con su registro vigente.
+   *
+   * Además de los campos enviados compara el costo convertido a COP por
+   * unidad base (COSTO_CONVERTIDO), que cambia aunque la cotización sea la
+   * misma si cambió la tasa de cambio. Las diferencias se calculan con
+   * {@link Decimal}.
+   *
+   * @private
+   * @param {PriceListItem} item - Item ya normalizado por PriceList
+   * @param {SupplierPriceRow} row - Registro vigente del proveedor
+   * @param {ExchangeRate[]} rates - Tasa vigente de cada moneda
+   * @returns {PriceListFieldChange[]} Campos que cambian, con su diferencia si son numéricos
+   */
+  private compare(item: PriceListItem, row: SupplierPriceRow, rates: ExchangeRate[]): PriceListFieldChange[] {
+    const changes: PriceListFieldChange[] = [];
+    const converted = PriceQuote.normalize(item, rates)?.costo_unitario ?? null;
+
+    for (const { field, column, numeric } of COMPARED_FIELDS) {
+      const proposed = field === "COSTO_CONVERTIDO" ? converted : item[field] ?? null;
+      const stored = row[column] ?? null;
+
+      if (!numeric) {
+        const currentText = stored === null ? null : String(stored).trim();
+        if (currentText !== proposed) {
+          changes.push({ field, current: currentText, proposed, delta: null, deltaPct: null });
+        }
+        continue;
+      }
+
+      // Postgres entrega las columnas NUMERIC como texto
+      const currentValue = Decimal.from(stored);
+      const proposedValue = Decimal.from(proposed);
+      if (currentValue === null && proposedValue === null) continue;
+
+      const delta = currentValue && proposedValue ? proposedValue.minus(currentValue) : null;
+      if (delta?.isZero()) continue;
+
+      changes.push({
+        field,
+        current: currentValue === null ? null : Number(stored),
+        proposed: proposedValue === null ? null : Number(proposed),
+        delta: delta ? delta.toNumber(4) : null,
+        deltaPct:
+          delta && !currentValue!.isZero() ? delta.dividedBy(currentValue!).times(Decimal.of(100)).toNumber(2) : null,
+      });
+    }
+
+    return changes;
+  }
+}
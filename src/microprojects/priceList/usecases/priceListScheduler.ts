@@ -0,0 +1,95 @@
+import RepositoryValidityScheduler from "../repositories/repositoryValidityScheduler";
+import { DateValidity } from "../domain/dateValidity";
+import { ValiditySchedulerRun } from "../../../shared/types/priceList";
+
+/**
+ * Actor con el que el programador registra los cambios de estado y de precios
+ * @constant {string}
+ */
+export const SCHEDULER_ACTOR = "system:scheduler";
+
+/**
+ * Caso de uso que activa y vence las listas de precios según sus vigencias.
+ *
+ * En cada corrida vence las vigencias cuya fecha de fin ya pasó y activa las
+ * programadas cuya fecha de inicio llegó, aplicando los precios de su versión.
+ * Con varias instancias de la aplicación solo una ejecuta la corrida a la vez
+ * (advisory lock); las demás la omiten.
+ *
+ * @class PriceListScheduler
+ * @module PriceList/UseCases
+ */
+export default class PriceListScheduler {
+  /**
+   * Repositorio del programador de vigencias
+   * @private
+   * @type {RepositoryValidityScheduler}
+   */
+  private repository: RepositoryValidityScheduler;
+
+  /**
+   * Crea una instancia de PriceListScheduler.
+   *
+   * @constructor
+   */
+  constructor() {
+    this.repository = new RepositoryValidityScheduler();
+  }
+
+  /**
+   * Ejecuta una corrida del programador.
+   *
+   * Primero vence y luego activa, para que el día en que una vigencia
+   * reemplaza a otra la nueva quede como la única activa. Si una vigencia
+   * falla se registra en `skipped` y la corrida sigue con las demás; se
+   * reintenta en la siguiente corrida.
+   *
+   * @async
+   * @public
+   * @param {string} [date] - Fecha de referencia (YYYY-MM-DD, por defecto hoy)
+   * @returns {Promise<ValiditySchedulerRun | null>} Vigencias activadas, vencidas y omitidas, o null si otra instancia está corriendo
+   *
+   * @throws {Error} Si no es posible consultar las vigencias o tomar el lock
+   *
+   * @example
+   * const usecase = new PriceListScheduler();
+   * const corrida = await usecase.run();
+   * // { date: '2026-04-01', activated: [...], expired: [...], skipped: [] }
+   */
+  public async run(date: string = DateValidity.today()): Promise<ValiditySchedulerRun | null> {
+    try {
+      return await this.repository.withLock(async () => {
+        const summary: ValiditySchedulerRun = { date, activated: [], expired: [], skipped: [] };
+
+        for (const window of await this.repository.getWindowsToExpire(date)) {
+          try {
+            const expired = await this.repository.expire(window.id, date, SCHEDULER_ACTOR);
+            if (expired) summary.expired.push(expired);
+          } catch (error: any) {
+            console.error("Error en run:", error.message);
+            summary.skipped.push({ id: window.id, reason: error.message });
+          }
+        }
+
+        for (const window of await this.repository.getWindowsToActivate(date)) {
+          try {
+            const { window: activated, reason } = await this.repository.activate(window.id, date, SCHEDULER_ACTOR);
+            if (activated) {
+              summary.activated.push(activated);
+            } else if (reason) {
+              summary.skipped.push({ id: window.id, reason });
+            }
+          } catch (error: any) {
+            console.error("Error en run:", error.message);
+            summary.skipped.push({ id: window.id, reason: error.message });
+          }
+        }
+
+        return summary;
+      });
+    } catch (error: any) {
+      console.error("Error en run:", error.message);
+      throw error;
+    }
+  }
+}
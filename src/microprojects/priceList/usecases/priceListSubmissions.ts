@@ -0,0 +1,242 @@
+import RepositorySubmissions from "../repositories/repositorySubmissions";
+import ValidatePriceList from "./validatePriceList";
+import PriceList from "../domain/PriceList";
+import SubmissionWorkflow, { SUBMISSION_TRANSITIONS } from "../domain/SubmissionWorkflow";
+import {
+  PriceListItem,
+  PriceListSaveMode,
+  PriceListSaveResult,
+  PriceListSubmission,
+  SubmissionStatus,
+} from "../../../shared/types/priceList";
+import { AppError } from "../../../shared/errors/AppError";
+
+/**
+ * Estados válidos de una solicitud, para validar filtros
+ * @constant {SubmissionStatus[]}
+ */
+export const SUBMISSION_STATUSES = Object.keys(SUBMISSION_TRANSITIONS) as SubmissionStatus[];
+
+/**
+ * Caso de uso para consultar y hacer avanzar las solicitudes de listas de precios.
+ *
+ * El proveedor consulta el estado y las notas del comprador, corrige los
+ * items y envía la solicitud; el comprador la toma en revisión y la aprueba,
+ * la rechaza o pide cambios. Al aprobarse, los precios pasan a ser vigentes.
+ *
+ * @class PriceListSubmissions
+ * @module PriceList/UseCases
+ */
+export default class PriceListSubmissions {
+  /**
+   * Repositorio de solicitudes de listas de precios
+   * @private
+   * @type {RepositorySubmissions}
+   */
+  private repository: RepositorySubmissions;
+
+  /**
+   * Validaciones del lote compartidas con la creación por API y la carga de archivos
+   * @private
+   * @type {ValidatePriceList}
+   */
+  private validator: ValidatePriceList;
+
+  /**
+   * Crea una instancia de PriceListSubmissions.
+   *
+   * @constructor
+   */
+  constructor() {
+    this.repository = new RepositorySubmissions();
+    this.validator = new ValidatePriceList();
+  }
+
+  /**
+   * Lista solicitudes, opcionalmente de un proveedor o en un estado.
+   *
+   * @async
+   * @public
+   * @param {Object} [filters] - Filtros opcionales
+   * @param {string} [filters.proveedor] - Solo las de este proveedor
+   * @param {string} [filters.status] - Solo las que están en este estado
+   * @param {string[]} [filters.centros] - Solo las de estos centros (los permitidos al usuario)
+   * @returns {Promise<PriceListSubmission[]>} Solicitudes, de la más reciente a la más antigua
+   *
+   * @throws {AppError} 400 si el estado no existe
+   *
+   * @example
+   * const usecase = new PriceListSubmissions();
+   * const pendientes = await usecase.list({ status: 'submitted' });
+   */
+  public async list(
+    filters: { proveedor?: string; status?: string; centros?: string[] } = {}
+  ): Promise<PriceListSubmission[]> {
+    if (filters.status !== undefined && !SUBMISSION_STATUSES.includes(filters.status as SubmissionStatus)) {
+      throw new AppError("Estado de solicitud inválido", 400, [`Estados válidos: ${SUBMISSION_STATUSES.join(", ")}`]);
+    }
+
+    try {
+      return await this.repository.list({
+        proveedor: filters.proveedor,
+        status: filters.status as SubmissionStatus | undefined,
+        centros: filters.centros,
+      });
+    } catch (error: any) {
+      console.error("Error en list:", error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtiene una solicitud con sus items y el historial de estados.
+   *
+   * Si se indica `proveedor`, la solicitud debe pertenecerle. Si se indican
+   * `centros`, todos sus items deben ser de esos centros: un comprador
+   * limitado a algunos centros no ve ni decide listas de otros.
+   *
+   * @async
+   * @public
+   * @param {number} id - ID de la solicitud
+   * @param {string} [proveedor] - Proveedor al que se restringe la consulta (opcional)
+   * @param {string[]} [centros] - Centros permitidos al usuario (todos si no se indican)
+   * @returns {Promise<PriceListSubmission>} Solicitud con items y eventos
+   *
+   * @throws {AppError} 400 si el ID no es válido
+   * @throws {AppError} 404 si la solicitud no existe
+   * @throws {AppError} 403 si la solicitud es de otro proveedor o tiene items de centros no permitidos
+   */
+  public async get(id: number, proveedor?: string, centros?: string[]): Promise<PriceListSubmission> {
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new AppError("ID de solicitud inválido", 400);
+    }
+
+    const submission = await this.repository.findById(id);
+    if (!submission) {
+      throw new AppError(`La solicitud ${id} no existe`, 404);
+    }
+    if (proveedor !== undefined && String(submission.proveedor_id) !== String(proveedor)) {
+      throw new AppError(`La solicitud ${id} no pertenece al proveedor`, 403);
+    }
+    if (centros) {
+      const denied = [...new Set((submission.items ?? []).map((item) => PriceList.centroOf(item)))].filter(
+        (centro) => !centros.includes(centro)
+      );
+      if (denied.length > 0) {
+        throw new AppError(`La solicitud ${id} incluye centros no permitidos`, 403, [
+          `Centros no permitidos: ${denied.join(", ")}`,
+        ]);
+      }
+    }
+
+    return submission;
+  }
+
+  /**
+   * Reemplaza los items de una solicitud en borrador o con cambios solicitados.
+   *
+   * Los items pasan por las mismas validaciones que al crear la solicitud. Si
+   * tenía cambios solicitados vuelve a borrador, lista para reenviarse.
+   *
+   * @async
+   * @public
+   * @param {number} id - ID de la solicitud
+   * @param {PriceListItem[]} data - Nuevos items
+   * @param {string} proveedor - ID del proveedor autenticado (debe ser el dueño)
+   * @param {PriceListSaveMode} mode - Modo con el que se aplicará al aprobarse
+   * @param {string} actor - Quien edita la solicitud
+   * @returns {Promise<PriceListSubmission>} Solicitud actualizada
+   *
+   * @throws {AppError} 400, 403 o 404 como en get
+   * @throws {AppError} 409 si la solicitud ya no se puede editar
+   * @throws {AppError} 422 con un PriceListFieldError por cada campo inválido, COD_PROV repetido, centro o material inexistente en SAP o moneda sin tasa de cambio
+   */
+  public async replaceItems(
+    id: number,
+    data: PriceListItem[],
+    proveedor: string,
+    mode: PriceListSaveMode,
+    actor: string
+  ): Promise<PriceListSubmission> {
+    const submission = await this.get(id, proveedor);
+    if (!SubmissionWorkflow.isEditable(submission.status)) {
+      throw new AppError(`La solicitud ${id} está en estado ${submission.status} y no se puede editar`, 409);
+    }
+
+    try {
+      const errors = await this.validator.validate(data, String(submission.proveedor_id));
+      if (errors.length > 0) {
+        throw new AppError(`La lista de precios tiene ${errors.length} errores de validación`, 422, errors);
+      }
+
+      const items = data.map((item) => new PriceList(item).toObject());
+      const updated = await this.repository.replaceItems(id, ["draft", "changes_requested"], mode, items, actor);
+      if (!updated) {
+        throw new AppError(`La solicitud ${id} cambió de estado; vuelva a consultarla`, 409);
+      }
+      return updated;
+    } catch (error: any) {
+      console.error("Error en replaceItems:", error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Cambia el estado de una solicitud.
+   *
+   * Solo se permiten las transiciones del ciclo de vida. El proveedor dueño
+   * envía (o reenvía) su solicitud; el comprador la toma en revisión y la
+   * decide. Rechazar o pedir cambios exige un comentario. Al aprobarla sus
+   * precios pasan a supplier_price_list.
+   *
+   * @async
+   * @public
+   * @param {Object} params - Datos de la transición
+   * @param {number} params.id - ID de la solicitud
+   * @param {SubmissionStatus} params.to - Estado destino
+   * @param {string} params.actor - Quien realiza la transición
+   * @param {string | null} [params.comment] - Comentario o nota del comprador
+   * @param {string} [params.proveedor] - Proveedor dueño, para las transiciones del proveedor
+   * @param {string[]} [params.centros] - Centros permitidos al comprador (todos si no se indican)
+   * @returns {Promise<Object>} Solicitud actualizada y, si se aprobó, el resultado de aplicar los precios
+   *
+   * @throws {AppError} 400, 403 o 404 como en get
+   * @throws {AppError} 400 si falta el comentario obligatorio
+   * @throws {AppError} 409 si la transición no está permitida desde el estado actual
+   *
+   * @example
+   * const usecase = new PriceListSubmissions();
+   * await usecase.transition({ id: 12, to: 'changes_requested', actor: 'buyer:3', comment: 'Revisar DESC2 del material A100' });
+   */
+  public async transition(params: {
+    id: number;
+    to: SubmissionStatus;
+    actor: string;
+    comment?: string | null;
+    proveedor?: string;
+    centros?: string[];
+  }): Promise<{ submission: PriceListSubmission; result: PriceListSaveResult | null }> {
+    const { id, to, actor, proveedor, centros } = params;
+    const comment = typeof params.comment === "string" && params.comment.trim() !== "" ? params.comment.trim() : null;
+
+    if (SubmissionWorkflow.requiresComment(to) && comment === null) {
+      throw new AppError("Debe indicar un comentario para el proveedor", 400);
+    }
+
+    const submission = await this.get(id, proveedor, centros);
+    if (!SubmissionWorkflow.canTransition(submission.status, to)) {
+      throw new AppError(`La solicitud ${id} está en estado ${submission.status} y no puede pasar a ${to}`, 409);
+    }
+
+    try {
+      const changed = await this.repository.transition(id, submission.status, to, actor, comment);
+      if (!changed) {
+        throw new AppError(`La solicitud ${id} cambió de estado; vuelva a consultarla`, 409);
+      }
+      return changed;
+    } catch (error: any) {
+      console.error("Error en transition:", error.message);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import RepositoryListaPrecios from "../repositories/repositoryPriceList";
+import PriceCalculator from "../domain/PriceCalculator";
+import PriceVariance from "../domain/PriceVariance";
+import { PriceVarianceReport as PriceVarianceReportResult } from "../../../shared/types/priceList";
+
+/**
+ * Caso de uso para el reporte de variaciones de costo frente a SAP.
+ *
+ * Pensado para compradores: de las listas vigentes deja solo los items cuyo
+ * costo neto se aleja del precio efectivo de SAP más que el umbral que les
+ * corresponde (por proveedor, categoría o global), para revisar primero los
+ * casos atípicos.
+ *
+ * @class PriceVarianceReport
+ * @module PriceList/UseCases
+ */
+export default class PriceVarianceReport {
+  /**
+   * Repositorio para operaciones de persistencia de listas de precios
+   * @private
+   * @type {RepositoryListaPrecios}
+   */
+  private repository: RepositoryListaPrecios;
+
+  /**
+   * Crea una instancia de PriceVarianceReport.
+   *
+   * @constructor
+   */
+  constructor() {
+    this.repository = new RepositoryListaPrecios();
+  }
+
+  /**
+   * Genera el reporte de items que exceden su umbral de variación.
+   *
+   * @async
+   * @public
+   * @param {string} [proveedor] - Solo los items de este proveedor (opcional)
+   * @param {string[]} [centros] - Solo los items de estos centros de distribución (opcional)
+   * @returns {Promise<PriceVarianceReportResult>} Resumen e items marcados, de mayor a menor variación absoluta
+   *
+   * @throws {Error} Si ocurre un error consultando la base de datos
+   *
+   * @example
+   * const usecase = new PriceVarianceReport();
+   * const reporte = await usecase.getReport('100');
+   * // { summary: { total: 120, flagged: 3, withoutSapPrice: 2 }, items: [...] }
+   */
+  public async getReport(proveedor?: string, centros?: string[]): Promise<PriceVarianceReportResult> {
+    try {
+      const [rows, rates, thresholds] = await Promise.all([
+        this.repository.getPrices(proveedor, undefined, { centros }),
+        this.repository.getTaxRates(),
+        this.repository.getVarianceThresholds(),
+      ]);
+
+      const evaluated = rows.map((row) => PriceVariance.evaluate(PriceCalculator.apply(row, rates), thresholds));
+      const items = evaluated
+        .filter((row) => row.variance!.excede)
+        .sort((a, b) => Math.abs(b.variance!.variacion_pct!) - Math.abs(a.variance!.variacion_pct!));
+
+      return {
+        summary: {
+          total: evaluated.length,
+          flagged: items.length,
+          withoutSapPrice: evaluated.filter((row) => row.variance!.variacion_pct === null).length,
+        },
+        items,
+      };
+    } catch (error: any) {
+      console.error("Error en getReport:", error.message);
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,35 @@
 // src/usecases/SeePriceLists.ts
+import { Readable, Transform, pipeline } from "stream";
 import RepositoryListaPrecios from "../repositories/repositoryPriceList";
+import PriceCalculator from "../domain/PriceCalculator";
+import PriceVariance from "../domain/PriceVariance";
+import {
+  Page,
+  PageRequest,
+  PriceListFilters,
+  PriceListSortField,
+  SupplierPriceRow,
+} from "../../../shared/types/priceList";
+
+/**
+ * Campos por los que se puede ordenar la consulta de listas de precios
+ * @constant {PriceListSortField[]}
+ */
+export const PRICE_LIST_SORT_FIELDS: PriceListSortField[] = [
+  "id",
+  "cod_prov",
+  "cod_sap",
+  "centro",
+  "descripcion",
+  "costo_unitario",
+  "descuento1",
+  "descuento2",
+  "proveedor_id",
+  "fecha_actualizacion_precio",
+  "tipo_impuesto",
+  "precio_sap",
+  "categoria",
+];
 
 /**
  * Caso de uso para consultar listas de precios combinadas.
@@ -42,28 +72,104 @@ export default class SeePriceLists {
    * - Fechas de actualización
    * - Tipos de impuesto y precios efectivos
    * 
+   * Con `asOf` devuelve los costos y descuentos vigentes en esa fecha según
+   * el historial de precios.
+   * 
+   * Cada registro trae el desglose de su costo (bruto, con descuentos,
+   * impuesto y neto, ver PriceCalculator) y en `variance` la variación de su
+   * costo neto frente al precio efectivo de SAP y si excede el umbral que le
+   * corresponde.
+   * 
+   * Los resultados se entregan paginados, con los filtros y el orden
+   * indicados, junto con el total de registros y la página siguiente.
+   * 
    * @async
    * @public
-   * @param {string} [proveedorFilter] - Código del proveedor para filtrar (opcional)
-   * @returns {Promise<any[]>} Array de precios combinados con información completa
+   * @param {string | undefined} proveedorFilter - Código del proveedor para filtrar (opcional)
+   * @param {string | undefined} asOf - Fecha/hora de corte para consultar precios pasados (opcional)
+   * @param {PriceListFilters} filters - Filtros y orden
+   * @param {PageRequest} page - Página (desde 1) y tamaño
+   * @returns {Promise<Page<SupplierPriceRow>>} Precios combinados de la página y datos de paginación
    * 
    * @throws {Error} Si ocurre un error al obtener las listas de precios
    * 
    * @example
    * const usecase = new SeePriceLists();
    * 
-   * // Obtener todas las listas de precios
-   * const todasListas = await usecase.getCombinedPrices();
+   * // Primera página de un proveedor, los más recientes primero
+   * const listasProveedor = await usecase.getCombinedPrices('100', undefined, {}, { page: 1, pageSize: 50 });
    * 
-   * // Obtener listas de un proveedor específico
-   * const listasProveedor = await usecase.getCombinedPrices('100');
+   * // Materiales con "urea" en la descripción, del más barato al más caro
+   * const urea = await usecase.getCombinedPrices('100', undefined, { q: 'urea', sort: 'costo_unitario', order: 'asc' }, { page: 1, pageSize: 50 });
+   * // { items: [...], pagination: { page: 1, pageSize: 50, total: 8, totalPages: 1, hasNext: false, nextPage: null } }
    */
-  public async getCombinedPrices(proveedorFilter?: string) {
+  public async getCombinedPrices(
+    proveedorFilter: string | undefined,
+    asOf: string | undefined,
+    filters: PriceListFilters,
+    page: PageRequest
+  ): Promise<Page<SupplierPriceRow>> {
     try {
-      return await this.repository.getPrices(proveedorFilter);
+      const [{ rows, total }, rates, thresholds] = await Promise.all([
+        this.repository.getPricesPage(proveedorFilter, asOf, filters, page),
+        this.repository.getTaxRates(),
+        this.repository.getVarianceThresholds(),
+      ]);
+
+      const totalPages = Math.ceil(total / page.pageSize);
+      const hasNext = page.page < totalPages;
+      return {
+        items: rows.map((row) => PriceVariance.evaluate(PriceCalculator.apply(row, rates), thresholds)),
+        pagination: {
+          page: page.page,
+          pageSize: page.pageSize,
+          total,
+          totalPages,
+          hasNext,
+          nextPage: hasNext ? page.page + 1 : null,
+        },
+      };
     } catch (error: any) {
       console.error("Error en getCombinedPrices:", error.message);
       throw error;
     }
   }
+
+  /**
+   * Obtiene los precios combinados como stream, para exportarlos sin cargarlos
+   * completos en memoria. Cada fila trae el mismo desglose de costo que
+   * getCombinedPrices.
+   * 
+   * @async
+   * @public
+   * @param {string} [proveedorFilter] - Código del proveedor para filtrar (opcional)
+   * @param {string} [asOf] - Fecha/hora de corte para consultar precios pasados (opcional)
+   * @param {PriceListFilters} [filters] - Filtros y orden, como en getCombinedPrices (sin paginar)
+   * @returns {Promise<Readable>} Stream de filas de precios combinados
+   * 
+   * @throws {Error} Si no es posible abrir la consulta
+   */
+  public async streamCombinedPrices(
+    proveedorFilter?: string,
+    asOf?: string,
+    filters: PriceListFilters = {}
+  ): Promise<Readable> {
+    try {
+      const rates = await this.repository.getTaxRates();
+      const rows = await this.repository.streamPrices(proveedorFilter, asOf, filters);
+
+      const priced = new Transform({
+        objectMode: true,
+        transform(row: SupplierPriceRow, _encoding, callback) {
+          callback(null, PriceCalculator.apply(row, rates));
+        },
+      });
+      // pipeline cierra el stream de la base de datos (y libera la conexión) si la exportación falla
+      pipeline(rows, priced, () => undefined);
+      return priced;
+    } catch (error: any) {
+      console.error("Error en streamCombinedPrices:", error.message);
+      throw error;
+    }
+  }
 }
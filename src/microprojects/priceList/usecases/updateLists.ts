@@ -1,12 +1,23 @@
 // src/services/updateLists.ts
 import RepositoryListPrecios from "../repositories/repositoryPriceList";
+import RepositorySubmissions from "../repositories/repositorySubmissions";
+import PriceList from "../domain/PriceList";
+import PriceListUpdate from "../domain/PriceListUpdate";
+import {
+  PriceListItem,
+  PriceListPatchField,
+  PriceListRowError,
+  PriceListSubmission,
+  SupplierPriceRow,
+  UpdatePriceListItem,
+} from "../../../shared/types/priceList";
 
 /**
  * Caso de uso para actualizar listas de precios existentes.
  * 
  * Este caso de uso gestiona la actualización de precios en listas existentes,
- * normalizando los datos recibidos y delegando la operación de actualización
- * al repositorio correspondiente.
+ * normalizando los datos recibidos y registrando los cambios como una
+ * solicitud que debe aprobar un comprador.
  * 
  * @class UpdateLists
  * @module PriceList/UseCases
@@ -19,6 +30,13 @@ class UpdateLists {
    */
   private repository: RepositoryListPrecios;
 
+  /**
+   * Repositorio de solicitudes de listas de precios
+   * @private
+   * @type {RepositorySubmissions}
+   */
+  private submissions: RepositorySubmissions;
+
   /**
    * Crea una instancia de UpdateLists.
    * 
@@ -29,19 +47,27 @@ class UpdateLists {
    */
   constructor() {
     this.repository = new RepositoryListPrecios();
+    this.submissions = new RepositorySubmissions();
   }
 
   /**
-   * Actualiza múltiples elementos de listas de precios.
+   * Solicita la actualización de múltiples elementos de listas de precios.
    * 
-   * Procesa un array de items a actualizar, adaptando la estructura de datos
-   * para incluir solo los campos modificados. Cada item puede actualizar:
-   * - costo_unitario: Nuevo costo unitario del producto
+   * Procesa un array de items a actualizar, convirtiendo cada uno en una
+   * entidad PriceListUpdate. Cada item puede actualizar:
+   * - costo_unitario: Nuevo costo unitario del producto, en la moneda y unidad en que está cotizado
    * - descuento1: Primer descuento aplicable
    * - descuento2: Segundo descuento aplicable
    * 
-   * Solo se incluyen en la actualización los campos que están definidos,
-   * permitiendo actualizaciones parciales.
+   * Solo se modifican las columnas enviadas (un campo ausente conserva su
+   * valor aprobado). Los cambios no se aplican directamente: se arma una
+   * solicitud en modo merge con cada registro completo (valores aprobados más
+   * los cambios) y las columnas enviadas en CAMPOS. Cuando un comprador la
+   * aprueba, solo esas columnas se aplican sobre el registro vigente en ese
+   * momento, de modo que otra actualización aprobada en el intermedio no se
+   * revierte. Los items que no pasan las validaciones del dominio se devuelven
+   * en `errors` con código INVALID, al igual que los registros inexistentes o
+   * de otro proveedor; el resto entra en la solicitud.
    * 
    * @async
    * @param {any[]} data - Array de items a actualizar
@@ -49,13 +75,16 @@ class UpdateLists {
    * @param {number} [data[].costo_unitario] - Nuevo costo unitario (opcional)
    * @param {number} [data[].descuento1] - Nuevo descuento 1 (opcional)
    * @param {number} [data[].descuento2] - Nuevo descuento 2 (opcional)
+   * @param {string} proveedor - ID del proveedor autenticado
+   * @param {string} actor - Quien realiza la operación
+   * @param {boolean} [submit=false] - true para enviar la solicitud a revisión de inmediato
    * 
-   * @returns {Promise<Object>} Resultado de la actualización
-   * @returns {number} return.updatedCount - Cantidad de registros actualizados
-   * @returns {Array} return.updatedItems - Array con los registros actualizados
+   * @returns {Promise<Object>} Resultado de la operación
+   * @returns {PriceListSubmission | null} return.submission - Solicitud creada (null si ningún item fue válido)
+   * @returns {Array} return.errors - Registros inválidos, no encontrados o de otro proveedor
    * @returns {string} return.message - Mensaje descriptivo del resultado
    * 
-   * @throws {Error} Si ocurre un error durante la actualización
+   * @throws {Error} Si ocurre un error al crear la solicitud
    * 
    * @example
    * const usecase = new UpdateLists();
@@ -69,21 +98,86 @@ class UpdateLists {
    *     id: 2,
    *     descuento2: 5
    *   }
-   * ]);
-   * // resultado: { updatedCount: 2, updatedItems: [...], message: '...' }
+   * ], '100', 'supplier:100');
+   * // resultado: { submission: { id: 14, status: 'draft', item_count: 2, ... }, errors: [], message: '...' }
    */
-  async updateListsPrecios(data: any[]) {
+  async updateListsPrecios(
+    data: any[],
+    proveedor: string,
+    actor: string,
+    submit: boolean = false
+  ): Promise<{ submission: PriceListSubmission | null; errors: PriceListRowError[]; message: string }> {
     try {
-      console.log(data);
+      const valid: UpdatePriceListItem[] = [];
+      const invalid: PriceListRowError[] = [];
+
+      for (const item of data) {
+        try {
+          valid.push(new PriceListUpdate(item).toObject()); // Aplica reglas y validaciones del dominio
+        } catch (error: any) {
+          invalid.push({ id: Number(item?.id) || 0, code: "INVALID", message: error.message });
+        }
+      }
+
+      const { rows, errors } = await this.repository.getPricesById(
+        [...new Set(valid.map((item) => item.id))],
+        proveedor
+      );
+      const current = new Map<number, SupplierPriceRow>(rows.map((row) => [Number(row.id), row]));
+
+      // Columnas enviadas por ID (si un ID se repite, gana el último valor de cada columna)
+      const changes = new Map<number, PriceListItem>();
+      const change = (item: PriceListItem, field: PriceListPatchField, value: number | string | null) => {
+        item[field] = value;
+        if (!item.CAMPOS!.includes(field)) item.CAMPOS!.push(field);
+      };
+      for (const update of valid) {
+        const row = current.get(update.id);
+        if (!row) continue;
+
+        const item = changes.get(update.id) ?? { COD_PROV: row.cod_prov, CAMPOS: [] };
+        if (update.costo_unitario !== undefined) change(item, "COSTO_UNIT", update.costo_unitario);
+        if (update.descuento1 !== undefined) change(item, "DESC1", update.descuento1);
+        if (update.descuento2 !== undefined) change(item, "DESC2", update.descuento2);
+        changes.set(update.id, item);
+      }
+
+      // La solicitud guarda el registro completo (valores aprobados más los cambios) para
+      // que el comprador lo revise, y en CAMPOS las columnas que se aplicarán al aprobarla.
+      // Los valores aprobados también deben cumplir las reglas para entrar en la solicitud
+      const items: PriceListItem[] = [];
+      for (const [id, item] of changes) {
+        const merged = PriceList.patch(current.get(id)!, item);
+        const [issue] = PriceList.validate(merged);
+        if (issue) {
+          invalid.push({ id, code: "INVALID", message: issue.message });
+        } else {
+          items.push({ ...new PriceList(merged).toObject(), CAMPOS: item.CAMPOS });
+        }
+      }
+
+      if (items.length === 0) {
+        return {
+          submission: null,
+          errors: [...invalid, ...errors],
+          message: "No se generó ninguna solicitud (no hay cambios válidos)",
+        };
+      }
 
-      const adapted = data.map((item) => ({
-        id: Number(item.id),
-        ...(item.costo_unitario !== undefined && { costo_unitario: Number(item.costo_unitario) }),
-        ...(item.descuento1 !== undefined && { descuento1: Number(item.descuento1) }),
-        ...(item.descuento2 !== undefined && { descuento2: Number(item.descuento2) }),
-      }));
+      const submission = await this.submissions.create({
+        proveedor,
+        mode: "merge",
+        source: "update-prices",
+        items,
+        actor,
+        submit,
+      });
 
-      return await this.repository.updateListPrice(adapted);
+      return {
+        submission,
+        errors: [...invalid, ...errors],
+        message: `Solicitud ${submission.id} creada con ${items.length} registros; los precios se aplicarán al aprobarse`,
+      };
     } catch (error: any) {
       console.error("Error en updateListsPrecios:", error.message);
       throw error;
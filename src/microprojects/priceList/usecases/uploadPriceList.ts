@@ -0,0 +1,108 @@
+import RepositorySubmissions from "../repositories/repositorySubmissions";
+import ValidatePriceList from "./validatePriceList";
+import PriceList from "../domain/PriceList";
+import {
+  PriceListItem,
+  PriceListSaveMode,
+  PriceListSubmission,
+  PriceListUploadError,
+  PriceListUploadRow,
+} from "../../../shared/types/priceList";
+
+/**
+ * Caso de uso para la carga masiva de listas de precios desde archivo.
+ *
+ * Recibe las filas ya leídas del CSV/XLSX, valida cada una con la entidad
+ * PriceList y, solo si todas son válidas, las registra como solicitud de
+ * lista de precios (se aplican al aprobarse). Los errores se reportan con la
+ * fila, la columna y el código.
+ *
+ * @class UploadPriceList
+ * @module PriceList/UseCases
+ */
+export default class UploadPriceList {
+  /**
+   * Repositorio de solicitudes de listas de precios
+   * @private
+   * @type {RepositorySubmissions}
+   */
+  private repository: RepositorySubmissions;
+
+  /**
+   * Validaciones del lote compartidas con la creación por API y la edición de solicitudes
+   * @private
+   * @type {ValidatePriceList}
+   */
+  private validator: ValidatePriceList;
+
+  /**
+   * Crea una instancia de UploadPriceList.
+   *
+   * @constructor
+   */
+  constructor() {
+    this.repository = new RepositorySubmissions();
+    this.validator = new ValidatePriceList();
+  }
+
+  /**
+   * Valida y registra las filas de un archivo de lista de precios.
+   *
+   * Si alguna fila no pasa las validaciones del dominio, repite un COD_PROV en
+   * el mismo centro, indica un centro o material que no existe en SAP o una
+   * moneda sin tasa de cambio (ver ValidatePriceList), no se guarda nada y se devuelven
+   * todos los errores encontrados.
+   *
+   * @async
+   * @public
+   * @param {PriceListUploadRow[]} rows - Filas leídas del archivo (con PROVEEDOR asignado)
+   * @param {string} proveedor - ID del proveedor dueño de la lista
+   * @param {PriceListSaveMode} mode - `merge` conserva los COD_PROV que no vienen; `replace` los elimina
+   * @param {string} actor - Quien realiza la operación
+   * @param {boolean} [submit=false] - true para enviar la solicitud a revisión de inmediato
+   * @returns {Promise<Object>} Resultado de la carga
+   * @returns {PriceListSubmission | null} return.submission - Solicitud creada (null si hubo errores)
+   * @returns {PriceListUploadError[]} return.errors - Errores por fila y columna
+   *
+   * @throws {Error} Si ocurre un error al crear la solicitud
+   *
+   * @example
+   * const usecase = new UploadPriceList();
+   * const { submission, errors } = await usecase.uploadListPrecios(
+   *   [{ row: 2, item: { COD_PROV: 'A100', COSTO_UNIT: '-5', PROVEEDOR: 1 } }],
+   *   '1',
+   *   'merge',
+   *   'supplier:1'
+   * );
+   * // errors: [{ row: 2, column: 'COSTO_UNIT', code: 'NEGATIVE', message: 'COSTO_UNIT no puede ser negativo' }]
+   */
+  public async uploadListPrecios(
+    rows: PriceListUploadRow[],
+    proveedor: string,
+    mode: PriceListSaveMode,
+    actor: string,
+    submit: boolean = false
+  ): Promise<{ submission: PriceListSubmission | null; errors: PriceListUploadError[] }> {
+    try {
+      // Se reportan todos los errores de cada fila, no solo el primero, en la fila donde aparecen
+      const issues = await this.validator.validate(rows.map(({ item }) => item), proveedor);
+      const errors: PriceListUploadError[] = issues.map((error) => ({
+        row: rows[error.index].row,
+        column: error.field,
+        code: error.code,
+        message: error.message,
+      }));
+      if (errors.length > 0) {
+        return { submission: null, errors: errors.sort((a, b) => a.row - b.row) };
+      }
+
+      const items: PriceListItem[] = rows.map(({ item }) => new PriceList(item).toObject());
+
+      const submission = await this.repository.create({ proveedor, mode, source: "upload", items, actor, submit });
+      return { submission, errors };
+    } catch (error: any) {
+      console.error("Error en uploadListPrecios:", error.message);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import RepositoryListaPrecios from "../repositories/repositoryPriceList";
+import PriceList from "../domain/PriceList";
+import PriceQuote from "../domain/PriceQuote";
+import { PriceListFieldError, PriceListItem } from "../../../shared/types/priceList";
+
+/**
+ * Caso de uso que valida un lote de precios antes de guardarlo como solicitud.
+ *
+ * Reúne en un solo lugar las validaciones que comparten la vista previa, la
+ * creación por API, la carga de archivos y la edición de una solicitud, para
+ * que un lote aceptado por cualquiera de ellas también se pueda aplicar al
+ * aprobarse y la vista previa reporte exactamente lo que se rechazaría.
+ *
+ * @class ValidatePriceList
+ * @module PriceList/UseCases
+ */
+export default class ValidatePriceList {
+  /**
+   * Repositorio de listas de precios (centros, tasas de cambio y materiales de SAP)
+   * @private
+   * @type {RepositoryListaPrecios}
+   */
+  private prices: RepositoryListaPrecios;
+
+  /**
+   * Crea una instancia de ValidatePriceList.
+   *
+   * @constructor
+   */
+  constructor() {
+    this.prices = new RepositoryListaPrecios();
+  }
+
+  /**
+   * Valida todo el lote y devuelve todos los errores juntos.
+   *
+   * 1. Reglas del dominio de cada item y COD_PROV repetidos en un centro
+   * 2. En los items sin errores de dominio: que el CENTRO exista en SAP y que
+   *    haya tasa de cambio para la MONEDA
+   * 3. En los items con centro válido: que el COD_PROV sea un material del
+   *    proveedor en ese centro (NOT_IN_SAP)
+   *
+   * @async
+   * @public
+   * @param {PriceListItem[]} data - Items del lote, sin normalizar
+   * @param {string} proveedor - ID del proveedor dueño de la lista
+   * @returns {Promise<PriceListFieldError[]>} Errores ordenados por posición del item (vacío si el lote es válido)
+   *
+   * @throws {Error} Si ocurre un error consultando los centros, las tasas de cambio o SAP
+   *
+   * @example
+   * const errors = await new ValidatePriceList().validate(lista, '100');
+   * if (errors.length > 0) throw new AppError('...', 422, errors);
+   */
+  public async validate(data: PriceListItem[], proveedor: string): Promise<PriceListFieldError[]> {
+    try {
+      const errors = PriceList.validateBatch(data);
+
+      // Centro y moneda se verifican en los items sin errores de dominio, con su posición original
+      const invalid = new Set(errors.map((error) => error.index));
+      const valid = data
+        .map((item, index) => ({ item, index }))
+        .filter(({ index }) => !invalid.has(index))
+        .map(({ item, index }) => ({ item: new PriceList(item).toObject(), index }));
+      if (valid.length > 0) {
+        const items = valid.map(({ item }) => item);
+        const [centros, rates] = await Promise.all([this.prices.getCentros(), this.prices.getExchangeRates()]);
+        const unknown = PriceList.findUnknownCentros(items, new Set(centros));
+        errors.push(
+          ...[...unknown, ...PriceQuote.findMissingRates(items, rates)].map((error) => ({
+            ...error,
+            index: valid[error.index].index,
+          }))
+        );
+
+        // El material se busca en SAP solo en los centros que existen
+        const withCentro = valid.filter((_, position) => !unknown.some((error) => error.index === position));
+        const inSap = await this.prices.findSapMaterials(proveedor, withCentro.map(({ item }) => item));
+        for (const { item, index } of withCentro) {
+          if (!inSap.has(PriceList.keyOf(item.COD_PROV, item.CENTRO!))) {
+            errors.push({
+              index,
+              field: "COD_PROV",
+              code: "NOT_IN_SAP",
+              message: `COD_PROV ${item.COD_PROV} no existe en SAP para el proveedor en el centro ${item.CENTRO}`,
+            });
+          }
+        }
+      }
+
+      return errors.sort((a, b) => a.index - b.index);
+    } catch (error: any) {
+      console.error("Error en validate:", error.message);
+      throw error;
+    }
+  }
+}
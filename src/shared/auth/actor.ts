@@ -0,0 +1,16 @@
+import { Request } from "express";
+
+/**
+ * Identifica a quien ejecuta una operación, para dejarlo en los registros de
+ * auditoría: `api-key:<id>`, `supplier-user:<id>` (colaborador),
+ * `supplier:<id_proveedor>` o `<rol>:<id>` para usuarios internos.
+ */
+export const actorOf = (req: Request): string => {
+  const user = (req as any).user;
+  if (!user) return "anonymous";
+
+  if (user.apiKeyId) return `api-key:${user.apiKeyId}`;
+  if (user.userId) return `supplier-user:${user.userId}`;
+
+  return `${user.role ?? "supplier"}:${user.id}`;
+};
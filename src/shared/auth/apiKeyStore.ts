@@ -0,0 +1,34 @@
+import pool from "../../config/database";
+
+export interface ActiveApiKey {
+  id: number;
+  proveedorId: string;
+  scopes: string[];
+}
+
+// Formato entregado al proveedor: tgk_<prefijo>_<secreto>
+export const API_KEY_PREFIX = "tgk_";
+
+export const isApiKeyFormat = (value: string): boolean => value.startsWith(API_KEY_PREFIX);
+
+/**
+ * Busca una API key vigente (no revocada) por el hash SHA-256 de la llave completa.
+ */
+export const findActiveApiKey = async (keyHash: string): Promise<ActiveApiKey | null> => {
+  const result = await pool.query(
+    `SELECT id, id_proveedor, scopes
+     FROM supplier_api_keys
+     WHERE key_hash = $1 AND revoked_at IS NULL`,
+    [keyHash]
+  );
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  return { id: row.id, proveedorId: row.id_proveedor, scopes: row.scopes ?? [] };
+};
+
+// Registra el último uso de la llave
+export const touchApiKey = async (id: number): Promise<void> => {
+  await pool.query(`UPDATE supplier_api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1`, [id]);
+};
@@ -1,14 +1,68 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
+import { verifyAccessToken } from "./tokenService";
+import { isTokenFamilyRevoked } from "./tokenRevocation";
+import { findActiveApiKey, isApiKeyFormat, touchApiKey } from "./apiKeyStore";
+import { hashOpaqueToken } from "./opaqueToken";
+import { permissionsFor } from "./roles";
 
-const JWT_SECRET = process.env.JWT_SECRET;
-if (!JWT_SECRET) throw new Error("JWT_SECRET no está definido");
+interface VerifyOptions {
+  allowPendingPasswordChange: boolean;
+  allowApiKey: boolean;
+}
 
-export const authMiddleware = (
+// La API key llega en X-Api-Key o como "Authorization: ApiKey <llave>"
+const extractApiKey = (req: Request): string | undefined => {
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header) return header.trim();
+
+  const [scheme, value] = (req.headers["authorization"] ?? "").split(" ");
+  if (scheme === "ApiKey" && value) return value.trim();
+
+  return undefined;
+};
+
+const verifyApiKey = async (apiKey: string, req: Request, res: Response, next: NextFunction) => {
+  let stored;
+  try {
+    stored = isApiKeyFormat(apiKey) ? await findActiveApiKey(hashOpaqueToken(apiKey)) : null;
+  } catch (error: any) {
+    console.error("Error verificando API key:", error.message);
+    return res.status(500).json({ error: "Error verificando la API key" });
+  }
+
+  if (!stored) {
+    return res.status(401).json({ error: "API key inválida o revocada" });
+  }
+
+  // El registro de uso no debe bloquear ni hacer fallar la petición
+  touchApiKey(stored.id).catch((error) =>
+    console.error("Error registrando uso de API key:", error.message)
+  );
+
+  (req as any).user = {
+    id: stored.proveedorId,
+    role: "supplier",
+    permissions: stored.scopes,
+    apiKeyId: stored.id,
+    authMethod: "api-key",
+  };
+  next();
+};
+
+const verifyRequest = async (
   req: Request,
   res: Response,
-  next: NextFunction
+  next: NextFunction,
+  options: VerifyOptions
 ) => {
+  const apiKey = extractApiKey(req);
+  if (apiKey) {
+    if (!options.allowApiKey) {
+      return res.status(403).json({ error: "Esta operación requiere iniciar sesión" });
+    }
+    return verifyApiKey(apiKey, req, res, next);
+  }
+
   const authHeader = req.headers["authorization"];
   if (!authHeader) {
     return res.status(401).json({ error: "Token requerido" });
@@ -16,12 +70,46 @@ export const authMiddleware = (
 
   const token = authHeader.split(" ")[1];
 
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, JWT_SECRET);
-    (req as any).user = decoded; 
-    next();
+    decoded = verifyAccessToken(token);
   } catch (error: any) {
     console.error("Error verificando token:", error.message);
     return res.status(403).json({ error: "Token inválido o expirado" });
   }
+
+  try {
+    if (decoded.fid && (await isTokenFamilyRevoked(decoded.fid))) {
+      return res.status(401).json({ error: "La sesión fue cerrada" });
+    }
+  } catch (error: any) {
+    console.error("Error consultando revocación de token:", error.message);
+    return res.status(500).json({ error: "Error verificando la sesión" });
+  }
+
+  // Un token emitido en el primer ingreso solo sirve para cambiar la contraseña
+  if (decoded.mustChangePassword && !options.allowPendingPasswordChange) {
+    return res.status(403).json({ error: "Debe cambiar su contraseña antes de continuar" });
+  }
+
+  // Tokens emitidos antes de RBAC solo pueden ser de proveedores
+  if (!decoded.role) {
+    decoded.role = "supplier";
+    decoded.permissions = permissionsFor("supplier");
+  }
+
+  decoded.authMethod = "jwt";
+  (req as any).user = decoded; 
+  next();
 };
+
+// Acepta Bearer JWT o API key de integración
+export const authMiddleware = (req: Request, res: Response, next: NextFunction) =>
+  verifyRequest(req, res, next, { allowPendingPasswordChange: false, allowApiKey: true });
+
+// Solo sesiones de usuario (JWT): p. ej. la gestión de las propias API keys
+export const sessionMiddleware = (req: Request, res: Response, next: NextFunction) =>
+  verifyRequest(req, res, next, { allowPendingPasswordChange: false, allowApiKey: false });
+
+export const passwordChangeMiddleware = (req: Request, res: Response, next: NextFunction) =>
+  verifyRequest(req, res, next, { allowPendingPasswordChange: true, allowApiKey: false });
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from "express";
+import { Permission, Role } from "./roles";
+
+// Deben usarse después de authMiddleware, que deja el usuario en req.user
+
+export const requireRole = (...roles: Role[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: "Token requerido" });
+    }
+    if (!roles.includes(user.role)) {
+      return res.status(403).json({ error: "No tiene permisos para esta operación" });
+    }
+    next();
+  };
+
+// Exige todos los permisos indicados
+export const requirePermission = (...permissions: Permission[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: "Token requerido" });
+    }
+    const granted: string[] = user.permissions ?? [];
+    if (!permissions.every((permission) => granted.includes(permission))) {
+      return res.status(403).json({ error: "No tiene permisos para esta operación" });
+    }
+    next();
+  };
+
+export const hasPermission = (req: Request, permission: Permission): boolean =>
+  ((req as any).user?.permissions ?? []).includes(permission);
+
+// Solo la cuenta principal del proveedor (NIT), con sesión iniciada; no colaboradores ni API keys
+export const requireSupplierOwner = (req: Request, res: Response, next: NextFunction) => {
+  const user = (req as any).user;
+  if (!user) {
+    return res.status(401).json({ error: "Token requerido" });
+  }
+  if (user.role !== "supplier" || user.userId || user.authMethod !== "jwt") {
+    return res.status(403).json({ error: "Solo la cuenta principal del proveedor puede realizar esta operación" });
+  }
+  next();
+};
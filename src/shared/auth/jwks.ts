@@ -0,0 +1,25 @@
+import { Request, Response } from "express";
+import { getKeyring } from "./tokenService";
+
+/**
+ * Publica las llaves públicas RS256 en formato JWKS para que otros servicios
+ * internos verifiquen los tokens de proveedores. Las llaves HS256 nunca se exponen.
+ */
+export const jwksHandler = (req: Request, res: Response) => {
+  try {
+    const keys = getKeyring()
+      .publicKeys()
+      .map((key) => ({
+        ...key.publicKey!.export({ format: "jwk" }),
+        kid: key.kid,
+        alg: key.alg,
+        use: "sig",
+      }));
+
+    res.set("Cache-Control", "public, max-age=300");
+    return res.json({ keys });
+  } catch (error: any) {
+    console.error("Error generando JWKS:", error.message);
+    return res.status(500).json({ error: "Error en el servidor" });
+  }
+};
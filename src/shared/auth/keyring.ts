@@ -0,0 +1,105 @@
+import fs from "fs";
+import crypto, { KeyObject } from "crypto";
+
+export type SigningAlgorithm = "HS256" | "RS256";
+
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  signingKey: string | KeyObject;      // secreto HMAC o llave privada RSA
+  verificationKey: string | KeyObject; // secreto HMAC o llave pública RSA
+  publicKey?: KeyObject;               // solo RS256, se publica en el JWKS
+}
+
+interface KeyConfig {
+  kid: string;
+  alg?: SigningAlgorithm;
+  secret?: string;          // HS256
+  privateKey?: string;      // RS256, PEM en línea
+  privateKeyPath?: string;  // RS256, ruta a archivo PEM
+}
+
+/**
+ * Conjunto de llaves para firmar y verificar JWT.
+ *
+ * Se configura con JWT_KEYS, un arreglo JSON de llaves con su `kid`:
+ *
+ *   JWT_KEYS=[{"kid":"2026-10","alg":"RS256","privateKeyPath":"keys/2026-10.pem"},
+ *             {"kid":"2026-04","alg":"HS256","secret":"..."}]
+ *   JWT_ACTIVE_KID=2026-10
+ *
+ * Solo la llave activa firma (por defecto la primera); todas las demás siguen
+ * verificando, de modo que una llave se puede rotar sin cerrar las sesiones
+ * vigentes. Sin JWT_KEYS se usa JWT_SECRET como única llave HS256 con kid
+ * "default", que también verifica los tokens antiguos emitidos sin `kid`.
+ */
+export class Keyring {
+  private readonly keys = new Map<string, SigningKey>();
+  private readonly activeKid: string;
+
+  constructor(configs: KeyConfig[], activeKid?: string) {
+    if (configs.length === 0) {
+      throw new Error("No hay llaves JWT configuradas (JWT_KEYS o JWT_SECRET)");
+    }
+
+    for (const config of configs) {
+      if (!config.kid) throw new Error("Cada llave JWT requiere un kid");
+      if (this.keys.has(config.kid)) throw new Error(`kid JWT duplicado: ${config.kid}`);
+      this.keys.set(config.kid, Keyring.toSigningKey(config));
+    }
+
+    this.activeKid = activeKid || configs[0].kid;
+    if (!this.keys.has(this.activeKid)) {
+      throw new Error(`JWT_ACTIVE_KID no corresponde a ninguna llave: ${this.activeKid}`);
+    }
+  }
+
+  static fromEnv(): Keyring {
+    if (process.env.JWT_KEYS) {
+      let configs: KeyConfig[];
+      try {
+        configs = JSON.parse(process.env.JWT_KEYS);
+      } catch {
+        throw new Error("JWT_KEYS no es un JSON válido");
+      }
+      return new Keyring(configs, process.env.JWT_ACTIVE_KID);
+    }
+
+    const secret = process.env.JWT_SECRET?.trim();
+    if (!secret) throw new Error("JWT_SECRET no está definido");
+    return new Keyring([{ kid: "default", alg: "HS256", secret }]);
+  }
+
+  get active(): SigningKey {
+    return this.keys.get(this.activeKid)!;
+  }
+
+  find(kid?: string): SigningKey | undefined {
+    // Tokens sin kid: emitidos antes de la rotación con JWT_SECRET
+    return this.keys.get(kid ?? "default");
+  }
+
+  publicKeys(): SigningKey[] {
+    return [...this.keys.values()].filter((key) => key.publicKey);
+  }
+
+  private static toSigningKey(config: KeyConfig): SigningKey {
+    const alg = config.alg ?? "HS256";
+
+    if (alg === "HS256") {
+      if (!config.secret) throw new Error(`La llave ${config.kid} requiere secret`);
+      return { kid: config.kid, alg, signingKey: config.secret, verificationKey: config.secret };
+    }
+
+    if (alg === "RS256") {
+      const pem = config.privateKey ?? (config.privateKeyPath && fs.readFileSync(config.privateKeyPath, "utf8"));
+      if (!pem) throw new Error(`La llave ${config.kid} requiere privateKey o privateKeyPath`);
+
+      const privateKey = crypto.createPrivateKey(pem);
+      const publicKey = crypto.createPublicKey(privateKey);
+      return { kid: config.kid, alg, signingKey: privateKey, verificationKey: publicKey, publicKey };
+    }
+
+    throw new Error(`Algoritmo JWT no soportado: ${alg}`);
+  }
+}
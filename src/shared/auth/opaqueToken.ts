@@ -0,0 +1,9 @@
+import crypto from "crypto";
+
+// Genera un token aleatorio para enviar al cliente (nunca se guarda en claro)
+export const generateOpaqueToken = (bytes = 32): string =>
+  crypto.randomBytes(bytes).toString("hex");
+
+// Hash SHA-256 con el que se persiste y se busca el token
+export const hashOpaqueToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
@@ -0,0 +1,10 @@
+import bcrypt from "bcrypt";
+
+// Costo de bcrypt configurable por entorno (10 por defecto)
+const SALT_ROUNDS = Number(process.env.BCRYPT_SALT_ROUNDS) || 10;
+
+export const hashPassword = (password: string): Promise<string> =>
+  bcrypt.hash(password, SALT_ROUNDS);
+
+export const verifyPassword = (password: string, hash: string): Promise<boolean> =>
+  bcrypt.compare(password, hash);
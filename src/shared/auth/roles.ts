@@ -0,0 +1,37 @@
+/**
+ * Roles y permisos del portal de proveedores.
+ *
+ * - supplier: proveedor externo, opera únicamente sobre sus propias listas.
+ * - buyer: comprador interno, consulta y revisa las listas de todos los proveedores.
+ * - admin: administrador interno, además gestiona usuarios y configuración.
+ */
+export type Role = "supplier" | "buyer" | "admin";
+
+export type Permission =
+  | "price-lists:read"
+  | "price-lists:write"
+  | "price-lists:read-all"
+  | "price-lists:review"
+  | "users:manage"
+  | "settings:manage";
+
+export const ROLES: Role[] = ["supplier", "buyer", "admin"];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  supplier: ["price-lists:read", "price-lists:write"],
+  buyer: ["price-lists:read", "price-lists:read-all", "price-lists:review"],
+  admin: [
+    "price-lists:read",
+    "price-lists:read-all",
+    "price-lists:review",
+    "users:manage",
+    "settings:manage",
+  ],
+};
+
+// Permisos que un proveedor puede delegar en una API key de integración (ERP)
+export const API_KEY_SCOPES: Permission[] = ["price-lists:read", "price-lists:write"];
+
+export const permissionsFor = (role: Role): Permission[] => [...(ROLE_PERMISSIONS[role] ?? [])];
+
+export const isInternalRole = (role: Role): boolean => role !== "supplier";
@@ -0,0 +1,15 @@
+import pool from "../../config/database";
+
+/**
+ * Indica si la familia de refresh tokens asociada a un access token fue revocada
+ * (logout, cambio de contraseña o reutilización de un refresh token).
+ */
+export const isTokenFamilyRevoked = async (familyId: string): Promise<boolean> => {
+  const result = await pool.query(
+    `SELECT revoked_at FROM refresh_token_families WHERE family_id = $1`,
+    [familyId]
+  );
+
+  // Una familia desconocida se trata como revocada
+  return result.rows.length === 0 || result.rows[0].revoked_at !== null;
+};
@@ -0,0 +1,38 @@
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { Keyring } from "./keyring";
+
+// Vigencia del access token; la sesión se extiende con el refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+
+// Las llaves se cargan en el primer uso para no fallar al importar el módulo
+let keyring: Keyring | null = null;
+
+export const getKeyring = (): Keyring => {
+  if (!keyring) keyring = Keyring.fromEnv();
+  return keyring;
+};
+
+export const signAccessToken = (payload: object): string => {
+  const key = getKeyring().active;
+  return jwt.sign(payload, key.signingKey, {
+    algorithm: key.alg,
+    keyid: key.kid,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
+};
+
+// Lanza si el token es inválido, expiró o fue firmado con una llave desconocida
+export const verifyAccessToken = (token: string): JwtPayload => {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new Error("Token mal formado");
+  }
+
+  const key = getKeyring().find(decoded.header.kid);
+  if (!key) {
+    throw new Error(`Llave de firma desconocida: ${decoded.header.kid}`);
+  }
+
+  // Se fija el algoritmo de la llave para evitar ataques de confusión de algoritmo
+  return jwt.verify(token, key.verificationKey, { algorithms: [key.alg] }) as JwtPayload;
+};
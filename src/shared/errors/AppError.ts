@@ -0,0 +1,23 @@
+/**
+ * Error de aplicación con código HTTP asociado.
+ *
+ * Los casos de uso lanzan AppError para errores esperados (datos inválidos,
+ * credenciales incorrectas, recursos inexistentes) y los controladores lo
+ * traducen al código de estado correspondiente en lugar de un 500 genérico.
+ *
+ * @class AppError
+ * @module Shared/Errors
+ *
+ * @example
+ * throw new AppError("La contraseña actual es incorrecta", 401);
+ */
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number = 400,
+    public readonly errors: any[] = []
+  ) {
+    super(message);
+    this.name = "AppError";
+  }
+}
@@ -0,0 +1,20 @@
+import fs from "fs/promises";
+import path from "path";
+import { MailMessage, MailTransport } from "./MailTransport";
+
+// Escribe cada correo como un archivo JSON en el directorio de salida
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2)
+    );
+  }
+}
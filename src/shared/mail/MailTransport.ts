@@ -0,0 +1,16 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transporte de correo desacoplado del proveedor real de envío.
+ *
+ * En desarrollo y pruebas los mensajes quedan en un archivo o en memoria
+ * para poder inspeccionarlos; en producción se envían por SMTP.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,14 @@
+import { MailMessage, MailTransport } from "./MailTransport";
+
+// Bandeja en memoria: útil en pruebas para inspeccionar los correos enviados
+export class MemoryMailTransport implements MailTransport {
+  public readonly outbox: (MailMessage & { sentAt: Date })[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push({ ...message, sentAt: new Date() });
+  }
+
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
@@ -0,0 +1,21 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { MailMessage, MailTransport } from "./MailTransport";
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(private readonly from: string) {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
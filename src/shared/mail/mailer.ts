@@ -0,0 +1,28 @@
+import { MailTransport } from "./MailTransport";
+import { FileMailTransport } from "./FileMailTransport";
+import { MemoryMailTransport } from "./MemoryMailTransport";
+import { SmtpMailTransport } from "./SmtpMailTransport";
+
+/**
+ * Crea el transporte de correo según MAIL_TRANSPORT (file | memory | smtp).
+ *
+ * Por defecto se usa SMTP en producción y archivo en los demás entornos.
+ */
+export const createMailTransport = (): MailTransport => {
+  const kind =
+    process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? "smtp" : "file");
+
+  switch (kind) {
+    case "memory":
+      return new MemoryMailTransport();
+    case "smtp":
+      return new SmtpMailTransport(process.env.MAIL_FROM || "no-reply@tierragro.com");
+    case "file":
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+    default:
+      throw new Error(`MAIL_TRANSPORT no soportado: ${kind}`);
+  }
+};
+
+// Instancia compartida por toda la aplicación
+export const mailer: MailTransport = createMailTransport();
@@ -1,20 +1,28 @@
 // src/shared/types/priceList.ts
+// Columnas que puede cambiar una actualización parcial (POST /update-prices)
+export type PriceListPatchField = "COSTO_UNIT" | "DESC1" | "DESC2";
+
 export interface PriceListItem {
   COD_PROV: string;                      // obligatorio (id o código del proveedor) - Alfanumérico, máximo 12 caracteres
   COD_SAP?: string | null;              // opcional - Numérico, máximo 6 dígitos
   DESCRIP?: string | null;              // opcional - Alfanumérico, máximo 40 caracteres contando espacios
-  COSTO_UNIT?: number | string | null;  // puede venir como string desde el cliente - Decimal
+  COSTO_UNIT?: number | string | null;  // puede venir como string desde el cliente - Decimal, en MONEDA por UNIDAD
   DESC1?: number | string | null;       // Numérico, máximo 3 dígitos
   DESC2?: number | string | null;       // Numérico, máximo 3 dígitos
   PROVEEDOR?: number | null;             // id del proveedor
+  CENTRO?: string | null;               // centro de distribución (bk_centro de SAP); por defecto el centro principal
+  MONEDA?: string | null;               // moneda de COSTO_UNIT (ISO 4217, 3 letras); por defecto COP
+  UNIDAD?: string | null;               // unidad de medida cotizada (máx. 3 caracteres); por defecto la unidad base de SAP
+  FACTOR_UNIDAD?: number | string | null; // unidades base de SAP por UNIDAD (p. ej. 12 para una caja de 12); por defecto 1
+  CAMPOS?: PriceListPatchField[] | null; // solo en actualizaciones parciales: columnas que cambian; el resto se toma del registro vigente al aplicar
   // agrega aquí nuevos campos que vayan a compartirse entre capas
 }
 // src/types/priceList.ts
 export interface UpdatePriceListItem {
   id: number;
-  costo_unitario?: number | string;
-  descuento1?: number | string;
-  descuento2?: number | string;
+  costo_unitario?: number | string | null; // en la moneda y unidad cotizadas del registro
+  descuento1?: number | string | null;
+  descuento2?: number | string | null;
 }
 
 export interface dateValidity {
@@ -22,20 +30,335 @@ export interface dateValidity {
   idProveedor?: number | string;
   fecha_inicio?: Date | string;
   fecha_fin?: Date | string;
+  submission_id?: number | null;
+}
+
+// Vigencia guardada en date_validity; las fechas son YYYY-MM-DD y ambos extremos son inclusivos
+export interface ValidityWindow {
+  id: number;
+  id_proveedor: string;
+  fecha_inicio: string;
+  fecha_fin: string;
+  submission_id: number | null; // versión de la lista de precios (null en vigencias anteriores a las versiones)
+  estado: ValidityWindowState;
+  submission_status?: SubmissionStatus | null;
+  item_count?: number | null;
+  status?: ValidityWindowStatus;
+}
+
+// Estado guardado de una vigencia; lo avanza el programador de vigencias (scheduled -> active -> expired)
+export type ValidityWindowState = "scheduled" | "active" | "expired";
+
+// Resultado de una corrida del programador de vigencias
+export interface ValiditySchedulerRun {
+  date: string;
+  activated: ValidityWindow[];
+  expired: ValidityWindow[];
+  skipped: { id: number; reason: string }[]; // vigencias que debían activarse y siguen programadas
+}
+
+// Situación de una vigencia respecto de una fecha
+export type ValidityWindowStatus = "current" | "upcoming" | "expired";
+
+// Vigencias de un proveedor a una fecha (GET /date-validity)
+export interface ValidityOverview {
+  date: string;
+  current: ValidityWindow | null;
+  upcoming: ValidityWindow[]; // de la más próxima a la más lejana
+  expired: ValidityWindow[];  // de la más reciente a la más antigua
 }
 
 export interface SupplierPriceRow {
   id: number;
   cod_prov: string;
   cod_sap: string;
-  costo_unitario: number;
+  costo_unitario: number;  // en COP por unidad base de SAP (convertido desde la cotización)
   descuento1: number;
   descuento2: number;
   proveedor_id: number;
+  centro?: string;  // centro de distribución (bk_centro) al que aplica el costo
+  costo_original?: number | string | null;  // costo tal como lo cotizó el proveedor
+  moneda?: string | null;                   // moneda de costo_original
+  unidad?: string | null;                   // unidad cotizada (null = unidad base de SAP)
+  factor_unidad?: number | string | null;   // unidades base por unidad cotizada
+  tasa_cambio?: number | string | null;     // COP por unidad de moneda usada en la conversión
+  fecha_tasa?: string | null;               // fecha de la tasa de cambio (YYYY-MM-DD; null en COP)
   fecha_actualizacion_precio?: Date;
   descripcion?: string;
   tipo_impuesto?: string;
-  precio_bruto?: number;
-  precio_neto?: number;
+  precio_bruto?: number | null;      // costo unitario antes de descuentos
+  costo_descuentos?: number | null;  // costo con DESC1 y luego DESC2 en cascada
+  tasa_impuesto?: number | null;     // % según tipo_impuesto (null si el código no está en price_tax_rates)
+  impuesto?: number | null;
+  precio_neto?: number | null;       // costo con descuentos más impuesto
   fecha_actualizacion_proveedor?: Date;
-}
\ No newline at end of file
+  categoria?: string | null;
+  precio_sap?: number | null; // atr_precio_efectiv de postgre_sap.stg_consulta_costo
+  variance?: PriceVariance; // variación del costo neto del proveedor frente al precio efectivo de SAP
+}
+// Error por fila en operaciones masivas (actualización de precios, vigencias).
+// INVALID: el item no pasó las validaciones del dominio y no se envió a la base de datos
+export interface PriceListRowError {
+  id: number;
+  code: "NOT_FOUND" | "FORBIDDEN" | "INVALID";
+  message: string;
+}
+
+// Entrada del historial de precios (supplier_price_history), solo se agregan filas
+export interface PriceHistoryEntry {
+  id: number;
+  price_list_id: number;
+  proveedor_id: string;
+  cod_prov: string | null;
+  cod_sap: string | null;
+  centro: string | null;
+  action: "INSERT" | "UPDATE" | "DELETE";
+  costo_original: number | null; // cotización del registro después del cambio
+  moneda: string | null;
+  unidad: string | null;
+  factor_unidad: number | null;
+  tasa_cambio: number | null;
+  old_costo_unitario: number | null;
+  old_descuento1: number | null;
+  old_descuento2: number | null;
+  new_costo_unitario: number | null;
+  new_descuento1: number | null;
+  new_descuento2: number | null;
+  changed_by: string;
+  changed_at: Date;
+  vigencia_inicio: Date | null; // vigencia activa del proveedor al momento del cambio
+  vigencia_fin: Date | null;
+}
+
+// Códigos de error de validación de los campos de una lista de precios
+export type PriceListErrorCode =
+  | "REQUIRED"
+  | "TOO_LONG"
+  | "INVALID_FORMAT"
+  | "NEGATIVE"
+  | "NOT_INTEGER"
+  | "OUT_OF_RANGE"
+  | "DUPLICATE"    // COD_PROV repetido (en el mismo CENTRO) dentro del mismo lote
+  | "NOT_IN_SAP"   // COD_PROV sin material del proveedor, o CENTRO inexistente, en postgre_sap.stg_consulta_costo
+  | "OVERLAP"      // vigencia que se superpone con otra del proveedor
+  | "NO_EXCHANGE_RATE" // MONEDA sin tasa de cambio registrada en price_exchange_rates
+  | "NOT_FOUND";   // referencia a un registro inexistente o de otro proveedor
+
+// Error de validación de un campo; index es la posición del item en el lote (desde 0)
+export interface PriceListFieldError {
+  index: number;
+  field: string;
+  code: PriceListErrorCode;
+  message: string;
+}
+
+// Fila leída de un archivo de carga masiva (CSV/XLSX); row es el número de fila en la hoja
+export interface PriceListUploadRow {
+  row: number;
+  item: PriceListItem;
+}
+
+// Error de una fila del archivo; column es el encabezado de la columna que falló (null si aplica a toda la fila)
+export interface PriceListUploadError {
+  row: number;
+  column: string | null;
+  code: PriceListErrorCode;
+  message: string;
+}
+
+// Cambio de un campo frente al precio vigente; delta y deltaPct solo aplican a campos numéricos
+export interface PriceListFieldChange {
+  field: "COD_SAP" | "COSTO_UNIT" | "COSTO_CONVERTIDO" | "MONEDA" | "UNIDAD" | "FACTOR_UNIDAD" | "DESC1" | "DESC2";
+  current: number | string | null;
+  proposed: number | string | null;
+  delta: number | null;
+  deltaPct: number | null;
+}
+
+// Item de la vista previa; current es el registro vigente del proveedor para ese COD_PROV
+export interface PriceListPreviewItem {
+  index: number;
+  item: PriceListItem;
+  current: SupplierPriceRow | null;
+  changes: PriceListFieldChange[];
+}
+
+// Resultado de validar una lista sin guardarla (POST /validate?dryRun=true)
+// removed solo se llena en modo replace: registros vigentes cuyo COD_PROV no viene en la lista
+export interface PriceListPreview {
+  valid: boolean;
+  mode: PriceListSaveMode;
+  summary: { total: number; new: number; changed: number; unchanged: number; removed: number; errors: number };
+  new: PriceListPreviewItem[];
+  changed: PriceListPreviewItem[];
+  unchanged: PriceListPreviewItem[];
+  removed: SupplierPriceRow[];
+  errors: PriceListFieldError[];
+}
+
+// Modo de registro de una lista: merge agrega y actualiza; replace además elimina los COD_PROV que no vienen
+export type PriceListSaveMode = "merge" | "replace";
+
+// Resultado del registro (upsert por proveedor, centro y COD_PROV) de una lista de precios
+export interface PriceListSaveResult {
+  mode: PriceListSaveMode;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  removed: number;       // registros eliminados por no venir en la lista (modo replace)
+  deduplicated: number;  // registros repetidos de un mismo COD_PROV que se eliminaron
+  items: SupplierPriceRow[]; // registros insertados o actualizados
+}
+
+// Estados de una solicitud de lista de precios:
+// draft → submitted → in_review → approved | rejected | changes_requested (→ draft o submitted)
+export type SubmissionStatus =
+  | "draft"
+  | "submitted"
+  | "in_review"
+  | "approved"
+  | "rejected"
+  | "changes_requested";
+
+// Ruta por la que el proveedor envió los precios
+export type SubmissionSource = "validate" | "upload" | "update-prices";
+
+// Solicitud de cambio de precios; solo al aprobarse sus items pasan a supplier_price_list
+export interface PriceListSubmission {
+  id: number;
+  proveedor_id: string;
+  status: SubmissionStatus;
+  mode: PriceListSaveMode;
+  source: SubmissionSource;
+  item_count: number;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  review_comment: string | null; // última nota del comprador
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  items?: PriceListItem[];
+  events?: PriceListSubmissionEvent[];
+}
+
+// Cambio de estado de una solicitud (solo se agregan filas)
+export interface PriceListSubmissionEvent {
+  id: number;
+  submission_id: number;
+  from_status: SubmissionStatus | null;
+  to_status: SubmissionStatus;
+  actor: string;
+  comment: string | null;
+  created_at: Date;
+}
+
+// Tasa de impuesto por código tax_1 de SAP (price_tax_rates)
+export interface PriceTaxRate {
+  tax_code: string;
+  rate_pct: number | string;
+}
+
+// Tasa de cambio de una moneda a COP en una fecha (price_exchange_rates)
+export interface ExchangeRate {
+  moneda: string;
+  fecha: string;          // YYYY-MM-DD
+  tasa: number | string;  // COP por 1 unidad de moneda
+}
+
+// Cotización de un item convertida por PriceQuote a COP y unidad base de SAP
+export interface NormalizedQuote {
+  costo_unitario: string | null; // COP por unidad base
+  costo_original: string | null;
+  moneda: string;
+  unidad: string | null;
+  factor_unidad: string;
+  tasa_cambio: string;
+  fecha_tasa: string | null;
+}
+
+// Desglose del costo de un item calculado por PriceCalculator
+export interface PriceBreakdown {
+  precio_bruto: number | null;
+  costo_descuentos: number | null;
+  tasa_impuesto: number | null;
+  impuesto: number | null;
+  precio_neto: number | null;
+}
+
+// Alcance de un umbral de variación; el más específico gana: supplier → category → global
+export type PriceVarianceScope = "global" | "category" | "supplier";
+
+// Umbral máximo de variación (en %) frente al precio efectivo de SAP; scope_key es la categoría o el proveedor
+export interface PriceVarianceThreshold {
+  scope: PriceVarianceScope;
+  scope_key: string | null;
+  max_pct: number;
+}
+
+// Variación de un item: (costo_neto - precio_sap) / precio_sap * 100
+// Sin precio SAP (o en cero) no se calcula y el item no se marca
+export interface PriceVariance {
+  costo_neto: number | null;  // costo_unitario con DESC1 y luego DESC2
+  precio_sap: number | null;  // atr_precio_efectiv
+  diferencia: number | null;
+  variacion_pct: number | null;
+  umbral_pct: number;
+  umbral_origen: PriceVarianceScope | "default"; // default: PRICE_VARIANCE_MAX_PCT
+  excede: boolean;
+}
+
+// Reporte de variaciones para compradores (GET /variance-report)
+export interface PriceVarianceReport {
+  summary: { total: number; flagged: number; withoutSapPrice: number };
+  items: SupplierPriceRow[]; // solo los marcados, de mayor a menor variación absoluta
+}
+
+// Columnas de GET /validate-products por las que se puede ordenar
+export type PriceListSortField =
+  | "id"
+  | "cod_prov"
+  | "cod_sap"
+  | "descripcion"
+  | "costo_unitario"
+  | "descuento1"
+  | "descuento2"
+  | "proveedor_id"
+  | "fecha_actualizacion_precio"
+  | "tipo_impuesto"
+  | "precio_sap"
+  | "categoria"
+  | "centro";
+
+// Filtros y orden de la consulta de listas de precios; los textos buscan sin distinguir mayúsculas
+export interface PriceListFilters {
+  cod_prov?: string;        // empieza por
+  cod_sap?: string;         // empieza por
+  q?: string;               // contenido en la descripción
+  tipo_impuesto?: string;   // igual a
+  updatedFrom?: string;     // fecha_actualizacion_precio desde (inclusive)
+  updatedTo?: string;       // fecha_actualizacion_precio hasta (inclusive)
+  minPrice?: number;        // costo_unitario desde
+  maxPrice?: number;        // costo_unitario hasta
+  centros?: string[];       // solo estos centros de distribución (el pedido o los permitidos al usuario)
+  sort?: PriceListSortField;
+  order?: "asc" | "desc";
+}
+
+// Página solicitada (page empieza en 1)
+export interface PageRequest {
+  page: number;
+  pageSize: number;
+}
+
+// Página de resultados con el total de registros que cumplen los filtros
+export interface Page<T> {
+  items: T[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    nextPage: number | null;
+  };
+}